@@ -0,0 +1,371 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { BarChart } from '@/components/analytics/BarChart';
+import { LineChart } from '@/components/analytics/LineChart';
+import { FormButton } from '@/components/auth/FormButton';
+import { FormInput } from '@/components/auth/FormInput';
+import { useAuth, useProfile } from '@/lib/auth/hooks';
+import { usePersonalRecords } from '@/lib/gamification/hooks';
+import { describeRecord, formatRecordValue } from '@/lib/gamification/records';
+import { localDate } from '@/lib/utils/dates';
+import {
+  ANALYTICS_PRESETS,
+  presetAnalyticsRange,
+  validateAnalyticsRange,
+  type AnalyticsPeriod,
+  type AnalyticsPreset,
+  type AnalyticsRange,
+  type PeriodTotals,
+} from '@/lib/workouts/analytics';
+import { useWorkoutAnalytics } from '@/lib/workouts/hooks';
+
+type TotalsMetric = 'minutes' | 'distanceKm' | 'calories' | 'workouts';
+
+const METRIC_LABELS: Record<TotalsMetric, string> = {
+  minutes: 'Minutes',
+  distanceKm: 'Distance',
+  calories: 'Calories',
+  workouts: 'Workouts',
+};
+
+const METRIC_UNITS: Record<TotalsMetric, string> = {
+  minutes: ' min',
+  distanceKm: ' km',
+  calories: ' cal',
+  workouts: '',
+};
+
+const PERIOD_LABELS: Record<AnalyticsPeriod, string> = {
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+// Record history entries shown under the current records
+const RECORD_HISTORY_SHOWN = 10;
+
+const selectClassName =
+  'w-full rounded-lg border border-gray-300 px-4 py-2 focus:border-transparent focus:ring-2 focus:ring-blue-500';
+
+function periodLabel(periodStart: string, period: AnalyticsPeriod): string {
+  return period === 'month' ? periodStart.slice(0, 7) : periodStart;
+}
+
+function formatChange(value: number, baseline: number | null, unit: string): string {
+  if (baseline === null) return 'No baseline yet';
+  const change = Math.round((value - baseline) * 10) / 10;
+  if (change === 0) return 'Same as your baseline';
+  return `${change > 0 ? '+' : ''}${change}${unit} vs. baseline of ${baseline}${unit}`;
+}
+
+export default function AnalyticsPage() {
+  const { user, loading: authLoading } = useAuth();
+  const { profile, loading: profileLoading } = useProfile();
+  const [range, setRange] = useState<AnalyticsRange | null>(null);
+  const [period, setPeriod] = useState<AnalyticsPeriod>('week');
+  const [draftRange, setDraftRange] = useState<AnalyticsRange | null>(null);
+  const [rangeError, setRangeError] = useState<string | null>(null);
+  const [metric, setMetric] = useState<TotalsMetric>('minutes');
+  const { analytics, loading, error } = useWorkoutAnalytics(range, period);
+  const { records } = usePersonalRecords();
+
+  if (authLoading || profileLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="inline-block h-12 w-12 animate-spin rounded-full border-b-2 border-blue-600"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <p className="text-gray-600">Please log in to see your analytics.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const today = localDate(profile?.timezone);
+  // Until a range is chosen the inputs show the default one the API used
+  const shownRange = draftRange ?? analytics?.range ?? { from: '', to: today };
+
+  const handleRangeChange =
+    (field: keyof AnalyticsRange) => (e: React.ChangeEvent<HTMLInputElement>) => {
+      setDraftRange({ ...shownRange, [field]: e.target.value });
+    };
+
+  const applyRange = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateAnalyticsRange(shownRange);
+    setRangeError(validationError?.message ?? null);
+    if (!validationError) setRange(shownRange);
+  };
+
+  const applyPreset = (preset: AnalyticsPreset) => {
+    const selected = presetAnalyticsRange(preset, today);
+    setRangeError(null);
+    setDraftRange(selected.range);
+    setRange(selected.range);
+    setPeriod(selected.period);
+  };
+
+  const chartPeriod = analytics?.period ?? period;
+  const periods: PeriodTotals[] = analytics?.periods ?? [];
+  const maxTypeMinutes = Math.max(1, ...(analytics?.types ?? []).map((type) => type.minutes));
+  const baseline = analytics?.baseline;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="mx-auto flex max-w-5xl items-center justify-between px-4 py-4 sm:px-6 lg:px-8">
+          <h1 className="text-2xl font-bold text-gray-900">Analytics</h1>
+          <Link href="/dashboard" className="text-sm font-medium text-blue-600 hover:text-blue-500">
+            Back to dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-5xl space-y-6 px-4 py-8 sm:px-6 lg:px-8">
+        {/* Date range */}
+        <form onSubmit={applyRange} className="rounded-lg bg-white p-6 shadow">
+          <div className="mb-4 flex flex-wrap gap-2">
+            {(Object.keys(ANALYTICS_PRESETS) as AnalyticsPreset[]).map((preset) => (
+              <button
+                key={preset}
+                type="button"
+                onClick={() => applyPreset(preset)}
+                className="rounded-lg border border-gray-300 px-3 py-1 text-sm font-medium text-gray-700 hover:bg-gray-100"
+              >
+                {ANALYTICS_PRESETS[preset].label}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 gap-x-4 sm:grid-cols-3">
+            <FormInput
+              label="From"
+              type="date"
+              value={shownRange.from}
+              max={today}
+              onChange={handleRangeChange('from')}
+            />
+            <FormInput
+              label="To"
+              type="date"
+              value={shownRange.to}
+              max={today}
+              onChange={handleRangeChange('to')}
+            />
+            <div className="mb-4">
+              <label htmlFor="period" className="mb-1 block text-sm font-medium text-gray-700">
+                Group by
+              </label>
+              <select
+                id="period"
+                value={period}
+                onChange={(e) => setPeriod(e.target.value as AnalyticsPeriod)}
+                className={selectClassName}
+              >
+                {(Object.keys(PERIOD_LABELS) as AnalyticsPeriod[]).map((option) => (
+                  <option key={option} value={option}>
+                    {PERIOD_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {rangeError && <p className="mb-4 text-sm text-red-600">{rangeError}</p>}
+          <FormButton type="submit" variant="secondary" loading={loading}>
+            Apply
+          </FormButton>
+        </form>
+
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-600">
+            {error}
+          </div>
+        )}
+
+        {analytics && (
+          <>
+            {/* Range totals */}
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              {(Object.keys(METRIC_LABELS) as TotalsMetric[]).map((key) => (
+                <div key={key} className="rounded-lg bg-white p-4 shadow">
+                  <p className="text-sm font-medium text-gray-500">{METRIC_LABELS[key]}</p>
+                  <p className="text-2xl font-semibold text-gray-900">
+                    {analytics.totals[key]}
+                    <span className="text-sm font-normal text-gray-500">{METRIC_UNITS[key]}</span>
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {/* Totals per period */}
+            <div className="rounded-lg bg-white p-6 shadow">
+              <div className="mb-4 flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900">
+                  {PERIOD_LABELS[chartPeriod]} {METRIC_LABELS[metric].toLowerCase()}
+                </h2>
+                <select
+                  value={metric}
+                  onChange={(e) => setMetric(e.target.value as TotalsMetric)}
+                  className="rounded-lg border border-gray-300 px-3 py-1 text-sm"
+                >
+                  {(Object.keys(METRIC_LABELS) as TotalsMetric[]).map((key) => (
+                    <option key={key} value={key}>
+                      {METRIC_LABELS[key]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <BarChart
+                data={periods.map((row) => ({
+                  label: periodLabel(row.periodStart, chartPeriod),
+                  value: row[metric],
+                }))}
+                unit={METRIC_UNITS[metric]}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+              {/* Breakdown by type */}
+              <div className="rounded-lg bg-white p-6 shadow">
+                <h2 className="mb-4 text-lg font-semibold text-gray-900">By activity</h2>
+                {analytics.types.length === 0 ? (
+                  <p className="text-sm text-gray-500">No workouts in this range.</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {analytics.types.map((type) => (
+                      <li key={type.activityType}>
+                        <div className="flex justify-between text-sm">
+                          <span className="font-medium text-gray-900">{type.label}</span>
+                          <span className="text-gray-500">
+                            {type.workouts} workouts · {type.minutes} min
+                            {type.distanceKm > 0 && ` · ${type.distanceKm} km`}
+                          </span>
+                        </div>
+                        <div className="mt-1 h-2 w-full rounded-full bg-gray-200">
+                          <div
+                            className="h-2 rounded-full bg-green-500"
+                            style={{ width: `${(type.minutes / maxTypeMinutes) * 100}%` }}
+                          ></div>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Heart-rate trend */}
+              <div className="rounded-lg bg-white p-6 shadow">
+                <h2 className="mb-4 text-lg font-semibold text-gray-900">Average heart rate</h2>
+                <LineChart
+                  data={periods.map((row) => ({
+                    label: periodLabel(row.periodStart, chartPeriod),
+                    value: row.avgHeartRate,
+                  }))}
+                  unit=" bpm"
+                />
+              </div>
+            </div>
+
+            {/* Baseline comparison */}
+            {baseline && (
+              <div className="rounded-lg bg-white p-6 shadow">
+                <h2 className="mb-4 text-lg font-semibold text-gray-900">Against your baseline</h2>
+                <dl className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                  <div>
+                    <dt className="text-sm text-gray-500">Workouts per week</dt>
+                    <dd className="text-xl font-semibold text-gray-900">
+                      {baseline.avgWeeklyWorkouts}
+                    </dd>
+                    <dd className="text-xs text-gray-500">
+                      {formatChange(
+                        baseline.avgWeeklyWorkouts,
+                        baseline.baseline?.avgWeeklyWorkouts ?? null,
+                        ''
+                      )}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-sm text-gray-500">Minutes per workout</dt>
+                    <dd className="text-xl font-semibold text-gray-900">
+                      {baseline.avgWorkoutDuration ?? '—'}
+                    </dd>
+                    <dd className="text-xs text-gray-500">
+                      {baseline.avgWorkoutDuration === null
+                        ? 'No workouts in this range'
+                        : formatChange(
+                            baseline.avgWorkoutDuration,
+                            baseline.baseline?.avgWorkoutDuration ?? null,
+                            ' min'
+                          )}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-sm text-gray-500">Distance per week</dt>
+                    <dd className="text-xl font-semibold text-gray-900">
+                      {baseline.avgWeeklyDistance} km
+                    </dd>
+                    <dd className="text-xs text-gray-500">
+                      {formatChange(
+                        baseline.avgWeeklyDistance,
+                        baseline.baseline?.avgWeeklyDistance ?? null,
+                        ' km'
+                      )}
+                    </dd>
+                  </div>
+                </dl>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Personal records */}
+        {records && (
+          <div className="rounded-lg bg-white p-6 shadow">
+            <h2 className="mb-4 text-lg font-semibold text-gray-900">Personal records</h2>
+            {records.current.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Log workouts with a distance or duration to start setting records.
+              </p>
+            ) : (
+              <>
+                <ul className="mb-6 divide-y divide-gray-100 text-sm">
+                  {records.current.map((record) => (
+                    <li key={record.id} className="flex justify-between py-2">
+                      <span className="text-gray-900">{describeRecord(record)}</span>
+                      <span className="text-gray-600">
+                        {formatRecordValue(record.record_type, record.value)} ·{' '}
+                        {record.workout_date}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <h3 className="mb-2 text-sm font-medium text-gray-700">History</h3>
+                <ul className="space-y-1 text-sm text-gray-600">
+                  {records.history.slice(0, RECORD_HISTORY_SHOWN).map((record) => (
+                    <li key={record.id}>
+                      {record.workout_date}: {describeRecord(record)},{' '}
+                      {formatRecordValue(record.record_type, record.value)}
+                      {record.previous_value !== null &&
+                        ` (was ${formatRecordValue(record.record_type, record.previous_value)})`}
+                      {record.bonus_points > 0 && ` · +${record.bonus_points} points`}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { isAuthorizedAdminRequest } from '@/lib/admin/auth';
+import { getReviewQueue, resolveWorkoutReview } from '@/lib/workouts/review';
+
+/**
+ * Workouts held for review, oldest first: GET ?limit=50
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const limit = Number(new URL(request.url).searchParams.get('limit') ?? 50);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > 200) {
+    return NextResponse.json({ error: 'Limit must be between 1 and 200' }, { status: 400 });
+  }
+
+  const { workouts, error } = await getReviewQueue(createAdminClient(), limit);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ workouts });
+}
+
+/**
+ * Approve (and score) or reject a held workout:
+ * POST { "workoutId": "...", "approved": true, "note": "optional" }
+ */
+export async function POST(request: Request) {
+  if (!isAuthorizedAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const workoutId = typeof body?.workoutId === 'string' ? body.workoutId : '';
+  const note = typeof body?.note === 'string' && body.note.trim() ? body.note.trim() : undefined;
+
+  if (!workoutId || typeof body?.approved !== 'boolean') {
+    return NextResponse.json(
+      { error: 'A workoutId and an approved flag are required' },
+      { status: 400 }
+    );
+  }
+
+  const { workout, error } = await resolveWorkoutReview(
+    createAdminClient(),
+    workoutId,
+    body.approved,
+    note
+  );
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ workout });
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { localDate } from '@/lib/utils/dates';
+import { getWorkoutAnalytics, parseAnalyticsQuery } from '@/lib/workouts/analytics';
+
+/**
+ * Workout totals per week or month, by activity type, heart-rate trend and
+ * comparison with the baseline for the current user.
+ * Query: from, to (YYYY-MM-DD; the last 12 weeks by default) and period (week or month).
+ */
+export async function GET(request: Request) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('timezone')
+    .eq('id', user.id)
+    .single();
+
+  if (profileError) {
+    return NextResponse.json({ error: profileError.message }, { status: 500 });
+  }
+
+  const {
+    range,
+    period,
+    error: queryError,
+  } = parseAnalyticsQuery(
+    new URL(request.url).searchParams,
+    localDate((profile as { timezone: string | null }).timezone)
+  );
+
+  if (queryError) {
+    return NextResponse.json({ error: queryError.message }, { status: 400 });
+  }
+
+  const { analytics, error } = await getWorkoutAnalytics(supabase, user.id, range, period);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(analytics);
+}
@@ -0,0 +1,85 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { verifyOAuthState } from '@/lib/security/oauth-state';
+import {
+  exchangeFitbitCode,
+  FITBIT_PROVIDER,
+  FITBIT_STATE_COOKIE,
+  hasRequiredFitbitScope,
+} from '@/lib/fitness/fitbit/client';
+import { saveFitbitConnection, takePkceVerifier } from '@/lib/fitness/fitbit/auth';
+
+/**
+ * Fitbit redirects here after the user approves or denies access. Query:
+ * code and state, or error.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  const finish = (result: { connected?: string; error?: string }) => {
+    const response = NextResponse.redirect(
+      new URL(`/connections?${new URLSearchParams(result)}`, request.url)
+    );
+    response.cookies.delete({ name: FITBIT_STATE_COOKIE, path: '/api/auth/fitbit' });
+    return response;
+  };
+
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.redirect(new URL('/auth/login', request.url));
+  }
+
+  if (params.get('error')) {
+    return finish({ error: 'Fitbit access was not granted' });
+  }
+
+  const { payload, error: stateError } = verifyOAuthState(params.get('state'), FITBIT_PROVIDER);
+
+  if (stateError) {
+    return finish({ error: stateError.message });
+  }
+
+  if (
+    payload!.userId !== user.id ||
+    payload!.nonce !== request.cookies.get(FITBIT_STATE_COOKIE)?.value
+  ) {
+    return finish({ error: 'This authorization was started in another session' });
+  }
+
+  const code = params.get('code');
+  if (!code) {
+    return finish({ error: 'Fitbit did not return an authorization code' });
+  }
+
+  // Verifiers and token columns are written by the service role only
+  const admin = createAdminClient();
+  const { verifier, error: verifierError } = await takePkceVerifier(admin, user.id, payload!.nonce);
+
+  if (verifierError) {
+    return finish({ error: verifierError.message });
+  }
+
+  const { tokens, error: tokenError } = await exchangeFitbitCode(code, verifier!);
+
+  if (tokenError) {
+    return finish({ error: tokenError.message });
+  }
+
+  if (!hasRequiredFitbitScope(tokens!.scope)) {
+    return finish({ error: 'Allow LoreFit to view your activity and heart rate' });
+  }
+
+  const { error } = await saveFitbitConnection(admin, user.id, tokens!);
+
+  if (error) {
+    return finish({ error: error.message });
+  }
+
+  return finish({ connected: FITBIT_PROVIDER });
+}
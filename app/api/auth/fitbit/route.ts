@@ -0,0 +1,50 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createOAuthState, OAUTH_STATE_TTL_SECONDS } from '@/lib/security/oauth-state';
+import {
+  buildFitbitAuthorizeUrl,
+  createPkcePair,
+  FITBIT_PROVIDER,
+  FITBIT_STATE_COOKIE,
+} from '@/lib/fitness/fitbit/client';
+import { savePkceVerifier } from '@/lib/fitness/fitbit/auth';
+
+/**
+ * Start connecting Fitbit: redirect to Fitbit's authorize page with a signed
+ * state and a PKCE challenge. The verifier stays on the server until the
+ * callback; the state's nonce is set as a cookie for the callback to match.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.redirect(new URL('/auth/login', request.url));
+  }
+
+  const { state, payload } = createOAuthState(FITBIT_PROVIDER, user.id);
+  const { verifier, challenge } = createPkcePair();
+
+  const { error } = await savePkceVerifier(createAdminClient(), user.id, payload.nonce, verifier);
+
+  if (error) {
+    return NextResponse.redirect(
+      new URL(`/connections?${new URLSearchParams({ error: error.message })}`, request.url)
+    );
+  }
+
+  const response = NextResponse.redirect(buildFitbitAuthorizeUrl(state, challenge));
+  response.cookies.set(FITBIT_STATE_COOKIE, payload.nonce, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/auth/fitbit',
+    maxAge: OAUTH_STATE_TTL_SECONDS,
+  });
+
+  return response;
+}
@@ -0,0 +1,78 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { verifyOAuthState } from '@/lib/security/oauth-state';
+import {
+  exchangeStravaCode,
+  hasRequiredStravaScope,
+  STRAVA_PROVIDER,
+  STRAVA_STATE_COOKIE,
+} from '@/lib/fitness/strava/client';
+import { saveStravaConnection } from '@/lib/fitness/strava/auth';
+
+/**
+ * Strava redirects here after the user approves or denies access. Query:
+ * code, scope and state, or error.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  const finish = (result: { connected?: string; error?: string }) => {
+    const response = NextResponse.redirect(
+      new URL(`/connections?${new URLSearchParams(result)}`, request.url)
+    );
+    response.cookies.delete({ name: STRAVA_STATE_COOKIE, path: '/api/auth/strava' });
+    return response;
+  };
+
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.redirect(new URL('/auth/login', request.url));
+  }
+
+  if (params.get('error')) {
+    return finish({ error: 'Strava access was not granted' });
+  }
+
+  const { payload, error: stateError } = verifyOAuthState(params.get('state'), STRAVA_PROVIDER);
+
+  if (stateError) {
+    return finish({ error: stateError.message });
+  }
+
+  if (
+    payload!.userId !== user.id ||
+    payload!.nonce !== request.cookies.get(STRAVA_STATE_COOKIE)?.value
+  ) {
+    return finish({ error: 'This authorization was started in another session' });
+  }
+
+  if (!hasRequiredStravaScope(params.get('scope'))) {
+    return finish({ error: 'Allow LoreFit to view your activities, including private ones' });
+  }
+
+  const code = params.get('code');
+  if (!code) {
+    return finish({ error: 'Strava did not return an authorization code' });
+  }
+
+  const { tokens, error: tokenError } = await exchangeStravaCode(code);
+
+  if (tokenError) {
+    return finish({ error: tokenError.message });
+  }
+
+  // Token columns are written by the service role only
+  const { error } = await saveStravaConnection(createAdminClient(), user.id, tokens!);
+
+  if (error) {
+    return finish({ error: error.message });
+  }
+
+  return finish({ connected: STRAVA_PROVIDER });
+}
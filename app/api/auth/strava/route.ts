@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createOAuthState, OAUTH_STATE_TTL_SECONDS } from '@/lib/security/oauth-state';
+import {
+  buildStravaAuthorizeUrl,
+  STRAVA_PROVIDER,
+  STRAVA_STATE_COOKIE,
+} from '@/lib/fitness/strava/client';
+
+/**
+ * Start connecting Strava: redirect to Strava's authorize page with a signed
+ * state. The state's nonce is also set as a cookie for the callback to match.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.redirect(new URL('/auth/login', request.url));
+  }
+
+  const { state, payload } = createOAuthState(STRAVA_PROVIDER, user.id);
+
+  const response = NextResponse.redirect(buildStravaAuthorizeUrl(state));
+  response.cookies.set(STRAVA_STATE_COOKIE, payload.nonce, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/auth/strava',
+    maxAge: OAUTH_STATE_TTL_SECONDS,
+  });
+
+  return response;
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { syncUserConnections } from '@/lib/fitness/sync';
+
+/**
+ * Sync all of the current user's connections now, whether or not they are due
+ */
+export async function POST() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { outcomes, error } = await syncUserConnections(createAdminClient(), user.id, false);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: error.busy ? 409 : 500 });
+  }
+
+  return NextResponse.json({ outcomes });
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { isAuthorizedCronRequest } from '@/lib/cron/auth';
+import { adjustBaseline } from '@/lib/gamification/baseline';
+
+const PAGE_SIZE = 500;
+
+/**
+ * Weekly baseline adjustment for every user
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const supabase = createAdminClient();
+  let updated = 0;
+  const errors: string[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      errors.push(error.message);
+      break;
+    }
+
+    for (const { id } of data as { id: string }[]) {
+      const { error: adjustError } = await adjustBaseline(supabase, id);
+      if (adjustError) {
+        errors.push(`User ${id}: ${adjustError.message}`);
+      } else {
+        updated++;
+      }
+    }
+
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return NextResponse.json(
+    { updated, errors },
+    { status: errors.length > 0 && updated === 0 ? 500 : 200 }
+  );
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { isAuthorizedCronRequest } from '@/lib/cron/auth';
+import { expireChallenges, issueChallenges } from '@/lib/gamification/challenges';
+
+const PAGE_SIZE = 500;
+
+/**
+ * Expire ended challenges and issue each user's weekly and monthly challenges.
+ * Runs hourly so new periods start close to local midnight in every time zone.
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const supabase = createAdminClient();
+  const errors: string[] = [];
+
+  const { expired, error: expireError } = await expireChallenges(supabase);
+  if (expireError) {
+    errors.push(expireError.message);
+  }
+
+  let issued = 0;
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      errors.push(error.message);
+      break;
+    }
+
+    for (const { id } of data as { id: string }[]) {
+      const { issued: challenges, error: issueError } = await issueChallenges(supabase, id);
+      issued += challenges.length;
+      if (issueError) {
+        errors.push(`User ${id}: ${issueError.message}`);
+      }
+    }
+
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return NextResponse.json({ expired, issued, errors }, { status: errors.length > 0 ? 500 : 200 });
+}
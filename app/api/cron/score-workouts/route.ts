@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { isAuthorizedCronRequest } from '@/lib/cron/auth';
+import { scoreUnscoredWorkouts } from '@/lib/workouts/processing';
+
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { scored, errors } = await scoreUnscoredWorkouts(createAdminClient());
+
+  return NextResponse.json(
+    { scored, errors: errors.map((e) => e.message) },
+    { status: errors.length > 0 && scored === 0 ? 500 : 200 }
+  );
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { isAuthorizedCronRequest } from '@/lib/cron/auth';
+import { retryStravaWebhookEvents } from '@/lib/fitness/strava/webhook';
+
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { processed, errors } = await retryStravaWebhookEvents(createAdminClient());
+
+  return NextResponse.json(
+    { processed, errors: errors.map((e) => e.message) },
+    { status: errors.length > 0 && processed === 0 ? 500 : 200 }
+  );
+}
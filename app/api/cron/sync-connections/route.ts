@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { isAuthorizedCronRequest } from '@/lib/cron/auth';
+import { runDueSyncs } from '@/lib/fitness/sync';
+
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { synced, failed, busy, errors } = await runDueSyncs(createAdminClient());
+
+  return NextResponse.json(
+    { synced, failed, busy, errors: errors.map((e) => e.message) },
+    { status: errors.length > 0 && synced === 0 ? 500 : 200 }
+  );
+}
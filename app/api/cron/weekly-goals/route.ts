@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { isAuthorizedCronRequest } from '@/lib/cron/auth';
+import { evaluateLastWeek } from '@/lib/gamification/weekly-goals';
+
+const PAGE_SIZE = 500;
+
+/**
+ * Evaluate every user's last finished week against their weekly goal.
+ * Runs hourly so each week is judged soon after it ends in the user's time zone.
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const supabase = createAdminClient();
+  let evaluated = 0;
+  const errors: string[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      errors.push(error.message);
+      break;
+    }
+
+    for (const { id } of data as { id: string }[]) {
+      const { result, error: evaluateError } = await evaluateLastWeek(supabase, id);
+      if (evaluateError) {
+        errors.push(`User ${id}: ${evaluateError.message}`);
+      } else if (result) {
+        evaluated++;
+      }
+    }
+
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return NextResponse.json({ evaluated, errors }, { status: errors.length > 0 ? 500 : 200 });
+}
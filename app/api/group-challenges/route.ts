@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  createGroupChallenge,
+  getGroupChallenges,
+  type GroupChallengeInput,
+} from '@/lib/gamification/group-challenges';
+
+/**
+ * Group challenges the current user belongs to, with each member's contribution
+ */
+export async function GET() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { challenges, error } = await getGroupChallenges(supabase, user.id);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ challenges });
+}
+
+/**
+ * Start a group challenge:
+ * POST { title, description?, metric, targetValue, startDate, endDate, members: [username] }
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+
+  if (!body || !Array.isArray(body.members)) {
+    return NextResponse.json({ error: 'A list of member usernames is required' }, { status: 400 });
+  }
+
+  const input: GroupChallengeInput = {
+    title: String(body.title ?? ''),
+    description: typeof body.description === 'string' ? body.description : null,
+    metric: body.metric,
+    targetValue: Number(body.targetValue),
+    startDate: String(body.startDate ?? ''),
+    endDate: String(body.endDate ?? ''),
+    members: body.members.map(String),
+  };
+
+  const admin = createAdminClient();
+  const { id, error } = await createGroupChallenge(admin, user.id, input);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  const { challenges } = await getGroupChallenges(admin, user.id);
+
+  return NextResponse.json(
+    { challenge: challenges.find((challenge) => challenge.id === id) ?? null },
+    { status: 201 }
+  );
+}
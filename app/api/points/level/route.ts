@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getLevelProgress, type LevelSummary } from '@/lib/gamification/levels';
+import type { LevelPerk, LevelUp, UserPoints } from '@/types/database';
+
+export async function GET() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const [pointsResult, perksResult, levelUpsResult] = await Promise.all([
+    supabase.from('user_points').select('*').eq('user_id', user.id).single(),
+    supabase.from('level_perks').select('*').order('min_level', { ascending: true }),
+    supabase
+      .from('level_ups')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('reached_at', { ascending: false })
+      .limit(5),
+  ]);
+
+  const error = pointsResult.error ?? perksResult.error ?? levelUpsResult.error;
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const points = pointsResult.data as UserPoints;
+  const progress = getLevelProgress(points.total_earned, points.level);
+
+  const summary: LevelSummary = {
+    ...progress,
+    balance: points.current_balance,
+    perks: (perksResult.data as LevelPerk[]).map((perk) => ({
+      perk: perk.perk,
+      description: perk.description,
+      minLevel: perk.min_level,
+      unlocked: progress.level >= perk.min_level,
+    })),
+    recentLevelUps: (levelUpsResult.data as LevelUp[]).map((levelUp) => ({
+      level: levelUp.level,
+      reachedAt: levelUp.reached_at,
+    })),
+  };
+
+  return NextResponse.json(summary);
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { awardStreakMilestones } from '@/lib/gamification/streaks';
+import type { Database } from '@/types/database';
+
+type FreezePurchase = Database['public']['Functions']['purchase_streak_freeze']['Returns'][number];
+
+/**
+ * Buy a streak freeze for a missed day: POST { "date": "YYYY-MM-DD" }
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const date = typeof body?.date === 'string' ? body.date : '';
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return NextResponse.json({ error: 'A date in YYYY-MM-DD format is required' }, { status: 400 });
+  }
+
+  const { data, error } = await supabase.rpc('purchase_streak_freeze', { p_freeze_date: date });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const purchase = (data as FreezePurchase[])[0];
+
+  if (!purchase?.success) {
+    return NextResponse.json(
+      { error: purchase?.message ?? 'Could not buy a streak freeze' },
+      { status: 400 }
+    );
+  }
+
+  // The freeze may have joined two runs into a longer streak
+  const { summary } = await awardStreakMilestones(createAdminClient(), user.id);
+
+  return NextResponse.json({ balance: purchase.new_balance, streaks: summary });
+}
@@ -0,0 +1,50 @@
+import { after, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  parseStravaWebhookEvent,
+  processStravaWebhookEvent,
+  recordStravaWebhookEvent,
+  verifyStravaSubscription,
+} from '@/lib/fitness/strava/webhook';
+
+/**
+ * Strava's subscription validation: echo hub.challenge when
+ * hub.verify_token matches STRAVA_WEBHOOK_VERIFY_TOKEN
+ */
+export async function GET(request: Request) {
+  const challenge = verifyStravaSubscription(new URL(request.url).searchParams);
+
+  if (!challenge) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return NextResponse.json({ 'hub.challenge': challenge });
+}
+
+/**
+ * Activity and athlete events. Strava expects a 200 within two seconds, so
+ * the event is recorded and acknowledged, then applied after the response.
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const { event, error: parseError } = parseStravaWebhookEvent(body);
+
+  if (parseError) {
+    return NextResponse.json({ error: parseError.message }, { status: 400 });
+  }
+
+  const supabase = createAdminClient();
+  const { event: recorded, error } = await recordStravaWebhookEvent(supabase, event!);
+
+  if (error) {
+    // Not acknowledged, so Strava delivers it again
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  if (recorded) {
+    // Failures are kept on the event row for the retry job
+    after(() => processStravaWebhookEvent(supabase, recorded));
+  }
+
+  return NextResponse.json({ received: true });
+}
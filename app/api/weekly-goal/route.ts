@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getWeeklyGoalSummary } from '@/lib/gamification/weekly-goals';
+import type { Database } from '@/types/database';
+
+type GoalChange = Database['public']['Functions']['set_weekly_goal']['Returns'][number];
+
+/**
+ * The current user's weekly goal, progress this week, suggestion and history
+ */
+export async function GET() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { summary, error } = await getWeeklyGoalSummary(supabase, user.id);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(summary);
+}
+
+/**
+ * Change the weekly goal: POST { "goal": 150 }
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const goal = Number(body?.goal);
+
+  if (!Number.isInteger(goal)) {
+    return NextResponse.json({ error: 'Goal must be a whole number of points' }, { status: 400 });
+  }
+
+  const { data, error } = await supabase.rpc('set_weekly_goal', { p_goal: goal });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const change = (data as GoalChange[])[0];
+
+  if (!change?.success) {
+    return NextResponse.json(
+      { error: change?.message ?? 'Could not change your weekly goal' },
+      { status: change?.next_change_at ? 429 : 400 }
+    );
+  }
+
+  const { summary } = await getWeeklyGoalSummary(supabase, user.id);
+
+  return NextResponse.json(summary);
+}
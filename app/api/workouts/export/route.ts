@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  exportFileName,
+  formatWorkoutExport,
+  listWorkoutsForExport,
+  parseExportQuery,
+} from '@/lib/workouts/export';
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+/**
+ * Download the current user's workouts as a file.
+ * Query: format (csv or json, default csv), from and to (YYYY-MM-DD).
+ */
+export async function GET(request: Request) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { query, error: queryError } = parseExportQuery(new URL(request.url).searchParams);
+
+  if (queryError) {
+    return NextResponse.json({ error: queryError.message }, { status: 400 });
+  }
+
+  const { workouts, error } = await listWorkoutsForExport(supabase, user.id, query!);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return new NextResponse(formatWorkoutExport(workouts, query!.format), {
+    headers: {
+      'Content-Type': CONTENT_TYPES[query!.format],
+      'Content-Disposition': `attachment; filename="${exportFileName(query!)}"`,
+    },
+  });
+}
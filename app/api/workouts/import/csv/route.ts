@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { localDate } from '@/lib/utils/dates';
+import {
+  CSV_DATE_FORMATS,
+  importCsvWorkouts,
+  MAX_CSV_IMPORT_BYTES,
+  type CsvColumnMapping,
+  type CsvDateFormat,
+} from '@/lib/workouts/csv-import';
+import {
+  DEFAULT_IMPORT_POINTS_POLICY,
+  IMPORT_POINTS_POLICIES,
+  type ImportPointsPolicy,
+} from '@/lib/workouts/import-policy';
+
+/**
+ * Import workout history from CSV:
+ * POST { "csv": "...", "fileName": "history.csv", "mapping": { "workoutDate": "Date", ... },
+ *        "dateFormat": "YYYY-MM-DD", "pointsPolicy": "recent", "dryRun": true }
+ *
+ * A dry run returns the file's headers, the mapping used (suggested when none
+ * is given) and every row with its status and errors, without writing anything.
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+
+  if (typeof body?.csv !== 'string' || !body.csv.trim()) {
+    return NextResponse.json({ error: 'csv must contain the file contents' }, { status: 400 });
+  }
+
+  if (new TextEncoder().encode(body.csv).byteLength > MAX_CSV_IMPORT_BYTES) {
+    return NextResponse.json({ error: 'File is too large (max 5 MB)' }, { status: 413 });
+  }
+
+  const dateFormat = (body.dateFormat ?? 'YYYY-MM-DD') as CsvDateFormat;
+  if (!CSV_DATE_FORMATS.includes(dateFormat)) {
+    return NextResponse.json({ error: `Unknown date format: ${dateFormat}` }, { status: 400 });
+  }
+
+  const pointsPolicy = (body.pointsPolicy ?? DEFAULT_IMPORT_POINTS_POLICY) as ImportPointsPolicy;
+  if (!IMPORT_POINTS_POLICIES.includes(pointsPolicy)) {
+    return NextResponse.json({ error: `Unknown points policy: ${pointsPolicy}` }, { status: 400 });
+  }
+
+  const mapping =
+    body.mapping && typeof body.mapping === 'object'
+      ? (body.mapping as CsvColumnMapping)
+      : undefined;
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('timezone')
+    .eq('id', user.id)
+    .single();
+
+  if (profileError) {
+    return NextResponse.json({ error: profileError.message }, { status: 500 });
+  }
+
+  const { preview, summary, error } = await importCsvWorkouts(
+    createAdminClient(),
+    user.id,
+    body.csv,
+    typeof body.fileName === 'string' ? body.fileName : 'import.csv',
+    { mapping, dateFormat, pointsPolicy },
+    localDate((profile as { timezone: string | null }).timezone),
+    body.dryRun === true
+  );
+
+  if (error) {
+    return NextResponse.json({ error: error.message, preview }, { status: preview ? 500 : 400 });
+  }
+
+  return NextResponse.json(summary ?? preview, { status: summary ? 201 : 200 });
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  importHealthWorkouts,
+  MAX_HEALTH_IMPORT_BATCH,
+  readHealthWorkout,
+  type HealthWorkout,
+} from '@/lib/workouts/health-import';
+import {
+  DEFAULT_IMPORT_POINTS_POLICY,
+  IMPORT_POINTS_POLICIES,
+  type ImportPointsPolicy,
+} from '@/lib/workouts/import-policy';
+
+/**
+ * Import one batch of workouts read in the browser from an Apple Health or
+ * Google Fit export:
+ * POST { "workouts": [{ "format": "apple_health", "sport": "Running", "startTime": "...",
+ *        "durationSeconds": 1800, ... }], "pointsPolicy": "recent" }
+ *
+ * Workouts already imported are skipped, so an interrupted import can simply
+ * be run again.
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+
+  if (!Array.isArray(body?.workouts) || body.workouts.length === 0) {
+    return NextResponse.json({ error: 'workouts must be a non-empty array' }, { status: 400 });
+  }
+
+  if (body.workouts.length > MAX_HEALTH_IMPORT_BATCH) {
+    return NextResponse.json(
+      { error: `Send at most ${MAX_HEALTH_IMPORT_BATCH} workouts at a time` },
+      { status: 413 }
+    );
+  }
+
+  const workouts = (body.workouts as unknown[]).map(readHealthWorkout);
+  if (workouts.includes(null)) {
+    return NextResponse.json({ error: 'workouts contains an invalid workout' }, { status: 400 });
+  }
+
+  const pointsPolicy = (body.pointsPolicy ?? DEFAULT_IMPORT_POINTS_POLICY) as ImportPointsPolicy;
+  if (!IMPORT_POINTS_POLICIES.includes(pointsPolicy)) {
+    return NextResponse.json({ error: `Unknown points policy: ${pointsPolicy}` }, { status: 400 });
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('timezone')
+    .eq('id', user.id)
+    .single();
+
+  if (profileError) {
+    return NextResponse.json({ error: profileError.message }, { status: 500 });
+  }
+
+  const { summary, error } = await importHealthWorkouts(
+    createAdminClient(),
+    user.id,
+    workouts as HealthWorkout[],
+    (profile as { timezone: string | null }).timezone,
+    pointsPolicy
+  );
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(summary, { status: 201 });
+}
@@ -0,0 +1,116 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { localDate } from '@/lib/utils/dates';
+import {
+  hashWorkoutFile,
+  MAX_WORKOUT_FILE_BYTES,
+  parseWorkoutFile,
+  summarizeActivity,
+  toFileWorkoutInsert,
+} from '@/lib/workouts/file-import';
+import { DEFAULT_IMPORT_POINTS_POLICY, refreshImportedRecords } from '@/lib/workouts/import-policy';
+import { processWorkout } from '@/lib/workouts/processing';
+import type { Workout } from '@/types/database';
+import type { LogWorkoutResult } from '@/app/workouts/new/actions';
+
+/**
+ * Import a workout from a GPX, TCX or FIT file: multipart form with a "file" field.
+ * An old file is stored as history under the default points policy, which
+ * needs the service-role client.
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const formData = await request.formData().catch(() => null);
+  const file = formData?.get('file');
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'Upload a file in the "file" field' }, { status: 400 });
+  }
+
+  if (file.size > MAX_WORKOUT_FILE_BYTES) {
+    return NextResponse.json({ error: 'File is too large (max 10 MB)' }, { status: 413 });
+  }
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  const { activity, error: parseError } = parseWorkoutFile(file.name, data);
+
+  if (parseError) {
+    return NextResponse.json({ error: parseError.message }, { status: 400 });
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('timezone')
+    .eq('id', user.id)
+    .single();
+
+  if (profileError) {
+    return NextResponse.json({ error: profileError.message }, { status: 500 });
+  }
+
+  const timezone = (profile as { timezone: string | null }).timezone;
+  const { row, error: rowError } = toFileWorkoutInsert(
+    user.id,
+    summarizeActivity(activity!, file.name),
+    hashWorkoutFile(data),
+    timezone,
+    {
+      pointsPolicy: DEFAULT_IMPORT_POINTS_POLICY,
+      today: localDate(timezone),
+      scoredAt: new Date().toISOString(),
+    }
+  );
+
+  if (rowError) {
+    return NextResponse.json({ error: rowError.message }, { status: 400 });
+  }
+
+  const admin = createAdminClient();
+  const { data: workout, error: insertError } = await admin
+    .from('workouts')
+    .insert(row!)
+    .select('*')
+    .single();
+
+  if (insertError) {
+    // unique_external_workout: this file was imported before
+    if (insertError.code === '23505') {
+      return NextResponse.json({ error: 'This file has already been imported' }, { status: 409 });
+    }
+    return NextResponse.json({ error: insertError.message }, { status: 500 });
+  }
+
+  const stored = workout as Workout;
+  const { error: recordsError } = await refreshImportedRecords(admin, user.id, [stored]);
+
+  if (recordsError) {
+    return NextResponse.json({ error: recordsError.message }, { status: 500 });
+  }
+
+  // History outside the points policy is stored already scored
+  const { result: processed } = stored.scored_at
+    ? { result: null }
+    : await processWorkout(admin, stored);
+
+  const result: LogWorkoutResult = {
+    workoutId: stored.id,
+    scored: processed !== null || stored.scored_at !== null,
+    points: processed?.points ?? 0,
+    breakdown: processed?.breakdown ?? null,
+    streakMilestones: processed?.streakMilestones ?? [],
+    personalRecords: processed?.personalRecords ?? [],
+    flags: processed?.flags ?? [],
+  };
+
+  return NextResponse.json({ result }, { status: 201 });
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { listWorkouts, parseWorkoutQuery } from '@/lib/workouts/history';
+
+/**
+ * A page of the current user's workouts, newest first.
+ * Query: type, source, from, to (YYYY-MM-DD) and cursor from the previous page.
+ */
+export async function GET(request: Request) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const {
+    filters,
+    cursor,
+    error: queryError,
+  } = parseWorkoutQuery(new URL(request.url).searchParams);
+
+  if (queryError) {
+    return NextResponse.json({ error: queryError.message }, { status: 400 });
+  }
+
+  const { page, error } = await listWorkouts(supabase, user.id, filters, cursor);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(page);
+}
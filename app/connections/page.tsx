@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useUser } from '@/lib/auth/hooks';
+import { useConnections } from '@/lib/fitness/hooks';
+import {
+  describeConnection,
+  FITNESS_PROVIDERS,
+  PROVIDER_LABELS,
+  type FitnessProvider,
+} from '@/lib/fitness/connections';
+
+const STATUS_STYLES: Record<string, string> = {
+  active: 'text-green-600',
+  pending: 'text-gray-600',
+  error: 'text-red-600',
+  revoked: 'text-yellow-700',
+};
+
+export default function ConnectionsPage() {
+  const { user, loading: authLoading } = useUser();
+  const { connections, loading, error } = useConnections();
+  const [result, setResult] = useState<{ connected: string | null; error: string | null }>({
+    connected: null,
+    error: null,
+  });
+
+  // The OAuth callbacks redirect back here with ?connected= or ?error=
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    setResult({ connected: params.get('connected'), error: params.get('error') });
+  }, []);
+
+  if (authLoading || loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="inline-block h-12 w-12 animate-spin rounded-full border-b-2 border-blue-600"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <p className="text-gray-600">Please log in to connect apps.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const connectedLabel =
+    result.connected && result.connected in PROVIDER_LABELS
+      ? PROVIDER_LABELS[result.connected as FitnessProvider]
+      : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="mx-auto flex max-w-3xl items-center justify-between px-4 py-4 sm:px-6 lg:px-8">
+          <h1 className="text-2xl font-bold text-gray-900">Connected Apps</h1>
+          <Link href="/dashboard" className="text-sm font-medium text-blue-600 hover:text-blue-500">
+            Back to dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-6 px-4 py-8 sm:px-6 lg:px-8">
+        {connectedLabel && (
+          <div className="rounded-lg border border-green-200 bg-green-50 p-3 text-sm text-green-700">
+            {connectedLabel} is connected. Your activities will sync shortly.
+          </div>
+        )}
+
+        {(result.error || error) && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-600">
+            {result.error ?? error}
+          </div>
+        )}
+
+        {FITNESS_PROVIDERS.map((provider) => {
+          const connection = connections.find((c) => c.source === provider);
+          const needsConnect = !connection || connection.sync_status === 'revoked';
+
+          return (
+            <div
+              key={provider}
+              className="flex items-center justify-between rounded-lg bg-white p-6 shadow"
+            >
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">{PROVIDER_LABELS[provider]}</h2>
+                <p
+                  className={`mt-1 text-sm ${
+                    connection
+                      ? STATUS_STYLES[connection.sync_status ?? 'pending']
+                      : 'text-gray-500'
+                  }`}
+                >
+                  {describeConnection(connection)}
+                </p>
+              </div>
+              {/* A plain link: the authorize route redirects off-site */}
+              <a
+                href={`/api/auth/${provider}`}
+                className={`rounded-lg px-4 py-2 text-sm font-medium ${
+                  needsConnect
+                    ? 'bg-blue-600 text-white hover:bg-blue-700'
+                    : 'bg-gray-200 text-gray-800 hover:bg-gray-300'
+                }`}
+              >
+                {needsConnect ? 'Connect' : 'Reconnect'}
+              </a>
+            </div>
+          );
+        })}
+      </main>
+    </div>
+  );
+}
@@ -1,10 +1,18 @@
 'use client';
 
+import Link from 'next/link';
 import { useAuth, useProfile } from '@/lib/auth/hooks';
+import { useLevelProgress } from '@/lib/gamification/hooks';
+import { useConnections } from '@/lib/fitness/hooks';
+import { useWorkoutAnalytics } from '@/lib/workouts/hooks';
+import { describeConnection, PROVIDER_LABELS } from '@/lib/fitness/connections';
 
 export default function DashboardPage() {
   const { user, loading: authLoading, signOut } = useAuth();
   const { profile, loading: profileLoading } = useProfile();
+  const { summary: levelSummary } = useLevelProgress();
+  const { connections, syncing, error: connectionsError, syncNow } = useConnections();
+  const { analytics } = useWorkoutAnalytics(null, 'week');
 
   if (authLoading || profileLoading) {
     return (
@@ -33,12 +41,32 @@ export default function DashboardPage() {
       <header className="bg-white shadow">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
           <h1 className="text-2xl font-bold text-gray-900">LoreFit Dashboard</h1>
-          <button
-            onClick={signOut}
-            className="px-4 py-2 text-sm font-medium text-red-600 hover:text-red-700"
-          >
-            Sign Out
-          </button>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/workouts"
+              className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-900"
+            >
+              Workouts
+            </Link>
+            <Link
+              href="/analytics"
+              className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-900"
+            >
+              Analytics
+            </Link>
+            <Link
+              href="/settings"
+              className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-900"
+            >
+              Settings
+            </Link>
+            <button
+              onClick={signOut}
+              className="px-4 py-2 text-sm font-medium text-red-600 hover:text-red-700"
+            >
+              Sign Out
+            </button>
+          </div>
         </div>
       </header>
 
@@ -65,7 +93,7 @@ export default function DashboardPage() {
               </div>
               <div className="ml-5">
                 <p className="text-sm font-medium text-gray-500">Total Points</p>
-                <p className="text-2xl font-semibold text-gray-900">0</p>
+                <p className="text-2xl font-semibold text-gray-900">{levelSummary?.balance ?? 0}</p>
               </div>
             </div>
           </div>
@@ -79,7 +107,7 @@ export default function DashboardPage() {
               </div>
               <div className="ml-5">
                 <p className="text-sm font-medium text-gray-500">Workouts</p>
-                <p className="text-2xl font-semibold text-gray-900">0</p>
+                <p className="text-2xl font-semibold text-gray-900">{analytics?.allTimeWorkouts ?? 0}</p>
               </div>
             </div>
           </div>
@@ -91,9 +119,22 @@ export default function DashboardPage() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
               </div>
-              <div className="ml-5">
+              <div className="ml-5 flex-1">
                 <p className="text-sm font-medium text-gray-500">Level</p>
-                <p className="text-2xl font-semibold text-gray-900">1</p>
+                <p className="text-2xl font-semibold text-gray-900">{levelSummary?.level ?? 1}</p>
+                {levelSummary && (
+                  <>
+                    <div className="mt-2 h-2 w-full bg-gray-200 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-purple-600 rounded-full"
+                        style={{ width: `${Math.round(levelSummary.progress * 100)}%` }}
+                      />
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {levelSummary.pointsToNextLevel} points to level {levelSummary.level + 1}
+                    </p>
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -103,14 +144,20 @@ export default function DashboardPage() {
         <div className="bg-white rounded-lg shadow p-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h3>
           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
-            <button className="p-4 border-2 border-dashed border-gray-300 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-colors">
+            <Link
+              href="/workouts/new"
+              className="p-4 border-2 border-dashed border-gray-300 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-colors text-center"
+            >
               <p className="font-medium text-gray-900">Log Workout</p>
               <p className="text-sm text-gray-500 mt-1">Add a new workout</p>
-            </button>
-            <button className="p-4 border-2 border-dashed border-gray-300 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-colors">
+            </Link>
+            <Link
+              href="/connections"
+              className="p-4 border-2 border-dashed border-gray-300 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-colors text-center"
+            >
               <p className="font-medium text-gray-900">Connect Apps</p>
               <p className="text-sm text-gray-500 mt-1">Link Strava or Fitbit</p>
-            </button>
+            </Link>
             <button className="p-4 border-2 border-dashed border-gray-300 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-colors">
               <p className="font-medium text-gray-900">View Challenges</p>
               <p className="text-sm text-gray-500 mt-1">See active challenges</p>
@@ -118,6 +165,33 @@ export default function DashboardPage() {
           </div>
         </div>
 
+        {/* Connected Apps */}
+        {connections.length > 0 && (
+          <div className="mt-6 bg-white rounded-lg shadow p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Connected Apps</h3>
+              <button
+                onClick={syncNow}
+                disabled={syncing}
+                className="px-4 py-2 text-sm font-medium text-blue-600 hover:text-blue-500 disabled:opacity-50"
+              >
+                {syncing ? 'Syncing...' : 'Sync now'}
+              </button>
+            </div>
+            {connectionsError && <p className="mb-4 text-sm text-red-600">{connectionsError}</p>}
+            <ul className="space-y-2">
+              {connections.map((connection) => (
+                <li key={connection.source} className="text-sm">
+                  <span className="font-medium text-gray-900">
+                    {PROVIDER_LABELS[connection.source]}
+                  </span>
+                  <span className="text-gray-600"> · {describeConnection(connection)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Profile Info */}
         <div className="mt-6 bg-white rounded-lg shadow p-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Profile Information</h3>
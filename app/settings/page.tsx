@@ -0,0 +1,188 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { FormInput } from '@/components/auth/FormInput';
+import { FormButton } from '@/components/auth/FormButton';
+import { useUser } from '@/lib/auth/hooks';
+import { useWeeklyGoal } from '@/lib/gamification/hooks';
+import { MAX_WEEKLY_GOAL, MIN_WEEKLY_GOAL } from '@/lib/gamification/weekly-goals';
+
+export default function SettingsPage() {
+  const { user, loading: authLoading } = useUser();
+  const { summary, loading: goalLoading, error: loadError, updateGoal } = useWeeklyGoal();
+  const [goal, setGoal] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    if (summary) setGoal(String(summary.goal));
+  }, [summary]);
+
+  if (authLoading || goalLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="inline-block h-12 w-12 animate-spin rounded-full border-b-2 border-blue-600"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <p className="text-gray-600">Please log in to change your settings.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = Number(goal);
+    if (!Number.isInteger(value) || value < MIN_WEEKLY_GOAL || value > MAX_WEEKLY_GOAL) {
+      setError(`Weekly goal must be between ${MIN_WEEKLY_GOAL} and ${MAX_WEEKLY_GOAL} points`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setSaved(false);
+
+    const { error: updateError } = await updateGoal(value);
+
+    setSaving(false);
+    if (updateError) {
+      setError(updateError);
+    } else {
+      setSaved(true);
+    }
+  };
+
+  const locked = Boolean(summary?.nextChangeAt);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="mx-auto flex max-w-3xl items-center justify-between px-4 py-4 sm:px-6 lg:px-8">
+          <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+          <Link href="/dashboard" className="text-sm font-medium text-blue-600 hover:text-blue-500">
+            Back to dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-6 px-4 py-8 sm:px-6 lg:px-8">
+        {loadError && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-600">
+            {loadError}
+          </div>
+        )}
+
+        {summary && (
+          <>
+            {/* This week */}
+            <div className="rounded-lg bg-white p-6 shadow">
+              <h2 className="mb-4 text-lg font-semibold text-gray-900">This Week</h2>
+              <p className="text-sm text-gray-600">
+                {summary.pointsThisWeek} of {summary.goalThisWeek} points
+              </p>
+              <div className="mt-2 h-2 w-full overflow-hidden rounded-full bg-gray-200">
+                <div
+                  className="h-full rounded-full bg-green-600"
+                  style={{ width: `${Math.round(summary.progress * 100)}%` }}
+                />
+              </div>
+              {summary.goal !== summary.goalThisWeek && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Your new goal of {summary.goal} points starts next week.
+                </p>
+              )}
+            </div>
+
+            {/* Weekly goal */}
+            <div className="rounded-lg bg-white p-6 shadow">
+              <h2 className="mb-1 text-lg font-semibold text-gray-900">Weekly Goal</h2>
+              <p className="mb-4 text-sm text-gray-600">
+                Hit your goal to earn a bonus. Based on your recent workouts we suggest{' '}
+                <button
+                  type="button"
+                  onClick={() => setGoal(String(summary.suggestedGoal))}
+                  disabled={locked}
+                  className="font-medium text-blue-600 hover:text-blue-500 disabled:text-gray-400"
+                >
+                  {summary.suggestedGoal} points
+                </button>
+                .
+              </p>
+
+              {error && (
+                <div className="mb-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-600">
+                  {error}
+                </div>
+              )}
+
+              {saved && (
+                <div className="mb-4 rounded-lg border border-green-200 bg-green-50 p-3 text-sm text-green-700">
+                  Weekly goal updated. It applies from next week.
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit}>
+                <FormInput
+                  label="Points per week"
+                  type="number"
+                  min={MIN_WEEKLY_GOAL}
+                  max={MAX_WEEKLY_GOAL}
+                  value={goal}
+                  onChange={(e) => {
+                    setGoal(e.target.value);
+                    setError(null);
+                    setSaved(false);
+                  }}
+                  disabled={locked}
+                />
+
+                {summary.nextChangeAt && (
+                  <p className="mb-4 text-xs text-gray-500">
+                    You can change your goal again on{' '}
+                    {new Date(summary.nextChangeAt).toLocaleDateString()}.
+                  </p>
+                )}
+
+                <FormButton type="submit" loading={saving} disabled={locked}>
+                  Save Goal
+                </FormButton>
+              </form>
+            </div>
+
+            {/* History */}
+            <div className="rounded-lg bg-white p-6 shadow">
+              <h2 className="mb-4 text-lg font-semibold text-gray-900">Recent Weeks</h2>
+              {summary.history.length === 0 ? (
+                <p className="text-sm text-gray-500">No finished weeks yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {summary.history.map((week) => (
+                    <li key={week.id} className="flex justify-between py-2 text-sm">
+                      <span className="text-gray-700">Week of {week.week_start}</span>
+                      <span className={week.met ? 'text-green-600' : 'text-gray-500'}>
+                        {week.points_earned}/{week.goal} {week.met ? 'Goal met' : 'Missed'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { localDate } from '@/lib/utils/dates';
+import {
+  MAX_BACKDATE_DAYS,
+  toWorkoutUpdate,
+  validateManualWorkout,
+  type ManualWorkoutInput,
+  type WorkoutInputError,
+} from '@/lib/workouts/manual';
+import { isDeletableWorkout, isEditableWorkout } from '@/lib/workouts/history';
+import { processWorkout } from '@/lib/workouts/processing';
+import type { Workout } from '@/types/database';
+
+const READ_ONLY_MESSAGE = 'Synced workouts are read-only. Change them in the app they came from.';
+
+/**
+ * Edit one of the current user's manual workouts and re-score it. Returns the
+ * workout as stored after scoring.
+ */
+export async function updateWorkout(
+  workoutId: string,
+  input: ManualWorkoutInput
+): Promise<{ workout: Workout | null; error: WorkoutInputError | null }> {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return { workout: null, error: { message: 'Please log in to edit workouts' } };
+    }
+
+    const [existingResult, profileResult] = await Promise.all([
+      supabase.from('workouts').select('source, workout_date').eq('id', workoutId).maybeSingle(),
+      supabase.from('profiles').select('timezone').eq('id', user.id).single(),
+    ]);
+
+    const loadError = existingResult.error ?? profileResult.error;
+    if (loadError) {
+      return { workout: null, error: { message: loadError.message } };
+    }
+
+    // RLS hides other users' workouts, so this also covers ownership
+    const existing = existingResult.data as Pick<Workout, 'source' | 'workout_date'> | null;
+    if (!existing) {
+      return { workout: null, error: { message: 'Workout not found' } };
+    }
+    if (!isEditableWorkout(existing)) {
+      return { workout: null, error: { message: READ_ONLY_MESSAGE } };
+    }
+
+    // Older workouts can still be edited as long as their date stays put
+    const [inputError] = validateManualWorkout(
+      input,
+      localDate((profileResult.data as { timezone: string | null }).timezone),
+      input.workoutDate === existing.workout_date ? null : MAX_BACKDATE_DAYS
+    );
+    if (inputError) {
+      return { workout: null, error: inputError };
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('workouts')
+      .update(toWorkoutUpdate(input))
+      .eq('id', workoutId)
+      .select('*')
+      .single();
+
+    if (updateError) {
+      return { workout: null, error: { message: updateError.message } };
+    }
+
+    // Changes that affect scoring cleared scored_at; score again now rather
+    // than waiting for the scoring job
+    const admin = createAdminClient();
+    await processWorkout(admin, updated as Workout);
+
+    const { data: scored, error: reloadError } = await supabase
+      .from('workouts')
+      .select('*')
+      .eq('id', workoutId)
+      .single();
+
+    if (reloadError) {
+      return { workout: updated as Workout, error: null };
+    }
+
+    return { workout: scored as Workout, error: null };
+  } catch (err) {
+    return {
+      workout: null,
+      error: { message: err instanceof Error ? err.message : 'An unknown error occurred' },
+    };
+  }
+}
+
+/**
+ * Delete one of the current user's manual or imported workouts. Its points
+ * are reversed.
+ */
+export async function deleteWorkout(
+  workoutId: string
+): Promise<{ error: WorkoutInputError | null }> {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return { error: { message: 'Please log in to delete workouts' } };
+    }
+
+    const { data: existing, error: loadError } = await supabase
+      .from('workouts')
+      .select('source')
+      .eq('id', workoutId)
+      .maybeSingle();
+
+    if (loadError) {
+      return { error: { message: loadError.message } };
+    }
+    if (!existing) {
+      return { error: { message: 'Workout not found' } };
+    }
+    if (!isDeletableWorkout(existing as Pick<Workout, 'source'>)) {
+      return { error: { message: READ_ONLY_MESSAGE } };
+    }
+
+    const { error: deleteError } = await supabase.from('workouts').delete().eq('id', workoutId);
+
+    if (deleteError) {
+      return { error: { message: deleteError.message } };
+    }
+
+    return { error: null };
+  } catch (err) {
+    return {
+      error: { message: err instanceof Error ? err.message : 'An unknown error occurred' },
+    };
+  }
+}
+
+/**
+ * Split one of the current user's workouts from the workout it was merged
+ * into as a duplicate, and score it in its own right. Returns the workout as
+ * stored after scoring.
+ */
+export async function unmergeWorkout(
+  workoutId: string
+): Promise<{ workout: Workout | null; error: WorkoutInputError | null }> {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return { workout: null, error: { message: 'Please log in to edit workouts' } };
+    }
+
+    // RLS hides other users' workouts, so this also covers ownership
+    const { data: existing, error: loadError } = await supabase
+      .from('workouts')
+      .select('merged_into')
+      .eq('id', workoutId)
+      .maybeSingle();
+
+    if (loadError) {
+      return { workout: null, error: { message: loadError.message } };
+    }
+    if (!existing) {
+      return { workout: null, error: { message: 'Workout not found' } };
+    }
+    if (!(existing as Pick<Workout, 'merged_into'>).merged_into) {
+      return { workout: null, error: { message: 'This workout is not merged' } };
+    }
+
+    const admin = createAdminClient();
+    const { data: unmerged, error: unmergeError } = await admin.rpc('unmerge_workout', {
+      p_workout_id: workoutId,
+    });
+
+    if (unmergeError) {
+      return { workout: null, error: { message: unmergeError.message } };
+    }
+
+    await processWorkout(admin, unmerged as Workout);
+
+    const { data: scored, error: reloadError } = await supabase
+      .from('workouts')
+      .select('*')
+      .eq('id', workoutId)
+      .single();
+
+    if (reloadError) {
+      return { workout: unmerged as Workout, error: null };
+    }
+
+    return { workout: scored as Workout, error: null };
+  } catch (err) {
+    return {
+      workout: null,
+      error: { message: err instanceof Error ? err.message : 'An unknown error occurred' },
+    };
+  }
+}
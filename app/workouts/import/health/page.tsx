@@ -0,0 +1,267 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { FormButton } from '@/components/auth/FormButton';
+import { useAuth } from '@/lib/auth/hooks';
+import {
+  readHealthArchive,
+  type HealthArchiveProgress,
+  type HealthArchiveResult,
+} from '@/lib/workouts/health-archive';
+import type {
+  HealthArchiveFormat,
+  HealthImportSummary,
+  HealthWorkout,
+} from '@/lib/workouts/health-import';
+import type { ImportPointsPolicy } from '@/lib/workouts/import-policy';
+
+const FORMAT_LABELS: Record<HealthArchiveFormat, string> = {
+  apple_health: 'Apple Health',
+  google_fit: 'Google Fit',
+};
+
+const POLICY_LABELS: Record<ImportPointsPolicy, string> = {
+  recent: 'Workouts from the last 7 days earn points',
+  none: 'Imported workouts do not earn points',
+};
+
+// Problem workouts listed in the report
+const PROBLEMS_SHOWN = 20;
+
+const EMPTY_TOTALS: HealthImportSummary = {
+  received: 0,
+  imported: 0,
+  alreadyImported: 0,
+  invalid: [],
+  merged: 0,
+  scored: 0,
+  points: 0,
+};
+
+function addSummaries(total: HealthImportSummary, batch: HealthImportSummary): HealthImportSummary {
+  return {
+    received: total.received + batch.received,
+    imported: total.imported + batch.imported,
+    alreadyImported: total.alreadyImported + batch.alreadyImported,
+    invalid: [...total.invalid, ...batch.invalid],
+    merged: total.merged + batch.merged,
+    scored: total.scored + batch.scored,
+    points: total.points + batch.points,
+  };
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+}
+
+export default function ImportHealthArchivePage() {
+  const { user, loading: authLoading } = useAuth();
+  const [file, setFile] = useState<File | null>(null);
+  const [pointsPolicy, setPointsPolicy] = useState<ImportPointsPolicy>('recent');
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState<HealthArchiveProgress | null>(null);
+  const [totals, setTotals] = useState<HealthImportSummary | null>(null);
+  const [result, setResult] = useState<HealthArchiveResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (authLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="inline-block h-12 w-12 animate-spin rounded-full border-b-2 border-blue-600"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <p className="text-gray-600">Please log in to import workouts.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const sendBatch = async (workouts: HealthWorkout[]) => {
+    const response = await fetch('/api/workouts/import/health', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ workouts, pointsPolicy }),
+    });
+    const json = await response.json();
+
+    if (!response.ok) {
+      throw new Error(json.error ?? 'Failed to import workouts');
+    }
+
+    setTotals((current) => addSummaries(current ?? EMPTY_TOTALS, json as HealthImportSummary));
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setImporting(true);
+    setError(null);
+    setResult(null);
+    setProgress(null);
+    setTotals(EMPTY_TOTALS);
+
+    const { result: archive, error: archiveError } = await readHealthArchive(
+      file,
+      file.name,
+      sendBatch,
+      setProgress
+    );
+
+    if (archiveError) {
+      setError(archiveError.message);
+    } else {
+      setResult(archive);
+    }
+    setImporting(false);
+  };
+
+  const percent =
+    progress && progress.totalBytes > 0
+      ? Math.min(100, Math.round((progress.bytesRead / progress.totalBytes) * 100))
+      : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="mx-auto flex max-w-3xl items-center justify-between px-4 py-4 sm:px-6 lg:px-8">
+          <h1 className="text-2xl font-bold text-gray-900">Import Health History</h1>
+          <Link
+            href="/workouts/import"
+            className="text-sm font-medium text-blue-600 hover:text-blue-500"
+          >
+            Back to import
+          </Link>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-6 px-4 py-8 sm:px-6 lg:px-8">
+        <form onSubmit={handleImport} className="rounded-lg bg-white p-6 shadow">
+          <p className="mb-2 text-sm text-gray-600">
+            Upload the <span className="font-medium">export.zip</span> from the Health app (Profile
+            → Export All Health Data), or a Google Takeout archive that includes Fit.
+          </p>
+          <p className="mb-4 text-sm text-gray-600">
+            The archive is read in your browser and only workouts are uploaded. Importing the same
+            archive again skips workouts already imported.
+          </p>
+
+          <input
+            type="file"
+            accept=".zip,.xml,application/zip"
+            disabled={importing}
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              setResult(null);
+              setTotals(null);
+              setError(null);
+            }}
+            className="mb-6 block w-full text-sm text-gray-700"
+          />
+
+          <div className="mb-6">
+            <label htmlFor="points-policy" className="mb-1 block text-sm font-medium text-gray-700">
+              Points
+            </label>
+            <select
+              id="points-policy"
+              value={pointsPolicy}
+              disabled={importing}
+              onChange={(e) => setPointsPolicy(e.target.value as ImportPointsPolicy)}
+              className="w-full rounded-lg border border-gray-300 px-4 py-2 focus:border-transparent focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(POLICY_LABELS) as ImportPointsPolicy[]).map((policy) => (
+                <option key={policy} value={policy}>
+                  {POLICY_LABELS[policy]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <FormButton type="submit" loading={importing} disabled={!file}>
+            Import
+          </FormButton>
+        </form>
+
+        {progress && (
+          <div className="rounded-lg bg-white p-6 shadow">
+            <h2 className="mb-2 text-lg font-semibold text-gray-900">
+              {importing ? 'Importing' : 'Read'} {FORMAT_LABELS[progress.format]} export
+            </h2>
+            <div className="mb-2 h-2 w-full rounded-full bg-gray-200">
+              <div className="h-2 rounded-full bg-blue-600" style={{ width: `${percent}%` }}></div>
+            </div>
+            <p className="text-sm text-gray-600">
+              {formatBytes(progress.bytesRead)} of {formatBytes(progress.totalBytes)} read ·{' '}
+              {progress.workoutsFound} workouts found
+              {totals && ` · ${totals.imported} imported`}
+            </p>
+          </div>
+        )}
+
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-600">
+            {error}
+            {totals && totals.received > 0 && (
+              <> The workouts imported so far were kept; import the archive again to continue.</>
+            )}
+          </div>
+        )}
+
+        {/* Summary report */}
+        {result && totals && (
+          <div className="rounded-lg bg-white p-6 shadow">
+            <h2 className="mb-2 text-lg font-semibold text-gray-900">Import complete</h2>
+            <ul className="mb-4 space-y-1 text-sm text-gray-600">
+              <li>{result.workoutsFound} workouts found in the export</li>
+              <li>{totals.imported} imported</li>
+              <li>{totals.alreadyImported} already imported before</li>
+              <li>{totals.merged} matched a workout from a connected app and were merged</li>
+              <li>
+                {totals.invalid.length + result.unreadable} skipped as incomplete or out of range
+              </li>
+              <li>
+                {totals.scored > 0
+                  ? `${totals.scored} recent workouts earned ${totals.points} points`
+                  : 'No points were awarded for imported workouts'}
+              </li>
+            </ul>
+
+            {totals.invalid.length > 0 && (
+              <ul className="mb-4 max-h-64 space-y-1 overflow-y-auto text-sm text-yellow-700">
+                {totals.invalid.slice(0, PROBLEMS_SHOWN).map((problem) => (
+                  <li key={`${problem.startTime}-${problem.sport}`}>
+                    {problem.sport} on {problem.startTime.slice(0, 10)}: {problem.message}
+                  </li>
+                ))}
+                {totals.invalid.length > PROBLEMS_SHOWN && (
+                  <li>and {totals.invalid.length - PROBLEMS_SHOWN} more</li>
+                )}
+              </ul>
+            )}
+
+            <Link
+              href="/workouts"
+              className="block w-full rounded-lg bg-blue-600 px-4 py-2 text-center font-medium text-white hover:bg-blue-700"
+            >
+              View Workouts
+            </Link>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,367 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { FormButton } from '@/components/auth/FormButton';
+import { useAuth } from '@/lib/auth/hooks';
+import { parseCsv } from '@/lib/workouts/csv';
+import type {
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvImportField,
+  CsvImportPreview,
+  CsvImportSummary,
+  CsvRowStatus,
+} from '@/lib/workouts/csv-import';
+import type { ImportPointsPolicy } from '@/lib/workouts/import-policy';
+
+const FIELD_LABELS: Record<CsvImportField, string> = {
+  workoutDate: 'Date',
+  workoutType: 'Workout Type',
+  durationMinutes: 'Duration (minutes or h:mm:ss)',
+  distanceKm: 'Distance (km)',
+  caloriesBurned: 'Calories',
+  heartRateAvg: 'Average Heart Rate',
+};
+
+const REQUIRED_FIELDS: CsvImportField[] = ['workoutDate', 'workoutType', 'durationMinutes'];
+
+const DATE_FORMATS: CsvDateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+
+const POLICY_LABELS: Record<ImportPointsPolicy, string> = {
+  recent: 'Workouts from the last 7 days earn points',
+  none: 'Imported workouts do not earn points',
+};
+
+const STATUS_STYLES: Record<CsvRowStatus, string> = {
+  valid: 'text-green-600',
+  invalid: 'text-red-600',
+  duplicate: 'text-yellow-700',
+};
+
+// Rows shown in the preview table; problem rows are always listed in full
+const PREVIEW_ROWS = 20;
+
+const selectClassName =
+  'w-full rounded-lg border border-gray-300 px-4 py-2 focus:border-transparent focus:ring-2 focus:ring-blue-500';
+
+export default function ImportWorkoutsPage() {
+  const { user, loading: authLoading } = useAuth();
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>('YYYY-MM-DD');
+  const [pointsPolicy, setPointsPolicy] = useState<ImportPointsPolicy>('recent');
+  const [preview, setPreview] = useState<CsvImportPreview | null>(null);
+  const [summary, setSummary] = useState<CsvImportSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (authLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="inline-block h-12 w-12 animate-spin rounded-full border-b-2 border-blue-600"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <p className="text-gray-600">Please log in to import workouts.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const runImport = async (
+    text: string,
+    name: string,
+    columns: CsvColumnMapping | undefined,
+    dryRun: boolean
+  ) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/workouts/import/csv', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          csv: text,
+          fileName: name,
+          mapping: columns,
+          dateFormat,
+          pointsPolicy,
+          dryRun,
+        }),
+      });
+      const json = await response.json();
+
+      if (!response.ok) {
+        setError(json.error ?? 'Failed to import workouts');
+        setPreview(json.preview ?? null);
+        return;
+      }
+
+      if (dryRun) {
+        setPreview(json as CsvImportPreview);
+        setMapping((json as CsvImportPreview).mapping);
+      } else {
+        setSummary(json as CsvImportSummary);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import workouts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setPreview(null);
+    setSummary(null);
+    setError(null);
+    setHeaders([]);
+    setMapping({});
+    setCsv(null);
+    if (!file) return;
+
+    const text = await file.text();
+    setFileName(file.name);
+    setCsv(text);
+    setHeaders((parseCsv(text)[0] ?? []).map((header) => header.trim()));
+
+    // Preview straight away with the columns we can recognise
+    await runImport(text, file.name, undefined, true);
+  };
+
+  const handleMappingChange =
+    (field: CsvImportField) => (e: React.ChangeEvent<HTMLSelectElement>) => {
+      setMapping({ ...mapping, [field]: e.target.value || undefined });
+      setPreview(null);
+    };
+
+  const handlePreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (csv) await runImport(csv, fileName, mapping, true);
+  };
+
+  const problemRows = preview?.rows.filter((row) => row.status !== 'valid') ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="mx-auto flex max-w-3xl items-center justify-between px-4 py-4 sm:px-6 lg:px-8">
+          <h1 className="text-2xl font-bold text-gray-900">Import Workouts</h1>
+          <Link href="/workouts" className="text-sm font-medium text-blue-600 hover:text-blue-500">
+            Back to workouts
+          </Link>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-6 px-4 py-8 sm:px-6 lg:px-8">
+        {summary ? (
+          <div className="rounded-lg bg-white p-6 shadow">
+            <h2 className="mb-2 text-lg font-semibold text-gray-900">Import complete</h2>
+            <p className="mb-1 text-sm text-gray-600">
+              {summary.imported} workouts imported, {summary.counts.duplicate} duplicates and{' '}
+              {summary.counts.invalid} invalid rows skipped.
+            </p>
+            <p className="mb-6 text-sm text-gray-600">
+              {summary.scored > 0
+                ? `${summary.scored} recent workouts earned ${summary.points} points.`
+                : 'No points were awarded for imported workouts.'}
+            </p>
+            <Link
+              href="/workouts"
+              className="block w-full rounded-lg bg-blue-600 px-4 py-2 text-center font-medium text-white hover:bg-blue-700"
+            >
+              View Workouts
+            </Link>
+          </div>
+        ) : (
+          <form onSubmit={handlePreview} className="rounded-lg bg-white p-6 shadow">
+            <p className="mb-4 text-sm text-gray-600">
+              Upload a CSV file with one workout per row and a header row. Check the preview before
+              importing; nothing is saved until you confirm.
+            </p>
+            <p className="mb-4 text-sm text-gray-600">
+              Moving from Apple Health or Google Fit?{' '}
+              <Link
+                href="/workouts/import/health"
+                className="font-medium text-blue-600 hover:text-blue-500"
+              >
+                Import your export archive
+              </Link>{' '}
+              instead.
+            </p>
+
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileChange}
+              className="mb-6 block w-full text-sm text-gray-700"
+            />
+
+            {headers.length > 0 && (
+              <>
+                <h2 className="mb-4 text-lg font-semibold text-gray-900">Columns</h2>
+                <div className="grid grid-cols-1 gap-x-4 sm:grid-cols-2">
+                  {(Object.keys(FIELD_LABELS) as CsvImportField[]).map((field) => (
+                    <div key={field} className="mb-4">
+                      <label
+                        htmlFor={`column-${field}`}
+                        className="mb-1 block text-sm font-medium text-gray-700"
+                      >
+                        {FIELD_LABELS[field]}
+                        {REQUIRED_FIELDS.includes(field) && ' *'}
+                      </label>
+                      <select
+                        id={`column-${field}`}
+                        value={mapping[field] ?? ''}
+                        onChange={handleMappingChange(field)}
+                        className={selectClassName}
+                      >
+                        <option value="">Not in file</option>
+                        {headers.map((header) => (
+                          <option key={header} value={header}>
+                            {header}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                  <div className="mb-4">
+                    <label
+                      htmlFor="date-format"
+                      className="mb-1 block text-sm font-medium text-gray-700"
+                    >
+                      Date Format
+                    </label>
+                    <select
+                      id="date-format"
+                      value={dateFormat}
+                      onChange={(e) => {
+                        setDateFormat(e.target.value as CsvDateFormat);
+                        setPreview(null);
+                      }}
+                      className={selectClassName}
+                    >
+                      {DATE_FORMATS.map((format) => (
+                        <option key={format} value={format}>
+                          {format}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="mb-4">
+                    <label
+                      htmlFor="points-policy"
+                      className="mb-1 block text-sm font-medium text-gray-700"
+                    >
+                      Points
+                    </label>
+                    <select
+                      id="points-policy"
+                      value={pointsPolicy}
+                      onChange={(e) => {
+                        setPointsPolicy(e.target.value as ImportPointsPolicy);
+                        setPreview(null);
+                      }}
+                      className={selectClassName}
+                    >
+                      {(Object.keys(POLICY_LABELS) as ImportPointsPolicy[]).map((policy) => (
+                        <option key={policy} value={policy}>
+                          {POLICY_LABELS[policy]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <FormButton type="submit" variant="secondary" loading={loading}>
+                  Preview
+                </FormButton>
+              </>
+            )}
+          </form>
+        )}
+
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-600">
+            {error}
+          </div>
+        )}
+
+        {/* Dry-run preview */}
+        {preview && !summary && (
+          <div className="rounded-lg bg-white p-6 shadow">
+            <h2 className="mb-2 text-lg font-semibold text-gray-900">Preview</h2>
+            <p className="mb-4 text-sm text-gray-600">
+              {preview.counts.valid} workouts ready to import, {preview.counts.duplicate} duplicates
+              and {preview.counts.invalid} invalid rows will be skipped.
+            </p>
+
+            {problemRows.length > 0 && (
+              <ul className="mb-4 max-h-64 space-y-1 overflow-y-auto text-sm">
+                {problemRows.map((row) => (
+                  <li key={row.row} className={STATUS_STYLES[row.status]}>
+                    Row {row.row}: {row.errors.map((rowError) => rowError.message).join('; ')}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="mb-6 overflow-x-auto">
+              <table className="min-w-full text-left text-sm">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="py-1 pr-4 font-medium">Row</th>
+                    <th className="py-1 pr-4 font-medium">Date</th>
+                    <th className="py-1 pr-4 font-medium">Type</th>
+                    <th className="py-1 pr-4 font-medium">Minutes</th>
+                    <th className="py-1 pr-4 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-900">
+                  {preview.rows.slice(0, PREVIEW_ROWS).map((row) => (
+                    <tr key={row.row}>
+                      <td className="py-1 pr-4">{row.row}</td>
+                      <td className="py-1 pr-4">{row.workout?.workoutDate ?? '—'}</td>
+                      <td className="py-1 pr-4">{row.workout?.workoutType ?? '—'}</td>
+                      <td className="py-1 pr-4">{row.workout?.durationMinutes ?? '—'}</td>
+                      <td className={`py-1 pr-4 ${STATUS_STYLES[row.status]}`}>
+                        {row.status}
+                        {row.earnsPoints && ' · earns points'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {preview.rows.length > PREVIEW_ROWS && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Showing the first {PREVIEW_ROWS} of {preview.rows.length} rows.
+                </p>
+              )}
+            </div>
+
+            <FormButton
+              type="button"
+              loading={loading}
+              disabled={preview.counts.valid === 0}
+              onClick={() => csv && runImport(csv, fileName, mapping, false)}
+            >
+              Import {preview.counts.valid} Workouts
+            </FormButton>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { localDate } from '@/lib/utils/dates';
+import {
+  toWorkoutInsert,
+  validateManualWorkout,
+  type ManualWorkoutInput,
+  type WorkoutInputError,
+} from '@/lib/workouts/manual';
+import { processWorkout } from '@/lib/workouts/processing';
+import type { WorkoutPointsBreakdown } from '@/lib/gamification/points';
+import type { WorkoutFlag } from '@/lib/workouts/validation';
+import type { PersonalRecord, Workout } from '@/types/database';
+
+export interface LogWorkoutResult {
+  workoutId: string;
+  /** False if scoring failed; the scoring job will pick the workout up later */
+  scored: boolean;
+  points: number;
+  breakdown: WorkoutPointsBreakdown | null;
+  streakMilestones: number[];
+  personalRecords: PersonalRecord[];
+  /** Non-empty when the workout was held for review with zero points */
+  flags: WorkoutFlag[];
+}
+
+/**
+ * Log a manual workout for the current user and score it
+ */
+export async function logWorkout(
+  input: ManualWorkoutInput
+): Promise<{ result: LogWorkoutResult | null; error: WorkoutInputError | null }> {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return { result: null, error: { message: 'Please log in to log a workout' } };
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('timezone')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError) {
+      return { result: null, error: { message: profileError.message } };
+    }
+
+    const [inputError] = validateManualWorkout(
+      input,
+      localDate((profile as { timezone: string | null }).timezone)
+    );
+    if (inputError) {
+      return { result: null, error: inputError };
+    }
+
+    // Insert as the user so the owner RLS policy applies
+    const { data: workout, error: insertError } = await supabase
+      .from('workouts')
+      .insert(toWorkoutInsert(user.id, input))
+      .select('*')
+      .single();
+
+    if (insertError) {
+      return { result: null, error: { message: insertError.message } };
+    }
+
+    const { result: processed } = await processWorkout(createAdminClient(), workout as Workout);
+
+    return {
+      result: {
+        workoutId: (workout as Workout).id,
+        scored: processed !== null,
+        points: processed?.points ?? 0,
+        breakdown: processed?.breakdown ?? null,
+        streakMilestones: processed?.streakMilestones ?? [],
+        personalRecords: processed?.personalRecords ?? [],
+        flags: processed?.flags ?? [],
+      },
+      error: null,
+    };
+  } catch (err) {
+    return {
+      result: null,
+      error: { message: err instanceof Error ? err.message : 'An unknown error occurred' },
+    };
+  }
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { FormButton } from '@/components/auth/FormButton';
+import { WorkoutForm } from '@/components/workouts/WorkoutForm';
+import { useAuth, useProfile } from '@/lib/auth/hooks';
+import { describeRecord, formatRecordValue } from '@/lib/gamification/records';
+import { localDate } from '@/lib/utils/dates';
+import type { ManualWorkoutInput } from '@/lib/workouts/manual';
+import { logWorkout, type LogWorkoutResult } from './actions';
+
+export default function NewWorkoutPage() {
+  const { user, loading: authLoading } = useAuth();
+  const { profile, loading: profileLoading } = useProfile();
+  const [result, setResult] = useState<LogWorkoutResult | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  if (authLoading || profileLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="inline-block h-12 w-12 animate-spin rounded-full border-b-2 border-blue-600"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <p className="text-gray-600">Please log in to log a workout.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const today = localDate(profile?.timezone);
+
+  const handleSubmit = async (input: ManualWorkoutInput) => {
+    const { result: logged, error } = await logWorkout(input);
+    if (error) return error;
+
+    setResult(logged);
+    return null;
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setImporting(true);
+    setImportError(null);
+
+    try {
+      const body = new FormData();
+      body.append('file', file);
+
+      const response = await fetch('/api/workouts/import', { method: 'POST', body });
+      const json = await response.json();
+
+      if (!response.ok) {
+        setImportError(json.error ?? 'Failed to import workout');
+      } else {
+        setFile(null);
+        setResult(json.result as LogWorkoutResult);
+      }
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Failed to import workout');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="mx-auto flex max-w-3xl items-center justify-between px-4 py-4 sm:px-6 lg:px-8">
+          <h1 className="text-2xl font-bold text-gray-900">Log Workout</h1>
+          <Link href="/dashboard" className="text-sm font-medium text-blue-600 hover:text-blue-500">
+            Back to dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl px-4 py-8 sm:px-6 lg:px-8">
+        {result ? (
+          <div className="rounded-lg bg-white p-6 shadow">
+            {result.flags.length > 0 ? (
+              <>
+                <h2 className="mb-2 text-lg font-semibold text-gray-900">
+                  Workout held for review
+                </h2>
+                <p className="mb-4 text-sm text-gray-600">
+                  Your workout was saved, but something looked unusual so it will earn points once
+                  it has been reviewed.
+                </p>
+                <ul className="mb-6 list-inside list-disc text-sm text-gray-600">
+                  {result.flags.map((flag) => (
+                    <li key={flag.code}>{flag.message}</li>
+                  ))}
+                </ul>
+              </>
+            ) : result.scored ? (
+              <>
+                <h2 className="mb-2 text-lg font-semibold text-gray-900">Workout logged!</h2>
+                <p className="mb-4 text-3xl font-bold text-green-600">+{result.points} points</p>
+                {result.breakdown && (
+                  <dl className="mb-6 grid grid-cols-2 gap-2 text-sm">
+                    <dt className="text-gray-500">Workout completed</dt>
+                    <dd className="text-gray-900">{result.breakdown.base}</dd>
+                    <dt className="text-gray-500">Intensity bonus</dt>
+                    <dd className="text-gray-900">{result.breakdown.intensityBonus}</dd>
+                    <dt className="text-gray-500">Variety bonus</dt>
+                    <dd className="text-gray-900">{result.breakdown.varietyBonus}</dd>
+                  </dl>
+                )}
+                {result.breakdown?.capped && (
+                  <p className="mb-4 text-xs text-gray-500">
+                    Points are capped per workout to keep things fair.
+                  </p>
+                )}
+                {result.streakMilestones.length > 0 && (
+                  <p className="mb-6 text-sm text-purple-600">
+                    Streak milestone reached: {result.streakMilestones.join(', ')} days!
+                  </p>
+                )}
+                {result.personalRecords.length > 0 && (
+                  <ul className="mb-6 space-y-1 text-sm text-orange-600">
+                    {result.personalRecords.map((record) => (
+                      <li key={record.id}>
+                        New personal record: {describeRecord(record)},{' '}
+                        {formatRecordValue(record.record_type, record.value)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            ) : (
+              <>
+                <h2 className="mb-2 text-lg font-semibold text-gray-900">Workout logged!</h2>
+                <p className="mb-6 text-sm text-gray-600">
+                  Your points are being calculated and will appear shortly.
+                </p>
+              </>
+            )}
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <FormButton type="button" onClick={() => setResult(null)}>
+                Log Another
+              </FormButton>
+              <Link
+                href="/dashboard"
+                className="w-full rounded-lg bg-gray-200 px-4 py-2 text-center font-medium text-gray-800 hover:bg-gray-300"
+              >
+                Done
+              </Link>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="rounded-lg bg-white p-6 shadow">
+              <WorkoutForm today={today} submitLabel="Log Workout" onSubmit={handleSubmit} />
+            </div>
+
+            {/* File import */}
+            <form onSubmit={handleImport} className="rounded-lg bg-white p-6 shadow">
+              <h2 className="mb-2 text-lg font-semibold text-gray-900">Import from a file</h2>
+              <p className="mb-4 text-sm text-gray-600">
+                Upload a GPX, TCX or FIT file exported from your watch or bike computer.
+              </p>
+              {importError && (
+                <div className="mb-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-600">
+                  {importError}
+                </div>
+              )}
+              <input
+                type="file"
+                accept=".gpx,.tcx,.fit"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                className="mb-4 block w-full text-sm text-gray-700"
+              />
+              <FormButton type="submit" loading={importing} disabled={!file}>
+                Import Workout
+              </FormButton>
+            </form>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { FormInput } from '@/components/auth/FormInput';
+import { FormButton } from '@/components/auth/FormButton';
+import { WorkoutForm } from '@/components/workouts/WorkoutForm';
+import { useAuth, useProfile } from '@/lib/auth/hooks';
+import { localDate } from '@/lib/utils/dates';
+import {
+  isDeletableWorkout,
+  isEditableWorkout,
+  WORKOUT_SOURCES,
+  type WorkoutFilters,
+  type WorkoutSource,
+} from '@/lib/workouts/history';
+import type { WorkoutExportFormat } from '@/lib/workouts/export';
+import { useWorkoutHistory } from '@/lib/workouts/hooks';
+import type { ManualWorkoutInput } from '@/lib/workouts/manual';
+import type { Workout } from '@/types/database';
+import { deleteWorkout, unmergeWorkout, updateWorkout } from './actions';
+
+const SOURCE_LABELS: Record<WorkoutSource, string> = {
+  manual: 'Manual',
+  strava: 'Strava',
+  fitbit: 'Fitbit',
+  file: 'File import',
+};
+
+function toManualInput(workout: Workout): ManualWorkoutInput {
+  return {
+    workoutDate: workout.workout_date,
+    workoutType: workout.workout_type,
+    durationMinutes: workout.duration_minutes,
+    distanceKm: workout.distance_km === null ? null : Number(workout.distance_km),
+    caloriesBurned: workout.calories_burned,
+    heartRateAvg: workout.heart_rate_avg,
+  };
+}
+
+function workoutDetails(workout: Workout): string {
+  return [
+    workout.duration_minutes !== null && `${workout.duration_minutes} min`,
+    workout.distance_km !== null && `${Number(workout.distance_km)} km`,
+    workout.calories_burned !== null && `${workout.calories_burned} cal`,
+    workout.heart_rate_avg !== null && `${workout.heart_rate_avg} bpm`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+export default function WorkoutsPage() {
+  const { user, loading: authLoading } = useAuth();
+  const { profile, loading: profileLoading } = useProfile();
+  const [draftFilters, setDraftFilters] = useState<WorkoutFilters>({});
+  const [filters, setFilters] = useState<WorkoutFilters>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [unmergingId, setUnmergingId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const {
+    workouts,
+    hasMore,
+    loading,
+    loadingMore,
+    error,
+    loadMore,
+    replaceWorkout,
+    removeWorkout,
+  } = useWorkoutHistory(filters);
+
+  if (authLoading || profileLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="inline-block h-12 w-12 animate-spin rounded-full border-b-2 border-blue-600"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <p className="text-gray-600">Please log in to see your workouts.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const today = localDate(profile?.timezone);
+
+  const handleFilterChange =
+    (field: keyof WorkoutFilters) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+      setDraftFilters({ ...draftFilters, [field]: e.target.value || undefined });
+    };
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(draftFilters);
+  };
+
+  // Exports cover the applied date range; the other filters only narrow the list
+  const exportQueryString = (format: WorkoutExportFormat) => {
+    const params = new URLSearchParams({ format });
+    if (filters.from) params.set('from', filters.from);
+    if (filters.to) params.set('to', filters.to);
+    return params.toString();
+  };
+
+  const clearFilters = () => {
+    setDraftFilters({});
+    setFilters({});
+  };
+
+  const handleUpdate = async (id: string, input: ManualWorkoutInput) => {
+    const { workout, error: updateError } = await updateWorkout(id, input);
+    if (updateError) return updateError;
+
+    replaceWorkout(workout!);
+    setEditingId(null);
+    return null;
+  };
+
+  const handleDelete = async (workout: Workout) => {
+    if (
+      !window.confirm(`Delete this ${workout.workout_type} workout? Its points will be removed.`)
+    ) {
+      return;
+    }
+
+    setDeletingId(workout.id);
+    setActionError(null);
+
+    const { error: deleteError } = await deleteWorkout(workout.id);
+
+    setDeletingId(null);
+    if (deleteError) {
+      setActionError(deleteError.message);
+    } else {
+      removeWorkout(workout.id);
+    }
+  };
+
+  const handleUnmerge = async (workout: Workout) => {
+    setUnmergingId(workout.id);
+    setActionError(null);
+
+    const { workout: unmerged, error: unmergeError } = await unmergeWorkout(workout.id);
+
+    setUnmergingId(null);
+    if (unmergeError) {
+      setActionError(unmergeError.message);
+    } else {
+      replaceWorkout(unmerged!);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="mx-auto flex max-w-3xl items-center justify-between px-4 py-4 sm:px-6 lg:px-8">
+          <h1 className="text-2xl font-bold text-gray-900">Workouts</h1>
+          <div className="flex items-center gap-4">
+            <Link
+              href="/workouts/new"
+              className="text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Log workout
+            </Link>
+            <Link
+              href="/workouts/import"
+              className="text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Import CSV
+            </Link>
+            <Link
+              href="/dashboard"
+              className="text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Back to dashboard
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-6 px-4 py-8 sm:px-6 lg:px-8">
+        {/* Filters */}
+        <form onSubmit={applyFilters} className="rounded-lg bg-white p-6 shadow">
+          <div className="grid grid-cols-1 gap-x-4 sm:grid-cols-2">
+            <FormInput
+              label="Workout Type"
+              type="text"
+              value={draftFilters.workoutType ?? ''}
+              onChange={handleFilterChange('workoutType')}
+              placeholder="Any"
+            />
+            <div className="mb-4">
+              <label htmlFor="source" className="mb-1 block text-sm font-medium text-gray-700">
+                Source
+              </label>
+              <select
+                id="source"
+                value={draftFilters.source ?? ''}
+                onChange={handleFilterChange('source')}
+                className="w-full rounded-lg border border-gray-300 px-4 py-2 focus:border-transparent focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Any</option>
+                {WORKOUT_SOURCES.map((source) => (
+                  <option key={source} value={source}>
+                    {SOURCE_LABELS[source]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <FormInput
+              label="From"
+              type="date"
+              value={draftFilters.from ?? ''}
+              onChange={handleFilterChange('from')}
+            />
+            <FormInput
+              label="To"
+              type="date"
+              value={draftFilters.to ?? ''}
+              onChange={handleFilterChange('to')}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <FormButton type="submit">Apply Filters</FormButton>
+            <FormButton type="button" variant="secondary" onClick={clearFilters}>
+              Clear
+            </FormButton>
+          </div>
+          <p className="mt-4 text-sm text-gray-600">
+            Export {filters.from || filters.to ? 'this date range' : 'all workouts'} as{' '}
+            <a
+              href={`/api/workouts/export?${exportQueryString('csv')}`}
+              className="font-medium text-blue-600 hover:text-blue-500"
+            >
+              CSV
+            </a>{' '}
+            or{' '}
+            <a
+              href={`/api/workouts/export?${exportQueryString('json')}`}
+              className="font-medium text-blue-600 hover:text-blue-500"
+            >
+              JSON
+            </a>
+          </p>
+        </form>
+
+        {(error || actionError) && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-600">
+            {actionError ?? error}
+          </div>
+        )}
+
+        {/* History */}
+        {loading ? (
+          <p className="text-center text-gray-600">Loading workouts...</p>
+        ) : workouts.length === 0 ? (
+          <div className="rounded-lg bg-white p-6 text-center shadow">
+            <p className="text-gray-600">No workouts found.</p>
+          </div>
+        ) : (
+          <ul className="space-y-4">
+            {workouts.map((workout) => (
+              <li key={workout.id} className="rounded-lg bg-white p-6 shadow">
+                {editingId === workout.id ? (
+                  <WorkoutForm
+                    today={today}
+                    initialValues={toManualInput(workout)}
+                    submitLabel="Save Changes"
+                    onSubmit={(input) => handleUpdate(workout.id, input)}
+                    onCancel={() => setEditingId(null)}
+                  />
+                ) : (
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="font-medium text-gray-900">{workout.workout_type}</p>
+                      <p className="text-sm text-gray-500">
+                        {workout.workout_date} · {SOURCE_LABELS[workout.source]}
+                      </p>
+                      <p className="mt-1 text-sm text-gray-600">{workoutDetails(workout)}</p>
+                      {workout.review_status === 'pending' && (
+                        <p className="mt-1 text-xs text-yellow-700">Held for review</p>
+                      )}
+                      {workout.review_status === 'rejected' && (
+                        <p className="mt-1 text-xs text-red-600">Rejected in review</p>
+                      )}
+                      {workout.merged_into && (
+                        <p className="mt-1 text-xs text-gray-500">
+                          Same session as a workout from another app, so it earns no points.{' '}
+                          <button
+                            onClick={() => handleUnmerge(workout)}
+                            disabled={unmergingId === workout.id}
+                            className="font-medium text-blue-600 hover:text-blue-500 disabled:text-blue-300"
+                          >
+                            Not the same workout?
+                          </button>
+                        </p>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <p className="font-semibold text-green-600">
+                        {workout.scored_at ? `+${workout.points_earned}` : '…'} pts
+                      </p>
+                      {isDeletableWorkout(workout) ? (
+                        <div className="mt-2 flex justify-end gap-3 text-sm">
+                          {isEditableWorkout(workout) && (
+                            <button
+                              onClick={() => setEditingId(workout.id)}
+                              className="font-medium text-blue-600 hover:text-blue-500"
+                            >
+                              Edit
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleDelete(workout)}
+                            disabled={deletingId === workout.id}
+                            className="font-medium text-red-600 hover:text-red-700 disabled:text-red-300"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      ) : (
+                        <p className="mt-2 text-xs text-gray-500">Read-only</p>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {hasMore && !loading && (
+          <FormButton type="button" variant="secondary" loading={loadingMore} onClick={loadMore}>
+            Load More
+          </FormButton>
+        )}
+      </main>
+    </div>
+  );
+}
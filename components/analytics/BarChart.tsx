@@ -0,0 +1,42 @@
+export interface BarChartPoint {
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  data: BarChartPoint[];
+  /** Shown after each value in the bar's tooltip */
+  unit?: string;
+  height?: number;
+}
+
+/**
+ * Vertical bars scaled to the largest value, with the first and last labels
+ * under the axis. Values are shown on hover.
+ */
+export function BarChart({ data, unit = '', height = 160 }: BarChartProps) {
+  const max = Math.max(0, ...data.map((point) => point.value));
+
+  if (data.length === 0) {
+    return <p className="text-sm text-gray-500">No data for this range.</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-end gap-1 border-b border-gray-200" style={{ height }}>
+        {data.map((point) => (
+          <div
+            key={point.label}
+            title={`${point.label}: ${point.value}${unit}`}
+            className="flex-1 rounded-t bg-blue-500 hover:bg-blue-600"
+            style={{ height: max > 0 ? `${(point.value / max) * 100}%` : 0 }}
+          ></div>
+        ))}
+      </div>
+      <div className="mt-1 flex justify-between text-xs text-gray-500">
+        <span>{data[0].label}</span>
+        {data.length > 1 && <span>{data[data.length - 1].label}</span>}
+      </div>
+    </div>
+  );
+}
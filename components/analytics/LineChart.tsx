@@ -0,0 +1,84 @@
+export interface LineChartPoint {
+  label: string;
+  /** Null leaves a gap in the line */
+  value: number | null;
+}
+
+interface LineChartProps {
+  data: LineChartPoint[];
+  unit?: string;
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = 8;
+
+/**
+ * A line through the points that have a value, scaled between the lowest and
+ * highest of them, broken where a point has none.
+ */
+export function LineChart({ data, unit = '', height = 160 }: LineChartProps) {
+  const values = data.flatMap((point) => (point.value === null ? [] : [point.value]));
+
+  if (values.length === 0) {
+    return <p className="text-sm text-gray-500">No data for this range.</p>;
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const step = data.length > 1 ? (WIDTH - 2 * PADDING) / (data.length - 1) : 0;
+  const x = (index: number) => (data.length > 1 ? PADDING + index * step : WIDTH / 2);
+  const y = (value: number) =>
+    max === min ? height / 2 : PADDING + ((max - value) / (max - min)) * (height - 2 * PADDING);
+
+  // One polyline per run of consecutive points with a value
+  const segments: string[][] = [];
+  let current: string[] = [];
+  data.forEach((point, index) => {
+    if (point.value === null) {
+      if (current.length > 0) segments.push(current);
+      current = [];
+    } else {
+      current.push(`${x(index)},${y(point.value)}`);
+    }
+  });
+  if (current.length > 0) segments.push(current);
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500">
+        {min}–{max}
+        {unit}
+      </p>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full border-b border-gray-200">
+        {segments.map((segment) => (
+          <polyline
+            key={segment[0]}
+            points={segment.join(' ')}
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            className="text-red-500"
+          />
+        ))}
+        {data.map((point, index) =>
+          point.value === null ? null : (
+            <circle
+              key={point.label}
+              cx={x(index)}
+              cy={y(point.value)}
+              r="3"
+              className="fill-red-500"
+            >
+              <title>{`${point.label}: ${point.value}${unit}`}</title>
+            </circle>
+          )
+        )}
+      </svg>
+      <div className="mt-1 flex justify-between text-xs text-gray-500">
+        <span>{data[0].label}</span>
+        {data.length > 1 && <span>{data[data.length - 1].label}</span>}
+      </div>
+    </div>
+  );
+}
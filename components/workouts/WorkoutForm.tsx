@@ -0,0 +1,188 @@
+import { useId, useState } from 'react';
+import { FormInput } from '@/components/auth/FormInput';
+import { FormButton } from '@/components/auth/FormButton';
+import { shiftDate } from '@/lib/utils/dates';
+import {
+  COMMON_WORKOUT_TYPES,
+  MAX_BACKDATE_DAYS,
+  MAX_HEART_RATE,
+  validateManualWorkout,
+  type ManualWorkoutInput,
+  type WorkoutInputError,
+} from '@/lib/workouts/manual';
+
+interface WorkoutFormProps {
+  /** The user's local date; the default date and the latest allowed */
+  today: string;
+  initialValues?: ManualWorkoutInput;
+  submitLabel: string;
+  /** Save the workout; resolves to an error to show, or null on success */
+  onSubmit: (input: ManualWorkoutInput) => Promise<WorkoutInputError | null>;
+  onCancel?: () => void;
+}
+
+type FormData = Record<keyof ManualWorkoutInput, string>;
+
+function toFormData(values?: ManualWorkoutInput): FormData {
+  const text = (value: number | null | undefined) => (value == null ? '' : String(value));
+
+  return {
+    workoutDate: values?.workoutDate ?? '',
+    workoutType: values?.workoutType ?? '',
+    durationMinutes: text(values?.durationMinutes),
+    distanceKm: text(values?.distanceKm),
+    caloriesBurned: text(values?.caloriesBurned),
+    heartRateAvg: text(values?.heartRateAvg),
+  };
+}
+
+function toNumber(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+function toInput(formData: FormData, today: string): ManualWorkoutInput {
+  return {
+    workoutDate: formData.workoutDate || today,
+    workoutType: formData.workoutType,
+    durationMinutes: toNumber(formData.durationMinutes),
+    distanceKm: toNumber(formData.distanceKm),
+    caloriesBurned: toNumber(formData.caloriesBurned),
+    heartRateAvg: toNumber(formData.heartRateAvg),
+  };
+}
+
+export function WorkoutForm({
+  today,
+  initialValues,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: WorkoutFormProps) {
+  const typesListId = useId();
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [formData, setFormData] = useState<FormData>(() => toFormData(initialValues));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input = toInput(formData, today);
+    // An edited workout may keep an older date
+    const inputErrors = validateManualWorkout(
+      input,
+      today,
+      input.workoutDate === initialValues?.workoutDate ? null : MAX_BACKDATE_DAYS
+    );
+    if (inputErrors.length > 0) {
+      setErrors(
+        Object.fromEntries(inputErrors.map((error) => [error.field || 'general', error.message]))
+      );
+      return;
+    }
+
+    setLoading(true);
+    setErrors({});
+
+    const error = await onSubmit(input);
+
+    setLoading(false);
+    if (error) {
+      setErrors({ [error.field || 'general']: error.message });
+    }
+  };
+
+  const handleChange = (field: keyof FormData) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData({ ...formData, [field]: e.target.value });
+    // Clear error for this field when user starts typing
+    if (errors[field]) {
+      setErrors({ ...errors, [field]: '' });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      {errors.general && (
+        <div className="mb-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-600">
+          {errors.general}
+        </div>
+      )}
+
+      <FormInput
+        label="Date"
+        type="date"
+        min={initialValues ? undefined : shiftDate(today, -MAX_BACKDATE_DAYS)}
+        max={today}
+        value={formData.workoutDate || today}
+        onChange={handleChange('workoutDate')}
+        error={errors.workoutDate}
+      />
+
+      <FormInput
+        label="Workout Type"
+        type="text"
+        list={typesListId}
+        value={formData.workoutType}
+        onChange={handleChange('workoutType')}
+        error={errors.workoutType}
+        placeholder="Running"
+      />
+      <datalist id={typesListId}>
+        {COMMON_WORKOUT_TYPES.map((type) => (
+          <option key={type} value={type} />
+        ))}
+      </datalist>
+
+      <FormInput
+        label="Duration (minutes)"
+        type="number"
+        min={1}
+        step={1}
+        value={formData.durationMinutes}
+        onChange={handleChange('durationMinutes')}
+        error={errors.durationMinutes}
+      />
+
+      <FormInput
+        label="Distance (km, optional)"
+        type="number"
+        min={0}
+        step={0.01}
+        value={formData.distanceKm}
+        onChange={handleChange('distanceKm')}
+        error={errors.distanceKm}
+      />
+
+      <FormInput
+        label="Calories (optional)"
+        type="number"
+        min={0}
+        step={1}
+        value={formData.caloriesBurned}
+        onChange={handleChange('caloriesBurned')}
+        error={errors.caloriesBurned}
+      />
+
+      <FormInput
+        label="Average Heart Rate (bpm, optional)"
+        type="number"
+        min={0}
+        max={MAX_HEART_RATE}
+        step={1}
+        value={formData.heartRateAvg}
+        onChange={handleChange('heartRateAvg')}
+        error={errors.heartRateAvg}
+      />
+
+      <div className={onCancel ? 'grid grid-cols-2 gap-4' : undefined}>
+        <FormButton type="submit" loading={loading}>
+          {submitLabel}
+        </FormButton>
+        {onCancel && (
+          <FormButton type="button" variant="secondary" onClick={onCancel} disabled={loading}>
+            Cancel
+          </FormButton>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,9 @@
+import { hasBearerSecret } from '@/lib/security/bearer';
+
+/**
+ * Admin routes (the workout review queue) are called by operators with
+ * `Authorization: Bearer <ADMIN_SECRET>`. Reject everything else.
+ */
+export function isAuthorizedAdminRequest(request: Request): boolean {
+  return hasBearerSecret(request, process.env.ADMIN_SECRET);
+}
@@ -0,0 +1,9 @@
+import { hasBearerSecret } from '@/lib/security/bearer';
+
+/**
+ * Scheduled job routes are called by the platform scheduler with
+ * `Authorization: Bearer <CRON_SECRET>`. Reject everything else.
+ */
+export function isAuthorizedCronRequest(request: Request): boolean {
+  return hasBearerSecret(request, process.env.CRON_SECRET);
+}
@@ -0,0 +1,67 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ActivitySync } from '@/types/database';
+
+export type FitnessProvider = ActivitySync['source'];
+
+/** Providers users can connect, in display order */
+export const FITNESS_PROVIDERS: FitnessProvider[] = ['strava', 'fitbit'];
+
+export const PROVIDER_LABELS: Record<FitnessProvider, string> = {
+  strava: 'Strava',
+  fitbit: 'Fitbit',
+};
+
+/** What a user may see of a connection; token columns are not readable by users */
+export const CONNECTION_COLUMNS = [
+  'source',
+  'sync_status',
+  'last_sync',
+  'error_message',
+  'created_at',
+] as const;
+
+export type FitnessConnection = Pick<ActivitySync, (typeof CONNECTION_COLUMNS)[number]>;
+
+export interface ConnectionError {
+  message: string;
+}
+
+/**
+ * A user's connected fitness providers
+ */
+export async function listConnections(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ connections: FitnessConnection[]; error: ConnectionError | null }> {
+  const { data, error } = await supabase
+    .from('activity_sync')
+    .select(CONNECTION_COLUMNS.join(', '))
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return { connections: [], error: { message: error.message } };
+  }
+
+  return { connections: data as unknown as FitnessConnection[], error: null };
+}
+
+/**
+ * One-line status for a provider's connection
+ */
+export function describeConnection(connection: FitnessConnection | undefined): string {
+  if (!connection) return 'Not connected';
+
+  switch (connection.sync_status) {
+    case 'revoked':
+      return 'Access was revoked. Reconnect to keep syncing.';
+    case 'error':
+      return `Sync failed: ${connection.error_message ?? 'unknown error'}`;
+    case 'active':
+      return connection.last_sync
+        ? `Connected, last synced ${new Date(connection.last_sync).toLocaleString()}`
+        : 'Connected';
+    default:
+      return 'Connected, waiting for the first sync';
+  }
+}
@@ -0,0 +1,114 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Inserts, Json, Workout } from '@/types/database';
+import { normalizeActivity, toWorkoutRow } from '@/lib/fitness/normalizer';
+import { MAX_DISTANCE_KM, MAX_DURATION_MINUTES, MAX_HEART_RATE } from '@/lib/workouts/manual';
+import { processWorkout, type ProcessWorkoutResult } from '@/lib/workouts/processing';
+import type { FitbitError } from '@/lib/fitness/fitbit/client';
+
+const KM_PER_MILE = 1.609344;
+
+/**
+ * The fields we use from a Fitbit activity log entry
+ */
+export interface FitbitActivity {
+  logId: number;
+  activityName: string;
+  activityTypeId?: number;
+  /** Local time with the user's UTC offset, e.g. 2025-03-10T07:15:00.000-05:00 */
+  startTime: string;
+  /** Milliseconds, including pauses */
+  duration: number;
+  /** Milliseconds of activity */
+  activeDuration?: number;
+  distance?: number;
+  distanceUnit?: string;
+  calories?: number;
+  averageHeartRate?: number;
+  steps?: number;
+  /** How it was recorded: auto_detected, manual, mobile_run or tracker */
+  logType?: string;
+}
+
+/**
+ * A workouts row for a Fitbit activity, or why it cannot be stored
+ */
+export function toFitbitWorkoutInsert(
+  userId: string,
+  activity: FitbitActivity
+): { row: Inserts<'workouts'> | null; error: FitbitError | null } {
+  const minutes = Math.round((activity.activeDuration || activity.duration) / 60000);
+  if (minutes < 1) {
+    return { row: null, error: { message: 'Activity is shorter than a minute' } };
+  }
+  if (minutes > MAX_DURATION_MINUTES) {
+    return { row: null, error: { message: 'Activity is longer than a day' } };
+  }
+
+  let distanceKm = activity.distance && activity.distance > 0 ? activity.distance : null;
+  if (distanceKm !== null && activity.distanceUnit === 'Mile') {
+    distanceKm *= KM_PER_MILE;
+  }
+  if (distanceKm !== null && distanceKm > MAX_DISTANCE_KM) {
+    return { row: null, error: { message: `Distance is over ${MAX_DISTANCE_KM} km` } };
+  }
+
+  const heartRate =
+    activity.averageHeartRate && activity.averageHeartRate <= MAX_HEART_RATE
+      ? Math.round(activity.averageHeartRate)
+      : null;
+
+  const normalized = normalizeActivity({
+    source: 'fitbit',
+    sourceType: activity.activityName,
+    // The start time is the user's wall-clock time
+    workoutDate: activity.startTime.slice(0, 10),
+    startedAt: new Date(activity.startTime).toISOString(),
+    durationMinutes: minutes,
+    distanceKm,
+    caloriesBurned: activity.calories ? Math.round(activity.calories) : null,
+    heartRateAvg: heartRate,
+    externalId: String(activity.logId),
+    rawData: activity as unknown as Json,
+  });
+
+  return { row: toWorkoutRow(userId, normalized), error: null };
+}
+
+/**
+ * Store a Fitbit activity as a workout, or update the workout already
+ * stored for it, then score it. Activities we cannot store are skipped with
+ * the reason.
+ *
+ * Must be given the service-role client.
+ */
+export async function saveFitbitActivity(
+  supabase: SupabaseClient,
+  userId: string,
+  activity: FitbitActivity
+): Promise<{
+  workout: Workout | null;
+  result: ProcessWorkoutResult | null;
+  skipped: string | null;
+  error: FitbitError | null;
+}> {
+  const { row, error: rowError } = toFitbitWorkoutInsert(userId, activity);
+
+  if (rowError) {
+    return { workout: null, result: null, skipped: rowError.message, error: null };
+  }
+
+  const { data, error } = await supabase
+    .from('workouts')
+    .upsert(row!, { onConflict: 'user_id,source,external_id' })
+    .select('*')
+    .single();
+
+  if (error) {
+    return { workout: null, result: null, skipped: null, error: { message: error.message } };
+  }
+
+  const workout = data as Workout;
+  const { result, error: processError } = await processWorkout(supabase, workout);
+
+  return { workout, result, skipped: null, error: processError };
+}
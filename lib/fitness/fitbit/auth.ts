@@ -0,0 +1,236 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ActivitySync } from '@/types/database';
+import { decryptSecret, encryptSecret } from '@/lib/security/token-crypto';
+import { OAUTH_STATE_TTL_SECONDS } from '@/lib/security/oauth-state';
+import {
+  needsTokenRefresh,
+  readStoredTokens,
+  toStoredTokens,
+  type StoredTokens,
+} from '@/lib/fitness/tokens';
+import {
+  currentQuota,
+  refreshFitbitToken,
+  type FitbitError,
+  type FitbitQuota,
+  type FitbitTokenResponse,
+} from '@/lib/fitness/fitbit/client';
+
+type FitbitConnection = Pick<
+  ActivitySync,
+  | 'id'
+  | 'sync_status'
+  | 'access_token_encrypted'
+  | 'refresh_token_encrypted'
+  | 'token_expires_at'
+  | 'rate_limit_remaining'
+  | 'rate_limit_resets_at'
+>;
+
+/**
+ * Encrypted token columns for a token response
+ */
+export function toStoredFitbitTokens(
+  tokens: FitbitTokenResponse,
+  now: Date = new Date()
+): StoredTokens {
+  return toStoredTokens(
+    tokens.access_token,
+    tokens.refresh_token,
+    new Date(now.getTime() + tokens.expires_in * 1000)
+  );
+}
+
+/**
+ * Keep a PKCE verifier until the callback for the given state nonce
+ */
+export async function savePkceVerifier(
+  supabase: SupabaseClient,
+  userId: string,
+  nonce: string,
+  verifier: string,
+  now: Date = new Date()
+): Promise<{ error: FitbitError | null }> {
+  // Abandoned flows leave verifiers behind; clear out expired ones as we go
+  await supabase.from('oauth_pkce_verifiers').delete().lt('expires_at', now.toISOString());
+
+  const { error } = await supabase.from('oauth_pkce_verifiers').insert({
+    nonce,
+    user_id: userId,
+    provider: 'fitbit',
+    code_verifier_encrypted: encryptSecret(verifier),
+    expires_at: new Date(now.getTime() + OAUTH_STATE_TTL_SECONDS * 1000).toISOString(),
+  });
+
+  return { error: error ? { message: error.message } : null };
+}
+
+/**
+ * Take the PKCE verifier saved for a state nonce. It can only be taken once.
+ */
+export async function takePkceVerifier(
+  supabase: SupabaseClient,
+  userId: string,
+  nonce: string,
+  now: Date = new Date()
+): Promise<{ verifier: string | null; error: FitbitError | null }> {
+  const { data, error } = await supabase
+    .from('oauth_pkce_verifiers')
+    .delete()
+    .eq('nonce', nonce)
+    .eq('user_id', userId)
+    .eq('provider', 'fitbit')
+    .gt('expires_at', now.toISOString())
+    .select('code_verifier_encrypted')
+    .maybeSingle();
+
+  if (error) {
+    return { verifier: null, error: { message: error.message } };
+  }
+  if (!data) {
+    return { verifier: null, error: { message: 'Authorization expired, please try again' } };
+  }
+
+  try {
+    return { verifier: decryptSecret(data.code_verifier_encrypted as string), error: null };
+  } catch (err) {
+    return {
+      verifier: null,
+      error: { message: err instanceof Error ? err.message : 'Could not decrypt verifier' },
+    };
+  }
+}
+
+/**
+ * Store a user's Fitbit connection after they authorize. Fitbit's user ID
+ * goes in webhook_id, the column for the provider's account ID. The
+ * connection stays pending until its first sync, which is due straight away.
+ */
+export async function saveFitbitConnection(
+  supabase: SupabaseClient,
+  userId: string,
+  tokens: FitbitTokenResponse
+): Promise<{ error: FitbitError | null }> {
+  let stored;
+  try {
+    stored = toStoredFitbitTokens(tokens);
+  } catch (err) {
+    return { error: { message: err instanceof Error ? err.message : 'Could not encrypt tokens' } };
+  }
+
+  const { error } = await supabase.from('activity_sync').upsert(
+    {
+      user_id: userId,
+      source: 'fitbit',
+      ...stored,
+      webhook_id: tokens.user_id,
+      sync_status: 'pending',
+      error_message: null,
+      // A reconnected account starts over from INITIAL_SYNC_DAYS back
+      last_sync: null,
+      next_sync_at: new Date().toISOString(),
+      consecutive_failures: 0,
+    },
+    { onConflict: 'user_id,source' }
+  );
+
+  return { error: error ? { message: error.message } : null };
+}
+
+/**
+ * A usable Fitbit access token for a user and their remaining API quota.
+ * Access tokens last eight hours and are refreshed when close to expiry;
+ * a refresh token Fitbit rejects means the user revoked access, so the
+ * connection is marked revoked. Tokens that cannot be decrypted mark it errored.
+ */
+export async function getFitbitAccessToken(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<{ accessToken: string | null; quota: FitbitQuota | null; error: FitbitError | null }> {
+  const { data, error } = await supabase
+    .from('activity_sync')
+    .select(
+      'id, sync_status, access_token_encrypted, refresh_token_encrypted, token_expires_at, rate_limit_remaining, rate_limit_resets_at'
+    )
+    .eq('user_id', userId)
+    .eq('source', 'fitbit')
+    .maybeSingle();
+
+  if (error) {
+    return { accessToken: null, quota: null, error: { message: error.message } };
+  }
+
+  const connection = data as FitbitConnection | null;
+
+  if (!connection?.access_token_encrypted || !connection.refresh_token_encrypted) {
+    return { accessToken: null, quota: null, error: { message: 'Fitbit is not connected' } };
+  }
+  if (connection.sync_status === 'revoked') {
+    return { accessToken: null, quota: null, error: { message: 'Fitbit access was revoked' } };
+  }
+
+  const quota = currentQuota(connection.rate_limit_remaining, connection.rate_limit_resets_at, now);
+
+  const { tokens: stored, error: readError } = await readStoredTokens(supabase, connection);
+
+  if (readError) {
+    return { accessToken: null, quota: null, error: readError };
+  }
+
+  try {
+    if (!needsTokenRefresh(connection.token_expires_at, now)) {
+      return { accessToken: stored!.accessToken, quota, error: null };
+    }
+
+    const { tokens, error: refreshError } = await refreshFitbitToken(stored!.refreshToken);
+
+    if (refreshError) {
+      if (refreshError.status === 400 || refreshError.status === 401) {
+        await supabase
+          .from('activity_sync')
+          .update({ sync_status: 'revoked', error_message: refreshError.message })
+          .eq('id', connection.id);
+      }
+      return { accessToken: null, quota: null, error: refreshError };
+    }
+
+    // The old refresh token is spent, so the new one must be kept
+    const { error: updateError } = await supabase
+      .from('activity_sync')
+      .update(toStoredFitbitTokens(tokens!, now))
+      .eq('id', connection.id);
+
+    if (updateError) {
+      return { accessToken: null, quota: null, error: { message: updateError.message } };
+    }
+
+    return { accessToken: tokens!.access_token, quota, error: null };
+  } catch (err) {
+    return {
+      accessToken: null,
+      quota: null,
+      error: { message: err instanceof Error ? err.message : 'Could not refresh Fitbit tokens' },
+    };
+  }
+}
+
+/**
+ * Remember a user's remaining Fitbit quota for their next sync
+ */
+export async function saveFitbitQuota(
+  supabase: SupabaseClient,
+  userId: string,
+  quota: FitbitQuota
+): Promise<{ error: FitbitError | null }> {
+  const { error } = await supabase
+    .from('activity_sync')
+    .update({
+      rate_limit_remaining: quota.remaining,
+      rate_limit_resets_at: quota.resetsAt?.toISOString() ?? null,
+    })
+    .eq('user_id', userId)
+    .eq('source', 'fitbit');
+
+  return { error: error ? { message: error.message } : null };
+}
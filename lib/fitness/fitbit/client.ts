@@ -0,0 +1,251 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Fitbit OAuth and Web API endpoints. FITBIT_BASE_URL points every call,
+ * including the authorize page, at another host such as a local stub.
+ */
+
+export const FITBIT_PROVIDER = 'fitbit';
+
+/** Cookie holding the OAuth state nonce between authorize and callback */
+export const FITBIT_STATE_COOKIE = 'fitbit_oauth_state';
+
+export const FITBIT_SCOPE = 'activity heartrate';
+
+/** Fitbit allows this many Web API requests per user per hour */
+export const FITBIT_HOURLY_REQUEST_LIMIT = 150;
+
+const DEFAULT_FITBIT_API_URL = 'https://api.fitbit.com';
+const DEFAULT_FITBIT_AUTHORIZE_URL = 'https://www.fitbit.com/oauth2/authorize';
+
+/** Response from /oauth2/token for both code exchange and refresh */
+export interface FitbitTokenResponse {
+  access_token: string;
+  /** Single use: every refresh returns a new one */
+  refresh_token: string;
+  /** Seconds; Fitbit access tokens last eight hours */
+  expires_in: number;
+  scope: string;
+  token_type: string;
+  /** Fitbit's ID for the user */
+  user_id: string;
+}
+
+export interface FitbitError {
+  message: string;
+  /** HTTP status from Fitbit, when it answered */
+  status?: number;
+  /** When a request refused for lack of quota may be retried */
+  retryAt?: Date;
+}
+
+/**
+ * A user's API quota, as last reported by Fitbit. Updated in place by each
+ * request made with it.
+ */
+export interface FitbitQuota {
+  remaining: number;
+  resetsAt: Date | null;
+}
+
+export function fitbitBaseUrl(): string {
+  return (process.env.FITBIT_BASE_URL || DEFAULT_FITBIT_API_URL).replace(/\/+$/, '');
+}
+
+export function fitbitRedirectUri(): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL}/api/auth/fitbit/callback`;
+}
+
+/**
+ * A PKCE code verifier and its S256 challenge
+ */
+export function createPkcePair(): { verifier: string; challenge: string } {
+  // 64 URL-safe characters, within the 43-128 RFC 7636 allows
+  const verifier = randomBytes(48).toString('base64url');
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+}
+
+/**
+ * Where to send the user to approve access
+ */
+export function buildFitbitAuthorizeUrl(state: string, codeChallenge: string): string {
+  const authorizeUrl = process.env.FITBIT_BASE_URL
+    ? `${fitbitBaseUrl()}/oauth2/authorize`
+    : DEFAULT_FITBIT_AUTHORIZE_URL;
+
+  const params = new URLSearchParams({
+    client_id: process.env.FITBIT_CLIENT_ID ?? '',
+    response_type: 'code',
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+    scope: FITBIT_SCOPE,
+    redirect_uri: fitbitRedirectUri(),
+    state,
+  });
+
+  return `${authorizeUrl}?${params}`;
+}
+
+/**
+ * Whether the user granted every scope we asked for; Fitbit lets them untick some
+ */
+export function hasRequiredFitbitScope(grantedScope: string | null): boolean {
+  const granted = new Set((grantedScope ?? '').split(/\s+/));
+  return FITBIT_SCOPE.split(' ').every((scope) => granted.has(scope));
+}
+
+function errorMessage(body: unknown, fallback: string): string {
+  const errors = (body as { errors?: { message?: string }[] } | null)?.errors;
+  return errors?.[0]?.message ?? fallback;
+}
+
+async function requestToken(
+  params: Record<string, string>
+): Promise<{ tokens: FitbitTokenResponse | null; error: FitbitError | null }> {
+  const clientId = process.env.FITBIT_CLIENT_ID ?? '';
+  const credentials = Buffer.from(`${clientId}:${process.env.FITBIT_CLIENT_SECRET ?? ''}`);
+
+  try {
+    const response = await fetch(`${fitbitBaseUrl()}/oauth2/token`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${credentials.toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ client_id: clientId, ...params }),
+      cache: 'no-store',
+    });
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      return {
+        tokens: null,
+        error: {
+          message: `Fitbit token request failed: ${errorMessage(body, response.statusText)}`,
+          status: response.status,
+        },
+      };
+    }
+
+    const tokens = body as FitbitTokenResponse | null;
+    if (!tokens?.access_token || !tokens.refresh_token || !tokens.expires_in) {
+      return { tokens: null, error: { message: 'Fitbit returned an incomplete token response' } };
+    }
+
+    return { tokens, error: null };
+  } catch (err) {
+    return {
+      tokens: null,
+      error: { message: err instanceof Error ? err.message : 'Could not reach Fitbit' },
+    };
+  }
+}
+
+/**
+ * Exchange the authorization code from the callback, proving possession of
+ * the PKCE verifier
+ */
+export function exchangeFitbitCode(code: string, codeVerifier: string) {
+  return requestToken({
+    grant_type: 'authorization_code',
+    code,
+    code_verifier: codeVerifier,
+    redirect_uri: fitbitRedirectUri(),
+  });
+}
+
+/**
+ * Get a new access token. The refresh token used is spent.
+ */
+export function refreshFitbitToken(refreshToken: string) {
+  return requestToken({ grant_type: 'refresh_token', refresh_token: refreshToken });
+}
+
+/**
+ * The quota to start from: what Fitbit last reported, or a full hour's
+ * allowance once that window has passed
+ */
+export function currentQuota(
+  remaining: number | null,
+  resetsAt: string | null,
+  now: Date = new Date()
+): FitbitQuota {
+  if (remaining === null || !resetsAt || new Date(resetsAt) <= now) {
+    return { remaining: FITBIT_HOURLY_REQUEST_LIMIT, resetsAt: null };
+  }
+  return { remaining, resetsAt: new Date(resetsAt) };
+}
+
+/**
+ * Update a quota from Fitbit's rate limit headers. Without them, count the
+ * request against what we knew.
+ */
+export function updateQuota(quota: FitbitQuota, headers: Headers, now: Date = new Date()): void {
+  const remaining = Number(headers.get('fitbit-rate-limit-remaining'));
+  const resetSeconds = Number(headers.get('fitbit-rate-limit-reset'));
+
+  if (headers.has('fitbit-rate-limit-remaining') && Number.isFinite(remaining)) {
+    quota.remaining = Math.max(0, remaining);
+  } else {
+    quota.remaining = Math.max(0, quota.remaining - 1);
+  }
+
+  if (headers.has('fitbit-rate-limit-reset') && Number.isFinite(resetSeconds)) {
+    quota.resetsAt = new Date(now.getTime() + resetSeconds * 1000);
+  } else if (!quota.resetsAt) {
+    quota.resetsAt = new Date(now.getTime() + 60 * 60 * 1000);
+  }
+}
+
+/**
+ * GET a Fitbit Web API resource for the user who owns the access token.
+ * Refuses without calling Fitbit when the quota is used up.
+ */
+export async function fitbitApiGet<T>(
+  accessToken: string,
+  path: string,
+  quota: FitbitQuota,
+  now: Date = new Date()
+): Promise<{ data: T | null; error: FitbitError | null }> {
+  if (quota.remaining <= 0 && quota.resetsAt && quota.resetsAt > now) {
+    return {
+      data: null,
+      error: { message: 'Fitbit request limit reached', status: 429, retryAt: quota.resetsAt },
+    };
+  }
+
+  try {
+    const response = await fetch(`${fitbitBaseUrl()}${path}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      cache: 'no-store',
+    });
+    updateQuota(quota, response.headers, now);
+    const body = await response.json().catch(() => null);
+
+    if (response.status === 429) {
+      quota.remaining = 0;
+      return {
+        data: null,
+        error: { message: 'Fitbit request limit reached', status: 429, retryAt: quota.resetsAt! },
+      };
+    }
+
+    if (!response.ok) {
+      return {
+        data: null,
+        error: {
+          message: `Fitbit request failed: ${errorMessage(body, response.statusText)}`,
+          status: response.status,
+        },
+      };
+    }
+
+    return { data: body as T, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: { message: err instanceof Error ? err.message : 'Could not reach Fitbit' },
+    };
+  }
+}
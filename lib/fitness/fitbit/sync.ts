@@ -0,0 +1,110 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getFitbitAccessToken, saveFitbitQuota } from '@/lib/fitness/fitbit/auth';
+import { fitbitApiGet, type FitbitError } from '@/lib/fitness/fitbit/client';
+import { saveFitbitActivity, type FitbitActivity } from '@/lib/fitness/fitbit/activities';
+
+/** The most activities Fitbit returns per page */
+const PAGE_SIZE = 100;
+
+interface FitbitActivityPage {
+  activities: FitbitActivity[];
+  pagination: { next: string };
+}
+
+export interface FitbitSyncResult {
+  saved: number;
+  skipped: number;
+  /** Start time of the last activity stored; the next sync can start here */
+  syncedThrough: string | null;
+  /** Set when the sync stopped early to stay within the hourly request limit */
+  retryAt: Date | null;
+}
+
+/**
+ * The activity list path for activities starting after a time, oldest first
+ */
+export function activityListPath(since: Date): string {
+  const params = new URLSearchParams({
+    // Fitbit reads this as the user's local time; a day of overlap is harmless
+    // since activities are stored by their Fitbit log ID
+    afterDate: new Date(since.getTime() - 24 * 60 * 60 * 1000).toISOString().slice(0, 19),
+    sort: 'asc',
+    offset: '0',
+    limit: String(PAGE_SIZE),
+  });
+  return `/1/user/-/activities/list.json?${params}`;
+}
+
+/**
+ * Path and query of Fitbit's next-page link, to be requested from our base URL
+ */
+export function nextPagePath(next: string): string | null {
+  if (!next) return null;
+  const url = new URL(next);
+  return `${url.pathname}${url.search}`;
+}
+
+/**
+ * Store a user's Fitbit activities that started after a time, scoring each.
+ * Stops early, without error, once the user's hourly request quota is used
+ * up; retryAt says when to continue from syncedThrough. After an error,
+ * the result still counts what was stored before it.
+ *
+ * Must be given the service-role client.
+ */
+export async function syncFitbitActivities(
+  supabase: SupabaseClient,
+  userId: string,
+  since: Date,
+  now: Date = new Date()
+): Promise<{ result: FitbitSyncResult | null; error: FitbitError | null }> {
+  const {
+    accessToken,
+    quota,
+    error: tokenError,
+  } = await getFitbitAccessToken(supabase, userId, now);
+
+  if (tokenError) {
+    return { result: null, error: tokenError };
+  }
+
+  const result: FitbitSyncResult = { saved: 0, skipped: 0, syncedThrough: null, retryAt: null };
+  let error: FitbitError | null = null;
+  let path: string | null = activityListPath(since);
+
+  while (path) {
+    const { data, error: pageError } = await fitbitApiGet<FitbitActivityPage>(
+      accessToken!,
+      path,
+      quota!,
+      now
+    );
+
+    if (pageError?.status === 429) {
+      result.retryAt = pageError.retryAt ?? null;
+      break;
+    }
+    if (pageError) {
+      error = pageError;
+      break;
+    }
+
+    for (const activity of data!.activities) {
+      const { skipped, error: saveError } = await saveFitbitActivity(supabase, userId, activity);
+      if (saveError) {
+        error = saveError;
+        break;
+      }
+      if (skipped) result.skipped++;
+      else result.saved++;
+      result.syncedThrough = activity.startTime;
+    }
+
+    if (error) break;
+    path = nextPagePath(data!.pagination?.next ?? '');
+  }
+
+  const { error: quotaError } = await saveFitbitQuota(supabase, userId, quota!);
+
+  return { result, error: error ?? quotaError };
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { FitnessConnection } from '@/lib/fitness/connections';
+
+/**
+ * Hook to get the current user's fitness provider connections
+ */
+export function useConnections() {
+  const [connections, setConnections] = useState<FitnessConnection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/connections');
+      const body = await response.json();
+
+      if (!response.ok) throw new Error(body.error ?? 'Failed to load connections');
+
+      setConnections(body.connections as FitnessConnection[]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load connections');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Sync every connection now rather than waiting for the background runner
+  const syncNow = useCallback(async () => {
+    setSyncing(true);
+
+    try {
+      const response = await fetch('/api/connections/sync', { method: 'POST' });
+      const body = await response.json();
+
+      if (!response.ok) throw new Error(body.error ?? 'Failed to sync connections');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sync connections');
+      return;
+    } finally {
+      setSyncing(false);
+    }
+
+    await refresh();
+  }, [refresh]);
+
+  return { connections, loading, syncing, error, refresh, syncNow };
+}
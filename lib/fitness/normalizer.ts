@@ -0,0 +1,384 @@
+import type { Inserts, Json, Workout } from '@/types/database';
+
+export type ActivityType = Workout['activity_type'];
+
+/**
+ * Canonical activity types. workout_type stays free text for display;
+ * activity_type is what stats, bonuses and validation group workouts by.
+ */
+export const ActivityType = {
+  Running: 'running',
+  Walking: 'walking',
+  Hiking: 'hiking',
+  Cycling: 'cycling',
+  Swimming: 'swimming',
+  Rowing: 'rowing',
+  Paddling: 'paddling',
+  StrengthTraining: 'strength_training',
+  Hiit: 'hiit',
+  Yoga: 'yoga',
+  Pilates: 'pilates',
+  Elliptical: 'elliptical',
+  StairClimbing: 'stair_climbing',
+  Dance: 'dance',
+  MartialArts: 'martial_arts',
+  Climbing: 'climbing',
+  SnowSports: 'snow_sports',
+  Skating: 'skating',
+  TeamSports: 'team_sports',
+  RacketSports: 'racket_sports',
+  Other: 'other',
+} as const satisfies Record<string, ActivityType>;
+
+export const ACTIVITY_TYPE_LABELS: Record<ActivityType, string> = {
+  running: 'Running',
+  walking: 'Walking',
+  hiking: 'Hiking',
+  cycling: 'Cycling',
+  swimming: 'Swimming',
+  rowing: 'Rowing',
+  paddling: 'Paddling',
+  strength_training: 'Strength Training',
+  hiit: 'HIIT',
+  yoga: 'Yoga',
+  pilates: 'Pilates',
+  elliptical: 'Elliptical',
+  stair_climbing: 'Stair Climbing',
+  dance: 'Dance',
+  martial_arts: 'Martial Arts',
+  climbing: 'Climbing',
+  snow_sports: 'Snow Sports',
+  skating: 'Skating',
+  team_sports: 'Team Sports',
+  racket_sports: 'Racket Sports',
+  other: 'Other',
+};
+
+export const ACTIVITY_TYPES = Object.keys(ACTIVITY_TYPE_LABELS) as ActivityType[];
+
+/**
+ * Patterns matched against a lowercased free-text name, first match wins.
+ * Written so they mean the same as JavaScript and PostgreSQL regular
+ * expressions: the backfill migration (20250101000019) uses the same list.
+ */
+export const ACTIVITY_PATTERNS: [ActivityType, string][] = [
+  ['hiit', 'hiit|interval|tabata|crossfit|circuit|boot ?camp|burpee|jump rope|skipping'],
+  [
+    'strength_training',
+    'strength|weight|lift|gym|resistance|kettlebell|calisthenics|crunch|core|plank',
+  ],
+  ['elliptical', 'elliptical|cross ?trainer'],
+  ['stair_climbing', 'stair|stepper'],
+  ['rowing', '(^| )row(ing|er)?( |$)'],
+  ['paddling', 'kayak|canoe|paddl'],
+  ['swimming', 'swim|pool'],
+  ['cycling', 'cycl|bike|biking|(^| )ride|spin|peloton|velo'],
+  ['hiking', 'hik|trek|mountaineer|backpack'],
+  ['walking', 'walk|stroll'],
+  ['running', 'run|jog|sprint|marathon|treadmill'],
+  ['yoga', 'yoga'],
+  ['pilates', 'pilates|barre'],
+  ['dance', 'danc|zumba|ballet'],
+  ['martial_arts', 'martial|boxing|karate|judo|taekwondo|jiu|mma|kung fu|muay thai'],
+  ['climbing', 'climb|boulder'],
+  ['snow_sports', 'ski($| |ing)|snowboard|snowshoe'],
+  ['skating', 'skat|rollerblad'],
+  [
+    'team_sports',
+    'soccer|football|basketball|volleyball|hockey|rugby|baseball|softball|cricket|netball|handball|lacrosse',
+  ],
+  ['racket_sports', 'tennis|badminton|squash|racquet|racket|pickleball|padel'],
+];
+
+const COMPILED_PATTERNS = ACTIVITY_PATTERNS.map(
+  ([type, pattern]) => [type, new RegExp(pattern)] as const
+);
+
+/**
+ * Strava sport_type values (and the older activity type values they extend)
+ */
+export const STRAVA_ACTIVITY_TYPES: Record<string, ActivityType> = {
+  Run: 'running',
+  TrailRun: 'running',
+  VirtualRun: 'running',
+  Walk: 'walking',
+  Hike: 'hiking',
+  Ride: 'cycling',
+  MountainBikeRide: 'cycling',
+  GravelRide: 'cycling',
+  EBikeRide: 'cycling',
+  EMountainBikeRide: 'cycling',
+  VirtualRide: 'cycling',
+  Velomobile: 'cycling',
+  Handcycle: 'cycling',
+  Swim: 'swimming',
+  Rowing: 'rowing',
+  VirtualRow: 'rowing',
+  Canoeing: 'paddling',
+  Kayaking: 'paddling',
+  StandUpPaddling: 'paddling',
+  WeightTraining: 'strength_training',
+  Crossfit: 'hiit',
+  HighIntensityIntervalTraining: 'hiit',
+  Yoga: 'yoga',
+  Pilates: 'pilates',
+  Elliptical: 'elliptical',
+  StairStepper: 'stair_climbing',
+  RockClimbing: 'climbing',
+  AlpineSki: 'snow_sports',
+  BackcountrySki: 'snow_sports',
+  NordicSki: 'snow_sports',
+  Snowboard: 'snow_sports',
+  Snowshoe: 'snow_sports',
+  IceSkate: 'skating',
+  InlineSkate: 'skating',
+  RollerSki: 'skating',
+  Skateboard: 'skating',
+  Soccer: 'team_sports',
+  Badminton: 'racket_sports',
+  Pickleball: 'racket_sports',
+  Racquetball: 'racket_sports',
+  Squash: 'racket_sports',
+  TableTennis: 'racket_sports',
+  Tennis: 'racket_sports',
+  Golf: 'other',
+  Sail: 'other',
+  Surfing: 'other',
+  Kitesurf: 'other',
+  Windsurf: 'other',
+  Wheelchair: 'other',
+  Workout: 'other',
+};
+
+/**
+ * Fitbit activity log names, lowercased
+ */
+export const FITBIT_ACTIVITY_TYPES: Record<string, ActivityType> = {
+  walk: 'walking',
+  run: 'running',
+  treadmill: 'running',
+  hike: 'hiking',
+  bike: 'cycling',
+  'outdoor bike': 'cycling',
+  spinning: 'cycling',
+  swim: 'swimming',
+  rowing: 'rowing',
+  weights: 'strength_training',
+  'weight lifting': 'strength_training',
+  'core training': 'strength_training',
+  'interval workout': 'hiit',
+  'circuit training': 'hiit',
+  bootcamp: 'hiit',
+  yoga: 'yoga',
+  pilates: 'pilates',
+  elliptical: 'elliptical',
+  stairclimber: 'stair_climbing',
+  dancing: 'dance',
+  'martial arts': 'martial_arts',
+  kickboxing: 'martial_arts',
+  tennis: 'racket_sports',
+  golf: 'other',
+  sport: 'other',
+  workout: 'other',
+  'aerobic workout': 'other',
+};
+
+export type ActivityIntensity = 'light' | 'moderate' | 'vigorous';
+
+// Typical metabolic equivalents (METs) per activity, from the Compendium of
+// Physical Activities
+export const ACTIVITY_METS: Record<ActivityType, number> = {
+  running: 9.8,
+  walking: 3.5,
+  hiking: 6.0,
+  cycling: 7.5,
+  swimming: 7.0,
+  rowing: 7.0,
+  paddling: 5.0,
+  strength_training: 5.0,
+  hiit: 8.0,
+  yoga: 2.5,
+  pilates: 3.0,
+  elliptical: 5.0,
+  stair_climbing: 9.0,
+  dance: 5.0,
+  martial_arts: 10.0,
+  climbing: 8.0,
+  snow_sports: 7.0,
+  skating: 7.0,
+  team_sports: 7.0,
+  racket_sports: 7.0,
+  other: 4.0,
+};
+
+// Walking and cycling METs depend on pace: [minimum km/h, METs], fastest first
+const SPEED_METS: Partial<Record<ActivityType, [number, number][]>> = {
+  walking: [
+    [7.5, 6.5],
+    [6.4, 5.0],
+    [5.6, 4.3],
+    [4.0, 3.5],
+    [0, 2.8],
+  ],
+  cycling: [
+    [22, 10.0],
+    [19, 8.0],
+    [16, 6.8],
+    [0, 4.0],
+  ],
+};
+
+// Standard intensity bands: under 3 METs is light, 6 or more is vigorous
+const MODERATE_METS = 3;
+const VIGOROUS_METS = 6;
+
+/**
+ * What an ingestion path knows about an activity before it is normalized
+ */
+export interface ActivityInput {
+  source: Workout['source'];
+  /**
+   * The activity's type as the source names it: a Strava sport_type, a
+   * Fitbit activity name, a file's sport or free text
+   */
+  sourceType: string | null;
+  /** Label to store as workout_type; defaults to the canonical type's label */
+  workoutType?: string | null;
+  workoutDate: string;
+  /** ISO start time, for sources that record one */
+  startedAt?: string | null;
+  durationMinutes: number | null;
+  distanceKm: number | null;
+  caloriesBurned?: number | null;
+  heartRateAvg?: number | null;
+  externalId?: string | null;
+  rawData?: Json | null;
+}
+
+/**
+ * The shape every ingestion path (manual entry, files, CSV, Strava, Fitbit)
+ * produces before a workout is stored
+ */
+export interface NormalizedActivity {
+  source: Workout['source'];
+  activityType: ActivityType;
+  workoutType: string;
+  intensity: ActivityIntensity;
+  workoutDate: string;
+  startedAt: string | null;
+  durationMinutes: number | null;
+  distanceKm: number | null;
+  caloriesBurned: number | null;
+  heartRateAvg: number | null;
+  externalId: string | null;
+  rawData: Json | null;
+}
+
+/**
+ * Canonical type for a free-text workout name, e.g. "Morning jog" -> running
+ */
+export function normalizeActivityType(name: string | null | undefined): ActivityType {
+  const text = (name ?? '').trim().toLowerCase();
+  if (!text) return 'other';
+  return COMPILED_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'other';
+}
+
+/**
+ * Canonical type for a source's own name for an activity. Names a source's
+ * table does not know fall back to free-text matching.
+ */
+export function activityTypeFor(source: Workout['source'], name: string | null): ActivityType {
+  if (source === 'strava' && name && name in STRAVA_ACTIVITY_TYPES) {
+    return STRAVA_ACTIVITY_TYPES[name];
+  }
+  if (source === 'fitbit' && name) {
+    const type = FITBIT_ACTIVITY_TYPES[name.trim().toLowerCase()];
+    if (type) return type;
+  }
+  return normalizeActivityType(name);
+}
+
+/**
+ * Key under which two workouts count as the same kind of activity. Workouts
+ * we cannot classify are compared by their free-text type instead.
+ */
+export function activityKey(
+  workout: Pick<Workout, 'workout_type'> & Partial<Pick<Workout, 'activity_type'>>
+): string {
+  const type = workout.activity_type ?? normalizeActivityType(workout.workout_type);
+  return type === 'other' ? `other:${workout.workout_type.trim().toLowerCase()}` : type;
+}
+
+/**
+ * Estimated METs for an activity, using its average speed where pace matters
+ */
+export function estimateMets(
+  activityType: ActivityType,
+  durationMinutes: number | null,
+  distanceKm: number | null
+): number {
+  const tiers = SPEED_METS[activityType];
+  if (tiers && durationMinutes && distanceKm) {
+    const speed = distanceKm / (durationMinutes / 60);
+    const tier = tiers.find(([minSpeed]) => speed >= minSpeed);
+    if (tier) return tier[1];
+  }
+  return ACTIVITY_METS[activityType];
+}
+
+/**
+ * Light, moderate or vigorous, from the activity's estimated METs
+ */
+export function classifyIntensity(
+  activityType: ActivityType,
+  durationMinutes: number | null,
+  distanceKm: number | null
+): ActivityIntensity {
+  const mets = estimateMets(activityType, durationMinutes, distanceKm);
+  if (mets >= VIGOROUS_METS) return 'vigorous';
+  if (mets >= MODERATE_METS) return 'moderate';
+  return 'light';
+}
+
+/**
+ * Classify an activity and fill in defaults
+ */
+export function normalizeActivity(input: ActivityInput): NormalizedActivity {
+  const activityType = activityTypeFor(input.source, input.sourceType);
+  const distanceKm = input.distanceKm === null ? null : Math.round(input.distanceKm * 100) / 100;
+
+  return {
+    source: input.source,
+    activityType,
+    workoutType: input.workoutType?.trim() || ACTIVITY_TYPE_LABELS[activityType],
+    intensity: classifyIntensity(activityType, input.durationMinutes, distanceKm),
+    workoutDate: input.workoutDate,
+    startedAt: input.startedAt ?? null,
+    durationMinutes: input.durationMinutes,
+    distanceKm,
+    caloriesBurned: input.caloriesBurned ?? null,
+    heartRateAvg: input.heartRateAvg ?? null,
+    externalId: input.externalId ?? null,
+    rawData: input.rawData ?? null,
+  };
+}
+
+/**
+ * The workouts row for a normalized activity
+ */
+export function toWorkoutRow(userId: string, activity: NormalizedActivity): Inserts<'workouts'> {
+  return {
+    user_id: userId,
+    workout_date: activity.workoutDate,
+    started_at: activity.startedAt,
+    workout_type: activity.workoutType,
+    activity_type: activity.activityType,
+    duration_minutes: activity.durationMinutes,
+    distance_km: activity.distanceKm,
+    calories_burned: activity.caloriesBurned,
+    heart_rate_avg: activity.heartRateAvg,
+    source: activity.source,
+    external_id: activity.externalId,
+    raw_data: activity.rawData,
+  };
+}
@@ -0,0 +1,178 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Inserts, Json, Workout } from '@/types/database';
+import { normalizeActivity, toWorkoutRow } from '@/lib/fitness/normalizer';
+import { MAX_DISTANCE_KM, MAX_DURATION_MINUTES, MAX_HEART_RATE } from '@/lib/workouts/manual';
+import { processWorkout, type ProcessWorkoutResult } from '@/lib/workouts/processing';
+import type { StravaError } from '@/lib/fitness/strava/client';
+
+/**
+ * The fields we use from a Strava activity (summary or detailed)
+ */
+export interface StravaActivity {
+  id: number;
+  name: string;
+  /** Newer, finer-grained type; older activities may only have `type` */
+  sport_type?: string;
+  type: string;
+  /** ISO time in UTC */
+  start_date: string;
+  /** ISO time in the athlete's timezone, written with a Z suffix */
+  start_date_local: string;
+  elapsed_time: number;
+  moving_time: number;
+  /** Metres */
+  distance: number;
+  total_elevation_gain?: number;
+  average_heartrate?: number;
+  max_heartrate?: number;
+  /** Only on detailed activities */
+  calories?: number;
+  manual?: boolean;
+  trainer?: boolean;
+  device_name?: string;
+  /** Per-kilometre splits; only on detailed activities */
+  splits_metric?: StravaSplit[];
+}
+
+export interface StravaSplit {
+  split: number;
+  /** Metres */
+  distance: number;
+  elapsed_time: number;
+  moving_time: number;
+}
+
+// Kept in raw_data; the rest of the activity (maps, segments) is not needed.
+// The splits give personal records over standard distances.
+const RAW_FIELDS = [
+  'id',
+  'name',
+  'sport_type',
+  'type',
+  'start_date',
+  'start_date_local',
+  'elapsed_time',
+  'moving_time',
+  'distance',
+  'total_elevation_gain',
+  'average_heartrate',
+  'max_heartrate',
+  'calories',
+  'manual',
+  'trainer',
+  'device_name',
+  'splits_metric',
+] as const;
+
+/**
+ * A workouts row for a Strava activity, or why it cannot be stored
+ */
+export function toStravaWorkoutInsert(
+  userId: string,
+  activity: StravaActivity
+): { row: Inserts<'workouts'> | null; error: StravaError | null } {
+  const minutes = Math.round((activity.moving_time || activity.elapsed_time) / 60);
+  if (minutes < 1) {
+    return { row: null, error: { message: 'Activity is shorter than a minute' } };
+  }
+  if (minutes > MAX_DURATION_MINUTES) {
+    return { row: null, error: { message: 'Activity is longer than a day' } };
+  }
+
+  const distanceKm = activity.distance > 0 ? activity.distance / 1000 : null;
+  if (distanceKm !== null && distanceKm > MAX_DISTANCE_KM) {
+    return { row: null, error: { message: `Distance is over ${MAX_DISTANCE_KM} km` } };
+  }
+
+  const heartRate =
+    activity.average_heartrate && activity.average_heartrate <= MAX_HEART_RATE
+      ? Math.round(activity.average_heartrate)
+      : null;
+
+  const rawData = Object.fromEntries(
+    RAW_FIELDS.filter((field) => activity[field] !== undefined).map((field) => [
+      field,
+      activity[field],
+    ])
+  );
+
+  const normalized = normalizeActivity({
+    source: 'strava',
+    sourceType: activity.sport_type ?? activity.type,
+    // The local start time already is the athlete's wall-clock time
+    workoutDate: activity.start_date_local.slice(0, 10),
+    startedAt: activity.start_date,
+    durationMinutes: minutes,
+    distanceKm,
+    caloriesBurned: activity.calories ? Math.round(activity.calories) : null,
+    heartRateAvg: heartRate,
+    externalId: String(activity.id),
+    rawData: rawData as Json,
+  });
+
+  return { row: toWorkoutRow(userId, normalized), error: null };
+}
+
+/**
+ * Store a Strava activity as a workout, or update the workout already
+ * stored for it, then score it. An update that changes anything scoring
+ * depends on resets scored_at, so the difference is credited or reversed.
+ * Activities we cannot store (under a minute, say) are skipped with the reason.
+ *
+ * Must be given the service-role client.
+ */
+export async function saveStravaActivity(
+  supabase: SupabaseClient,
+  userId: string,
+  activity: StravaActivity
+): Promise<{
+  workout: Workout | null;
+  result: ProcessWorkoutResult | null;
+  skipped: string | null;
+  error: StravaError | null;
+}> {
+  const { row, error: rowError } = toStravaWorkoutInsert(userId, activity);
+
+  if (rowError) {
+    return { workout: null, result: null, skipped: rowError.message, error: null };
+  }
+
+  const { data, error } = await supabase
+    .from('workouts')
+    .upsert(row!, { onConflict: 'user_id,source,external_id' })
+    .select('*')
+    .single();
+
+  if (error) {
+    return { workout: null, result: null, skipped: null, error: { message: error.message } };
+  }
+
+  const workout = data as Workout;
+  const { result, error: processError } = await processWorkout(supabase, workout);
+
+  return { workout, result, skipped: null, error: processError };
+}
+
+/**
+ * Remove the workout stored for a deleted Strava activity. Deleting it
+ * reverses its points. Returns how many workouts were removed.
+ */
+export async function removeStravaActivity(
+  supabase: SupabaseClient,
+  userId: string,
+  activityId: number
+): Promise<{ removed: number; error: StravaError | null }> {
+  const { data, error } = await supabase
+    .from('workouts')
+    .delete()
+    .eq('user_id', userId)
+    .eq('source', 'strava')
+    .eq('external_id', String(activityId))
+    .select('id');
+
+  if (error) {
+    return { removed: 0, error: { message: error.message } };
+  }
+
+  return { removed: (data ?? []).length, error: null };
+}
@@ -0,0 +1,135 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ActivitySync } from '@/types/database';
+import {
+  needsTokenRefresh,
+  readStoredTokens,
+  toStoredTokens,
+  type StoredTokens,
+} from '@/lib/fitness/tokens';
+import {
+  refreshStravaToken,
+  type StravaError,
+  type StravaTokenResponse,
+} from '@/lib/fitness/strava/client';
+
+/**
+ * Encrypted token columns for a token response
+ */
+export function toStoredStravaTokens(tokens: StravaTokenResponse): StoredTokens {
+  return toStoredTokens(
+    tokens.access_token,
+    tokens.refresh_token,
+    new Date(tokens.expires_at * 1000)
+  );
+}
+
+/**
+ * Store a user's Strava connection after they authorize. The athlete ID goes
+ * in webhook_id: Strava's webhook events name the athlete, not our user.
+ * The connection stays pending until its first sync, which is due straight away.
+ */
+export async function saveStravaConnection(
+  supabase: SupabaseClient,
+  userId: string,
+  tokens: StravaTokenResponse
+): Promise<{ error: StravaError | null }> {
+  let stored;
+  try {
+    stored = toStoredStravaTokens(tokens);
+  } catch (err) {
+    return { error: { message: err instanceof Error ? err.message : 'Could not encrypt tokens' } };
+  }
+
+  const { error } = await supabase.from('activity_sync').upsert(
+    {
+      user_id: userId,
+      source: 'strava',
+      ...stored,
+      webhook_id: tokens.athlete ? String(tokens.athlete.id) : null,
+      sync_status: 'pending',
+      error_message: null,
+      // A reconnected account starts over from INITIAL_SYNC_DAYS back
+      last_sync: null,
+      next_sync_at: new Date().toISOString(),
+      consecutive_failures: 0,
+    },
+    { onConflict: 'user_id,source' }
+  );
+
+  return { error: error ? { message: error.message } : null };
+}
+
+/**
+ * A usable Strava access token for a user, refreshing it first when it is
+ * close to expiry. A refresh token Strava rejects means the user revoked
+ * access, so the connection is marked revoked. Tokens that cannot be
+ * decrypted mark it errored.
+ */
+export async function getStravaAccessToken(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<{ accessToken: string | null; error: StravaError | null }> {
+  const { data, error } = await supabase
+    .from('activity_sync')
+    .select('id, sync_status, access_token_encrypted, refresh_token_encrypted, token_expires_at')
+    .eq('user_id', userId)
+    .eq('source', 'strava')
+    .maybeSingle();
+
+  if (error) {
+    return { accessToken: null, error: { message: error.message } };
+  }
+
+  const connection = data as Pick<
+    ActivitySync,
+    'id' | 'sync_status' | 'access_token_encrypted' | 'refresh_token_encrypted' | 'token_expires_at'
+  > | null;
+
+  if (!connection?.access_token_encrypted || !connection.refresh_token_encrypted) {
+    return { accessToken: null, error: { message: 'Strava is not connected' } };
+  }
+  if (connection.sync_status === 'revoked') {
+    return { accessToken: null, error: { message: 'Strava access was revoked' } };
+  }
+
+  const { tokens: stored, error: readError } = await readStoredTokens(supabase, connection);
+
+  if (readError) {
+    return { accessToken: null, error: readError };
+  }
+
+  try {
+    if (!needsTokenRefresh(connection.token_expires_at, now)) {
+      return { accessToken: stored!.accessToken, error: null };
+    }
+
+    const { tokens, error: refreshError } = await refreshStravaToken(stored!.refreshToken);
+
+    if (refreshError) {
+      if (refreshError.status === 400 || refreshError.status === 401) {
+        await supabase
+          .from('activity_sync')
+          .update({ sync_status: 'revoked', error_message: refreshError.message })
+          .eq('id', connection.id);
+      }
+      return { accessToken: null, error: refreshError };
+    }
+
+    const { error: updateError } = await supabase
+      .from('activity_sync')
+      .update(toStoredStravaTokens(tokens!))
+      .eq('id', connection.id);
+
+    if (updateError) {
+      return { accessToken: null, error: { message: updateError.message } };
+    }
+
+    return { accessToken: tokens!.access_token, error: null };
+  } catch (err) {
+    return {
+      accessToken: null,
+      error: { message: err instanceof Error ? err.message : 'Could not refresh Strava tokens' },
+    };
+  }
+}
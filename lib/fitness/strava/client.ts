@@ -0,0 +1,155 @@
+/**
+ * Strava OAuth and API endpoints. STRAVA_BASE_URL points the whole flow at
+ * another host, e.g. a local mock server in end-to-end tests.
+ */
+
+export const STRAVA_PROVIDER = 'strava';
+
+/** Cookie holding the OAuth state nonce between authorize and callback */
+export const STRAVA_STATE_COOKIE = 'strava_oauth_state';
+
+/** activity:read_all includes private activities, which still count for points */
+export const STRAVA_SCOPE = 'read,activity:read_all';
+
+const DEFAULT_STRAVA_BASE_URL = 'https://www.strava.com';
+
+export interface StravaAthlete {
+  id: number;
+}
+
+/** Response from /oauth/token for both code exchange and refresh */
+export interface StravaTokenResponse {
+  token_type: string;
+  access_token: string;
+  refresh_token: string;
+  /** Unix time in seconds */
+  expires_at: number;
+  expires_in: number;
+  /** Only returned when exchanging an authorization code */
+  athlete?: StravaAthlete;
+}
+
+export interface StravaError {
+  message: string;
+  /** HTTP status from Strava, when it answered */
+  status?: number;
+}
+
+export function stravaBaseUrl(): string {
+  return (process.env.STRAVA_BASE_URL || DEFAULT_STRAVA_BASE_URL).replace(/\/+$/, '');
+}
+
+export function stravaRedirectUri(): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL}/api/auth/strava/callback`;
+}
+
+/**
+ * Where to send the user to approve access
+ */
+export function buildStravaAuthorizeUrl(state: string): string {
+  const params = new URLSearchParams({
+    client_id: process.env.STRAVA_CLIENT_ID ?? '',
+    redirect_uri: stravaRedirectUri(),
+    response_type: 'code',
+    approval_prompt: 'auto',
+    scope: STRAVA_SCOPE,
+    state,
+  });
+
+  return `${stravaBaseUrl()}/oauth/authorize?${params}`;
+}
+
+/**
+ * Whether the user granted every scope we asked for; Strava lets them untick some
+ */
+export function hasRequiredStravaScope(grantedScope: string | null): boolean {
+  const granted = new Set((grantedScope ?? '').split(','));
+  return STRAVA_SCOPE.split(',').every((scope) => granted.has(scope));
+}
+
+async function requestToken(
+  params: Record<string, string>
+): Promise<{ tokens: StravaTokenResponse | null; error: StravaError | null }> {
+  try {
+    const response = await fetch(`${stravaBaseUrl()}/oauth/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: process.env.STRAVA_CLIENT_ID ?? '',
+        client_secret: process.env.STRAVA_CLIENT_SECRET ?? '',
+        ...params,
+      }),
+      cache: 'no-store',
+    });
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      return {
+        tokens: null,
+        error: {
+          message: `Strava token request failed: ${body?.message ?? response.statusText}`,
+          status: response.status,
+        },
+      };
+    }
+
+    const tokens = body as StravaTokenResponse | null;
+    if (!tokens?.access_token || !tokens.refresh_token || !tokens.expires_at) {
+      return { tokens: null, error: { message: 'Strava returned an incomplete token response' } };
+    }
+
+    return { tokens, error: null };
+  } catch (err) {
+    return {
+      tokens: null,
+      error: { message: err instanceof Error ? err.message : 'Could not reach Strava' },
+    };
+  }
+}
+
+/**
+ * Exchange the authorization code from the callback for tokens
+ */
+export function exchangeStravaCode(code: string) {
+  return requestToken({ code, grant_type: 'authorization_code' });
+}
+
+/**
+ * Get a new access token; Strava access tokens last six hours
+ */
+export function refreshStravaToken(refreshToken: string) {
+  return requestToken({ refresh_token: refreshToken, grant_type: 'refresh_token' });
+}
+
+/**
+ * GET a Strava API v3 resource as the athlete who owns the access token
+ */
+export async function stravaApiGet<T>(
+  accessToken: string,
+  path: string
+): Promise<{ data: T | null; error: StravaError | null }> {
+  try {
+    const response = await fetch(`${stravaBaseUrl()}/api/v3${path}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      cache: 'no-store',
+    });
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      return {
+        data: null,
+        error: {
+          message: `Strava request failed: ${body?.message ?? response.statusText}`,
+          status: response.status,
+        },
+      };
+    }
+
+    return { data: body as T, error: null };
+  } catch (err) {
+    return {
+      data: null,
+      error: { message: err instanceof Error ? err.message : 'Could not reach Strava' },
+    };
+  }
+}
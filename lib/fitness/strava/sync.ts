@@ -0,0 +1,79 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getStravaAccessToken } from '@/lib/fitness/strava/auth';
+import { stravaApiGet, type StravaError } from '@/lib/fitness/strava/client';
+import { saveStravaActivity, type StravaActivity } from '@/lib/fitness/strava/activities';
+
+/** The most activities Strava returns per page */
+const PAGE_SIZE = 100;
+
+// Activities are listed by start time but can be uploaded hours later, so
+// each sync looks back this far; already-stored activities are unchanged
+const UPLOAD_DELAY_HOURS = 24;
+
+export interface StravaSyncResult {
+  saved: number;
+  skipped: number;
+  /** Start time of the last activity stored */
+  syncedThrough: string | null;
+  /** Strava limits are per application, so a sync never stops early for quota */
+  retryAt: null;
+}
+
+/**
+ * The athlete activities path for activities starting after a time, oldest first
+ */
+export function athleteActivitiesPath(since: Date, page: number): string {
+  const after = Math.floor(since.getTime() / 1000) - UPLOAD_DELAY_HOURS * 60 * 60;
+  const params = new URLSearchParams({
+    after: String(after),
+    page: String(page),
+    per_page: String(PAGE_SIZE),
+  });
+  return `/athlete/activities?${params}`;
+}
+
+/**
+ * Store a user's Strava activities that started after a time, scoring each.
+ * After an error, the result still counts what was stored before it.
+ *
+ * Must be given the service-role client.
+ */
+export async function syncStravaActivities(
+  supabase: SupabaseClient,
+  userId: string,
+  since: Date,
+  now: Date = new Date()
+): Promise<{ result: StravaSyncResult | null; error: StravaError | null }> {
+  const { accessToken, error: tokenError } = await getStravaAccessToken(supabase, userId, now);
+
+  if (tokenError) {
+    return { result: null, error: tokenError };
+  }
+
+  const result: StravaSyncResult = { saved: 0, skipped: 0, syncedThrough: null, retryAt: null };
+
+  for (let page = 1; ; page++) {
+    const { data, error } = await stravaApiGet<StravaActivity[]>(
+      accessToken!,
+      athleteActivitiesPath(since, page)
+    );
+
+    if (error) {
+      return { result, error };
+    }
+
+    for (const activity of data!) {
+      const { skipped, error: saveError } = await saveStravaActivity(supabase, userId, activity);
+      if (saveError) {
+        return { result, error: saveError };
+      }
+      if (skipped) result.skipped++;
+      else result.saved++;
+      result.syncedThrough = activity.start_date;
+    }
+
+    if (data!.length < PAGE_SIZE) {
+      return { result, error: null };
+    }
+  }
+}
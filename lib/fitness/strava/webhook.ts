@@ -0,0 +1,260 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ActivitySync, Inserts, Json, StravaWebhookEvent } from '@/types/database';
+import { getStravaAccessToken } from '@/lib/fitness/strava/auth';
+import { stravaApiGet, type StravaError } from '@/lib/fitness/strava/client';
+import {
+  removeStravaActivity,
+  saveStravaActivity,
+  type StravaActivity,
+} from '@/lib/fitness/strava/activities';
+
+type StravaConnection = Pick<ActivitySync, 'id' | 'user_id' | 'sync_status'>;
+
+const OBJECT_TYPES = ['activity', 'athlete'];
+const ASPECT_TYPES = ['create', 'update', 'delete'];
+
+/**
+ * Answer Strava's subscription validation request: the challenge to echo
+ * back, or null if the request is not for our subscription
+ */
+export function verifyStravaSubscription(params: URLSearchParams): string | null {
+  const verifyToken = process.env.STRAVA_WEBHOOK_VERIFY_TOKEN;
+  const challenge = params.get('hub.challenge');
+
+  if (
+    !verifyToken ||
+    !challenge ||
+    params.get('hub.mode') !== 'subscribe' ||
+    params.get('hub.verify_token') !== verifyToken
+  ) {
+    return null;
+  }
+
+  return challenge;
+}
+
+/**
+ * Check the shape of a webhook event body
+ */
+export function parseStravaWebhookEvent(body: unknown): {
+  event: Inserts<'strava_webhook_events'> | null;
+  error: StravaError | null;
+} {
+  const value = (body ?? {}) as Record<string, unknown>;
+  const { object_type, aspect_type, object_id, owner_id, subscription_id, event_time, updates } =
+    value;
+
+  if (
+    !OBJECT_TYPES.includes(object_type as string) ||
+    !ASPECT_TYPES.includes(aspect_type as string) ||
+    ![object_id, owner_id, subscription_id, event_time].every(Number.isSafeInteger)
+  ) {
+    return { event: null, error: { message: 'Not a Strava webhook event' } };
+  }
+
+  const expectedSubscription = process.env.STRAVA_WEBHOOK_SUBSCRIPTION_ID;
+  if (expectedSubscription && String(subscription_id) !== expectedSubscription) {
+    return { event: null, error: { message: 'Event is for another subscription' } };
+  }
+
+  return {
+    event: {
+      object_type: object_type as StravaWebhookEvent['object_type'],
+      aspect_type: aspect_type as StravaWebhookEvent['aspect_type'],
+      object_id: object_id as number,
+      owner_id: owner_id as number,
+      subscription_id: subscription_id as number,
+      event_time: event_time as number,
+      updates: (updates ?? null) as Json | null,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Whether an event says the athlete revoked our access
+ */
+export function isDeauthorization(
+  event: Pick<StravaWebhookEvent, 'object_type' | 'updates'>
+): boolean {
+  const updates = event.updates as Record<string, unknown> | null;
+  return event.object_type === 'athlete' && String(updates?.authorized) === 'false';
+}
+
+/**
+ * Record an event on receipt. Returns null for an event already processed,
+ * which happens when Strava retries a delivery.
+ */
+export async function recordStravaWebhookEvent(
+  supabase: SupabaseClient,
+  event: Inserts<'strava_webhook_events'>
+): Promise<{ event: StravaWebhookEvent | null; error: StravaError | null }> {
+  const { error: insertError } = await supabase.from('strava_webhook_events').upsert(event, {
+    onConflict: 'object_type,object_id,aspect_type,event_time',
+    ignoreDuplicates: true,
+  });
+
+  if (insertError) {
+    return { event: null, error: { message: insertError.message } };
+  }
+
+  const { data, error } = await supabase
+    .from('strava_webhook_events')
+    .select('*')
+    .eq('object_type', event.object_type)
+    .eq('object_id', event.object_id)
+    .eq('aspect_type', event.aspect_type)
+    .eq('event_time', event.event_time)
+    .single();
+
+  if (error) {
+    return { event: null, error: { message: error.message } };
+  }
+
+  const recorded = data as StravaWebhookEvent;
+  return { event: recorded.processed_at ? null : recorded, error: null };
+}
+
+/**
+ * Apply an event for every user linked to the athlete, then mark it
+ * processed, or record why it failed. Users who revoked access are skipped.
+ *
+ * Events carry no signature, so nothing in them is trusted: activities are
+ * fetched from Strava with the user's token, and deletions and revocations
+ * are only applied once Strava confirms them.
+ *
+ * Must be given the service-role client.
+ */
+export async function processStravaWebhookEvent(
+  supabase: SupabaseClient,
+  event: StravaWebhookEvent
+): Promise<{ error: StravaError | null }> {
+  const { data, error: connectionError } = await supabase
+    .from('activity_sync')
+    .select('id, user_id, sync_status')
+    .eq('source', 'strava')
+    .eq('webhook_id', String(event.owner_id));
+
+  let error: StravaError | null = connectionError ? { message: connectionError.message } : null;
+
+  for (const connection of (data ?? []) as StravaConnection[]) {
+    if (error) break;
+    if (connection.sync_status === 'revoked') continue;
+    ({ error } = await applyEvent(supabase, connection, event));
+  }
+
+  await supabase
+    .from('strava_webhook_events')
+    .update(
+      error
+        ? { error_message: error.message }
+        : { processed_at: new Date().toISOString(), error_message: null }
+    )
+    .eq('id', event.id);
+
+  return { error };
+}
+
+async function applyEvent(
+  supabase: SupabaseClient,
+  connection: StravaConnection,
+  event: StravaWebhookEvent
+): Promise<{ error: StravaError | null }> {
+  if (event.object_type === 'athlete' && !isDeauthorization(event)) {
+    return { error: null };
+  }
+
+  const { accessToken, error: tokenError } = await getStravaAccessToken(
+    supabase,
+    connection.user_id
+  );
+
+  if (tokenError) {
+    // A rejected refresh token has already marked the connection revoked
+    return { error: isDeauthorization(event) ? null : tokenError };
+  }
+
+  if (event.object_type === 'athlete') {
+    const { error: athleteError } = await stravaApiGet(accessToken!, '/athlete');
+
+    if (athleteError?.status !== 401) {
+      return { error: athleteError };
+    }
+
+    const { error } = await supabase
+      .from('activity_sync')
+      .update({ sync_status: 'revoked', error_message: 'Access was revoked in Strava' })
+      .eq('id', connection.id);
+
+    return { error: error ? { message: error.message } : null };
+  }
+
+  const { data: activity, error: activityError } = await stravaApiGet<StravaActivity>(
+    accessToken!,
+    `/activities/${event.object_id}`
+  );
+
+  // Gone from Strava (deleted, or no longer visible to us): remove it here too
+  if (activityError?.status === 404) {
+    const { error } = await removeStravaActivity(supabase, connection.user_id, event.object_id);
+    return { error };
+  }
+
+  if (activityError) {
+    return { error: activityError };
+  }
+
+  // A delete event for an activity Strava still has is ignored
+  if (event.aspect_type === 'delete') {
+    return { error: null };
+  }
+
+  const { error } = await saveStravaActivity(supabase, connection.user_id, activity!);
+  return { error };
+}
+
+/** Events still failing after this long are given up on */
+export const WEBHOOK_RETRY_HOURS = 24;
+
+// Leave events alone while the request that received them may still be applying them
+const WEBHOOK_RETRY_DELAY_MINUTES = 5;
+
+/**
+ * Apply events that failed or were never applied, oldest first. Returns how
+ * many were applied.
+ */
+export async function retryStravaWebhookEvents(
+  supabase: SupabaseClient,
+  limit: number = 50,
+  now: Date = new Date()
+): Promise<{ processed: number; errors: StravaError[] }> {
+  const { data, error } = await supabase
+    .from('strava_webhook_events')
+    .select('*')
+    .is('processed_at', null)
+    .gte('received_at', new Date(now.getTime() - WEBHOOK_RETRY_HOURS * 3600_000).toISOString())
+    .lte(
+      'received_at',
+      new Date(now.getTime() - WEBHOOK_RETRY_DELAY_MINUTES * 60_000).toISOString()
+    )
+    .order('received_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    return { processed: 0, errors: [{ message: error.message }] };
+  }
+
+  let processed = 0;
+  const errors: StravaError[] = [];
+
+  for (const event of data as StravaWebhookEvent[]) {
+    const { error: processError } = await processStravaWebhookEvent(supabase, event);
+    if (processError) {
+      errors.push({ message: `Event ${event.id}: ${processError.message}` });
+    } else {
+      processed++;
+    }
+  }
+
+  return { processed, errors };
+}
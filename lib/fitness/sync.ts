@@ -0,0 +1,267 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ActivitySync } from '@/types/database';
+import { FITNESS_PROVIDERS, type FitnessProvider } from '@/lib/fitness/connections';
+import { syncStravaActivities } from '@/lib/fitness/strava/sync';
+import { syncFitbitActivities } from '@/lib/fitness/fitbit/sync';
+
+/** How often a healthy connection is synced */
+export const SYNC_INTERVAL_MINUTES: Record<FitnessProvider, number> = {
+  // Webhooks deliver new Strava activities as they happen; this catches misses
+  strava: 6 * 60,
+  fitbit: 60,
+};
+
+/**
+ * A new connection fetches this far back. Matches the window in which CSV
+ * imports earn points, so connecting an account does not pay out its history.
+ */
+export const INITIAL_SYNC_DAYS = 7;
+
+/** Longer than any one user's sync takes; a crashed run's lease expires after this */
+export const SYNC_LEASE_SECONDS = 15 * 60;
+
+// Failed syncs are retried after 5, 10, 20, ... minutes, at most daily
+export const RETRY_BASE_MINUTES = 5;
+export const RETRY_MAX_MINUTES = 24 * 60;
+
+export type SyncableConnection = Pick<
+  ActivitySync,
+  'id' | 'user_id' | 'source' | 'sync_status' | 'last_sync' | 'consecutive_failures'
+>;
+
+export interface SyncError {
+  message: string;
+  /** Another run holds the user's lease */
+  busy?: boolean;
+}
+
+export interface ConnectionSyncOutcome {
+  source: FitnessProvider;
+  status: 'active' | 'error' | 'revoked';
+  saved: number;
+  skipped: number;
+  error: string | null;
+}
+
+interface ProviderSyncResult {
+  saved: number;
+  skipped: number;
+  syncedThrough: string | null;
+  retryAt: Date | null;
+}
+
+type ProviderSync = (
+  supabase: SupabaseClient,
+  userId: string,
+  since: Date,
+  now: Date
+) => Promise<{
+  result: ProviderSyncResult | null;
+  error: { message: string; status?: number } | null;
+}>;
+
+const PROVIDER_SYNCS: Record<FitnessProvider, ProviderSync> = {
+  strava: syncStravaActivities,
+  fitbit: syncFitbitActivities,
+};
+
+const CONNECTION_COLUMNS = 'id, user_id, source, sync_status, last_sync, consecutive_failures';
+
+// Revoked connections are never synced; reconnecting makes them pending again
+const NOT_REVOKED_FILTER = 'sync_status.is.null,sync_status.neq.revoked';
+
+/**
+ * Minutes to wait before retrying after this many failures in a row
+ */
+export function retryDelayMinutes(failures: number): number {
+  return Math.min(RETRY_BASE_MINUTES * 2 ** Math.max(0, failures - 1), RETRY_MAX_MINUTES);
+}
+
+/**
+ * Where a sync starts: the last sync, or INITIAL_SYNC_DAYS back for a new connection
+ */
+export function syncWindowStart(lastSync: string | null, now: Date = new Date()): Date {
+  if (lastSync) return new Date(lastSync);
+  return new Date(now.getTime() - INITIAL_SYNC_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function addMinutes(date: Date, minutes: number): string {
+  return new Date(date.getTime() + minutes * 60 * 1000).toISOString();
+}
+
+/**
+ * Sync one connection and record the outcome on it. Success makes it
+ * active; failure makes it error and schedules a retry with backoff; an
+ * access token the provider rejects makes it revoked.
+ */
+async function syncConnection(
+  supabase: SupabaseClient,
+  connection: SyncableConnection,
+  now: Date
+): Promise<ConnectionSyncOutcome> {
+  const { result, error } = await PROVIDER_SYNCS[connection.source](
+    supabase,
+    connection.user_id,
+    syncWindowStart(connection.last_sync, now),
+    now
+  );
+
+  const outcome: ConnectionSyncOutcome = {
+    source: connection.source,
+    status: 'active',
+    saved: result?.saved ?? 0,
+    skipped: result?.skipped ?? 0,
+    error: error?.message ?? null,
+  };
+
+  let update: Partial<ActivitySync>;
+
+  if (!error) {
+    // Stopped early for quota: continue from the last activity stored
+    const partial = result!.retryAt !== null;
+    update = {
+      sync_status: 'active',
+      error_message: null,
+      consecutive_failures: 0,
+      last_sync: partial ? (result!.syncedThrough ?? connection.last_sync) : now.toISOString(),
+      next_sync_at: partial
+        ? result!.retryAt!.toISOString()
+        : addMinutes(now, SYNC_INTERVAL_MINUTES[connection.source]),
+    };
+  } else if (error.status === 401) {
+    outcome.status = 'revoked';
+    update = { sync_status: 'revoked', error_message: error.message };
+  } else {
+    const failures = connection.consecutive_failures + 1;
+    outcome.status = 'error';
+    update = {
+      sync_status: 'error',
+      error_message: error.message,
+      consecutive_failures: failures,
+      next_sync_at: addMinutes(now, retryDelayMinutes(failures)),
+      // Keep the progress made before the failure
+      last_sync: result?.syncedThrough ?? connection.last_sync,
+    };
+  }
+
+  // A rejected refresh token has already marked the connection revoked
+  const { data } = await supabase
+    .from('activity_sync')
+    .update(update)
+    .eq('id', connection.id)
+    .or(NOT_REVOKED_FILTER)
+    .select('id');
+
+  if (data && data.length === 0) {
+    outcome.status = 'revoked';
+  }
+
+  return outcome;
+}
+
+/**
+ * Sync a user's connections while holding their lease. With dueOnly, only
+ * connections whose next_sync_at has passed; otherwise all of them ("sync now").
+ *
+ * Must be given the service-role client.
+ */
+export async function syncUserConnections(
+  supabase: SupabaseClient,
+  userId: string,
+  dueOnly: boolean,
+  now: Date = new Date()
+): Promise<{ outcomes: ConnectionSyncOutcome[]; error: SyncError | null }> {
+  const { data: leaseId, error: leaseError } = await supabase.rpc('acquire_sync_lease', {
+    p_user_id: userId,
+    p_lease_seconds: SYNC_LEASE_SECONDS,
+  });
+
+  if (leaseError) {
+    return { outcomes: [], error: { message: leaseError.message } };
+  }
+  if (!leaseId) {
+    return { outcomes: [], error: { message: 'A sync is already running', busy: true } };
+  }
+
+  try {
+    let query = supabase
+      .from('activity_sync')
+      .select(CONNECTION_COLUMNS)
+      .eq('user_id', userId)
+      .or(NOT_REVOKED_FILTER);
+    if (dueOnly) query = query.or(`next_sync_at.is.null,next_sync_at.lte.${now.toISOString()}`);
+
+    const { data, error } = await query.order('source', { ascending: true });
+
+    if (error) {
+      return { outcomes: [], error: { message: error.message } };
+    }
+
+    const outcomes: ConnectionSyncOutcome[] = [];
+    for (const connection of data as SyncableConnection[]) {
+      outcomes.push(await syncConnection(supabase, connection, now));
+    }
+
+    return { outcomes, error: null };
+  } catch (err) {
+    return {
+      outcomes: [],
+      error: { message: err instanceof Error ? err.message : 'An unknown error occurred' },
+    };
+  } finally {
+    await supabase.rpc('release_sync_lease', { p_user_id: userId, p_lease_id: leaseId });
+  }
+}
+
+/**
+ * Sync due connections, soonest due first, for up to `limit` users. Users
+ * whose previous run is still going are left for the next pass.
+ */
+export async function runDueSyncs(
+  supabase: SupabaseClient,
+  limit: number = 10,
+  now: Date = new Date()
+): Promise<{ synced: number; failed: number; busy: number; errors: SyncError[] }> {
+  const { data, error } = await supabase
+    .from('activity_sync')
+    .select('user_id')
+    .or(NOT_REVOKED_FILTER)
+    .or(`next_sync_at.is.null,next_sync_at.lte.${now.toISOString()}`)
+    .order('next_sync_at', { ascending: true, nullsFirst: true })
+    // A user has at most one connection per provider
+    .limit(limit * FITNESS_PROVIDERS.length);
+
+  if (error) {
+    return { synced: 0, failed: 0, busy: 0, errors: [{ message: error.message }] };
+  }
+
+  const userIds = [...new Set((data as { user_id: string }[]).map((row) => row.user_id))].slice(
+    0,
+    limit
+  );
+  const summary = { synced: 0, failed: 0, busy: 0, errors: [] as SyncError[] };
+
+  for (const userId of userIds) {
+    const { outcomes, error: userError } = await syncUserConnections(supabase, userId, true, now);
+
+    if (userError?.busy) {
+      summary.busy++;
+      continue;
+    }
+    if (userError) {
+      summary.errors.push({ message: `User ${userId}: ${userError.message}` });
+      continue;
+    }
+
+    for (const outcome of outcomes) {
+      if (outcome.error) {
+        summary.failed++;
+        summary.errors.push({ message: `User ${userId} ${outcome.source}: ${outcome.error}` });
+      } else {
+        summary.synced++;
+      }
+    }
+  }
+
+  return summary;
+}
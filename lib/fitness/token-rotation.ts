@@ -0,0 +1,122 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ActivitySync } from '@/types/database';
+import {
+  decryptSecret,
+  encryptSecret,
+  isCurrentKey,
+  loadKeyring,
+  type EncryptionKeyring,
+} from '@/lib/security/token-crypto';
+
+/** Connections re-encrypted per batch */
+export const ROTATION_BATCH_SIZE = 100;
+
+const TOKEN_COLUMNS = ['access_token_encrypted', 'refresh_token_encrypted'] as const;
+
+export type EncryptedConnection = Pick<
+  ActivitySync,
+  'id' | 'access_token_encrypted' | 'refresh_token_encrypted'
+>;
+
+export interface RotationError {
+  message: string;
+  connectionId?: string;
+}
+
+export interface RotationBatchResult {
+  scanned: number;
+  rotated: number;
+  /** Connections whose tokens no configured key can decrypt */
+  failed: RotationError[];
+  /** Pass as `after` to continue with the next batch; null after the last one */
+  cursor: string | null;
+}
+
+/**
+ * A connection's token columns re-encrypted under the current key, or null if
+ * they already are. Throws if a token cannot be decrypted.
+ */
+export function reencryptTokens(
+  connection: EncryptedConnection,
+  keyring: EncryptionKeyring = loadKeyring()
+): Partial<EncryptedConnection> | null {
+  const update: Partial<EncryptedConnection> = {};
+
+  for (const column of TOKEN_COLUMNS) {
+    const value = connection[column];
+    if (value && !isCurrentKey(value, keyring)) {
+      update[column] = encryptSecret(decryptSecret(value, keyring), keyring);
+    }
+  }
+
+  return Object.keys(update).length > 0 ? update : null;
+}
+
+/**
+ * Re-encrypt the tokens of one batch of connections, in id order after
+ * `after`, under the current key. Tokens already under it are left alone, so
+ * a rotation that stopped part-way can be resumed from its last cursor or
+ * simply run again.
+ *
+ * Must be given the service-role client.
+ */
+export async function rotateTokenBatch(
+  supabase: SupabaseClient,
+  after: string | null,
+  batchSize: number = ROTATION_BATCH_SIZE,
+  keyring: EncryptionKeyring = loadKeyring()
+): Promise<{ result: RotationBatchResult | null; error: RotationError | null }> {
+  let query = supabase
+    .from('activity_sync')
+    .select('id, access_token_encrypted, refresh_token_encrypted')
+    .order('id', { ascending: true })
+    .limit(batchSize);
+  if (after) query = query.gt('id', after);
+
+  const { data, error } = await query;
+
+  if (error) {
+    return { result: null, error: { message: error.message } };
+  }
+
+  const connections = data as EncryptedConnection[];
+  const result: RotationBatchResult = {
+    scanned: connections.length,
+    rotated: 0,
+    failed: [],
+    cursor: connections.length === batchSize ? connections[connections.length - 1].id : null,
+  };
+
+  for (const connection of connections) {
+    let update: Partial<EncryptedConnection> | null;
+    try {
+      update = reencryptTokens(connection, keyring);
+    } catch (err) {
+      result.failed.push({
+        connectionId: connection.id,
+        message: err instanceof Error ? err.message : 'Could not decrypt tokens',
+      });
+      continue;
+    }
+
+    if (!update) continue;
+
+    // Only while the tokens are unchanged: a refresh since they were read
+    // has already stored new tokens under the current key
+    let write = supabase.from('activity_sync').update(update).eq('id', connection.id);
+    for (const column of TOKEN_COLUMNS) {
+      const value = connection[column];
+      write = value === null ? write.is(column, null) : write.eq(column, value);
+    }
+
+    const { data: written, error: writeError } = await write.select('id');
+
+    if (writeError) {
+      result.failed.push({ connectionId: connection.id, message: writeError.message });
+    } else if (written.length > 0) {
+      result.rotated++;
+    }
+  }
+
+  return { result, error: null };
+}
@@ -0,0 +1,72 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ActivitySync } from '@/types/database';
+import { decryptSecret, encryptSecret } from '@/lib/security/token-crypto';
+
+/** Refresh this long before expiry, so a token never lapses mid-sync */
+export const TOKEN_REFRESH_MARGIN_SECONDS = 5 * 60;
+
+// Shown on the connection when its tokens' key is gone; only reconnecting helps
+export const UNREADABLE_TOKENS_MESSAGE =
+  'Stored tokens could not be decrypted. Reconnect to keep syncing.';
+
+export type StoredTokens = Pick<
+  ActivitySync,
+  'access_token_encrypted' | 'refresh_token_encrypted' | 'token_expires_at'
+>;
+
+export interface TokenError {
+  message: string;
+}
+
+/**
+ * Encrypted token columns for a provider's tokens
+ */
+export function toStoredTokens(
+  accessToken: string,
+  refreshToken: string,
+  expiresAt: Date
+): StoredTokens {
+  return {
+    access_token_encrypted: encryptSecret(accessToken),
+    refresh_token_encrypted: encryptSecret(refreshToken),
+    token_expires_at: expiresAt.toISOString(),
+  };
+}
+
+/**
+ * Whether a stored access token is expired or about to be
+ */
+export function needsTokenRefresh(tokenExpiresAt: string | null, now: Date = new Date()): boolean {
+  if (!tokenExpiresAt) return true;
+  return new Date(tokenExpiresAt).getTime() - now.getTime() <= TOKEN_REFRESH_MARGIN_SECONDS * 1000;
+}
+
+/**
+ * Decrypt a connection's stored tokens. Tokens that cannot be decrypted (their
+ * key was removed from ENCRYPTION_KEYS, or the value is corrupt) mark the
+ * connection as errored instead of throwing.
+ */
+export async function readStoredTokens(
+  supabase: SupabaseClient,
+  connection: Pick<ActivitySync, 'id' | 'access_token_encrypted' | 'refresh_token_encrypted'>
+): Promise<{
+  tokens: { accessToken: string; refreshToken: string } | null;
+  error: TokenError | null;
+}> {
+  try {
+    return {
+      tokens: {
+        accessToken: decryptSecret(connection.access_token_encrypted ?? ''),
+        refreshToken: decryptSecret(connection.refresh_token_encrypted ?? ''),
+      },
+      error: null,
+    };
+  } catch {
+    await supabase
+      .from('activity_sync')
+      .update({ sync_status: 'error', error_message: UNREADABLE_TOKENS_MESSAGE })
+      .eq('id', connection.id);
+
+    return { tokens: null, error: { message: UNREADABLE_TOKENS_MESSAGE } };
+  }
+}
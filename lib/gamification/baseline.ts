@@ -0,0 +1,274 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Profile, UserBaseline, Workout } from '@/types/database';
+import { daysBetween, localDate, shiftDate, startOfWeek } from '@/lib/utils/dates';
+import { COUNTED_WORKOUTS_FILTER } from '@/lib/workouts/validation';
+
+// Weeks of history used for a full baseline calculation
+export const BASELINE_WEEKS = 4;
+
+// Fewer weeks of data than this falls back to a cold-start default
+export const MIN_BASELINE_WEEKS = 2;
+
+// Learning rate for the weekly exponential moving average
+export const BASELINE_EMA_ALPHA = 0.2;
+
+export type BaselineValues = Pick<
+  UserBaseline,
+  'avg_weekly_workouts' | 'avg_workout_duration' | 'avg_weekly_distance' | 'data_points'
+>;
+
+export interface WeekStats {
+  workouts: number;
+  /** Null when no workout in the week recorded a duration */
+  avgDuration: number | null;
+  totalDistance: number;
+}
+
+export interface BaselineError {
+  message: string;
+}
+
+type FitnessLevel = NonNullable<Profile['fitness_level']>;
+
+// Defaults for users without enough history, by self-reported fitness level
+export const COLD_START_BASELINES: Record<FitnessLevel, BaselineValues> = {
+  beginner: {
+    avg_weekly_workouts: 2,
+    avg_workout_duration: 25,
+    avg_weekly_distance: 5,
+    data_points: 0,
+  },
+  intermediate: {
+    avg_weekly_workouts: 3,
+    avg_workout_duration: 40,
+    avg_weekly_distance: 15,
+    data_points: 0,
+  },
+  advanced: {
+    avg_weekly_workouts: 5,
+    avg_workout_duration: 55,
+    avg_weekly_distance: 35,
+    data_points: 0,
+  },
+};
+
+type BaselineWorkout = Pick<Workout, 'workout_date' | 'duration_minutes' | 'distance_km'>;
+
+/**
+ * Round to two decimals and clamp to the column's DECIMAL range
+ */
+function toColumn(value: number, max: number): number {
+  return Math.min(Math.round(value * 100) / 100, max);
+}
+
+/**
+ * Cold-start baseline for a fitness level (beginner when unknown)
+ */
+export function coldStartBaseline(fitnessLevel: Profile['fitness_level']): BaselineValues {
+  return { ...COLD_START_BASELINES[fitnessLevel ?? 'beginner'] };
+}
+
+/**
+ * Summarise one week of workouts
+ */
+export function summarizeWeek(workouts: BaselineWorkout[]): WeekStats {
+  const durations = workouts
+    .map((w) => w.duration_minutes)
+    .filter((d): d is number => d !== null && d > 0);
+
+  return {
+    workouts: workouts.length,
+    avgDuration:
+      durations.length > 0 ? durations.reduce((sum, d) => sum + d, 0) / durations.length : null,
+    totalDistance: workouts.reduce((sum, w) => sum + Number(w.distance_km ?? 0), 0),
+  };
+}
+
+/**
+ * Full baseline from the complete weeks before `today`. Weeks before the
+ * user's first workout in the window are not counted, so a user who started
+ * two weeks ago is not averaged over four. Returns null when there are fewer
+ * than MIN_BASELINE_WEEKS weeks of data.
+ */
+export function calculateBaseline(
+  workouts: BaselineWorkout[],
+  today: string,
+  weeks: number = BASELINE_WEEKS
+): BaselineValues | null {
+  const windowEnd = shiftDate(startOfWeek(today), -1);
+  const windowStart = shiftDate(startOfWeek(today), -7 * weeks);
+  const inWindow = workouts.filter(
+    (w) => w.workout_date >= windowStart && w.workout_date <= windowEnd
+  );
+
+  if (inWindow.length === 0) return null;
+
+  const firstWeek = inWindow.map((w) => startOfWeek(w.workout_date)).sort()[0];
+  const weeksCovered = daysBetween(firstWeek, startOfWeek(today)) / 7;
+
+  if (weeksCovered < MIN_BASELINE_WEEKS) return null;
+
+  const stats = summarizeWeek(inWindow);
+
+  return {
+    avg_weekly_workouts: toColumn(stats.workouts / weeksCovered, 99.99),
+    avg_workout_duration: stats.avgDuration === null ? null : toColumn(stats.avgDuration, 999.99),
+    avg_weekly_distance: toColumn(stats.totalDistance / weeksCovered, 9999.99),
+    data_points: weeksCovered,
+  };
+}
+
+/**
+ * Move a baseline towards last week's numbers with an exponential moving average
+ */
+export function applyWeeklyAdjustment(
+  baseline: BaselineValues,
+  week: WeekStats,
+  alpha: number = BASELINE_EMA_ALPHA
+): BaselineValues {
+  const blend = (current: number | null, recent: number) =>
+    current === null ? recent : current * (1 - alpha) + recent * alpha;
+
+  return {
+    avg_weekly_workouts: toColumn(
+      blend(Number(baseline.avg_weekly_workouts), week.workouts),
+      99.99
+    ),
+    // A week without timed workouts says nothing about typical duration
+    avg_workout_duration:
+      week.avgDuration === null
+        ? baseline.avg_workout_duration
+        : toColumn(
+            blend(
+              baseline.avg_workout_duration === null ? null : Number(baseline.avg_workout_duration),
+              week.avgDuration
+            ),
+            999.99
+          ),
+    avg_weekly_distance: toColumn(
+      blend(Number(baseline.avg_weekly_distance), week.totalDistance),
+      9999.99
+    ),
+    data_points: (baseline.data_points ?? 0) + 1,
+  };
+}
+
+async function loadBaselineInputs(supabase: SupabaseClient, userId: string, now: Date) {
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('fitness_level, timezone')
+    .eq('id', userId)
+    .single();
+
+  if (profileError) {
+    return { error: { message: profileError.message } };
+  }
+
+  const today = localDate(profile.timezone, now);
+
+  const { data: workouts, error: workoutsError } = await supabase
+    .from('workouts')
+    .select('workout_date, duration_minutes, distance_km')
+    .eq('user_id', userId)
+    .or(COUNTED_WORKOUTS_FILTER)
+    .is('merged_into', null)
+    .gte('workout_date', shiftDate(startOfWeek(today), -7 * BASELINE_WEEKS))
+    .lt('workout_date', startOfWeek(today));
+
+  if (workoutsError) {
+    return { error: { message: workoutsError.message } };
+  }
+
+  return {
+    profile: profile as Pick<Profile, 'fitness_level' | 'timezone'>,
+    workouts: workouts as BaselineWorkout[],
+    today,
+    error: null,
+  };
+}
+
+async function saveBaseline(
+  supabase: SupabaseClient,
+  userId: string,
+  values: BaselineValues,
+  now: Date
+): Promise<{ baseline: UserBaseline | null; error: BaselineError | null }> {
+  const { data, error } = await supabase
+    .from('user_baselines')
+    .upsert({ user_id: userId, ...values, baseline_calculated_at: now.toISOString() })
+    .select()
+    .single();
+
+  if (error) {
+    return { baseline: null, error: { message: error.message } };
+  }
+
+  return { baseline: data as UserBaseline, error: null };
+}
+
+/**
+ * Calculate a user's baseline from their recent history (or a cold-start
+ * default) and store it. Requires the service-role client.
+ */
+export async function recalculateBaseline(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<{ baseline: UserBaseline | null; error: BaselineError | null }> {
+  const inputs = await loadBaselineInputs(supabase, userId, now);
+  if (inputs.error) {
+    return { baseline: null, error: inputs.error };
+  }
+
+  const values =
+    calculateBaseline(inputs.workouts, inputs.today) ??
+    coldStartBaseline(inputs.profile.fitness_level);
+
+  return saveBaseline(supabase, userId, values, now);
+}
+
+/**
+ * Weekly baseline update. Users still on a cold-start default (or with too
+ * little data) get a full recalculation; everyone else is adjusted towards
+ * last week with an exponential moving average. Runs at most once per local week.
+ */
+export async function adjustBaseline(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<{ baseline: UserBaseline | null; error: BaselineError | null }> {
+  const { data: existing, error: existingError } = await supabase
+    .from('user_baselines')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (existingError) {
+    return { baseline: null, error: { message: existingError.message } };
+  }
+
+  const baseline = existing as UserBaseline | null;
+
+  if (!baseline || (baseline.data_points ?? 0) < MIN_BASELINE_WEEKS) {
+    return recalculateBaseline(supabase, userId, now);
+  }
+
+  const inputs = await loadBaselineInputs(supabase, userId, now);
+  if (inputs.error) {
+    return { baseline: null, error: inputs.error };
+  }
+
+  // Already adjusted this week
+  const weekStart = startOfWeek(inputs.today);
+  if (
+    baseline.baseline_calculated_at &&
+    localDate(inputs.profile.timezone, new Date(baseline.baseline_calculated_at)) >= weekStart
+  ) {
+    return { baseline, error: null };
+  }
+
+  const lastWeekStart = shiftDate(weekStart, -7);
+  const lastWeek = summarizeWeek(inputs.workouts.filter((w) => w.workout_date >= lastWeekStart));
+
+  return saveBaseline(supabase, userId, applyWeeklyAdjustment(baseline, lastWeek), now);
+}
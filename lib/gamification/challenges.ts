@@ -0,0 +1,275 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Inserts, Profile, UserBaseline, UserChallenge } from '@/types/database';
+import { POINT_VALUES } from '@/lib/gamification/points';
+import { coldStartBaseline } from '@/lib/gamification/baseline';
+import {
+  daysBetween,
+  localDate,
+  shiftDate,
+  startOfDayInZone,
+  startOfMonth,
+  startOfNextMonth,
+  startOfWeek,
+} from '@/lib/utils/dates';
+
+export type ChallengeMetric = UserChallenge['metric'];
+export type ChallengePeriod = Extract<UserChallenge['challenge_type'], 'weekly' | 'monthly'>;
+
+export const CHALLENGE_METRICS: ChallengeMetric[] = [
+  'workouts',
+  'minutes',
+  'distance',
+  'calories',
+  'points',
+];
+
+// Challenges ask for a little more than the user's usual week or month
+export const CHALLENGE_STRETCH = 1.1;
+
+// Average weeks in a month, used to scale weekly baselines
+export const WEEKS_PER_MONTH = 4.35;
+
+// Rough burn rate used to size calorie challenges, in kcal per minute
+export const CALORIES_PER_MINUTE = 7;
+
+// Duration assumed when the baseline has no timed workouts yet
+const DEFAULT_WORKOUT_MINUTES = 30;
+
+export const CHALLENGE_REWARDS: Record<ChallengePeriod, number> = {
+  weekly: 35,
+  monthly: 120,
+};
+
+// How many metrics get a challenge each period
+export const CHALLENGES_PER_PERIOD: Record<ChallengePeriod, number> = {
+  weekly: 2,
+  monthly: 1,
+};
+
+const METRIC_TEMPLATES: Record<
+  ChallengeMetric,
+  { title: string; describe: (target: number) => string; step: number }
+> = {
+  workouts: {
+    title: 'Workout Count',
+    describe: (target) => `Complete ${target} workouts`,
+    step: 1,
+  },
+  minutes: {
+    title: 'Active Minutes',
+    describe: (target) => `Move for ${target} minutes`,
+    step: 10,
+  },
+  distance: {
+    title: 'Distance',
+    describe: (target) => `Cover ${target} km`,
+    step: 1,
+  },
+  calories: {
+    title: 'Calorie Burn',
+    describe: (target) => `Burn ${target} calories`,
+    step: 50,
+  },
+  points: {
+    title: 'Point Hunter',
+    describe: (target) => `Earn ${target} points`,
+    step: 5,
+  },
+};
+
+export type ChallengeBaseline = Pick<
+  UserBaseline,
+  'avg_weekly_workouts' | 'avg_workout_duration' | 'avg_weekly_distance'
+>;
+
+export type ChallengeTemplate = Pick<
+  Inserts<'user_challenges'>,
+  'challenge_type' | 'metric' | 'title' | 'description' | 'target_value' | 'points_reward'
+>;
+
+export interface ChallengeError {
+  message: string;
+}
+
+/**
+ * A typical week's amount of a metric according to the baseline
+ */
+export function weeklyAmount(metric: ChallengeMetric, baseline: ChallengeBaseline): number {
+  const workouts = Number(baseline.avg_weekly_workouts ?? 0);
+  const minutes = workouts * Number(baseline.avg_workout_duration ?? DEFAULT_WORKOUT_MINUTES);
+
+  switch (metric) {
+    case 'workouts':
+      return workouts;
+    case 'minutes':
+      return minutes;
+    case 'distance':
+      return Number(baseline.avg_weekly_distance ?? 0);
+    case 'calories':
+      return minutes * CALORIES_PER_MINUTE;
+    case 'points':
+      return workouts * POINT_VALUES.WORKOUT_COMPLETED;
+  }
+}
+
+/**
+ * Target for a metric over a period, rounded up to the metric's step.
+ * Zero when the user has no history for the metric.
+ */
+export function challengeTarget(
+  metric: ChallengeMetric,
+  period: ChallengePeriod,
+  baseline: ChallengeBaseline
+): number {
+  const { step } = METRIC_TEMPLATES[metric];
+  const amount =
+    weeklyAmount(metric, baseline) *
+    (period === 'monthly' ? WEEKS_PER_MONTH : 1) *
+    CHALLENGE_STRETCH;
+
+  return amount > 0 ? Math.ceil(amount / step) * step : 0;
+}
+
+/**
+ * Calendar dates a period covers: `start` inclusive, `end` exclusive
+ */
+export function challengeWindow(
+  period: ChallengePeriod,
+  today: string
+): { start: string; end: string } {
+  if (period === 'weekly') {
+    const start = startOfWeek(today);
+    return { start, end: shiftDate(start, 7) };
+  }
+
+  return { start: startOfMonth(today), end: startOfNextMonth(today) };
+}
+
+/**
+ * Challenges for one period. Metrics rotate from period to period so users see
+ * a mix over time; metrics without any history are skipped.
+ */
+export function buildChallenges(
+  period: ChallengePeriod,
+  periodStart: string,
+  baseline: ChallengeBaseline
+): ChallengeTemplate[] {
+  // Weeks since an arbitrary Monday, or months since year zero
+  const index =
+    period === 'weekly'
+      ? daysBetween('2024-01-01', periodStart) / 7
+      : Number(periodStart.slice(0, 4)) * 12 + Number(periodStart.slice(5, 7));
+  const offset =
+    ((index % CHALLENGE_METRICS.length) + CHALLENGE_METRICS.length) % CHALLENGE_METRICS.length;
+  const rotated = [...CHALLENGE_METRICS.slice(offset), ...CHALLENGE_METRICS.slice(0, offset)];
+  const label = period === 'weekly' ? 'Weekly' : 'Monthly';
+  const span = period === 'weekly' ? 'this week' : 'this month';
+
+  return rotated
+    .map((metric) => ({ metric, target: challengeTarget(metric, period, baseline) }))
+    .filter(({ target }) => target > 0)
+    .slice(0, CHALLENGES_PER_PERIOD[period])
+    .map(({ metric, target }) => ({
+      challenge_type: period,
+      metric,
+      title: `${label} ${METRIC_TEMPLATES[metric].title}`,
+      description: `${METRIC_TEMPLATES[metric].describe(target)} ${span}`,
+      target_value: target,
+      points_reward: CHALLENGE_REWARDS[period],
+    }));
+}
+
+/**
+ * Issue the current week's and month's challenges to a user if they have not
+ * been issued yet, then count progress already made this period. Requires the
+ * service-role client.
+ */
+export async function issueChallenges(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<{ issued: UserChallenge[]; error: ChallengeError | null }> {
+  const [profileResult, baselineResult] = await Promise.all([
+    supabase.from('profiles').select('fitness_level, timezone').eq('id', userId).single(),
+    supabase.from('user_baselines').select('*').eq('user_id', userId).maybeSingle(),
+  ]);
+
+  const loadError = profileResult.error ?? baselineResult.error;
+  if (loadError) {
+    return { issued: [], error: { message: loadError.message } };
+  }
+
+  const profile = profileResult.data as Pick<Profile, 'fitness_level' | 'timezone'>;
+  const baseline =
+    (baselineResult.data as UserBaseline | null) ?? coldStartBaseline(profile.fitness_level);
+  const today = localDate(profile.timezone, now);
+  const issued: UserChallenge[] = [];
+
+  for (const period of ['weekly', 'monthly'] as const) {
+    const window = challengeWindow(period, today);
+    const startsAt = startOfDayInZone(window.start, profile.timezone).toISOString();
+
+    const { count, error: existingError } = await supabase
+      .from('user_challenges')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('challenge_type', period)
+      .eq('starts_at', startsAt);
+
+    if (existingError) {
+      return { issued, error: { message: existingError.message } };
+    }
+
+    if (count) continue;
+
+    const rows = buildChallenges(period, window.start, baseline).map((template) => ({
+      ...template,
+      user_id: userId,
+      starts_at: startsAt,
+      ends_at: startOfDayInZone(window.end, profile.timezone).toISOString(),
+    }));
+
+    if (rows.length === 0) continue;
+
+    const { data, error: insertError } = await supabase
+      .from('user_challenges')
+      .upsert(rows, {
+        onConflict: 'user_id,challenge_type,metric,starts_at',
+        ignoreDuplicates: true,
+      })
+      .select();
+
+    if (insertError) {
+      return { issued, error: { message: insertError.message } };
+    }
+
+    issued.push(...(data as UserChallenge[]));
+  }
+
+  if (issued.length > 0) {
+    const { error: refreshError } = await supabase.rpc('refresh_challenge_progress', {
+      p_user_id: userId,
+    });
+
+    if (refreshError) {
+      return { issued, error: { message: refreshError.message } };
+    }
+  }
+
+  return { issued, error: null };
+}
+
+/**
+ * Mark challenges whose window has ended as expired. Requires the service-role client.
+ */
+export async function expireChallenges(
+  supabase: SupabaseClient
+): Promise<{ expired: number; error: ChallengeError | null }> {
+  const { data, error } = await supabase.rpc('expire_old_challenges');
+
+  if (error) {
+    return { expired: 0, error: { message: error.message } };
+  }
+
+  return { expired: data as number, error: null };
+}
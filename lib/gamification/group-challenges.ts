@@ -0,0 +1,300 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { GroupChallenge, Profile, UserBaseline } from '@/types/database';
+import { coldStartBaseline } from '@/lib/gamification/baseline';
+import {
+  CHALLENGE_METRICS,
+  CHALLENGE_REWARDS,
+  weeklyAmount,
+  type ChallengeBaseline,
+  type ChallengeMetric,
+} from '@/lib/gamification/challenges';
+import { daysBetween, localDate, shiftDate, startOfDayInZone } from '@/lib/utils/dates';
+
+// Limits that keep group challenges from being used to farm points
+export const MAX_GROUP_SIZE = 10;
+export const MAX_GROUP_CHALLENGE_DAYS = 31;
+export const MAX_ACTIVE_GROUP_CHALLENGES = 3;
+
+// Reward pool per member for each week a group challenge runs
+export const GROUP_REWARD_PER_MEMBER_WEEK = CHALLENGE_REWARDS.weekly;
+
+export interface GroupChallengeInput {
+  title: string;
+  description?: string | null;
+  metric: ChallengeMetric;
+  targetValue: number;
+  /** First day, YYYY-MM-DD in the creator's time zone */
+  startDate: string;
+  /** Last day (inclusive), YYYY-MM-DD in the creator's time zone */
+  endDate: string;
+  /** Usernames of the other members; the creator always joins */
+  members: string[];
+}
+
+export interface GroupChallengeMemberSummary {
+  userId: string;
+  username: string;
+  displayName: string | null;
+  contribution: number;
+  /** Fraction of the group's progress this member contributed (0-1) */
+  share: number;
+  rewardPoints: number | null;
+}
+
+export interface GroupChallengeSummary extends GroupChallenge {
+  members: GroupChallengeMemberSummary[];
+}
+
+export interface GroupChallengeError {
+  message: string;
+}
+
+interface MemberRow {
+  user_id: string;
+  contribution: number;
+  reward_points: number | null;
+  profiles: Pick<Profile, 'username' | 'display_name'> | null;
+}
+
+/**
+ * Check a group challenge request before any lookups. `today` is the
+ * creator's local date.
+ */
+export function validateGroupChallengeInput(
+  input: GroupChallengeInput,
+  today: string
+): GroupChallengeError | null {
+  const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+  if (!input.title?.trim() || input.title.length > 100) {
+    return { message: 'Title must be between 1 and 100 characters' };
+  }
+
+  if (!CHALLENGE_METRICS.includes(input.metric)) {
+    return { message: `Metric must be one of: ${CHALLENGE_METRICS.join(', ')}` };
+  }
+
+  if (!Number.isInteger(input.targetValue) || input.targetValue <= 0) {
+    return { message: 'Target must be a positive whole number' };
+  }
+
+  if (!isDate(input.startDate) || !isDate(input.endDate)) {
+    return { message: 'Start and end dates must be in YYYY-MM-DD format' };
+  }
+
+  if (input.startDate < today) {
+    return { message: 'Group challenges cannot start in the past' };
+  }
+
+  const days = daysBetween(input.startDate, input.endDate) + 1;
+  if (days < 1 || days > MAX_GROUP_CHALLENGE_DAYS) {
+    return { message: `Group challenges must last between 1 and ${MAX_GROUP_CHALLENGE_DAYS} days` };
+  }
+
+  if (input.members.length === 0 || input.members.length >= MAX_GROUP_SIZE) {
+    return { message: `Invite between 1 and ${MAX_GROUP_SIZE - 1} other members` };
+  }
+
+  return null;
+}
+
+/**
+ * The least a group may aim for: what its members usually do over the same
+ * number of days, so an easy target cannot earn a large reward
+ */
+export function minimumGroupTarget(
+  metric: ChallengeMetric,
+  baselines: ChallengeBaseline[],
+  days: number
+): number {
+  const usual = baselines.reduce((sum, baseline) => sum + weeklyAmount(metric, baseline), 0);
+  return Math.max(1, Math.floor((usual * days) / 7));
+}
+
+/**
+ * Total reward split between members when the challenge completes
+ */
+export function groupRewardPool(memberCount: number, days: number): number {
+  return Math.round((GROUP_REWARD_PER_MEMBER_WEEK * memberCount * days) / 7);
+}
+
+/**
+ * Members sorted by contribution, with each one's share of the progress
+ */
+export function summarizeMembers(
+  members: MemberRow[],
+  total: number
+): GroupChallengeMemberSummary[] {
+  return members
+    .map((member) => ({
+      userId: member.user_id,
+      username: member.profiles?.username ?? 'unknown',
+      displayName: member.profiles?.display_name ?? null,
+      contribution: member.contribution,
+      share: total > 0 ? member.contribution / total : 0,
+      rewardPoints: member.reward_points,
+    }))
+    .sort((a, b) => b.contribution - a.contribution || a.username.localeCompare(b.username));
+}
+
+/**
+ * Group challenges a user belongs to, newest first, with the per-member breakdown
+ */
+export async function getGroupChallenges(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ challenges: GroupChallengeSummary[]; error: GroupChallengeError | null }> {
+  const { data: memberships, error: membershipError } = await supabase
+    .from('group_challenge_members')
+    .select('group_challenge_id')
+    .eq('user_id', userId);
+
+  if (membershipError) {
+    return { challenges: [], error: { message: membershipError.message } };
+  }
+
+  const ids = (memberships as { group_challenge_id: string }[]).map(
+    (row) => row.group_challenge_id
+  );
+
+  if (ids.length === 0) {
+    return { challenges: [], error: null };
+  }
+
+  const { data, error } = await supabase
+    .from('group_challenges')
+    .select(
+      '*, group_challenge_members(user_id, contribution, reward_points, profiles(username, display_name))'
+    )
+    .in('id', ids)
+    .order('starts_at', { ascending: false });
+
+  if (error) {
+    return { challenges: [], error: { message: error.message } };
+  }
+
+  const challenges = (data as (GroupChallenge & { group_challenge_members: MemberRow[] })[]).map(
+    ({ group_challenge_members, ...challenge }) => ({
+      ...challenge,
+      members: summarizeMembers(group_challenge_members, challenge.current_value),
+    })
+  );
+
+  return { challenges, error: null };
+}
+
+/**
+ * Create a group challenge for `creatorId` and the invited members. Sizes the
+ * reward pool from the group and rejects targets below what the members
+ * usually do. Requires the service-role client.
+ */
+export async function createGroupChallenge(
+  supabase: SupabaseClient,
+  creatorId: string,
+  input: GroupChallengeInput,
+  now: Date = new Date()
+): Promise<{ id: string | null; error: GroupChallengeError | null }> {
+  const { data: creator, error: creatorError } = await supabase
+    .from('profiles')
+    .select('id, username, fitness_level, timezone')
+    .eq('id', creatorId)
+    .single();
+
+  if (creatorError) {
+    return { id: null, error: { message: creatorError.message } };
+  }
+
+  const creatorProfile = creator as Pick<Profile, 'id' | 'username' | 'fitness_level' | 'timezone'>;
+  const invalid = validateGroupChallengeInput(input, localDate(creatorProfile.timezone, now));
+  if (invalid) {
+    return { id: null, error: invalid };
+  }
+
+  const usernames = Array.from(new Set(input.members.map((name) => name.trim())));
+  const { data: invited, error: invitedError } = await supabase
+    .from('profiles')
+    .select('id, username, fitness_level')
+    .in('username', usernames);
+
+  if (invitedError) {
+    return { id: null, error: { message: invitedError.message } };
+  }
+
+  const invitedProfiles = invited as Pick<Profile, 'id' | 'username' | 'fitness_level'>[];
+  const missing = usernames.filter((name) => !invitedProfiles.some((p) => p.username === name));
+  if (missing.length > 0) {
+    return { id: null, error: { message: `Unknown users: ${missing.join(', ')}` } };
+  }
+
+  const members = [
+    creatorProfile,
+    ...invitedProfiles.filter((profile) => profile.id !== creatorProfile.id),
+  ];
+  const memberIds = members.map((member) => member.id);
+
+  const { data: active, error: activeError } = await supabase
+    .from('group_challenge_members')
+    .select('user_id, group_challenges!inner(status)')
+    .in('user_id', memberIds)
+    .eq('group_challenges.status', 'active');
+
+  if (activeError) {
+    return { id: null, error: { message: activeError.message } };
+  }
+
+  const busy = members.find(
+    (member) =>
+      (active as { user_id: string }[]).filter((row) => row.user_id === member.id).length >=
+      MAX_ACTIVE_GROUP_CHALLENGES
+  );
+  if (busy) {
+    return {
+      id: null,
+      error: {
+        message: `${busy.username} is already in ${MAX_ACTIVE_GROUP_CHALLENGES} active group challenges`,
+      },
+    };
+  }
+
+  const { data: baselineRows, error: baselineError } = await supabase
+    .from('user_baselines')
+    .select('*')
+    .in('user_id', memberIds);
+
+  if (baselineError) {
+    return { id: null, error: { message: baselineError.message } };
+  }
+
+  const baselines = members.map(
+    (member) =>
+      (baselineRows as UserBaseline[]).find((row) => row.user_id === member.id) ??
+      coldStartBaseline(member.fitness_level)
+  );
+  const days = daysBetween(input.startDate, input.endDate) + 1;
+  const minimum = minimumGroupTarget(input.metric, baselines, days);
+
+  if (input.targetValue < minimum) {
+    return {
+      id: null,
+      error: { message: `Target must be at least ${minimum} for this group` },
+    };
+  }
+
+  const { data, error } = await supabase.rpc('create_group_challenge', {
+    p_created_by: creatorId,
+    p_title: input.title.trim(),
+    p_description: input.description?.trim() || null,
+    p_metric: input.metric,
+    p_target_value: input.targetValue,
+    p_points_reward: groupRewardPool(members.length, days),
+    p_starts_at: startOfDayInZone(input.startDate, creatorProfile.timezone).toISOString(),
+    p_ends_at: startOfDayInZone(shiftDate(input.endDate, 1), creatorProfile.timezone).toISOString(),
+    p_member_ids: memberIds,
+  });
+
+  if (error) {
+    return { id: null, error: { message: error.message } };
+  }
+
+  return { id: data as string, error: null };
+}
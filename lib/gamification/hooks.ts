@@ -0,0 +1,115 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { LevelSummary } from '@/lib/gamification/levels';
+import type { PersonalRecordSummary } from '@/lib/gamification/records';
+import type { WeeklyGoalSummary } from '@/lib/gamification/weekly-goals';
+
+/**
+ * Hook to get the current user's points balance and level progress
+ */
+export function useLevelProgress() {
+  const [summary, setSummary] = useState<LevelSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/points/level');
+      const body = await response.json();
+
+      if (!response.ok) throw new Error(body.error ?? 'Failed to load level progress');
+
+      setSummary(body as LevelSummary);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load level progress');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { summary, loading, error, refresh };
+}
+
+/**
+ * Hook to get and change the current user's weekly goal
+ */
+export function useWeeklyGoal() {
+  const [summary, setSummary] = useState<WeeklyGoalSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/weekly-goal');
+      const body = await response.json();
+
+      if (!response.ok) throw new Error(body.error ?? 'Failed to load weekly goal');
+
+      setSummary(body as WeeklyGoalSummary);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load weekly goal');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const updateGoal = useCallback(async (goal: number): Promise<{ error: string | null }> => {
+    const response = await fetch('/api/weekly-goal', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ goal }),
+    });
+    const body = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      return { error: body.error ?? 'Failed to update weekly goal' };
+    }
+
+    setSummary(body as WeeklyGoalSummary);
+    return { error: null };
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { summary, loading, error, refresh, updateGoal };
+}
+
+/**
+ * Hook to get the current user's personal records and record history
+ */
+export function usePersonalRecords() {
+  const [records, setRecords] = useState<PersonalRecordSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/records');
+      const body = await response.json();
+
+      if (!response.ok) throw new Error(body.error ?? 'Failed to load personal records');
+
+      setRecords(body as PersonalRecordSummary);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load personal records');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { records, loading, error, refresh };
+}
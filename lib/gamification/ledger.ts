@@ -0,0 +1,160 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, PointTransaction } from '@/types/database';
+
+type Functions = Database['public']['Functions'];
+
+export type AwardPointsResult = Functions['award_points']['Returns'][number];
+export type SpendPointsResult = Functions['spend_points']['Returns'][number];
+export type ReversePointsResult = Functions['reverse_points']['Returns'][number];
+export type PointsDrift = Functions['reconcile_user_points']['Returns'][number];
+
+export interface PointsError {
+  message: string;
+}
+
+export interface AwardPointsParams {
+  userId: string;
+  amount: number;
+  source: string;
+  description?: string;
+  /** Repeating a key for the same user returns the original result instead of awarding again */
+  idempotencyKey?: string;
+}
+
+export interface SpendPointsParams {
+  userId: string;
+  amount: number;
+  purpose: string;
+  description?: string;
+  idempotencyKey?: string;
+}
+
+/**
+ * Award points to a user. Requires the service-role client: the underlying
+ * function is not executable by anon or authenticated users.
+ */
+export async function awardPoints(
+  supabase: SupabaseClient,
+  params: AwardPointsParams
+): Promise<{ result: AwardPointsResult | null; error: PointsError | null }> {
+  const { data, error } = await supabase.rpc('award_points', {
+    p_user_id: params.userId,
+    p_amount: params.amount,
+    p_source: params.source,
+    p_description: params.description ?? '',
+    p_idempotency_key: params.idempotencyKey ?? null,
+  });
+
+  if (error) {
+    return { result: null, error: { message: error.message } };
+  }
+
+  return { result: (data as AwardPointsResult[])[0] ?? null, error: null };
+}
+
+/**
+ * Spend points from a user's balance. `result.success` is false when the
+ * balance is too low; nothing is recorded in that case.
+ */
+export async function spendPoints(
+  supabase: SupabaseClient,
+  params: SpendPointsParams
+): Promise<{ result: SpendPointsResult | null; error: PointsError | null }> {
+  const { data, error } = await supabase.rpc('spend_points', {
+    p_user_id: params.userId,
+    p_amount: params.amount,
+    p_purpose: params.purpose,
+    p_description: params.description ?? '',
+    p_idempotency_key: params.idempotencyKey ?? null,
+  });
+
+  if (error) {
+    return { result: null, error: { message: error.message } };
+  }
+
+  return { result: (data as SpendPointsResult[])[0] ?? null, error: null };
+}
+
+export interface ReversePointsParams {
+  /** The earned or spent transaction to compensate */
+  transactionId: string;
+  /** Points to reverse; defaults to whatever has not been reversed yet */
+  amount?: number;
+  description?: string;
+  idempotencyKey?: string;
+}
+
+/**
+ * Reverse earned points or refund spent points with a compensating ledger
+ * entry. Reversals the balance cannot cover are recorded as points debt
+ * rather than failing. Requires the service-role client.
+ */
+export async function reversePoints(
+  supabase: SupabaseClient,
+  params: ReversePointsParams
+): Promise<{ result: ReversePointsResult | null; error: PointsError | null }> {
+  const { data, error } = await supabase.rpc('reverse_points', {
+    p_transaction_id: params.transactionId,
+    p_amount: params.amount ?? null,
+    p_description: params.description ?? '',
+    p_idempotency_key: params.idempotencyKey ?? null,
+  });
+
+  if (error) {
+    return { result: null, error: { message: error.message } };
+  }
+
+  return { result: (data as ReversePointsResult[])[0] ?? null, error: null };
+}
+
+/**
+ * Recompute balances from the ledger and report any drift. Pass a user ID to
+ * check a single user; set `apply` to overwrite drifted totals with the ledger values.
+ */
+export async function reconcilePoints(
+  supabase: SupabaseClient,
+  options: { userId?: string; apply?: boolean } = {}
+): Promise<{ drift: PointsDrift[]; error: PointsError | null }> {
+  const { data, error } = await supabase.rpc('reconcile_user_points', {
+    p_user_id: options.userId ?? null,
+    p_apply: options.apply ?? false,
+  });
+
+  if (error) {
+    return { drift: [], error: { message: error.message } };
+  }
+
+  return { drift: (data as PointsDrift[]).filter((row) => row.has_drift), error: null };
+}
+
+/**
+ * Fetch a page of the user's ledger, newest first
+ */
+export async function getPointTransactions(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { limit?: number; before?: string; source?: string } = {}
+): Promise<{ transactions: PointTransaction[]; error: PointsError | null }> {
+  let query = supabase
+    .from('point_transactions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 50);
+
+  if (options.before) {
+    query = query.lt('created_at', options.before);
+  }
+
+  if (options.source) {
+    query = query.eq('source', options.source);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return { transactions: [], error: { message: error.message } };
+  }
+
+  return { transactions: data as PointTransaction[], error: null };
+}
@@ -0,0 +1,77 @@
+// Level curve: reaching level n requires 50 * n * (n - 1) total points earned.
+// Mirrors public.level_for_points in the database, which assigns levels on every award.
+export const LEVEL_POINTS_STEP = 50;
+
+export interface LevelProgress {
+  level: number;
+  totalEarned: number;
+  /** total_earned at which the current level was reached */
+  currentLevelPoints: number;
+  /** total_earned needed for the next level */
+  nextLevelPoints: number;
+  pointsIntoLevel: number;
+  pointsToNextLevel: number;
+  /** Fraction of the way to the next level, between 0 and 1 */
+  progress: number;
+}
+
+/**
+ * Total points earned needed to reach a level
+ */
+export function pointsForLevel(level: number): number {
+  if (level <= 1) return 0;
+  return LEVEL_POINTS_STEP * level * (level - 1);
+}
+
+/**
+ * Level implied by total points earned
+ */
+export function calculateLevel(totalEarned: number): number {
+  if (totalEarned <= 0) return 1;
+
+  let level = Math.floor((1 + Math.sqrt(1 + (4 * totalEarned) / LEVEL_POINTS_STEP)) / 2);
+
+  // Guard against floating point rounding at exact thresholds
+  while (pointsForLevel(level + 1) <= totalEarned) level++;
+  while (level > 1 && pointsForLevel(level) > totalEarned) level--;
+
+  return level;
+}
+
+/**
+ * Progress from the current level to the next. Pass the stored level so a
+ * level that was never taken away is respected.
+ */
+export function getLevelProgress(totalEarned: number, storedLevel?: number): LevelProgress {
+  const level = Math.max(calculateLevel(totalEarned), storedLevel ?? 1);
+  const currentLevelPoints = pointsForLevel(level);
+  const nextLevelPoints = pointsForLevel(level + 1);
+  const pointsIntoLevel = Math.max(totalEarned - currentLevelPoints, 0);
+  const levelSpan = nextLevelPoints - currentLevelPoints;
+
+  return {
+    level,
+    totalEarned,
+    currentLevelPoints,
+    nextLevelPoints,
+    pointsIntoLevel,
+    pointsToNextLevel: Math.max(nextLevelPoints - totalEarned, 0),
+    progress: Math.min(pointsIntoLevel / levelSpan, 1),
+  };
+}
+
+export interface LevelPerkStatus {
+  perk: string;
+  description: string;
+  minLevel: number;
+  unlocked: boolean;
+}
+
+/**
+ * Response shape of GET /api/points/level
+ */
+export interface LevelSummary extends LevelProgress {
+  balance: number;
+  perks: LevelPerkStatus[];
+  recentLevelUps: { level: number; reachedAt: string }[];
+}
@@ -0,0 +1,153 @@
+import type { UserBaseline, Workout } from '@/types/database';
+import { shiftDate } from '@/lib/utils/dates';
+import { activityKey } from '@/lib/fitness/normalizer';
+
+export const POINT_VALUES = {
+  // Base rewards
+  WORKOUT_COMPLETED: 10,
+  DAILY_GOAL_MET: 5,
+  WEEKLY_GOAL_MET: 25,
+
+  // Intensity bonuses
+  EXCEEDED_BASELINE_10: 5,
+  EXCEEDED_BASELINE_25: 10,
+  EXCEEDED_BASELINE_50: 20,
+
+  // Variety bonus
+  VARIETY_BONUS: 5,
+
+  // Consistency rewards
+  STREAK_3_DAYS: 15,
+  STREAK_7_DAYS: 30,
+  STREAK_30_DAYS: 100,
+  STREAK_FREEZE: 20,
+
+  // Beating a personal record, per record
+  PERSONAL_RECORD: 20,
+
+  // Social currency
+  KUDOS_GIVEN: 1,
+  KUDOS_RECEIVED: 2,
+
+  // Story costs
+  STORY_SENTENCE: 10,
+  STORY_TWIST: 25,
+  STORY_CHARACTER: 30,
+  STORY_ENDING: 50,
+  NARRATOR_ROLE: 75,
+} as const;
+
+// Cap maximum points per workout to prevent gaming
+export const MAX_WORKOUT_POINTS = 50;
+
+// Distinct activity types needed within the window to earn the variety bonus
+export const VARIETY_MIN_TYPES = 3;
+export const VARIETY_WINDOW_DAYS = 7;
+
+export type ScorableWorkout = Pick<
+  Workout,
+  'workout_date' | 'workout_type' | 'duration_minutes' | 'distance_km'
+> &
+  Partial<Pick<Workout, 'activity_type'>>;
+
+export type VarietyWorkout = Pick<Workout, 'workout_date' | 'workout_type'> &
+  Partial<Pick<Workout, 'activity_type'>>;
+
+export type ScoringBaseline = Pick<
+  UserBaseline,
+  'avg_workout_duration' | 'avg_weekly_workouts' | 'avg_weekly_distance'
+>;
+
+export interface WorkoutPointsBreakdown {
+  base: number;
+  intensityBonus: number;
+  varietyBonus: number;
+  /** Points actually credited, after the per-workout cap */
+  total: number;
+  capped: boolean;
+}
+
+/**
+ * Ratio of this workout's effort to the user's typical workout, using whichever
+ * of duration or distance shows the larger improvement. Null without a baseline.
+ */
+export function getBaselineRatio(
+  workout: ScorableWorkout,
+  baseline: ScoringBaseline | null
+): number | null {
+  if (!baseline) return null;
+
+  const ratios: number[] = [];
+
+  const avgDuration = Number(baseline.avg_workout_duration);
+  if (workout.duration_minutes && avgDuration > 0) {
+    ratios.push(workout.duration_minutes / avgDuration);
+  }
+
+  // Average distance per workout, derived from the weekly figures
+  const avgWeeklyWorkouts = Number(baseline.avg_weekly_workouts);
+  const avgWeeklyDistance = Number(baseline.avg_weekly_distance);
+  if (workout.distance_km && avgWeeklyWorkouts > 0 && avgWeeklyDistance > 0) {
+    ratios.push(Number(workout.distance_km) / (avgWeeklyDistance / avgWeeklyWorkouts));
+  }
+
+  return ratios.length > 0 ? Math.max(...ratios) : null;
+}
+
+/**
+ * Intensity bonus based on personal improvement over the baseline
+ */
+export function getIntensityBonus(ratio: number | null): number {
+  if (ratio === null) return 0;
+  if (ratio > 1.5) return POINT_VALUES.EXCEEDED_BASELINE_50;
+  if (ratio > 1.25) return POINT_VALUES.EXCEEDED_BASELINE_25;
+  if (ratio > 1.1) return POINT_VALUES.EXCEEDED_BASELINE_10;
+  return 0;
+}
+
+/**
+ * Whether the workout, together with the user's other workouts in the
+ * preceding window, covers enough distinct activity types. "Run" and "jog"
+ * are the same activity.
+ */
+export function qualifiesForVarietyBonus(
+  workout: ScorableWorkout,
+  recentWorkouts: VarietyWorkout[]
+): boolean {
+  const windowStart = shiftDate(workout.workout_date, -(VARIETY_WINDOW_DAYS - 1));
+  const types = new Set([activityKey(workout)]);
+
+  for (const recent of recentWorkouts) {
+    if (recent.workout_date >= windowStart && recent.workout_date <= workout.workout_date) {
+      types.add(activityKey(recent));
+    }
+  }
+
+  return types.size >= VARIETY_MIN_TYPES;
+}
+
+/**
+ * Score a workout. Pure: callers supply the baseline and the user's other
+ * recent workouts so the same rules apply to every source.
+ */
+export function calculateWorkoutPoints(
+  workout: ScorableWorkout,
+  baseline: ScoringBaseline | null,
+  recentWorkouts: VarietyWorkout[] = []
+): WorkoutPointsBreakdown {
+  const base = POINT_VALUES.WORKOUT_COMPLETED;
+  const intensityBonus = getIntensityBonus(getBaselineRatio(workout, baseline));
+  const varietyBonus = qualifiesForVarietyBonus(workout, recentWorkouts)
+    ? POINT_VALUES.VARIETY_BONUS
+    : 0;
+
+  const uncapped = base + intensityBonus + varietyBonus;
+
+  return {
+    base,
+    intensityBonus,
+    varietyBonus,
+    total: Math.min(uncapped, MAX_WORKOUT_POINTS),
+    capped: uncapped > MAX_WORKOUT_POINTS,
+  };
+}
@@ -0,0 +1,178 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PersonalRecord, PersonalRecordType, Workout } from '@/types/database';
+import { POINT_VALUES } from '@/lib/gamification/points';
+import { ACTIVITY_TYPE_LABELS, ACTIVITY_TYPES } from '@/lib/fitness/normalizer';
+
+export type { PersonalRecordType } from '@/types/database';
+
+export const PERSONAL_RECORD_TYPES: PersonalRecordType[] = [
+  'longest_distance',
+  'longest_duration',
+  'fastest_1k',
+  'fastest_5k',
+  'fastest_10k',
+  'fastest_half_marathon',
+  'fastest_marathon',
+];
+
+export const PERSONAL_RECORD_LABELS: Record<PersonalRecordType, string> = {
+  longest_distance: 'Longest distance',
+  longest_duration: 'Longest duration',
+  fastest_1k: 'Fastest 1 km',
+  fastest_5k: 'Fastest 5 km',
+  fastest_10k: 'Fastest 10 km',
+  fastest_half_marathon: 'Fastest half marathon',
+  fastest_marathon: 'Fastest marathon',
+};
+
+/**
+ * Standard distances (metres) timed from a workout's splits. Mirrors
+ * set_workout_efforts in the personal records migration.
+ */
+export const PERSONAL_RECORD_DISTANCES = {
+  fastest_1k: 1000,
+  fastest_5k: 5000,
+  fastest_10k: 10000,
+  fastest_half_marathon: 21097.5,
+  fastest_marathon: 42195,
+} as const satisfies Partial<Record<PersonalRecordType, number>>;
+
+export interface PersonalRecordError {
+  message: string;
+}
+
+export interface PersonalRecordSummary {
+  /** Current records, grouped by activity type in the usual order */
+  current: PersonalRecord[];
+  /** Every record set, newest first, including the ones since beaten */
+  history: PersonalRecord[];
+}
+
+function isTimedRecord(
+  recordType: PersonalRecordType
+): recordType is keyof typeof PERSONAL_RECORD_DISTANCES {
+  return recordType in PERSONAL_RECORD_DISTANCES;
+}
+
+/**
+ * h:mm:ss, or m:ss under an hour
+ */
+export function formatElapsedTime(totalSeconds: number): string {
+  const seconds = Math.round(totalSeconds);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+}
+
+/**
+ * Seconds per kilometre for a fastest-time record; null for the others
+ */
+export function recordPace(recordType: PersonalRecordType, value: number): number | null {
+  if (!isTimedRecord(recordType)) return null;
+  return Math.round(value / (PERSONAL_RECORD_DISTANCES[recordType] / 1000));
+}
+
+/**
+ * A record's value for display: "12.5 km", "1h 05m", or "24:13 (4:51/km)"
+ */
+export function formatRecordValue(recordType: PersonalRecordType, value: number): string {
+  // NUMERIC columns may arrive as strings
+  const amount = Number(value);
+
+  if (recordType === 'longest_distance') return `${amount} km`;
+
+  if (recordType === 'longest_duration') {
+    const hours = Math.floor(amount / 60);
+    const minutes = amount % 60;
+    return hours > 0 ? `${hours}h ${String(minutes).padStart(2, '0')}m` : `${minutes} min`;
+  }
+
+  return `${formatElapsedTime(amount)} (${formatElapsedTime(recordPace(recordType, amount)!)}/km)`;
+}
+
+/**
+ * "Fastest 5 km (Running)"
+ */
+export function describeRecord(
+  record: Pick<PersonalRecord, 'activity_type' | 'record_type'>
+): string {
+  return `${PERSONAL_RECORD_LABELS[record.record_type]} (${ACTIVITY_TYPE_LABELS[record.activity_type]})`;
+}
+
+/**
+ * Split a user's record history into the current records, ordered by
+ * activity and record type, and the full history, newest first
+ */
+export function summarizePersonalRecords(records: PersonalRecord[]): PersonalRecordSummary {
+  const order = (record: PersonalRecord) =>
+    ACTIVITY_TYPES.indexOf(record.activity_type) * PERSONAL_RECORD_TYPES.length +
+    PERSONAL_RECORD_TYPES.indexOf(record.record_type);
+
+  return {
+    current: records
+      .filter((record) => record.superseded_at === null)
+      .sort((a, b) => order(a) - order(b)),
+    history: [...records].sort((a, b) => b.set_at.localeCompare(a.set_at)),
+  };
+}
+
+/**
+ * Check a newly scored workout against the user's records for its activity
+ * type and award PERSONAL_RECORD points for each one it beats. Returns the
+ * records it set. Requires the service-role client; safe to repeat, since
+ * each workout earns the bonus for a record type only once. A record lost
+ * because its workout was edited down has its bonus reversed.
+ */
+export async function recordPersonalRecords(
+  supabase: SupabaseClient,
+  workout: Pick<Workout, 'id' | 'user_id' | 'activity_type'>
+): Promise<{ records: PersonalRecord[]; error: PersonalRecordError | null }> {
+  const { data, error } = await supabase.rpc('refresh_personal_records', {
+    p_user_id: workout.user_id,
+    p_activity_type: workout.activity_type,
+    p_workout_id: workout.id,
+    p_bonus: POINT_VALUES.PERSONAL_RECORD,
+  });
+
+  if (error) {
+    return { records: [], error: { message: error.message } };
+  }
+
+  return { records: data as PersonalRecord[], error: null };
+}
+
+/**
+ * Recompute a user's records across all activity types without awarding
+ * anything, for workouts stored already scored (imported history).
+ * Requires the service-role client.
+ */
+export async function refreshPersonalRecords(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ error: PersonalRecordError | null }> {
+  const { error } = await supabase.rpc('refresh_personal_records', { p_user_id: userId });
+
+  return { error: error ? { message: error.message } : null };
+}
+
+/**
+ * A user's current records and record history
+ */
+export async function getPersonalRecords(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ summary: PersonalRecordSummary | null; error: PersonalRecordError | null }> {
+  const { data, error } = await supabase
+    .from('personal_records')
+    .select('*')
+    .eq('user_id', userId)
+    .order('set_at', { ascending: false });
+
+  if (error) {
+    return { summary: null, error: { message: error.message } };
+  }
+
+  return { summary: summarizePersonalRecords(data as PersonalRecord[]), error: null };
+}
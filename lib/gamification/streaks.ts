@@ -0,0 +1,226 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { POINT_VALUES } from '@/lib/gamification/points';
+import { awardPoints } from '@/lib/gamification/ledger';
+import { daysBetween, localDate, shiftDate, startOfWeek } from '@/lib/utils/dates';
+import { COUNTED_WORKOUTS_FILTER } from '@/lib/workouts/validation';
+import type { StreakMilestone } from '@/types/database';
+
+export const STREAK_MILESTONES = [
+  { days: 3, points: POINT_VALUES.STREAK_3_DAYS },
+  { days: 7, points: POINT_VALUES.STREAK_7_DAYS },
+  { days: 30, points: POINT_VALUES.STREAK_30_DAYS },
+] as const;
+
+export interface StreakSummary {
+  /** Consecutive active days ending today or yesterday */
+  currentDaily: number;
+  longestDaily: number;
+  /** First workout day of the current daily streak */
+  currentDailyStart: string | null;
+  /** Last day of the current daily streak */
+  currentDailyEnd: string | null;
+  /** Consecutive weeks (Monday to Sunday) with at least one workout */
+  currentWeekly: number;
+  longestWeekly: number;
+  /** The user's local date the summary was computed for */
+  today: string;
+}
+
+export interface StreakError {
+  message: string;
+}
+
+interface DailyRun {
+  start: string;
+  end: string;
+  activeDays: number;
+}
+
+/**
+ * Group days into runs of consecutive dates. Frozen days keep a run going but
+ * only workout days count towards its length.
+ */
+function buildDailyRuns(workoutDates: Set<string>, frozenDates: Set<string>): DailyRun[] {
+  const days = Array.from(new Set([...workoutDates, ...frozenDates])).sort();
+  const runs: DailyRun[] = [];
+  let current: DailyRun | null = null;
+
+  for (const day of days) {
+    const isWorkout = workoutDates.has(day);
+
+    if (current && daysBetween(current.end, day) === 1) {
+      current.end = day;
+      if (isWorkout) {
+        if (current.activeDays === 0) current.start = day;
+        current.activeDays++;
+      }
+    } else {
+      current = { start: day, end: day, activeDays: isWorkout ? 1 : 0 };
+      runs.push(current);
+    }
+  }
+
+  return runs.filter((run) => run.activeDays > 0);
+}
+
+/**
+ * Derive daily and weekly streaks from workout dates. Pure: `today` is the
+ * user's local date, and a streak is still current if it reached yesterday.
+ */
+export function computeStreaks(
+  workoutDates: string[],
+  frozenDates: string[],
+  today: string
+): StreakSummary {
+  const workouts = new Set(workoutDates.map((date) => date.slice(0, 10)));
+  const frozen = new Set(frozenDates.map((date) => date.slice(0, 10)));
+
+  const dailyRuns = buildDailyRuns(workouts, frozen);
+  const lastRun = dailyRuns[dailyRuns.length - 1];
+  const dailyIsCurrent = lastRun !== undefined && lastRun.end >= shiftDate(today, -1);
+
+  // Weekly streaks count weeks with at least one workout
+  const weeks = Array.from(new Set(Array.from(workouts, startOfWeek))).sort();
+  let longestWeekly = 0;
+  let runLength = 0;
+  for (let i = 0; i < weeks.length; i++) {
+    runLength = i > 0 && daysBetween(weeks[i - 1], weeks[i]) === 7 ? runLength + 1 : 1;
+    longestWeekly = Math.max(longestWeekly, runLength);
+  }
+  const lastWeek = weeks[weeks.length - 1];
+  const weeklyIsCurrent = lastWeek !== undefined && lastWeek >= shiftDate(startOfWeek(today), -7);
+
+  return {
+    currentDaily: dailyIsCurrent ? lastRun.activeDays : 0,
+    longestDaily: Math.max(0, ...dailyRuns.map((run) => run.activeDays)),
+    currentDailyStart: dailyIsCurrent ? lastRun.start : null,
+    currentDailyEnd: dailyIsCurrent ? lastRun.end : null,
+    currentWeekly: weeklyIsCurrent ? runLength : 0,
+    longestWeekly,
+    today,
+  };
+}
+
+/**
+ * Milestones reached by the current streak and not yet rewarded. A streak
+ * run that overlaps one already rewarded for a milestone is the same run,
+ * even if backdating has since moved its first day, so it is skipped.
+ */
+export function getReachedMilestones(
+  summary: StreakSummary,
+  rewarded: Pick<StreakMilestone, 'milestone_days' | 'run_start' | 'reached_on'>[] = []
+) {
+  const { currentDailyStart: start, currentDailyEnd: end } = summary;
+  if (!start || !end) return [];
+
+  return STREAK_MILESTONES.filter(
+    (milestone) =>
+      summary.currentDaily >= milestone.days &&
+      !rewarded.some(
+        (award) =>
+          award.milestone_days === milestone.days &&
+          award.run_start <= end &&
+          award.reached_on >= start
+      )
+  ).map((milestone) => ({
+    ...milestone,
+    runStart: start,
+    reachedOn: end,
+    idempotencyKey: `streak_${milestone.days}:${start}`,
+  }));
+}
+
+/**
+ * Load a user's workout days and freezes and compute their streaks
+ */
+export async function getStreakSummary(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<{ summary: StreakSummary | null; error: StreakError | null }> {
+  const [profileResult, workoutsResult, freezesResult] = await Promise.all([
+    supabase.from('profiles').select('timezone').eq('id', userId).single(),
+    supabase
+      .from('workouts')
+      .select('workout_date')
+      .eq('user_id', userId)
+      .or(COUNTED_WORKOUTS_FILTER)
+      .is('merged_into', null)
+      .eq('rewards_excluded', false),
+    supabase.from('streak_freezes').select('freeze_date').eq('user_id', userId),
+  ]);
+
+  const error = profileResult.error ?? workoutsResult.error ?? freezesResult.error;
+  if (error) {
+    return { summary: null, error: { message: error.message } };
+  }
+
+  const summary = computeStreaks(
+    (workoutsResult.data as { workout_date: string }[]).map((row) => row.workout_date),
+    (freezesResult.data as { freeze_date: string }[]).map((row) => row.freeze_date),
+    localDate((profileResult.data as { timezone: string }).timezone, now)
+  );
+
+  return { summary, error: null };
+}
+
+/**
+ * Recompute a user's streaks and award any milestones reached. Requires the
+ * service-role client; runs already rewarded are skipped.
+ */
+export async function awardStreakMilestones(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<{ summary: StreakSummary | null; awarded: number[]; error: StreakError | null }> {
+  const { summary, error } = await getStreakSummary(supabase, userId, now);
+  if (error || !summary) {
+    return { summary: null, awarded: [], error };
+  }
+
+  const { data: rewarded, error: rewardedError } = await supabase
+    .from('streak_milestones')
+    .select('milestone_days, run_start, reached_on')
+    .eq('user_id', userId);
+
+  if (rewardedError) {
+    return { summary, awarded: [], error: { message: rewardedError.message } };
+  }
+
+  const awarded: number[] = [];
+
+  for (const milestone of getReachedMilestones(summary, rewarded as StreakMilestone[])) {
+    const { result, error: awardError } = await awardPoints(supabase, {
+      userId,
+      amount: milestone.points,
+      source: 'streak',
+      description: `${milestone.days}-day workout streak`,
+      idempotencyKey: milestone.idempotencyKey,
+    });
+
+    if (awardError) {
+      return { summary, awarded, error: awardError };
+    }
+
+    const { error: recordError } = await supabase.from('streak_milestones').upsert(
+      {
+        user_id: userId,
+        milestone_days: milestone.days,
+        run_start: milestone.runStart,
+        reached_on: milestone.reachedOn,
+        transaction_id: result?.transaction_id ?? null,
+      },
+      { onConflict: 'user_id,milestone_days,run_start', ignoreDuplicates: true }
+    );
+
+    if (recordError) {
+      return { summary, awarded, error: { message: recordError.message } };
+    }
+
+    if (result && !result.already_applied) {
+      awarded.push(milestone.days);
+    }
+  }
+
+  return { summary, awarded, error: null };
+}
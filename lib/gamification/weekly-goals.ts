@@ -0,0 +1,181 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Profile, UserBaseline, UserPoints, WeeklyGoalResult } from '@/types/database';
+import { POINT_VALUES } from '@/lib/gamification/points';
+import { coldStartBaseline } from '@/lib/gamification/baseline';
+import { localDate, shiftDate, startOfDayInZone, startOfWeek } from '@/lib/utils/dates';
+
+// Mirrored in set_weekly_goal
+export const MIN_WEEKLY_GOAL = 10;
+export const MAX_WEEKLY_GOAL = 5000;
+export const WEEKLY_GOAL_CHANGE_DAYS = 7;
+
+// Weeks of results shown in the history
+export const WEEKLY_GOAL_HISTORY_WEEKS = 8;
+
+export interface WeeklyGoalSummary {
+  /** Goal the current week is judged against */
+  goalThisWeek: number;
+  /** Goal from the user's settings; applies from next week if changed this week */
+  goal: number;
+  weekStart: string;
+  pointsThisWeek: number;
+  /** Fraction of this week's goal reached (0-1) */
+  progress: number;
+  suggestedGoal: number;
+  /** When the goal can next be changed, or null if it can be changed now */
+  nextChangeAt: string | null;
+  history: WeeklyGoalResult[];
+}
+
+export interface WeeklyGoalError {
+  message: string;
+}
+
+type GoalBaseline = Pick<UserBaseline, 'avg_weekly_workouts'>;
+type GoalPoints = Pick<
+  UserPoints,
+  'weekly_goal' | 'previous_weekly_goal' | 'weekly_goal_changed_at'
+>;
+
+/**
+ * Goal suggested from the baseline: the user's usual number of workouts, each
+ * scored slightly above their baseline, rounded up to a multiple of 5
+ */
+export function suggestWeeklyGoal(baseline: GoalBaseline): number {
+  const perWorkout = POINT_VALUES.WORKOUT_COMPLETED + POINT_VALUES.EXCEEDED_BASELINE_10;
+  const expected = Number(baseline.avg_weekly_workouts ?? 0) * perWorkout;
+  const rounded = Math.ceil(expected / 5) * 5;
+
+  return Math.min(Math.max(rounded, MIN_WEEKLY_GOAL), MAX_WEEKLY_GOAL);
+}
+
+/**
+ * When the goal can next be changed, or null if it can be changed now
+ */
+export function nextGoalChangeAt(changedAt: string | null, now: Date = new Date()): Date | null {
+  if (!changedAt) return null;
+
+  const next = new Date(Date.parse(changedAt) + WEEKLY_GOAL_CHANGE_DAYS * 86_400_000);
+  return next > now ? next : null;
+}
+
+/**
+ * The goal a week is judged against: a change made during or after the week
+ * only applies from the following week
+ */
+export function goalForWeek(points: GoalPoints, weekStartsAt: Date): number {
+  if (points.weekly_goal_changed_at && new Date(points.weekly_goal_changed_at) >= weekStartsAt) {
+    return points.previous_weekly_goal ?? points.weekly_goal;
+  }
+  return points.weekly_goal;
+}
+
+/**
+ * The current user's goal, progress this week, suggestion and recent results
+ */
+export async function getWeeklyGoalSummary(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<{ summary: WeeklyGoalSummary | null; error: WeeklyGoalError | null }> {
+  const [pointsResult, profileResult, baselineResult, historyResult] = await Promise.all([
+    supabase
+      .from('user_points')
+      .select('weekly_goal, previous_weekly_goal, weekly_goal_changed_at')
+      .eq('user_id', userId)
+      .single(),
+    supabase.from('profiles').select('fitness_level, timezone').eq('id', userId).single(),
+    supabase.from('user_baselines').select('*').eq('user_id', userId).maybeSingle(),
+    supabase
+      .from('weekly_goal_results')
+      .select('*')
+      .eq('user_id', userId)
+      .order('week_start', { ascending: false })
+      .limit(WEEKLY_GOAL_HISTORY_WEEKS),
+  ]);
+
+  const loadError =
+    pointsResult.error ?? profileResult.error ?? baselineResult.error ?? historyResult.error;
+  if (loadError) {
+    return { summary: null, error: { message: loadError.message } };
+  }
+
+  const points = pointsResult.data as GoalPoints;
+  const profile = profileResult.data as Pick<Profile, 'fitness_level' | 'timezone'>;
+  const baseline =
+    (baselineResult.data as UserBaseline | null) ?? coldStartBaseline(profile.fitness_level);
+
+  const weekStart = startOfWeek(localDate(profile.timezone, now));
+  const weekStartsAt = startOfDayInZone(weekStart, profile.timezone);
+
+  const { data: transactions, error: transactionsError } = await supabase
+    .from('point_transactions')
+    .select('amount')
+    .eq('user_id', userId)
+    .in('transaction_type', ['earned', 'reversal'])
+    .neq('source', 'weekly_goal')
+    .gte('created_at', weekStartsAt.toISOString());
+
+  if (transactionsError) {
+    return { summary: null, error: { message: transactionsError.message } };
+  }
+
+  const pointsThisWeek = (transactions as { amount: number }[]).reduce(
+    (sum, row) => sum + row.amount,
+    0
+  );
+  const goalThisWeek = goalForWeek(points, weekStartsAt);
+
+  return {
+    summary: {
+      goalThisWeek,
+      goal: points.weekly_goal,
+      weekStart,
+      pointsThisWeek,
+      progress: Math.min(Math.max(pointsThisWeek / goalThisWeek, 0), 1),
+      suggestedGoal: suggestWeeklyGoal(baseline),
+      nextChangeAt: nextGoalChangeAt(points.weekly_goal_changed_at, now)?.toISOString() ?? null,
+      history: historyResult.data as WeeklyGoalResult[],
+    },
+    error: null,
+  };
+}
+
+/**
+ * Evaluate the user's last finished week if it has not been evaluated yet.
+ * Weeks that ended before the user signed up are skipped. Requires the
+ * service-role client.
+ */
+export async function evaluateLastWeek(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<{ result: WeeklyGoalResult | null; error: WeeklyGoalError | null }> {
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('timezone, created_at')
+    .eq('id', userId)
+    .single();
+
+  if (profileError) {
+    return { result: null, error: { message: profileError.message } };
+  }
+
+  const { timezone, created_at } = profile as Pick<Profile, 'timezone' | 'created_at'>;
+  const thisWeek = startOfWeek(localDate(timezone, now));
+
+  if (new Date(created_at) >= startOfDayInZone(thisWeek, timezone)) {
+    return { result: null, error: null };
+  }
+
+  const { data, error } = await supabase.rpc('evaluate_weekly_goal', {
+    p_user_id: userId,
+    p_week_start: shiftDate(thisWeek, -7),
+  });
+
+  if (error) {
+    return { result: null, error: { message: error.message } };
+  }
+
+  return { result: (data as WeeklyGoalResult[])[0] ?? null, error: null };
+}
@@ -0,0 +1,15 @@
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Whether the request carries `Authorization: Bearer <secret>`. Compared in
+ * constant time so response timing does not reveal how much of a guess
+ * matched. Always false when the secret is not configured.
+ */
+export function hasBearerSecret(request: Request, secret: string | undefined): boolean {
+  if (!secret) return false;
+
+  const actual = Buffer.from(request.headers.get('authorization') ?? '');
+  const expected = Buffer.from(`Bearer ${secret}`);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
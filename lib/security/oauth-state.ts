@@ -0,0 +1,76 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/** How long a user has to finish authorizing at the provider */
+export const OAUTH_STATE_TTL_SECONDS = 10 * 60;
+
+export interface OAuthStatePayload {
+  provider: string;
+  userId: string;
+  /** Also kept in a cookie, so a state only works in the browser that started the flow */
+  nonce: string;
+  /** Unix time in seconds */
+  expiresAt: number;
+}
+
+export interface OAuthStateError {
+  message: string;
+}
+
+function sign(data: string): Buffer {
+  const secret = process.env.OAUTH_STATE_SECRET;
+  if (!secret) {
+    throw new Error('OAUTH_STATE_SECRET must be set');
+  }
+  return createHmac('sha256', secret).update(data).digest();
+}
+
+/**
+ * Signed `state` for an OAuth authorize redirect. The provider hands it back
+ * to the callback, which checks it with verifyOAuthState.
+ */
+export function createOAuthState(
+  provider: string,
+  userId: string,
+  now: Date = new Date()
+): { state: string; payload: OAuthStatePayload } {
+  const payload: OAuthStatePayload = {
+    provider,
+    userId,
+    nonce: randomBytes(16).toString('base64url'),
+    expiresAt: Math.floor(now.getTime() / 1000) + OAUTH_STATE_TTL_SECONDS,
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return { state: `${data}.${sign(data).toString('base64url')}`, payload };
+}
+
+/**
+ * Check a state's signature, provider and expiry
+ */
+export function verifyOAuthState(
+  state: string | null,
+  provider: string,
+  now: Date = new Date()
+): { payload: OAuthStatePayload | null; error: OAuthStateError | null } {
+  const [data, signature, ...rest] = (state ?? '').split('.');
+  if (!data || !signature || rest.length > 0) {
+    return { payload: null, error: { message: 'Missing or malformed state' } };
+  }
+
+  const expected = sign(data);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { payload: null, error: { message: 'Invalid state signature' } };
+  }
+
+  const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8')) as OAuthStatePayload;
+
+  if (payload.provider !== provider) {
+    return { payload: null, error: { message: 'State was issued for another provider' } };
+  }
+  if (payload.expiresAt < now.getTime() / 1000) {
+    return { payload: null, error: { message: 'Authorization took too long, please try again' } };
+  }
+
+  return { payload, error: null };
+}
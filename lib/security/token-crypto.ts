@@ -0,0 +1,131 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+// 96-bit IVs are the recommended size for GCM
+const IV_BYTES = 12;
+const KEY_PATTERN = /^[0-9a-f]{64}$/i;
+// Key IDs are stored in front of each value, so they cannot contain ':'
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+/**
+ * ID of the key in ENCRYPTION_KEY. Values encrypted before key IDs were
+ * stored were encrypted under it.
+ */
+export const DEFAULT_KEY_ID = 'default';
+
+export interface EncryptionKeyring {
+  /** New values are encrypted under this key */
+  currentKeyId: string;
+  /** Every key that can decrypt, by ID, including the current one */
+  keys: Map<string, Buffer>;
+}
+
+/**
+ * The active 256-bit keys. ENCRYPTION_KEYS lists them as comma-separated
+ * `id:hex` pairs, current key first; the others only decrypt values not yet
+ * rotated. Without it, ENCRYPTION_KEY (64 hex characters) is the only key,
+ * with the ID "default". Generate keys with `openssl rand -hex 32`.
+ */
+export function loadKeyring(
+  env: Record<string, string | undefined> = process.env
+): EncryptionKeyring {
+  if (!env.ENCRYPTION_KEYS) {
+    const key = env.ENCRYPTION_KEY;
+    if (!key || !KEY_PATTERN.test(key)) {
+      throw new Error('ENCRYPTION_KEY must be set to 64 hex characters');
+    }
+    return {
+      currentKeyId: DEFAULT_KEY_ID,
+      keys: new Map([[DEFAULT_KEY_ID, Buffer.from(key, 'hex')]]),
+    };
+  }
+
+  const entries = env.ENCRYPTION_KEYS.split(',').map((entry) => entry.trim().split(':'));
+  const keys = new Map<string, Buffer>();
+
+  for (const [id, key, ...rest] of entries) {
+    if (rest.length > 0 || !KEY_ID_PATTERN.test(id) || !key || !KEY_PATTERN.test(key)) {
+      throw new Error(
+        'ENCRYPTION_KEYS must be comma-separated id:key pairs with 64 hex character keys'
+      );
+    }
+    if (keys.has(id)) {
+      throw new Error(`ENCRYPTION_KEYS lists key ${id} more than once`);
+    }
+    keys.set(id, Buffer.from(key, 'hex'));
+  }
+
+  return { currentKeyId: entries[0][0], keys };
+}
+
+function keyFor(keyring: EncryptionKeyring, keyId: string): Buffer {
+  const key = keyring.keys.get(keyId);
+  if (!key) {
+    throw new Error(`Encryption key ${keyId} is not configured`);
+  }
+  return key;
+}
+
+function parseEncrypted(value: string): { keyId: string; parts: Buffer[] } {
+  const parts = value.split(':');
+
+  // Values from before key IDs were stored have no ID in front
+  if (parts.length === 3) {
+    return { keyId: DEFAULT_KEY_ID, parts: parts.map((part) => Buffer.from(part, 'base64')) };
+  }
+  if (parts.length === 4) {
+    const [keyId, ...rest] = parts;
+    return { keyId, parts: rest.map((part) => Buffer.from(part, 'base64')) };
+  }
+
+  throw new Error('Encrypted value is malformed');
+}
+
+/**
+ * Encrypt a secret (an OAuth token) with AES-256-GCM under the current key.
+ * The result is `keyId:iv:authTag:ciphertext`, the last three parts base64,
+ * and is safe to store as text.
+ */
+export function encryptSecret(
+  plaintext: string,
+  keyring: EncryptionKeyring = loadKeyring()
+): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, keyFor(keyring, keyring.currentKeyId), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [
+    keyring.currentKeyId,
+    ...[iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')),
+  ].join(':');
+}
+
+/**
+ * Decrypt a value from encryptSecret with the key it names. Throws if it was
+ * tampered with or its key is not configured.
+ */
+export function decryptSecret(value: string, keyring: EncryptionKeyring = loadKeyring()): string {
+  const {
+    keyId,
+    parts: [iv, authTag, ciphertext],
+  } = parseEncrypted(value);
+  const decipher = createDecipheriv(ALGORITHM, keyFor(keyring, keyId), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+/**
+ * ID of the key a value was encrypted under
+ */
+export function encryptionKeyId(value: string): string {
+  return parseEncrypted(value).keyId;
+}
+
+/**
+ * Whether a value is encrypted under the current key. Rotation re-encrypts
+ * values for which this is false.
+ */
+export function isCurrentKey(value: string, keyring: EncryptionKeyring = loadKeyring()): boolean {
+  return encryptionKeyId(value) === keyring.currentKeyId;
+}
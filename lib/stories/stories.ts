@@ -0,0 +1,368 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Database,
+  Json,
+  Profile,
+  Story,
+  StoryContribution,
+  StoryContributionType,
+  StoryGenre,
+  StoryTone,
+} from '@/types/database';
+import { POINT_VALUES } from '@/lib/gamification/points';
+
+export type { StoryContributionType, StoryGenre, StoryTone } from '@/types/database';
+
+type AddContributionResult =
+  Database['public']['Functions']['add_story_contribution']['Returns'][number];
+
+export const STORY_GENRES: StoryGenre[] = [
+  'fantasy',
+  'sci-fi',
+  'horror',
+  'comedy',
+  'mystery',
+  'adventure',
+];
+
+export const STORY_TONES: StoryTone[] = ['serious', 'comedic', 'dark', 'lighthearted', 'chaotic'];
+
+export const STORY_CONTRIBUTION_TYPES: StoryContributionType[] = [
+  'sentence',
+  'twist',
+  'character',
+  'ending',
+];
+
+/**
+ * Points each kind of contribution costs. Mirrors add_story_contribution in
+ * the stories migration.
+ */
+export const CONTRIBUTION_COSTS: Record<StoryContributionType, number> = {
+  sentence: POINT_VALUES.STORY_SENTENCE,
+  twist: POINT_VALUES.STORY_TWIST,
+  character: POINT_VALUES.STORY_CHARACTER,
+  ending: POINT_VALUES.STORY_ENDING,
+};
+
+/**
+ * Level perk that unlocks each kind of contribution. Mirrors
+ * add_story_contribution, which refuses a type the user has not unlocked.
+ */
+export const CONTRIBUTION_PERKS: Record<StoryContributionType, string> = {
+  sentence: 'story_sentence',
+  twist: 'story_twist',
+  character: 'story_character',
+  ending: 'story_ending',
+};
+
+// Contribution length limits, matching the story_contributions.content check
+export const CONTRIBUTION_MIN_LENGTH = 10;
+export const CONTRIBUTION_MAX_LENGTH = 280;
+
+export const MAX_STORY_PARTICIPANTS = 10;
+export const DEFAULT_MAX_CONTRIBUTIONS = 100;
+export const MAX_STORY_CONTRIBUTIONS = 500;
+
+export interface StoryInput {
+  title: string;
+  genre: StoryGenre;
+  tone?: StoryTone | null;
+  maxContributions?: number;
+  /** Opening lines the first contribution follows on from */
+  opening?: string | null;
+  /** Usernames of the other participants; the author always takes part */
+  participants: string[];
+}
+
+export interface StoryContributionInput {
+  storyId: string;
+  content: string;
+  type?: StoryContributionType;
+  /** Earlier contribution in the same story this one responds to */
+  parentContributionId?: string | null;
+}
+
+export interface StoryParticipantSummary {
+  userId: string;
+  username: string;
+  displayName: string | null;
+}
+
+export interface StoryDetail extends Story {
+  participants: StoryParticipantSummary[];
+  /** Contributions in story order */
+  contributions: StoryContribution[];
+}
+
+export interface StoryError {
+  message: string;
+}
+
+interface ParticipantRow {
+  user_id: string;
+  profiles: Pick<Profile, 'username' | 'display_name'> | null;
+}
+
+/**
+ * Check a new story request before any lookups
+ */
+export function validateStoryInput(input: StoryInput): StoryError | null {
+  if (!input.title?.trim() || input.title.trim().length > 100) {
+    return { message: 'Title must be between 1 and 100 characters' };
+  }
+
+  if (!STORY_GENRES.includes(input.genre)) {
+    return { message: `Genre must be one of: ${STORY_GENRES.join(', ')}` };
+  }
+
+  if (input.tone && !STORY_TONES.includes(input.tone)) {
+    return { message: `Tone must be one of: ${STORY_TONES.join(', ')}` };
+  }
+
+  const maxContributions = input.maxContributions ?? DEFAULT_MAX_CONTRIBUTIONS;
+  if (
+    !Number.isInteger(maxContributions) ||
+    maxContributions < 1 ||
+    maxContributions > MAX_STORY_CONTRIBUTIONS
+  ) {
+    return { message: `Stories allow between 1 and ${MAX_STORY_CONTRIBUTIONS} contributions` };
+  }
+
+  if ((input.opening?.trim().length ?? 0) > CONTRIBUTION_MAX_LENGTH) {
+    return { message: `The opening must be at most ${CONTRIBUTION_MAX_LENGTH} characters` };
+  }
+
+  if (input.participants.length >= MAX_STORY_PARTICIPANTS) {
+    return { message: `Invite at most ${MAX_STORY_PARTICIPANTS - 1} other participants` };
+  }
+
+  return null;
+}
+
+/**
+ * Check a contribution before spending points on it
+ */
+export function validateContribution(
+  content: string,
+  type: StoryContributionType = 'sentence'
+): StoryError | null {
+  if (!STORY_CONTRIBUTION_TYPES.includes(type)) {
+    return { message: `Contribution type must be one of: ${STORY_CONTRIBUTION_TYPES.join(', ')}` };
+  }
+
+  const length = content.trim().length;
+  if (length < CONTRIBUTION_MIN_LENGTH || length > CONTRIBUTION_MAX_LENGTH) {
+    return {
+      message: `Contributions must be between ${CONTRIBUTION_MIN_LENGTH} and ${CONTRIBUTION_MAX_LENGTH} characters`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Participants sorted by username
+ */
+export function summarizeParticipants(rows: ParticipantRow[]): StoryParticipantSummary[] {
+  return rows
+    .map((row) => ({
+      userId: row.user_id,
+      username: row.profiles?.username ?? 'unknown',
+      displayName: row.profiles?.display_name ?? null,
+    }))
+    .sort((a, b) => a.username.localeCompare(b.username));
+}
+
+/**
+ * Stories a user takes part in, newest first
+ */
+export async function getStories(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ stories: Story[]; error: StoryError | null }> {
+  const { data: participations, error: participationError } = await supabase
+    .from('story_participants')
+    .select('story_id')
+    .eq('user_id', userId);
+
+  if (participationError) {
+    return { stories: [], error: { message: participationError.message } };
+  }
+
+  const ids = (participations as { story_id: string }[]).map((row) => row.story_id);
+
+  if (ids.length === 0) {
+    return { stories: [], error: null };
+  }
+
+  const { data, error } = await supabase
+    .from('stories')
+    .select('*')
+    .in('id', ids)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return { stories: [], error: { message: error.message } };
+  }
+
+  return { stories: data as Story[], error: null };
+}
+
+/**
+ * A story with its participants and contributions. Returns null when the
+ * story does not exist or the current user does not take part in it.
+ */
+export async function getStory(
+  supabase: SupabaseClient,
+  storyId: string
+): Promise<{ story: StoryDetail | null; error: StoryError | null }> {
+  const { data, error } = await supabase
+    .from('stories')
+    .select(
+      '*, story_participants(user_id, profiles(username, display_name)), story_contributions(*)'
+    )
+    .eq('id', storyId)
+    .order('position', { referencedTable: 'story_contributions', ascending: true })
+    .maybeSingle();
+
+  if (error) {
+    return { story: null, error: { message: error.message } };
+  }
+
+  if (!data) {
+    return { story: null, error: null };
+  }
+
+  const { story_participants, story_contributions, ...story } = data as Story & {
+    story_participants: ParticipantRow[];
+    story_contributions: StoryContribution[];
+  };
+
+  return {
+    story: {
+      ...story,
+      participants: summarizeParticipants(story_participants),
+      contributions: story_contributions,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Create a story for `authorId` and the invited participants. Requires the
+ * service-role client.
+ */
+export async function createStory(
+  supabase: SupabaseClient,
+  authorId: string,
+  input: StoryInput
+): Promise<{ id: string | null; error: StoryError | null }> {
+  const invalid = validateStoryInput(input);
+  if (invalid) {
+    return { id: null, error: invalid };
+  }
+
+  const usernames = Array.from(new Set(input.participants.map((name) => name.trim())));
+  let participantIds: string[] = [];
+
+  if (usernames.length > 0) {
+    const { data: invited, error: invitedError } = await supabase
+      .from('profiles')
+      .select('id, username')
+      .in('username', usernames);
+
+    if (invitedError) {
+      return { id: null, error: { message: invitedError.message } };
+    }
+
+    const invitedProfiles = invited as Pick<Profile, 'id' | 'username'>[];
+    const missing = usernames.filter((name) => !invitedProfiles.some((p) => p.username === name));
+    if (missing.length > 0) {
+      return { id: null, error: { message: `Unknown users: ${missing.join(', ')}` } };
+    }
+
+    participantIds = invitedProfiles.map((profile) => profile.id);
+  }
+
+  const opening = input.opening?.trim() || null;
+  const { data, error } = await supabase.rpc('create_story', {
+    p_author_id: authorId,
+    p_title: input.title.trim(),
+    p_genre: input.genre,
+    p_tone: input.tone ?? null,
+    p_max_contributions: input.maxContributions ?? DEFAULT_MAX_CONTRIBUTIONS,
+    p_opening: opening,
+    p_metadata: { prompt: opening } as Json,
+    p_participant_ids: participantIds,
+  });
+
+  if (error) {
+    return { id: null, error: { message: error.message } };
+  }
+
+  return { id: data as string, error: null };
+}
+
+/**
+ * Spend the current user's points to add to a story they take part in.
+ * Must be called with the user's own client: the function charges
+ * whoever is signed in. `result.success` is false, with a message, when the
+ * story is closed or full, the user's level has not unlocked the
+ * contribution type (see CONTRIBUTION_PERKS) or the balance is too low.
+ */
+export async function addContribution(
+  supabase: SupabaseClient,
+  input: StoryContributionInput
+): Promise<{ result: AddContributionResult | null; error: StoryError | null }> {
+  const type = input.type ?? 'sentence';
+  const invalid = validateContribution(input.content, type);
+  if (invalid) {
+    return { result: null, error: invalid };
+  }
+
+  const { data, error } = await supabase.rpc('add_story_contribution', {
+    p_story_id: input.storyId,
+    p_content: input.content.trim(),
+    p_contribution_type: type,
+    p_parent_contribution_id: input.parentContributionId ?? null,
+  });
+
+  if (error) {
+    return { result: null, error: { message: error.message } };
+  }
+
+  return { result: (data as AddContributionResult[])[0] ?? null, error: null };
+}
+
+/**
+ * Vote for someone else's contribution in a story the user takes part in
+ */
+export async function voteForContribution(
+  supabase: SupabaseClient,
+  userId: string,
+  contributionId: string
+): Promise<{ error: StoryError | null }> {
+  const { error } = await supabase
+    .from('contribution_votes')
+    .insert({ contribution_id: contributionId, voter_id: userId });
+
+  return { error: error ? { message: error.message } : null };
+}
+
+/**
+ * Withdraw the user's vote for a contribution
+ */
+export async function withdrawVote(
+  supabase: SupabaseClient,
+  userId: string,
+  contributionId: string
+): Promise<{ error: StoryError | null }> {
+  const { error } = await supabase
+    .from('contribution_votes')
+    .delete()
+    .eq('contribution_id', contributionId)
+    .eq('voter_id', userId);
+
+  return { error: error ? { message: error.message } : null };
+}
@@ -0,0 +1,18 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Service-role client for trusted server-side work (point awards, webhooks,
+ * scheduled jobs). Bypasses RLS, so it must never be imported by client code.
+ */
+export function createAdminClient() {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+}
@@ -43,6 +43,9 @@ export async function updateSession(request: NextRequest) {
     !request.nextUrl.pathname.startsWith('/login') &&
     !request.nextUrl.pathname.startsWith('/signup') &&
     !request.nextUrl.pathname.startsWith('/auth') &&
+    !request.nextUrl.pathname.startsWith('/api/cron') &&
+    !request.nextUrl.pathname.startsWith('/api/admin') &&
+    !request.nextUrl.pathname.startsWith('/api/webhooks') &&
     request.nextUrl.pathname !== '/'
   ) {
     const url = request.nextUrl.clone();
@@ -0,0 +1,117 @@
+// Helpers for calendar dates stored as YYYY-MM-DD strings (workouts.workout_date)
+
+/**
+ * Add days to a YYYY-MM-DD date string
+ */
+export function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another (positive when `to` is later)
+ */
+export function daysBetween(from: string, to: string): number {
+  const start = Date.parse(`${from.slice(0, 10)}T00:00:00Z`);
+  const end = Date.parse(`${to.slice(0, 10)}T00:00:00Z`);
+  return Math.round((end - start) / 86_400_000);
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in an IANA time zone, falling back to UTC for
+ * unknown zones
+ */
+export function localDate(timeZone: string | null | undefined, now: Date = new Date()): string {
+  try {
+    // en-CA formats as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: timeZone || 'UTC',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(now);
+  } catch {
+    return now.toISOString().slice(0, 10);
+  }
+}
+
+/**
+ * Whether a string is a time zone this runtime recognises
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Monday of the week containing a YYYY-MM-DD date
+ */
+export function startOfWeek(date: string): string {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay();
+  return shiftDate(date, -((day + 6) % 7));
+}
+
+/**
+ * First day of the month containing a YYYY-MM-DD date
+ */
+export function startOfMonth(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+/**
+ * First day of the following month
+ */
+export function startOfNextMonth(date: string): string {
+  const d = new Date(`${startOfMonth(date)}T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Offset of an IANA time zone from UTC at an instant, in milliseconds
+ */
+function timeZoneOffset(timeZone: string, at: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(at));
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const wallClock = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  );
+  return wallClock - Math.floor(at / 1000) * 1000;
+}
+
+/**
+ * The instant local midnight starts a YYYY-MM-DD date in an IANA time zone,
+ * falling back to UTC for unknown zones
+ */
+export function startOfDayInZone(date: string, timeZone: string | null | undefined): Date {
+  const utcMidnight = Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+
+  try {
+    const zone = timeZone || 'UTC';
+    const offset = timeZoneOffset(zone, utcMidnight);
+    // Re-check at the candidate instant in case a DST change falls in between
+    const corrected = timeZoneOffset(zone, utcMidnight - offset);
+    return new Date(utcMidnight - corrected);
+  } catch {
+    return new Date(utcMidnight);
+  }
+}
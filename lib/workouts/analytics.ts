@@ -0,0 +1,288 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, UserBaseline } from '@/types/database';
+import { ACTIVITY_TYPE_LABELS, type ActivityType } from '@/lib/fitness/normalizer';
+import { daysBetween, shiftDate, startOfMonth, startOfWeek } from '@/lib/utils/dates';
+import { COUNTED_WORKOUTS_FILTER } from '@/lib/workouts/validation';
+
+export type AnalyticsPeriod = 'week' | 'month';
+
+export const ANALYTICS_PERIODS: AnalyticsPeriod[] = ['week', 'month'];
+
+/** Quick ranges on the analytics page: whole weeks, or whole months for the longer ones */
+export const ANALYTICS_PRESETS = {
+  '4w': { label: '4 weeks', period: 'week', count: 4 },
+  '12w': { label: '12 weeks', period: 'week', count: 12 },
+  '6m': { label: '6 months', period: 'month', count: 6 },
+  '12m': { label: '1 year', period: 'month', count: 12 },
+} as const satisfies Record<string, { label: string; period: AnalyticsPeriod; count: number }>;
+
+export type AnalyticsPreset = keyof typeof ANALYTICS_PRESETS;
+
+/** Weeks shown when no range is chosen */
+export const DEFAULT_ANALYTICS_WEEKS = 12;
+
+// Longest range the page can ask for: five years of weekly bars is plenty
+export const MAX_ANALYTICS_DAYS = 5 * 366;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface AnalyticsRange {
+  /** Inclusive date range (YYYY-MM-DD) */
+  from: string;
+  to: string;
+}
+
+export interface PeriodTotals {
+  /** First day of the week (Monday) or month */
+  periodStart: string;
+  workouts: number;
+  minutes: number;
+  distanceKm: number;
+  calories: number;
+  /** Average heart rate, weighted by duration; null if no workout recorded one */
+  avgHeartRate: number | null;
+}
+
+export interface TypeTotals {
+  activityType: ActivityType;
+  label: string;
+  workouts: number;
+  minutes: number;
+  distanceKm: number;
+  calories: number;
+}
+
+export interface RangeTotals {
+  workouts: number;
+  minutes: number;
+  distanceKm: number;
+  calories: number;
+}
+
+export interface BaselineComparison {
+  /** Weekly averages over the range */
+  avgWeeklyWorkouts: number;
+  avgWorkoutDuration: number | null;
+  avgWeeklyDistance: number;
+  /** The user's baseline; null until one has been calculated */
+  baseline: {
+    avgWeeklyWorkouts: number | null;
+    avgWorkoutDuration: number | null;
+    avgWeeklyDistance: number | null;
+  } | null;
+}
+
+export interface WorkoutAnalytics {
+  range: AnalyticsRange;
+  period: AnalyticsPeriod;
+  periods: PeriodTotals[];
+  types: TypeTotals[];
+  totals: RangeTotals;
+  baseline: BaselineComparison;
+  /** Counted workouts ever, regardless of the range */
+  allTimeWorkouts: number;
+}
+
+export interface AnalyticsError {
+  message: string;
+}
+
+type PeriodRow = Database['public']['Functions']['workout_period_totals']['Returns'][number];
+type TypeRow = Database['public']['Functions']['workout_type_totals']['Returns'][number];
+type AnalyticsBaseline = Pick<
+  UserBaseline,
+  'avg_weekly_workouts' | 'avg_workout_duration' | 'avg_weekly_distance'
+>;
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function numberOrNull(value: number | string | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+/**
+ * The last DEFAULT_ANALYTICS_WEEKS whole weeks, up to and including this one
+ */
+export function defaultAnalyticsRange(today: string): AnalyticsRange {
+  return { from: shiftDate(startOfWeek(today), -7 * (DEFAULT_ANALYTICS_WEEKS - 1)), to: today };
+}
+
+/**
+ * Range and period for a preset, ending today and starting on the first day
+ * of its earliest week or month
+ */
+export function presetAnalyticsRange(
+  preset: AnalyticsPreset,
+  today: string
+): { range: AnalyticsRange; period: AnalyticsPeriod } {
+  const { period, count } = ANALYTICS_PRESETS[preset];
+
+  if (period === 'week') {
+    return { range: { from: shiftDate(startOfWeek(today), -7 * (count - 1)), to: today }, period };
+  }
+
+  const from = new Date(`${startOfMonth(today)}T00:00:00Z`);
+  from.setUTCMonth(from.getUTCMonth() - (count - 1));
+  return { range: { from: from.toISOString().slice(0, 10), to: today }, period };
+}
+
+/**
+ * Check a range from the query string
+ */
+export function validateAnalyticsRange(range: AnalyticsRange): AnalyticsError | null {
+  if (!ISO_DATE.test(range.from) || !ISO_DATE.test(range.to)) {
+    return { message: 'from and to must be dates (YYYY-MM-DD)' };
+  }
+  if (range.to < range.from) {
+    return { message: 'The range must end on or after its start' };
+  }
+  if (daysBetween(range.from, range.to) > MAX_ANALYTICS_DAYS) {
+    return { message: 'The range can be at most five years' };
+  }
+  return null;
+}
+
+/**
+ * Range and period from the analytics API's query string: from, to
+ * (YYYY-MM-DD) and period (week or month). Without a range, the default one
+ * ending today, the user's local date.
+ */
+export function parseAnalyticsQuery(
+  params: URLSearchParams,
+  today: string
+): { range: AnalyticsRange; period: AnalyticsPeriod; error: AnalyticsError | null } {
+  const period = (params.get('period') ?? 'week') as AnalyticsPeriod;
+  const defaults = defaultAnalyticsRange(today);
+  const range = { from: params.get('from') ?? defaults.from, to: params.get('to') ?? defaults.to };
+
+  if (!ANALYTICS_PERIODS.includes(period)) {
+    return { range, period, error: { message: `Unknown period: ${period}` } };
+  }
+
+  return { range, period, error: validateAnalyticsRange(range) };
+}
+
+export function toPeriodTotals(row: PeriodRow): PeriodTotals {
+  return {
+    periodStart: row.period_start.slice(0, 10),
+    workouts: row.workouts,
+    minutes: row.minutes,
+    distanceKm: Number(row.distance_km),
+    calories: row.calories,
+    avgHeartRate: numberOrNull(row.avg_heart_rate),
+  };
+}
+
+export function toTypeTotals(row: TypeRow): TypeTotals {
+  return {
+    activityType: row.activity_type,
+    label: ACTIVITY_TYPE_LABELS[row.activity_type],
+    workouts: row.workouts,
+    minutes: row.minutes,
+    distanceKm: Number(row.distance_km),
+    calories: row.calories,
+  };
+}
+
+/**
+ * Totals over the whole range, from its per-period totals
+ */
+export function sumPeriods(periods: PeriodTotals[]): RangeTotals {
+  const totals = periods.reduce(
+    (sum, period) => ({
+      workouts: sum.workouts + period.workouts,
+      minutes: sum.minutes + period.minutes,
+      distanceKm: sum.distanceKm + period.distanceKm,
+      calories: sum.calories + period.calories,
+    }),
+    { workouts: 0, minutes: 0, distanceKm: 0, calories: 0 }
+  );
+
+  return { ...totals, distanceKm: round(totals.distanceKm, 2) };
+}
+
+/**
+ * Weekly averages over a range against the user's baseline. The range's
+ * length in weeks counts partial weeks by their days, so a range ending
+ * mid-week is not judged as if the week were over.
+ */
+export function compareToBaseline(
+  totals: RangeTotals,
+  range: AnalyticsRange,
+  baseline: AnalyticsBaseline | null
+): BaselineComparison {
+  const weeks = (daysBetween(range.from, range.to) + 1) / 7;
+
+  return {
+    avgWeeklyWorkouts: round(totals.workouts / weeks, 1),
+    avgWorkoutDuration: totals.workouts > 0 ? Math.round(totals.minutes / totals.workouts) : null,
+    avgWeeklyDistance: round(totals.distanceKm / weeks, 1),
+    baseline: baseline
+      ? {
+          avgWeeklyWorkouts: numberOrNull(baseline.avg_weekly_workouts),
+          avgWorkoutDuration: numberOrNull(baseline.avg_workout_duration),
+          avgWeeklyDistance: numberOrNull(baseline.avg_weekly_distance),
+        }
+      : null,
+  };
+}
+
+/**
+ * Query string for the analytics API
+ */
+export function analyticsQueryString(range: AnalyticsRange, period: AnalyticsPeriod): string {
+  return new URLSearchParams({ from: range.from, to: range.to, period }).toString();
+}
+
+/**
+ * Totals, breakdown by type, heart-rate trend and baseline comparison for a
+ * range. Aggregation happens in Postgres; the functions only read the
+ * caller's workouts, so this must be given the user's own client.
+ */
+export async function getWorkoutAnalytics(
+  supabase: SupabaseClient,
+  userId: string,
+  range: AnalyticsRange,
+  period: AnalyticsPeriod
+): Promise<{ analytics: WorkoutAnalytics | null; error: AnalyticsError | null }> {
+  const [periodsResult, typesResult, baselineResult, countResult] = await Promise.all([
+    supabase.rpc('workout_period_totals', { p_from: range.from, p_to: range.to, p_period: period }),
+    supabase.rpc('workout_type_totals', { p_from: range.from, p_to: range.to }),
+    supabase
+      .from('user_baselines')
+      .select('avg_weekly_workouts, avg_workout_duration, avg_weekly_distance')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('workouts')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('merged_into', null)
+      .or(COUNTED_WORKOUTS_FILTER),
+  ]);
+
+  const error =
+    periodsResult.error ?? typesResult.error ?? baselineResult.error ?? countResult.error;
+  if (error) {
+    return { analytics: null, error: { message: error.message } };
+  }
+
+  const periods = (periodsResult.data as PeriodRow[]).map(toPeriodTotals);
+  const totals = sumPeriods(periods);
+
+  return {
+    analytics: {
+      range,
+      period,
+      periods,
+      types: (typesResult.data as TypeRow[]).map(toTypeTotals),
+      totals,
+      baseline: compareToBaseline(totals, range, baselineResult.data as AnalyticsBaseline | null),
+      allTimeWorkouts: countResult.count ?? 0,
+    },
+    error: null,
+  };
+}
@@ -0,0 +1,462 @@
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Inserts, Workout } from '@/types/database';
+import { toWorkoutRow } from '@/lib/fitness/normalizer';
+import { parseCsv } from '@/lib/workouts/csv';
+import {
+  earnsImportPoints,
+  importFailedError,
+  importPolicyFields,
+  refreshImportedRecords,
+  type ImportPointsPolicy,
+} from '@/lib/workouts/import-policy';
+import {
+  toNormalizedActivity,
+  validateManualWorkout,
+  type ManualWorkoutInput,
+  type WorkoutInputError,
+} from '@/lib/workouts/manual';
+import { processWorkout } from '@/lib/workouts/processing';
+
+export type CsvImportField = keyof ManualWorkoutInput;
+
+/** Which CSV header each workout field is read from */
+export type CsvColumnMapping = Partial<Record<CsvImportField, string>>;
+
+export type CsvDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+
+export const MAX_CSV_IMPORT_BYTES = 5 * 1024 * 1024;
+export const MAX_CSV_IMPORT_ROWS = 5000;
+
+// Rows per insert request
+const INSERT_BATCH_SIZE = 500;
+
+export const REQUIRED_CSV_FIELDS: CsvImportField[] = [
+  'workoutDate',
+  'workoutType',
+  'durationMinutes',
+];
+
+// Header names we recognise when suggesting a mapping, checked in field order
+const HEADER_PATTERNS: [CsvImportField, RegExp][] = [
+  ['workoutDate', /date|day|start/i],
+  ['workoutType', /type|activity|sport|exercise/i],
+  ['durationMinutes', /duration|minutes|mins?\b|time/i],
+  ['distanceKm', /distance|\bkm\b|kilomet/i],
+  ['caloriesBurned', /calorie|kcal/i],
+  ['heartRateAvg', /heart|\bhr\b|bpm|pulse/i],
+];
+
+export interface CsvImportOptions {
+  /** Defaults to the suggested mapping for the file's headers */
+  mapping?: CsvColumnMapping;
+  dateFormat: CsvDateFormat;
+  pointsPolicy: ImportPointsPolicy;
+}
+
+export interface CsvImportError {
+  message: string;
+}
+
+export type CsvRowStatus = 'valid' | 'invalid' | 'duplicate';
+
+export interface CsvRowResult {
+  /** Spreadsheet row number: the header is row 1 */
+  row: number;
+  status: CsvRowStatus;
+  /** The workout read from the row; null when the row is invalid */
+  workout: ManualWorkoutInput | null;
+  /** Constraint violations for invalid rows, or why a row is a duplicate */
+  errors: WorkoutInputError[];
+  /** Whether the points policy lets this workout earn points */
+  earnsPoints: boolean;
+}
+
+export interface CsvImportPreview {
+  headers: string[];
+  mapping: CsvColumnMapping;
+  rows: CsvRowResult[];
+  counts: Record<CsvRowStatus, number>;
+}
+
+export interface CsvImportSummary extends CsvImportPreview {
+  /** Workouts stored; duplicates inserted concurrently are skipped */
+  imported: number;
+  /** Workouts scored under the points policy, and the points they earned */
+  scored: number;
+  points: number;
+}
+
+/**
+ * Guess which header holds each field. Every header is used at most once.
+ */
+export function suggestColumnMapping(headers: string[]): CsvColumnMapping {
+  const mapping: CsvColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const [field, pattern] of HEADER_PATTERNS) {
+    const header = headers.find((name) => !used.has(name) && pattern.test(name));
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Check a mapping against the file's headers
+ */
+export function validateColumnMapping(
+  mapping: CsvColumnMapping,
+  headers: string[]
+): CsvImportError | null {
+  const missing = REQUIRED_CSV_FIELDS.filter((field) => !mapping[field]);
+  if (missing.length > 0) {
+    return { message: `Choose a column for: ${missing.join(', ')}` };
+  }
+
+  const unknown = Object.values(mapping).filter((header) => header && !headers.includes(header));
+  if (unknown.length > 0) {
+    return { message: `Column not found in the file: ${unknown.join(', ')}` };
+  }
+
+  return null;
+}
+
+/**
+ * Read a date in the given format as YYYY-MM-DD. ISO timestamps keep their
+ * date part. Anything unreadable is returned as is for validation to reject.
+ */
+export function parseCsvDate(value: string, format: CsvDateFormat): string {
+  const text = value.trim();
+
+  if (format === 'YYYY-MM-DD') {
+    const match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/);
+    return match ? `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}` : text;
+  }
+
+  const match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[T ].*)?$/);
+  if (!match) return text;
+
+  const [month, day] = format === 'MM/DD/YYYY' ? [match[1], match[2]] : [match[2], match[1]];
+  return `${match[3]}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+/**
+ * Minutes from a plain number of minutes or an h:mm:ss / mm:ss duration,
+ * rounded to the nearest minute. NaN if unreadable.
+ */
+export function parseCsvDuration(value: string): number | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  if (text.includes(':')) {
+    const parts = text.split(':').map(Number);
+    if (parts.length > 3 || parts.some((part) => !Number.isFinite(part) || part < 0)) return NaN;
+    const [hours, minutes, seconds] = parts.length === 3 ? parts : [0, ...parts];
+    return Math.round(hours * 60 + minutes + seconds / 60);
+  }
+
+  const minutes = parseCsvNumber(text);
+  return minutes === null ? null : Math.round(minutes);
+}
+
+/**
+ * A number with optional thousands separators. NaN if unreadable, so that
+ * validation reports it.
+ */
+export function parseCsvNumber(value: string): number | null {
+  const text = value.trim().replace(/[,\s]/g, '');
+  if (!text) return null;
+  return /^-?\d*\.?\d+$/.test(text) ? Number(text) : NaN;
+}
+
+function roundOrNull(value: number | null): number | null {
+  return value === null || Number.isNaN(value) ? value : Math.round(value);
+}
+
+type ExistingWorkout = Pick<
+  Workout,
+  'workout_date' | 'workout_type' | 'duration_minutes' | 'distance_km'
+>;
+
+// Workouts with the same date, type, duration and distance are the same workout
+function duplicateKey(
+  workout: Pick<ManualWorkoutInput, 'workoutDate' | 'workoutType' | 'durationMinutes'> & {
+    distanceKm: number | string | null;
+  }
+): string {
+  const distance = workout.distanceKm === null ? '' : Number(workout.distanceKm).toFixed(2);
+  return [
+    workout.workoutDate,
+    workout.workoutType.trim().toLowerCase(),
+    workout.durationMinutes ?? '',
+    distance,
+  ].join('|');
+}
+
+function duplicateKeyOf(workout: ExistingWorkout): string {
+  return duplicateKey({
+    workoutDate: workout.workout_date,
+    workoutType: workout.workout_type,
+    durationMinutes: workout.duration_minutes,
+    distanceKm: workout.distance_km,
+  });
+}
+
+/**
+ * Parse and validate every row of a CSV export. Rows repeating an earlier row
+ * of the file are marked as duplicates. Pure: today is the user's local date.
+ */
+export function readCsvWorkouts(
+  text: string,
+  options: CsvImportOptions,
+  today: string
+): { preview: CsvImportPreview | null; error: CsvImportError | null } {
+  const [headerRow, ...dataRows] = parseCsv(text);
+  if (!headerRow) {
+    return { preview: null, error: { message: 'The file is empty' } };
+  }
+  if (dataRows.length > MAX_CSV_IMPORT_ROWS) {
+    return {
+      preview: null,
+      error: { message: `Files can have at most ${MAX_CSV_IMPORT_ROWS} workouts` },
+    };
+  }
+
+  const headers = headerRow.map((header) => header.trim());
+  const mapping = options.mapping ?? suggestColumnMapping(headers);
+  const mappingError = validateColumnMapping(mapping, headers);
+  if (mappingError) {
+    return { preview: null, error: mappingError };
+  }
+
+  const cell = (values: string[], field: CsvImportField) => {
+    const header = mapping[field];
+    return header ? (values[headers.indexOf(header)] ?? '') : '';
+  };
+
+  const seen = new Map<string, number>();
+  const rows = dataRows.map((values, index): CsvRowResult => {
+    const row = index + 2;
+    const workout: ManualWorkoutInput = {
+      workoutDate: parseCsvDate(cell(values, 'workoutDate'), options.dateFormat),
+      workoutType: cell(values, 'workoutType').trim(),
+      durationMinutes: parseCsvDuration(cell(values, 'durationMinutes')),
+      distanceKm: parseCsvNumber(cell(values, 'distanceKm')),
+      caloriesBurned: roundOrNull(parseCsvNumber(cell(values, 'caloriesBurned'))),
+      heartRateAvg: roundOrNull(parseCsvNumber(cell(values, 'heartRateAvg'))),
+    };
+
+    const errors = validateManualWorkout(workout, today, null);
+    if (errors.length > 0) {
+      return { row, status: 'invalid', workout: null, errors, earnsPoints: false };
+    }
+
+    const key = duplicateKey(workout);
+    const earlier = seen.get(key);
+    if (earlier !== undefined) {
+      return {
+        row,
+        status: 'duplicate',
+        workout,
+        errors: [{ message: `Same workout as row ${earlier}` }],
+        earnsPoints: false,
+      };
+    }
+    seen.set(key, row);
+
+    return {
+      row,
+      status: 'valid',
+      workout,
+      errors: [],
+      earnsPoints: earnsImportPoints(workout.workoutDate, options.pointsPolicy, today),
+    };
+  });
+
+  return { preview: { headers, mapping, rows, counts: countRows(rows) }, error: null };
+}
+
+function countRows(rows: CsvRowResult[]): Record<CsvRowStatus, number> {
+  const counts: Record<CsvRowStatus, number> = { valid: 0, invalid: 0, duplicate: 0 };
+  for (const row of rows) counts[row.status]++;
+  return counts;
+}
+
+/**
+ * Mark rows matching a workout the user already has, from any source
+ */
+export function markExistingDuplicates(
+  preview: CsvImportPreview,
+  existing: ExistingWorkout[]
+): CsvImportPreview {
+  const existingKeys = new Set(existing.map(duplicateKeyOf));
+
+  const rows = preview.rows.map((row): CsvRowResult => {
+    if (row.status !== 'valid' || !existingKeys.has(duplicateKey(row.workout!))) return row;
+    return {
+      ...row,
+      status: 'duplicate',
+      errors: [{ message: 'You have already logged this workout' }],
+      earnsPoints: false,
+    };
+  });
+
+  return { ...preview, rows, counts: countRows(rows) };
+}
+
+/**
+ * The workouts row for an imported CSV row. The external_id is derived from
+ * the workout itself, so importing the same history again inserts nothing.
+ */
+export function toCsvWorkoutInsert(
+  userId: string,
+  row: CsvRowResult,
+  fileName: string,
+  scoredAt: string
+): Inserts<'workouts'> {
+  const workout = row.workout!;
+  const key = duplicateKey(workout);
+  const activity = toNormalizedActivity(workout, 'file');
+
+  return {
+    ...toWorkoutRow(userId, {
+      ...activity,
+      externalId: `csv:${createHash('sha256').update(key).digest('hex')}`,
+      rawData: { format: 'csv', fileName, row: row.row },
+    }),
+    ...importPolicyFields(row.earnsPoints, scoredAt),
+  };
+}
+
+// Years of history can exceed the API's row limit, so read it in pages
+const EXISTING_PAGE_SIZE = 1000;
+
+async function loadExistingWorkouts(
+  supabase: SupabaseClient,
+  userId: string,
+  from: string,
+  to: string
+): Promise<{ workouts: ExistingWorkout[]; error: CsvImportError | null }> {
+  const workouts: ExistingWorkout[] = [];
+
+  for (let offset = 0; ; offset += EXISTING_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('workouts')
+      .select('workout_date, workout_type, duration_minutes, distance_km')
+      .eq('user_id', userId)
+      .gte('workout_date', from)
+      .lte('workout_date', to)
+      .order('id')
+      .range(offset, offset + EXISTING_PAGE_SIZE - 1);
+
+    if (error) {
+      return { workouts: [], error: { message: error.message } };
+    }
+
+    workouts.push(...(data as ExistingWorkout[]));
+    if (data.length < EXISTING_PAGE_SIZE) {
+      return { workouts, error: null };
+    }
+  }
+}
+
+/**
+ * Preview or run a CSV import for a user. With dryRun nothing is written.
+ * preview is null when the file or mapping cannot be used.
+ *
+ * Must be given the service-role client: rows outside the points policy are
+ * written as already scored, which users cannot do themselves.
+ */
+export async function importCsvWorkouts(
+  supabase: SupabaseClient,
+  userId: string,
+  text: string,
+  fileName: string,
+  options: CsvImportOptions,
+  today: string,
+  dryRun: boolean
+): Promise<{
+  preview: CsvImportPreview | null;
+  summary: CsvImportSummary | null;
+  error: CsvImportError | null;
+}> {
+  const { preview: parsed, error: readError } = readCsvWorkouts(text, options, today);
+  if (readError) {
+    return { preview: null, summary: null, error: readError };
+  }
+
+  const dates = parsed!.rows.flatMap((row) => (row.workout ? [row.workout.workoutDate] : []));
+  let preview = parsed!;
+
+  if (dates.length > 0) {
+    const { workouts: existing, error: existingError } = await loadExistingWorkouts(
+      supabase,
+      userId,
+      dates.reduce((min, date) => (date < min ? date : min)),
+      dates.reduce((max, date) => (date > max ? date : max))
+    );
+
+    if (existingError) {
+      return { preview, summary: null, error: existingError };
+    }
+
+    preview = markExistingDuplicates(preview, existing);
+  }
+
+  if (dryRun) {
+    return { preview, summary: null, error: null };
+  }
+
+  const scoredAt = new Date().toISOString();
+  const inserts = preview.rows
+    .filter((row) => row.status === 'valid')
+    .map((row) => toCsvWorkoutInsert(userId, row, fileName, scoredAt));
+
+  const inserted: Workout[] = [];
+  for (let i = 0; i < inserts.length; i += INSERT_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('workouts')
+      .upsert(inserts.slice(i, i + INSERT_BATCH_SIZE), {
+        onConflict: 'user_id,source,external_id',
+        ignoreDuplicates: true,
+      })
+      .select('*');
+
+    if (error) {
+      return {
+        preview,
+        summary: null,
+        error: importFailedError(inserted.length, error.message),
+      };
+    }
+    inserted.push(...(data as Workout[]));
+  }
+
+  const { error: recordsError } = await refreshImportedRecords(supabase, userId, inserted);
+  if (recordsError) {
+    return { preview, summary: null, error: recordsError };
+  }
+
+  // Only the recent workouts allowed by the policy are left to score
+  let scored = 0;
+  let points = 0;
+  for (const workout of inserted.filter((row) => !row.scored_at)) {
+    const { result } = await processWorkout(supabase, workout);
+    if (result) {
+      scored++;
+      points += result.points;
+    }
+  }
+
+  return {
+    preview,
+    summary: { ...preview, imported: inserted.length, scored, points },
+    error: null,
+  };
+}
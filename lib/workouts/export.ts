@@ -0,0 +1,129 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Workout } from '@/types/database';
+import { formatCsv } from '@/lib/workouts/csv';
+
+export type WorkoutExportFormat = 'csv' | 'json';
+
+export const WORKOUT_EXPORT_FORMATS: WorkoutExportFormat[] = ['csv', 'json'];
+
+/**
+ * Exported columns. The CSV headers are recognised by the CSV importer, so
+ * an export can be imported again.
+ */
+export const EXPORT_COLUMNS = [
+  'id',
+  'workout_date',
+  'workout_type',
+  'duration_minutes',
+  'distance_km',
+  'calories_burned',
+  'heart_rate_avg',
+  'source',
+  'points_earned',
+  'created_at',
+] as const;
+
+export type ExportedWorkout = Pick<Workout, (typeof EXPORT_COLUMNS)[number]>;
+
+export interface WorkoutExportQuery {
+  /** Inclusive date range (YYYY-MM-DD); open-ended when omitted */
+  from?: string;
+  to?: string;
+  format: WorkoutExportFormat;
+}
+
+export interface WorkoutExportError {
+  message: string;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Rows per request; PostgREST caps how many rows one request returns
+const EXPORT_PAGE_SIZE = 1000;
+
+/**
+ * Read the date range and format from a query string
+ */
+export function parseExportQuery(params: URLSearchParams): {
+  query: WorkoutExportQuery | null;
+  error: WorkoutExportError | null;
+} {
+  const format = params.get('format') ?? 'csv';
+  if (!WORKOUT_EXPORT_FORMATS.includes(format as WorkoutExportFormat)) {
+    return { query: null, error: { message: `Unknown format: ${format}` } };
+  }
+
+  const query: WorkoutExportQuery = { format: format as WorkoutExportFormat };
+
+  for (const key of ['from', 'to'] as const) {
+    const value = params.get(key);
+    if (!value) continue;
+    if (!ISO_DATE.test(value)) {
+      return { query: null, error: { message: `${key} must be a date (YYYY-MM-DD)` } };
+    }
+    query[key] = value;
+  }
+
+  if (query.from && query.to && query.from > query.to) {
+    return { query: null, error: { message: 'from must not be after to' } };
+  }
+
+  return { query, error: null };
+}
+
+/**
+ * All of a user's workouts in a date range, oldest first
+ */
+export async function listWorkoutsForExport(
+  supabase: SupabaseClient,
+  userId: string,
+  query: Pick<WorkoutExportQuery, 'from' | 'to'>
+): Promise<{ workouts: ExportedWorkout[]; error: WorkoutExportError | null }> {
+  const workouts: ExportedWorkout[] = [];
+
+  for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+    let request = supabase.from('workouts').select(EXPORT_COLUMNS.join(', ')).eq('user_id', userId);
+    if (query.from) request = request.gte('workout_date', query.from);
+    if (query.to) request = request.lte('workout_date', query.to);
+
+    const { data, error } = await request
+      .order('workout_date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + EXPORT_PAGE_SIZE - 1);
+
+    if (error) {
+      return { workouts: [], error: { message: error.message } };
+    }
+
+    const page = data as unknown as ExportedWorkout[];
+    workouts.push(...page);
+    if (page.length < EXPORT_PAGE_SIZE) {
+      return { workouts, error: null };
+    }
+  }
+}
+
+/**
+ * Serialize workouts as CSV with a header row, or as a JSON array
+ */
+export function formatWorkoutExport(
+  workouts: ExportedWorkout[],
+  format: WorkoutExportFormat
+): string {
+  if (format === 'json') {
+    return JSON.stringify(workouts, null, 2);
+  }
+
+  return formatCsv([
+    [...EXPORT_COLUMNS],
+    ...workouts.map((workout) => EXPORT_COLUMNS.map((column) => workout[column])),
+  ]);
+}
+
+/**
+ * Download name for an export, e.g. workouts-2025-01-01-to-2025-03-31.csv
+ */
+export function exportFileName(query: WorkoutExportQuery): string {
+  const range = query.from || query.to ? `-${query.from ?? 'start'}-to-${query.to ?? 'today'}` : '';
+  return `workouts${range}.${query.format}`;
+}
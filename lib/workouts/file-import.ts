@@ -0,0 +1,244 @@
+import { createHash } from 'crypto';
+import type { Inserts, Json } from '@/types/database';
+import { normalizeActivity, toWorkoutRow } from '@/lib/fitness/normalizer';
+import { localDate } from '@/lib/utils/dates';
+import {
+  earnsImportPoints,
+  importPolicyFields,
+  type ImportPointsPolicy,
+} from '@/lib/workouts/import-policy';
+import { MAX_DISTANCE_KM, MAX_DURATION_MINUTES, MAX_HEART_RATE } from '@/lib/workouts/manual';
+import { parseFit } from '@/lib/workouts/parsers/fit';
+import { parseGpx } from '@/lib/workouts/parsers/gpx';
+import { parseTcx } from '@/lib/workouts/parsers/tcx';
+import type {
+  ParsedActivity,
+  TrackPoint,
+  WorkoutFileError,
+  WorkoutFileFormat,
+} from '@/lib/workouts/parsers/types';
+
+export type { WorkoutFileError, WorkoutFileFormat } from '@/lib/workouts/parsers/types';
+
+export const MAX_WORKOUT_FILE_BYTES = 10 * 1024 * 1024;
+
+export const WORKOUT_FILE_EXTENSIONS: Record<WorkoutFileFormat, string> = {
+  gpx: '.gpx',
+  tcx: '.tcx',
+  fit: '.fit',
+};
+
+/**
+ * What we derived from a file; stored in raw_data
+ */
+export interface WorkoutFileSummary {
+  format: WorkoutFileFormat;
+  fileName: string;
+  sport: string | null;
+  startTime: string | null;
+  durationSeconds: number | null;
+  distanceKm: number | null;
+  heartRateAvg: number | null;
+  pointCount: number;
+}
+
+const EARTH_RADIUS_METERS = 6_371_000;
+
+/**
+ * Work out the format from the file's signature, falling back to its extension
+ */
+export function detectWorkoutFileFormat(
+  fileName: string,
+  data: Uint8Array
+): WorkoutFileFormat | null {
+  if (data.byteLength >= 12 && String.fromCharCode(...data.subarray(8, 12)) === '.FIT') {
+    return 'fit';
+  }
+
+  const head = new TextDecoder().decode(data.subarray(0, 2048));
+  if (/<(?:[\w-]+:)?TrainingCenterDatabase[\s>]/.test(head)) return 'tcx';
+  if (/<(?:[\w-]+:)?gpx[\s>]/.test(head)) return 'gpx';
+
+  const extension = fileName.toLowerCase().match(/\.[a-z]+$/)?.[0];
+  const match = Object.entries(WORKOUT_FILE_EXTENSIONS).find(([, ext]) => ext === extension);
+  return match ? (match[0] as WorkoutFileFormat) : null;
+}
+
+/**
+ * Parse a GPX, TCX or FIT file
+ */
+export function parseWorkoutFile(
+  fileName: string,
+  data: Uint8Array
+): { activity: ParsedActivity | null; error: WorkoutFileError | null } {
+  const format = detectWorkoutFileFormat(fileName, data);
+  if (!format) {
+    return {
+      activity: null,
+      error: { message: 'Unsupported file. Upload a GPX, TCX or FIT file.' },
+    };
+  }
+
+  try {
+    const activity =
+      format === 'fit'
+        ? parseFit(data)
+        : (format === 'gpx' ? parseGpx : parseTcx)(new TextDecoder().decode(data));
+
+    if (activity.points.length === 0 && activity.totals.durationSeconds === undefined) {
+      return { activity: null, error: { message: 'The file does not contain any track data' } };
+    }
+
+    return { activity, error: null };
+  } catch (err) {
+    return {
+      activity: null,
+      error: {
+        message: `Could not read ${format.toUpperCase()} file: ${err instanceof Error ? err.message : 'unknown error'}`,
+      },
+    };
+  }
+}
+
+/**
+ * Great-circle distance between two points in meters
+ */
+export function haversineMeters(
+  a: Required<Pick<TrackPoint, 'lat' | 'lon'>>,
+  b: Required<Pick<TrackPoint, 'lat' | 'lon'>>
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+function trackDistanceMeters(points: TrackPoint[]): number | null {
+  const recorded = points.filter((point) => point.distanceMeters !== undefined);
+  if (recorded.length > 0) {
+    // A loop rather than Math.max(...): long tracks overflow the argument limit
+    return recorded.reduce((max, point) => Math.max(max, point.distanceMeters!), -Infinity);
+  }
+
+  const located = points.filter(
+    (point): point is TrackPoint & { lat: number; lon: number } =>
+      point.lat !== undefined && point.lon !== undefined
+  );
+  if (located.length < 2) return null;
+
+  let meters = 0;
+  for (let i = 1; i < located.length; i++) {
+    meters += haversineMeters(located[i - 1], located[i]);
+  }
+  return meters;
+}
+
+function trackDurationSeconds(points: TrackPoint[]): number | null {
+  let first = Infinity;
+  let last = -Infinity;
+  let count = 0;
+
+  for (const point of points) {
+    if (!point.time) continue;
+    const time = point.time.getTime();
+    first = Math.min(first, time);
+    last = Math.max(last, time);
+    count++;
+  }
+
+  if (count < 2) return null;
+  return (last - first) / 1000;
+}
+
+function trackHeartRate(points: TrackPoint[]): number | null {
+  const samples = points.flatMap((point) => (point.heartRate ? [point.heartRate] : []));
+  if (samples.length === 0) return null;
+  return samples.reduce((sum, value) => sum + value, 0) / samples.length;
+}
+
+/**
+ * Duration, distance and average heart rate of an activity, preferring the
+ * device's recorded totals over values derived from the track
+ */
+export function summarizeActivity(activity: ParsedActivity, fileName: string): WorkoutFileSummary {
+  const durationSeconds = activity.totals.durationSeconds ?? trackDurationSeconds(activity.points);
+  const distanceMeters = activity.totals.distanceMeters ?? trackDistanceMeters(activity.points);
+  const heartRate = activity.totals.avgHeartRate ?? trackHeartRate(activity.points);
+
+  return {
+    format: activity.format,
+    fileName,
+    sport: activity.sport,
+    startTime: activity.startTime?.toISOString() ?? null,
+    durationSeconds: durationSeconds === null ? null : Math.round(durationSeconds),
+    distanceKm: distanceMeters === null ? null : Math.round(distanceMeters / 10) / 100,
+    heartRateAvg: heartRate === null ? null : Math.round(heartRate),
+    pointCount: activity.points.length,
+  };
+}
+
+/**
+ * Content hash used as external_id, so the same file cannot be imported twice
+ */
+export function hashWorkoutFile(data: Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * The workouts row for an imported file. The date is the start time in the
+ * user's timezone; an old file is history under the points policy.
+ */
+export function toFileWorkoutInsert(
+  userId: string,
+  summary: WorkoutFileSummary,
+  fileHash: string,
+  timezone: string | null,
+  options: { pointsPolicy: ImportPointsPolicy; today: string; scoredAt: string }
+): { row: Inserts<'workouts'> | null; error: WorkoutFileError | null } {
+  if (!summary.startTime) {
+    return { row: null, error: { message: 'The file does not say when the workout started' } };
+  }
+
+  const minutes = Math.round((summary.durationSeconds ?? 0) / 60);
+  if (minutes < 1) {
+    return { row: null, error: { message: 'The workout in the file is shorter than a minute' } };
+  }
+  if (minutes > MAX_DURATION_MINUTES) {
+    return { row: null, error: { message: 'The workout in the file is longer than a day' } };
+  }
+  if (summary.distanceKm !== null && summary.distanceKm > MAX_DISTANCE_KM) {
+    return { row: null, error: { message: `Distance is over ${MAX_DISTANCE_KM} km` } };
+  }
+
+  const heartRate =
+    summary.heartRateAvg !== null && summary.heartRateAvg <= MAX_HEART_RATE
+      ? summary.heartRateAvg
+      : null;
+
+  // Files name the sport (GPX type, TCX Sport, FIT sport enum); the workout
+  // type is the label of the activity it maps to
+  const activity = normalizeActivity({
+    source: 'file',
+    sourceType: summary.sport?.replace(/_/g, ' ') ?? null,
+    workoutDate: localDate(timezone, new Date(summary.startTime)),
+    startedAt: new Date(summary.startTime).toISOString(),
+    durationMinutes: minutes,
+    distanceKm: summary.distanceKm,
+    heartRateAvg: heartRate,
+    externalId: fileHash,
+    rawData: summary as unknown as Json,
+  });
+
+  const earnsPoints = earnsImportPoints(activity.workoutDate, options.pointsPolicy, options.today);
+
+  return {
+    row: {
+      ...toWorkoutRow(userId, activity),
+      ...importPolicyFields(earnsPoints, options.scoredAt),
+    },
+    error: null,
+  };
+}
@@ -0,0 +1,183 @@
+import { APPLE_HEALTH_EXPORT_FILE, parseAppleWorkout } from '@/lib/workouts/parsers/apple-health';
+import {
+  GOOGLE_FIT_SESSION_FILE,
+  MAX_GOOGLE_FIT_SESSION_BYTES,
+  parseGoogleFitSession,
+} from '@/lib/workouts/parsers/google-fit';
+import type { HealthArchiveFormat, HealthWorkout } from '@/lib/workouts/parsers/types';
+import { createElementScanner } from '@/lib/workouts/parsers/xml';
+import { blobZipSource, openZipEntry, readZipEntries } from '@/lib/workouts/parsers/zip';
+
+// Browser-side reading of Apple Health and Google Takeout archives. They can
+// be gigabytes, so they are read here in a stream and only the workouts are
+// sent to the server, in batches.
+
+/** Workouts sent to the server per request */
+export const HEALTH_ARCHIVE_BATCH_SIZE = 500;
+
+// A single Workout element this large means the file is not a Health export
+const MAX_WORKOUT_ELEMENT_CHARS = 10 * 1024 * 1024;
+
+const PROGRESS_INTERVAL_MS = 100;
+
+export interface HealthArchiveProgress {
+  format: HealthArchiveFormat;
+  /** Uncompressed bytes read so far, of totalBytes */
+  bytesRead: number;
+  totalBytes: number;
+  workoutsFound: number;
+}
+
+export interface HealthArchiveResult {
+  format: HealthArchiveFormat;
+  workoutsFound: number;
+  /** Workout records that did not say when they happened or what they were */
+  unreadable: number;
+}
+
+export interface HealthArchiveError {
+  message: string;
+}
+
+async function readText(
+  stream: ReadableStream<Uint8Array>,
+  onText: (text: string, bytes: number) => Promise<void>
+): Promise<void> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    await onText(decoder.decode(value, { stream: true }), value.byteLength);
+  }
+
+  const rest = decoder.decode();
+  if (rest) await onText(rest, 0);
+}
+
+/**
+ * Read the workouts from an Apple Health export (export.zip, or its
+ * export.xml) or a Google Takeout archive containing Fit. Workouts are
+ * handed to onBatch in batches, and reading waits for each batch; an error
+ * thrown by onBatch stops the import and is returned.
+ */
+export async function readHealthArchive(
+  file: Blob,
+  fileName: string,
+  onBatch: (workouts: HealthWorkout[]) => Promise<void>,
+  onProgress: (progress: HealthArchiveProgress) => void
+): Promise<{ result: HealthArchiveResult | null; error: HealthArchiveError | null }> {
+  let pending: HealthWorkout[] = [];
+  let lastReport = 0;
+  const progress: HealthArchiveProgress = {
+    format: 'apple_health',
+    bytesRead: 0,
+    totalBytes: 0,
+    workoutsFound: 0,
+  };
+  const result: HealthArchiveResult = { format: 'apple_health', workoutsFound: 0, unreadable: 0 };
+
+  const report = (force = false) => {
+    if (force || Date.now() - lastReport >= PROGRESS_INTERVAL_MS) {
+      lastReport = Date.now();
+      onProgress({ ...progress });
+    }
+  };
+
+  const flush = async () => {
+    if (pending.length === 0) return;
+    const batch = pending;
+    pending = [];
+    await onBatch(batch);
+    report(true);
+  };
+
+  const add = async (workout: HealthWorkout | null) => {
+    if (!workout) {
+      result.unreadable++;
+      return;
+    }
+    pending.push(workout);
+    result.workoutsFound++;
+    progress.workoutsFound++;
+    if (pending.length >= HEALTH_ARCHIVE_BATCH_SIZE) await flush();
+  };
+
+  const readAppleExport = async (stream: ReadableStream<Uint8Array>) => {
+    const scanner = createElementScanner('Workout');
+    await readText(stream, async (text, bytes) => {
+      for (const element of scanner.push(text)) {
+        await add(parseAppleWorkout(element));
+      }
+      if (scanner.buffered() > MAX_WORKOUT_ELEMENT_CHARS) {
+        throw new Error('This does not look like an Apple Health export');
+      }
+      progress.bytesRead += bytes;
+      report();
+    });
+  };
+
+  try {
+    if (/\.xml$/i.test(fileName)) {
+      progress.totalBytes = file.size;
+      await readAppleExport(file.stream());
+    } else {
+      const source = blobZipSource(file);
+      const entries = await readZipEntries(source);
+      const appleExport = entries.find((entry) => APPLE_HEALTH_EXPORT_FILE.test(entry.name));
+
+      if (appleExport) {
+        progress.totalBytes = appleExport.uncompressedSize;
+        await readAppleExport(await openZipEntry(source, appleExport));
+      } else {
+        const sessions = entries.filter(
+          (entry) =>
+            GOOGLE_FIT_SESSION_FILE.test(entry.name) &&
+            entry.uncompressedSize <= MAX_GOOGLE_FIT_SESSION_BYTES
+        );
+        if (sessions.length === 0) {
+          return {
+            result: null,
+            error: {
+              message:
+                'No Apple Health export.xml or Google Fit sessions were found in this archive',
+            },
+          };
+        }
+
+        result.format = progress.format = 'google_fit';
+        progress.totalBytes = sessions.reduce((sum, entry) => sum + entry.uncompressedSize, 0);
+
+        for (const entry of sessions) {
+          let json = '';
+          await readText(await openZipEntry(source, entry), async (text) => {
+            json += text;
+          });
+          progress.bytesRead += entry.uncompressedSize;
+          report();
+
+          let workout: HealthWorkout | null = null;
+          try {
+            workout = parseGoogleFitSession(json);
+          } catch {
+            result.unreadable++;
+            continue;
+          }
+
+          // Sleep and other non-workout sessions are skipped, not unreadable
+          if (workout) await add(workout);
+        }
+      }
+    }
+
+    await flush();
+  } catch (err) {
+    return {
+      result: null,
+      error: { message: err instanceof Error ? err.message : 'Could not read the archive' },
+    };
+  }
+
+  return { result, error: null };
+}
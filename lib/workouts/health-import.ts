@@ -0,0 +1,231 @@
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Inserts, Json, Workout } from '@/types/database';
+import { normalizeActivity, toWorkoutRow } from '@/lib/fitness/normalizer';
+import { localDate } from '@/lib/utils/dates';
+import {
+  earnsImportPoints,
+  importFailedError,
+  importPolicyFields,
+  refreshImportedRecords,
+  type ImportPointsPolicy,
+} from '@/lib/workouts/import-policy';
+import { validateManualWorkout, type ManualWorkoutInput } from '@/lib/workouts/manual';
+import { mergeStoredDuplicates } from '@/lib/workouts/merge';
+import { processWorkout } from '@/lib/workouts/processing';
+import type { HealthArchiveFormat, HealthWorkout } from '@/lib/workouts/parsers/types';
+
+export type { HealthArchiveFormat, HealthWorkout } from '@/lib/workouts/parsers/types';
+
+export const HEALTH_ARCHIVE_FORMATS: HealthArchiveFormat[] = ['apple_health', 'google_fit'];
+
+/** Most workouts accepted per request; the browser sends an archive in batches */
+export const MAX_HEALTH_IMPORT_BATCH = 500;
+
+export interface HealthImportError {
+  message: string;
+}
+
+export interface HealthWorkoutProblem {
+  sport: string;
+  startTime: string;
+  message: string;
+}
+
+export interface HealthImportSummary {
+  received: number;
+  /** Workouts stored by this batch */
+  imported: number;
+  /** Workouts an earlier import of the same archive already stored */
+  alreadyImported: number;
+  invalid: HealthWorkoutProblem[];
+  /** Imported workouts merged into the same session from a connected app */
+  merged: number;
+  /** Workouts scored under the points policy, and the points they earned */
+  scored: number;
+  points: number;
+}
+
+function isNumberOrNull(value: unknown): value is number | null {
+  return value === null || (typeof value === 'number' && Number.isFinite(value));
+}
+
+/**
+ * A workout as sent by the browser, or null if it is not one
+ */
+export function readHealthWorkout(value: unknown): HealthWorkout | null {
+  if (!value || typeof value !== 'object') return null;
+  const workout = value as Record<string, unknown>;
+
+  if (
+    !HEALTH_ARCHIVE_FORMATS.includes(workout.format as HealthArchiveFormat) ||
+    typeof workout.sport !== 'string' ||
+    typeof workout.startTime !== 'string' ||
+    Number.isNaN(Date.parse(workout.startTime)) ||
+    typeof workout.durationSeconds !== 'number' ||
+    !Number.isFinite(workout.durationSeconds) ||
+    !isNumberOrNull(workout.distanceMeters) ||
+    !isNumberOrNull(workout.calories) ||
+    !isNumberOrNull(workout.heartRateAvg) ||
+    (workout.recordedBy !== null && typeof workout.recordedBy !== 'string')
+  ) {
+    return null;
+  }
+
+  return {
+    format: workout.format as HealthArchiveFormat,
+    sport: workout.sport,
+    startTime: workout.startTime,
+    durationSeconds: workout.durationSeconds,
+    distanceMeters: workout.distanceMeters,
+    calories: workout.calories,
+    heartRateAvg: workout.heartRateAvg,
+    recordedBy: workout.recordedBy as string | null,
+  };
+}
+
+/**
+ * Derived from when the workout started and what it was, so importing the
+ * same archive again, or a later export of the same history, inserts nothing
+ */
+export function healthWorkoutExternalId(workout: HealthWorkout): string {
+  const key = [workout.format, new Date(workout.startTime).toISOString(), workout.sport].join('|');
+  return `${workout.format}:${createHash('sha256').update(key).digest('hex')}`;
+}
+
+function roundOrNull(value: number | null): number | null {
+  return value === null ? null : Math.round(value);
+}
+
+/**
+ * The workouts row for an exported workout. Its date is the user's local date
+ * when it started and its workout_type the label of the activity it maps to,
+ * as for workout files.
+ */
+export function toHealthWorkoutInsert(
+  userId: string,
+  workout: HealthWorkout,
+  timezone: string | null,
+  options: { pointsPolicy: ImportPointsPolicy; today: string; scoredAt: string }
+): { row: Inserts<'workouts'> | null; error: HealthImportError | null } {
+  const input: ManualWorkoutInput = {
+    workoutDate: localDate(timezone, new Date(workout.startTime)),
+    workoutType: workout.sport,
+    durationMinutes: Math.round(workout.durationSeconds / 60),
+    distanceKm: workout.distanceMeters === null ? null : workout.distanceMeters / 1000,
+    caloriesBurned: roundOrNull(workout.calories),
+    heartRateAvg: roundOrNull(workout.heartRateAvg),
+  };
+
+  const [inputError] = validateManualWorkout(input, options.today, null);
+  if (inputError) {
+    return { row: null, error: { message: inputError.message } };
+  }
+
+  const activity = normalizeActivity({
+    source: 'file',
+    sourceType: workout.sport,
+    workoutDate: input.workoutDate,
+    startedAt: new Date(workout.startTime).toISOString(),
+    durationMinutes: input.durationMinutes,
+    distanceKm: input.distanceKm,
+    caloriesBurned: input.caloriesBurned,
+    heartRateAvg: input.heartRateAvg,
+    externalId: healthWorkoutExternalId(workout),
+    rawData: workout as unknown as Json,
+  });
+
+  const earnsPoints = earnsImportPoints(input.workoutDate, options.pointsPolicy, options.today);
+
+  return {
+    row: {
+      ...toWorkoutRow(userId, activity),
+      ...importPolicyFields(earnsPoints, options.scoredAt),
+    },
+    error: null,
+  };
+}
+
+/**
+ * Store one batch of workouts read from an export archive. Workouts already
+ * imported are skipped by external_id. Recent workouts the policy scores are
+ * processed like any other; the rest are merged into matching workouts from
+ * connected apps so history is not counted twice. Requires the service-role
+ * client, which alone can write the policy's scoring columns.
+ */
+export async function importHealthWorkouts(
+  supabase: SupabaseClient,
+  userId: string,
+  workouts: HealthWorkout[],
+  timezone: string | null,
+  pointsPolicy: ImportPointsPolicy
+): Promise<{ summary: HealthImportSummary | null; error: HealthImportError | null }> {
+  const options = {
+    pointsPolicy,
+    today: localDate(timezone),
+    scoredAt: new Date().toISOString(),
+  };
+
+  const rows: Inserts<'workouts'>[] = [];
+  const invalid: HealthWorkoutProblem[] = [];
+
+  for (const workout of workouts) {
+    const { row, error } = toHealthWorkoutInsert(userId, workout, timezone, options);
+    if (row) {
+      rows.push(row);
+    } else {
+      invalid.push({ sport: workout.sport, startTime: workout.startTime, message: error!.message });
+    }
+  }
+
+  let inserted: Workout[] = [];
+  if (rows.length > 0) {
+    const { data, error } = await supabase
+      .from('workouts')
+      .upsert(rows, { onConflict: 'user_id,source,external_id', ignoreDuplicates: true })
+      .select('*');
+
+    if (error) {
+      return { summary: null, error: { message: error.message } };
+    }
+    inserted = data as Workout[];
+  }
+
+  // Merging never changes points for history stored as already scored
+  const { merged, error: mergeError } = await mergeStoredDuplicates(
+    supabase,
+    userId,
+    inserted.filter((workout) => workout.scored_at)
+  );
+
+  if (mergeError) {
+    return { summary: null, error: importFailedError(inserted.length, mergeError.message) };
+  }
+
+  const { error: recordsError } = await refreshImportedRecords(supabase, userId, inserted);
+  if (recordsError) {
+    return { summary: null, error: recordsError };
+  }
+
+  const summary: HealthImportSummary = {
+    received: workouts.length,
+    imported: inserted.length,
+    alreadyImported: rows.length - inserted.length,
+    invalid,
+    merged,
+    scored: 0,
+    points: 0,
+  };
+
+  for (const workout of inserted.filter((row) => !row.scored_at)) {
+    const { result } = await processWorkout(supabase, workout);
+    if (result?.mergedInto) {
+      summary.merged++;
+    } else if (result) {
+      summary.scored++;
+      summary.points += result.points;
+    }
+  }
+
+  return { summary, error: null };
+}
@@ -0,0 +1,159 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Workout } from '@/types/database';
+
+export type WorkoutSource = Workout['source'];
+
+export const WORKOUT_SOURCES: WorkoutSource[] = ['manual', 'strava', 'fitbit', 'file'];
+
+export const WORKOUT_PAGE_SIZE = 20;
+
+export interface WorkoutFilters {
+  workoutType?: string;
+  source?: WorkoutSource;
+  /** Inclusive date range (YYYY-MM-DD) */
+  from?: string;
+  to?: string;
+}
+
+export interface WorkoutPage {
+  workouts: Workout[];
+  /** Pass back to fetch the next page, or null on the last page */
+  nextCursor: string | null;
+}
+
+export interface WorkoutHistoryError {
+  message: string;
+}
+
+interface WorkoutCursor {
+  workoutDate: string;
+  id: string;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Only manual workouts can be edited; synced ones mirror the provider and
+ * imported ones their file, and would diverge from them
+ */
+export function isEditableWorkout(workout: Pick<Workout, 'source'>): boolean {
+  return workout.source === 'manual';
+}
+
+/**
+ * Manual and imported workouts can be deleted; an imported file can then be
+ * imported again
+ */
+export function isDeletableWorkout(workout: Pick<Workout, 'source'>): boolean {
+  return workout.source === 'manual' || workout.source === 'file';
+}
+
+/**
+ * Cursors point at the last workout of a page in (workout_date, id) order
+ */
+export function encodeCursor(workout: Pick<Workout, 'workout_date' | 'id'>): string {
+  return `${workout.workout_date}_${workout.id}`;
+}
+
+export function decodeCursor(cursor: string): WorkoutCursor | null {
+  const [workoutDate, id] = cursor.split('_');
+  if (!ISO_DATE.test(workoutDate ?? '') || !UUID.test(id ?? '')) return null;
+  return { workoutDate, id };
+}
+
+/**
+ * Read filters and the cursor from a query string
+ */
+export function parseWorkoutQuery(params: URLSearchParams): {
+  filters: WorkoutFilters;
+  cursor: WorkoutCursor | null;
+  error: WorkoutHistoryError | null;
+} {
+  const filters: WorkoutFilters = {};
+
+  const workoutType = params.get('type')?.trim();
+  if (workoutType) filters.workoutType = workoutType;
+
+  const source = params.get('source');
+  if (source) {
+    if (!WORKOUT_SOURCES.includes(source as WorkoutSource)) {
+      return { filters, cursor: null, error: { message: `Unknown source: ${source}` } };
+    }
+    filters.source = source as WorkoutSource;
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const value = params.get(key);
+    if (!value) continue;
+    if (!ISO_DATE.test(value)) {
+      return { filters, cursor: null, error: { message: `${key} must be a date (YYYY-MM-DD)` } };
+    }
+    filters[key] = value;
+  }
+
+  const rawCursor = params.get('cursor');
+  const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+  if (rawCursor && !cursor) {
+    return { filters, cursor: null, error: { message: 'Invalid cursor' } };
+  }
+
+  return { filters, cursor, error: null };
+}
+
+/**
+ * Build the query string for a page of workouts
+ */
+export function workoutQueryString(filters: WorkoutFilters, cursor?: string | null): string {
+  const params = new URLSearchParams();
+  if (filters.workoutType) params.set('type', filters.workoutType);
+  if (filters.source) params.set('source', filters.source);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (cursor) params.set('cursor', cursor);
+  return params.toString();
+}
+
+/**
+ * A page of the user's workouts, newest first. Ordered to use
+ * idx_workouts_user_date, with the id as a tie-breaker within a day.
+ */
+export async function listWorkouts(
+  supabase: SupabaseClient,
+  userId: string,
+  filters: WorkoutFilters = {},
+  cursor: WorkoutCursor | null = null,
+  pageSize: number = WORKOUT_PAGE_SIZE
+): Promise<{ page: WorkoutPage | null; error: WorkoutHistoryError | null }> {
+  let query = supabase.from('workouts').select('*').eq('user_id', userId);
+
+  // Case-insensitive exact match on the type
+  if (filters.workoutType) {
+    query = query.ilike('workout_type', filters.workoutType.replace(/[\\%_]/g, '\\$&'));
+  }
+  if (filters.source) query = query.eq('source', filters.source);
+  if (filters.from) query = query.gte('workout_date', filters.from);
+  if (filters.to) query = query.lte('workout_date', filters.to);
+
+  if (cursor) {
+    query = query.or(
+      `workout_date.lt.${cursor.workoutDate},and(workout_date.eq.${cursor.workoutDate},id.lt.${cursor.id})`
+    );
+  }
+
+  // One extra row tells us whether there is another page
+  const { data, error } = await query
+    .order('workout_date', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(pageSize + 1);
+
+  if (error) {
+    return { page: null, error: { message: error.message } };
+  }
+
+  const rows = data as Workout[];
+  const workouts = rows.slice(0, pageSize);
+  const nextCursor = rows.length > pageSize ? encodeCursor(workouts[workouts.length - 1]) : null;
+
+  return { page: { workouts, nextCursor }, error: null };
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { Workout } from '@/types/database';
+import {
+  analyticsQueryString,
+  type AnalyticsPeriod,
+  type AnalyticsRange,
+  type WorkoutAnalytics,
+} from '@/lib/workouts/analytics';
+import { workoutQueryString, type WorkoutFilters, type WorkoutPage } from '@/lib/workouts/history';
+
+/**
+ * Hook to page through the current user's workouts, newest first
+ */
+export function useWorkoutHistory(filters: WorkoutFilters) {
+  const [workouts, setWorkouts] = useState<Workout[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { workoutType, source, from, to } = filters;
+
+  const fetchPage = useCallback(
+    async (cursor: string | null): Promise<WorkoutPage> => {
+      const query = workoutQueryString({ workoutType, source, from, to }, cursor);
+      const response = await fetch(`/api/workouts${query ? `?${query}` : ''}`);
+      const body = await response.json();
+
+      if (!response.ok) throw new Error(body.error ?? 'Failed to load workouts');
+
+      return body as WorkoutPage;
+    },
+    [workoutType, source, from, to]
+  );
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const page = await fetchPage(null);
+      setWorkouts(page.workouts);
+      setNextCursor(page.nextCursor);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load workouts');
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(nextCursor);
+      setWorkouts((current) => [...current, ...page.workouts]);
+      setNextCursor(page.nextCursor);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load workouts');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [fetchPage, nextCursor]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Apply an edit or deletion locally without reloading every page
+  const replaceWorkout = useCallback((workout: Workout) => {
+    setWorkouts((current) => current.map((w) => (w.id === workout.id ? workout : w)));
+  }, []);
+
+  const removeWorkout = useCallback((id: string) => {
+    setWorkouts((current) => current.filter((w) => w.id !== id));
+  }, []);
+
+  return {
+    workouts,
+    hasMore: nextCursor !== null,
+    loading,
+    loadingMore,
+    error,
+    refresh,
+    loadMore,
+    replaceWorkout,
+    removeWorkout,
+  };
+}
+
+/**
+ * Hook to get the current user's workout analytics for a range, or for the
+ * last 12 weeks when range is null
+ */
+export function useWorkoutAnalytics(range: AnalyticsRange | null, period: AnalyticsPeriod) {
+  const [analytics, setAnalytics] = useState<WorkoutAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const from = range?.from;
+  const to = range?.to;
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const query = from && to ? analyticsQueryString({ from, to }, period) : `period=${period}`;
+      const response = await fetch(`/api/analytics?${query}`);
+      const body = await response.json();
+
+      if (!response.ok) throw new Error(body.error ?? 'Failed to load analytics');
+
+      setAnalytics(body as WorkoutAnalytics);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to, period]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { analytics, loading, error, refresh };
+}
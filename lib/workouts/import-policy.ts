@@ -0,0 +1,71 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Inserts, Workout } from '@/types/database';
+import { refreshPersonalRecords } from '@/lib/gamification/records';
+import { shiftDate } from '@/lib/utils/dates';
+
+/**
+ * How imported workouts earn points. Years of history scored at once would
+ * flood user_points, so by default only the last few days are scored.
+ * - none: no imported workout earns points
+ * - recent: workouts from the last RECENT_IMPORT_DAYS days are scored normally
+ */
+export type ImportPointsPolicy = 'none' | 'recent';
+
+export const IMPORT_POINTS_POLICIES: ImportPointsPolicy[] = ['none', 'recent'];
+
+export const DEFAULT_IMPORT_POINTS_POLICY: ImportPointsPolicy = 'recent';
+
+export const RECENT_IMPORT_DAYS = 7;
+
+export interface ImportError {
+  message: string;
+}
+
+/**
+ * Whether an imported workout on this date earns points under the policy.
+ * today is the user's local date.
+ */
+export function earnsImportPoints(
+  workoutDate: string,
+  policy: ImportPointsPolicy,
+  today: string
+): boolean {
+  return policy === 'recent' && workoutDate >= shiftDate(today, -(RECENT_IMPORT_DAYS - 1));
+}
+
+/**
+ * Scoring columns for an imported workouts row. A workout the policy does not
+ * score is stored as already scored with zero points, which keeps the scoring
+ * job away from it, and is excluded from streaks and challenges.
+ */
+export function importPolicyFields(
+  earnsPoints: boolean,
+  scoredAt: string
+): Pick<Inserts<'workouts'>, 'points_earned' | 'scored_at' | 'rewards_excluded'> {
+  return earnsPoints ? {} : { points_earned: 0, scored_at: scoredAt, rewards_excluded: true };
+}
+
+/**
+ * The error for an import that stored some workouts before failing
+ */
+export function importFailedError(imported: number, message: string): ImportError {
+  return { message: `Imported ${imported} workouts, then failed: ${message}` };
+}
+
+/**
+ * Refresh personal records after an import. History outside the points
+ * policy is never processed, but it still counts towards personal records.
+ */
+export async function refreshImportedRecords(
+  supabase: SupabaseClient,
+  userId: string,
+  inserted: Workout[]
+): Promise<{ error: ImportError | null }> {
+  if (!inserted.some((workout) => workout.scored_at)) {
+    return { error: null };
+  }
+
+  const { error } = await refreshPersonalRecords(supabase, userId);
+
+  return { error: error ? importFailedError(inserted.length, error.message) : null };
+}
@@ -0,0 +1,197 @@
+import type { Inserts, Updates } from '@/types/database';
+import { shiftDate } from '@/lib/utils/dates';
+import { normalizeActivity, toWorkoutRow, type NormalizedActivity } from '@/lib/fitness/normalizer';
+
+export interface ManualWorkoutInput {
+  workoutDate: string;
+  workoutType: string;
+  durationMinutes: number | null;
+  distanceKm: number | null;
+  caloriesBurned: number | null;
+  heartRateAvg: number | null;
+}
+
+/**
+ * Same shape as AuthError: field names the input that caused the error
+ */
+export interface WorkoutInputError {
+  message: string;
+  field?: keyof ManualWorkoutInput;
+}
+
+// Limits mirror the CHECK constraints and column types on public.workouts
+export const MAX_WORKOUT_TYPE_LENGTH = 50;
+export const MAX_DURATION_MINUTES = 24 * 60;
+export const MAX_DISTANCE_KM = 9999.99;
+export const MAX_HEART_RATE = 250;
+export const MAX_INTEGER = 2_147_483_647;
+
+// How far back a workout can be logged by hand; older history is imported.
+// Mirrored in check_workout_date, which enforces it for any client
+export const MAX_BACKDATE_DAYS = 7;
+
+// Suggestions for the workout type field; any other type is accepted too
+export const COMMON_WORKOUT_TYPES = [
+  'Running',
+  'Walking',
+  'Cycling',
+  'Swimming',
+  'Hiking',
+  'Strength Training',
+  'Yoga',
+  'Rowing',
+  'HIIT',
+] as const;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: string): boolean {
+  if (!ISO_DATE.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function checkInteger(
+  value: number | null,
+  field: keyof ManualWorkoutInput,
+  label: string,
+  min: number,
+  max: number,
+  required: boolean = false
+): WorkoutInputError | null {
+  if (value === null) {
+    return required ? { message: `${label} is required`, field } : null;
+  }
+  if (!Number.isFinite(value)) {
+    return { message: `${label} must be a number`, field };
+  }
+  if (!Number.isInteger(value)) {
+    return { message: `${label} must be a whole number`, field };
+  }
+  if (value < min || value > max) {
+    return { message: `${label} must be between ${min} and ${max}`, field };
+  }
+  return null;
+}
+
+/**
+ * Validate a manually logged workout against the workouts table constraints.
+ * today is the user's local date; workouts cannot be logged in the future,
+ * nor more than maxAgeDays ago (null for imported history, which has no
+ * limit). Returns every problem found, one per field.
+ */
+export function validateManualWorkout(
+  input: ManualWorkoutInput,
+  today: string,
+  maxAgeDays: number | null = MAX_BACKDATE_DAYS
+): WorkoutInputError[] {
+  const errors: WorkoutInputError[] = [];
+
+  if (!input.workoutDate) {
+    errors.push({ message: 'Date is required', field: 'workoutDate' });
+  } else if (!isValidDate(input.workoutDate)) {
+    errors.push({ message: 'Please enter a valid date', field: 'workoutDate' });
+  } else if (input.workoutDate > today) {
+    errors.push({ message: 'Workouts cannot be logged in the future', field: 'workoutDate' });
+  } else if (maxAgeDays !== null && input.workoutDate < shiftDate(today, -maxAgeDays)) {
+    errors.push({
+      message: `Workouts can only be logged for the last ${maxAgeDays} days`,
+      field: 'workoutDate',
+    });
+  }
+
+  const workoutType = input.workoutType.trim();
+  if (!workoutType) {
+    errors.push({ message: 'Workout type is required', field: 'workoutType' });
+  } else if (workoutType.length > MAX_WORKOUT_TYPE_LENGTH) {
+    errors.push({
+      message: `Workout type must be no more than ${MAX_WORKOUT_TYPE_LENGTH} characters`,
+      field: 'workoutType',
+    });
+  }
+
+  const durationError = checkInteger(
+    input.durationMinutes,
+    'durationMinutes',
+    'Duration',
+    1,
+    MAX_DURATION_MINUTES,
+    true
+  );
+  if (durationError) errors.push(durationError);
+
+  if (input.distanceKm !== null) {
+    if (!Number.isFinite(input.distanceKm)) {
+      errors.push({ message: 'Distance must be a number', field: 'distanceKm' });
+    } else if (input.distanceKm < 0 || input.distanceKm > MAX_DISTANCE_KM) {
+      errors.push({
+        message: `Distance must be between 0 and ${MAX_DISTANCE_KM} km`,
+        field: 'distanceKm',
+      });
+    }
+  }
+
+  const caloriesError = checkInteger(
+    input.caloriesBurned,
+    'caloriesBurned',
+    'Calories',
+    0,
+    MAX_INTEGER
+  );
+  if (caloriesError) errors.push(caloriesError);
+
+  const heartRateError = checkInteger(
+    input.heartRateAvg,
+    'heartRateAvg',
+    'Average heart rate',
+    0,
+    MAX_HEART_RATE
+  );
+  if (heartRateError) errors.push(heartRateError);
+
+  return errors;
+}
+
+/**
+ * A validated entry as a normalized activity. The typed name is kept as the
+ * workout type and classified for the activity type.
+ */
+export function toNormalizedActivity(
+  input: ManualWorkoutInput,
+  source: NormalizedActivity['source'] = 'manual'
+): NormalizedActivity {
+  return normalizeActivity({
+    source,
+    sourceType: input.workoutType,
+    workoutType: input.workoutType,
+    workoutDate: input.workoutDate,
+    durationMinutes: input.durationMinutes,
+    distanceKm: input.distanceKm,
+    caloriesBurned: input.caloriesBurned,
+    heartRateAvg: input.heartRateAvg,
+  });
+}
+
+/**
+ * The workouts columns set from a validated manual entry
+ */
+export function toWorkoutUpdate(input: ManualWorkoutInput): Updates<'workouts'> {
+  const activity = toNormalizedActivity(input);
+
+  return {
+    workout_date: activity.workoutDate,
+    workout_type: activity.workoutType,
+    activity_type: activity.activityType,
+    duration_minutes: activity.durationMinutes,
+    distance_km: activity.distanceKm,
+    calories_burned: activity.caloriesBurned,
+    heart_rate_avg: activity.heartRateAvg,
+  };
+}
+
+/**
+ * The workouts row for a validated manual entry
+ */
+export function toWorkoutInsert(userId: string, input: ManualWorkoutInput): Inserts<'workouts'> {
+  return toWorkoutRow(userId, toNormalizedActivity(input));
+}
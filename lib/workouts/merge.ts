@@ -0,0 +1,183 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Workout } from '@/types/database';
+import { shiftDate } from '@/lib/utils/dates';
+import { isNearDuplicate, type ValidatableWorkout } from '@/lib/workouts/validation';
+
+export interface WorkoutMergeError {
+  message: string;
+}
+
+export type MergeableWorkout = ValidatableWorkout &
+  Pick<Workout, 'started_at' | 'merged_into' | 'unmerged_from'>;
+
+// Device clocks and auto-pause differ, so sessions this far apart still overlap
+export const MERGE_CLOCK_TOLERANCE_MINUTES = 5;
+
+const MERGE_COLUMNS =
+  'id, workout_type, activity_type, duration_minutes, distance_km, heart_rate_avg, source, started_at, merged_into, unmerged_from';
+
+/**
+ * When a workout started and ended, in milliseconds, or null if the source
+ * did not record a start time
+ */
+export function workoutInterval(
+  workout: Pick<Workout, 'started_at' | 'duration_minutes'>
+): { start: number; end: number } | null {
+  if (!workout.started_at || !workout.duration_minutes) return null;
+
+  const start = Date.parse(workout.started_at);
+  if (Number.isNaN(start)) return null;
+
+  return { start, end: start + workout.duration_minutes * 60 * 1000 };
+}
+
+/**
+ * Whether two workouts are the same session recorded by two sources: their
+ * times overlap and their duration and distance are similar
+ */
+export function isSameSession(workout: MergeableWorkout, other: MergeableWorkout): boolean {
+  const a = workoutInterval(workout);
+  const b = workoutInterval(other);
+  if (!a || !b) return false;
+
+  const tolerance = MERGE_CLOCK_TOLERANCE_MINUTES * 60 * 1000;
+  if (a.start > b.end + tolerance || b.start > a.end + tolerance) return false;
+
+  return isNearDuplicate(workout, other);
+}
+
+/**
+ * The workout a new workout duplicates, if any. Only workouts that are not
+ * themselves merged can be canonical.
+ */
+export function findCanonicalWorkout(
+  workout: MergeableWorkout,
+  candidates: MergeableWorkout[]
+): MergeableWorkout | null {
+  return (
+    candidates.find(
+      (other) => other.id !== workout.id && !other.merged_into && isSameSession(workout, other)
+    ) ?? null
+  );
+}
+
+/**
+ * Merge a workout about to be scored into the workout already stored for the
+ * same session by another source. The earlier workout stays canonical and
+ * keeps its points; this one is linked to it and scored at zero. A workout
+ * merged before (a duplicate synced again) stays merged.
+ *
+ * Returns the canonical workout's id, or null if the workout is not a
+ * duplicate. Must be given the service-role client.
+ */
+export async function mergeDuplicateWorkout(
+  supabase: SupabaseClient,
+  workout: Workout
+): Promise<{ mergedInto: string | null; error: WorkoutMergeError | null }> {
+  let canonicalId = workout.merged_into;
+
+  if (!canonicalId) {
+    // Reviewed workouts keep the reviewer's decision
+    if (workout.review_status !== null || !workoutInterval(workout)) {
+      return { mergedInto: null, error: null };
+    }
+
+    // Local dates can differ by a day between sources near midnight
+    const { data, error } = await supabase
+      .from('workouts')
+      .select(MERGE_COLUMNS)
+      .eq('user_id', workout.user_id)
+      .neq('id', workout.id)
+      .neq('source', workout.source)
+      .is('merged_into', null)
+      .not('started_at', 'is', null)
+      .or('review_status.is.null,review_status.neq.rejected')
+      .gte('workout_date', shiftDate(workout.workout_date, -1))
+      .lte('workout_date', shiftDate(workout.workout_date, 1));
+
+    if (error) {
+      return { mergedInto: null, error: { message: error.message } };
+    }
+
+    canonicalId = findCanonicalWorkout(workout, data as MergeableWorkout[])?.id ?? null;
+    if (!canonicalId) {
+      return { mergedInto: null, error: null };
+    }
+  }
+
+  const { data: merged, error: mergeError } = await supabase.rpc('merge_workout', {
+    p_workout_id: workout.id,
+    p_canonical_id: canonicalId,
+  });
+
+  if (mergeError) {
+    return { mergedInto: null, error: { message: mergeError.message } };
+  }
+
+  return { mergedInto: merged ? canonicalId : null, error: null };
+}
+
+// Imported history can span years, so candidates are read in pages
+const CANDIDATE_PAGE_SIZE = 1000;
+
+/**
+ * Merge workouts stored without being scored (imported history) into the
+ * workouts other sources already have for the same sessions. Unlike
+ * mergeDuplicateWorkout this looks up candidates for the whole set at once.
+ *
+ * Returns how many were merged. Must be given the service-role client.
+ */
+export async function mergeStoredDuplicates(
+  supabase: SupabaseClient,
+  userId: string,
+  workouts: Workout[]
+): Promise<{ merged: number; error: WorkoutMergeError | null }> {
+  const mergeable = workouts.filter(
+    (workout) => !workout.merged_into && workout.review_status === null && workoutInterval(workout)
+  );
+  if (mergeable.length === 0) {
+    return { merged: 0, error: null };
+  }
+
+  const dates = mergeable.map((workout) => workout.workout_date).sort();
+  const candidates: MergeableWorkout[] = [];
+
+  for (let offset = 0; ; offset += CANDIDATE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('workouts')
+      .select(MERGE_COLUMNS)
+      .eq('user_id', userId)
+      .is('merged_into', null)
+      .not('started_at', 'is', null)
+      .or('review_status.is.null,review_status.neq.rejected')
+      .gte('workout_date', shiftDate(dates[0], -1))
+      .lte('workout_date', shiftDate(dates[dates.length - 1], 1))
+      .order('id')
+      .range(offset, offset + CANDIDATE_PAGE_SIZE - 1);
+
+    if (error) {
+      return { merged: 0, error: { message: error.message } };
+    }
+
+    candidates.push(...(data as MergeableWorkout[]));
+    if (data.length < CANDIDATE_PAGE_SIZE) break;
+  }
+
+  let merged = 0;
+  for (const workout of mergeable) {
+    const canonical = findCanonicalWorkout(workout, candidates);
+    if (!canonical) continue;
+
+    const { data, error } = await supabase.rpc('merge_workout', {
+      p_workout_id: workout.id,
+      p_canonical_id: canonical.id,
+    });
+
+    if (error) {
+      return { merged, error: { message: error.message } };
+    }
+    if (data) merged++;
+  }
+
+  return { merged, error: null };
+}
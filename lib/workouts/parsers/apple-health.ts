@@ -0,0 +1,109 @@
+import { attribute, parseTime } from '@/lib/workouts/parsers/xml';
+import type { HealthWorkout } from '@/lib/workouts/parsers/types';
+
+/** The export's main file; export_cda.xml holds clinical records only */
+export const APPLE_HEALTH_EXPORT_FILE = /(^|\/)export\.xml$/i;
+
+const ACTIVITY_TYPE_PREFIX = 'HKWorkoutActivityType';
+const STATISTIC_PREFIX = 'HKQuantityTypeIdentifier';
+
+const DURATION_SECONDS: Record<string, number> = { s: 1, min: 60, hr: 3600, h: 3600 };
+const DISTANCE_METERS: Record<string, number> = {
+  m: 1,
+  km: 1000,
+  cm: 0.01,
+  mi: 1609.344,
+  yd: 0.9144,
+  ft: 0.3048,
+};
+// Apple writes "Cal" for kilocalories
+const ENERGY_KCAL: Record<string, number> = {
+  kcal: 1,
+  Cal: 1,
+  cal: 0.001,
+  kJ: 1 / 4.184,
+  J: 1 / 4184,
+};
+
+/**
+ * Read an export date such as "2021-05-01 07:00:00 +0100"
+ */
+export function parseAppleDate(value: string | null): Date | null {
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+  return parseTime(match ? `${match[1]}T${match[2]}${match[3]}:${match[4]}` : value);
+}
+
+/**
+ * A readable name for a workout activity type, e.g.
+ * HKWorkoutActivityTypeTraditionalStrengthTraining -> Traditional Strength Training
+ */
+export function appleSportName(activityType: string): string {
+  return activityType
+    .replace(ACTIVITY_TYPE_PREFIX, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .trim();
+}
+
+function quantity(
+  value: string | null,
+  unit: string | null,
+  units: Record<string, number>
+): number | null {
+  const amount = Number(value);
+  if (value === null || !Number.isFinite(amount) || !unit || !(unit in units)) return null;
+  return amount * units[unit];
+}
+
+/**
+ * One <Workout> element of export.xml, or null if it does not say when the
+ * workout happened or what it was. Older exports put totals on the element
+ * itself; newer ones in WorkoutStatistics children.
+ */
+export function parseAppleWorkout(element: { tag: string; content: string }): HealthWorkout | null {
+  const { tag, content } = element;
+  const activityType = attribute(tag, 'workoutActivityType');
+  const start = parseAppleDate(attribute(tag, 'startDate'));
+  const end = parseAppleDate(attribute(tag, 'endDate'));
+  if (!activityType || !start) return null;
+
+  const durationSeconds =
+    quantity(attribute(tag, 'duration'), attribute(tag, 'durationUnit'), DURATION_SECONDS) ??
+    (end ? (end.getTime() - start.getTime()) / 1000 : null);
+  if (durationSeconds === null) return null;
+
+  let distanceMeters = quantity(
+    attribute(tag, 'totalDistance'),
+    attribute(tag, 'totalDistanceUnit'),
+    DISTANCE_METERS
+  );
+  let calories = quantity(
+    attribute(tag, 'totalEnergyBurned'),
+    attribute(tag, 'totalEnergyBurnedUnit'),
+    ENERGY_KCAL
+  );
+  let heartRateAvg: number | null = null;
+
+  for (const [statistic] of content.matchAll(/<WorkoutStatistics\s[^>]*>/g)) {
+    const type = attribute(statistic, 'type')?.replace(STATISTIC_PREFIX, '') ?? '';
+    const unit = attribute(statistic, 'unit');
+
+    if (type.startsWith('Distance') && distanceMeters === null) {
+      distanceMeters = quantity(attribute(statistic, 'sum'), unit, DISTANCE_METERS);
+    } else if (type === 'ActiveEnergyBurned' && calories === null) {
+      calories = quantity(attribute(statistic, 'sum'), unit, ENERGY_KCAL);
+    } else if (type === 'HeartRate') {
+      heartRateAvg = quantity(attribute(statistic, 'average'), unit, { 'count/min': 1 });
+    }
+  }
+
+  return {
+    format: 'apple_health',
+    sport: appleSportName(activityType),
+    startTime: start.toISOString(),
+    durationSeconds,
+    distanceMeters: distanceMeters || null,
+    calories: calories || null,
+    heartRateAvg,
+    recordedBy: attribute(tag, 'sourceName'),
+  };
+}
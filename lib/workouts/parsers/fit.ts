@@ -0,0 +1,270 @@
+import type { ActivityTotals, ParsedActivity, TrackPoint } from '@/lib/workouts/parsers/types';
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_MS = Date.UTC(1989, 11, 31);
+
+// Global message numbers and field numbers from the FIT profile
+const MESG_SESSION = 18;
+const MESG_RECORD = 20;
+const FIELD_TIMESTAMP = 253;
+
+const RECORD = { lat: 0, lon: 1, heartRate: 3, distance: 5 };
+const SESSION = {
+  startTime: 2,
+  sport: 5,
+  elapsedTime: 7,
+  timerTime: 8,
+  distance: 9,
+  avgHeartRate: 16,
+};
+
+// FIT sport enum values we can name
+export const FIT_SPORTS: Record<number, string> = {
+  0: 'generic',
+  1: 'running',
+  2: 'cycling',
+  4: 'fitness_equipment',
+  5: 'swimming',
+  10: 'training',
+  11: 'walking',
+  12: 'cross_country_skiing',
+  13: 'alpine_skiing',
+  15: 'rowing',
+  16: 'mountaineering',
+  17: 'hiking',
+};
+
+interface FieldDefinition {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalNum: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerSize: number;
+}
+
+type Fields = Map<number, number>;
+
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+/**
+ * Read one numeric field, or undefined for the type's invalid value and for
+ * strings, arrays and 64-bit types, which we do not need
+ */
+function readField(view: DataView, offset: number, field: FieldDefinition, le: boolean) {
+  switch (field.baseType) {
+    case 0x00: // enum
+    case 0x02: // uint8
+    case 0x0a: // uint8z
+    case 0x0d: {
+      // byte
+      if (field.size !== 1) return undefined;
+      const value = view.getUint8(offset);
+      if (value === 0xff || (field.baseType === 0x0a && value === 0)) return undefined;
+      return value;
+    }
+    case 0x01: {
+      if (field.size !== 1) return undefined;
+      const value = view.getInt8(offset);
+      return value === 0x7f ? undefined : value;
+    }
+    case 0x83: {
+      if (field.size !== 2) return undefined;
+      const value = view.getInt16(offset, le);
+      return value === 0x7fff ? undefined : value;
+    }
+    case 0x84:
+    case 0x8b: {
+      if (field.size !== 2) return undefined;
+      const value = view.getUint16(offset, le);
+      if (value === 0xffff || (field.baseType === 0x8b && value === 0)) return undefined;
+      return value;
+    }
+    case 0x85: {
+      if (field.size !== 4) return undefined;
+      const value = view.getInt32(offset, le);
+      return value === 0x7fffffff ? undefined : value;
+    }
+    case 0x86:
+    case 0x8c: {
+      if (field.size !== 4) return undefined;
+      const value = view.getUint32(offset, le);
+      if (value === 0xffffffff || (field.baseType === 0x8c && value === 0)) return undefined;
+      return value;
+    }
+    case 0x88: {
+      if (field.size !== 4) return undefined;
+      const value = view.getFloat32(offset, le);
+      return Number.isFinite(value) ? value : undefined;
+    }
+    case 0x89: {
+      if (field.size !== 8) return undefined;
+      const value = view.getFloat64(offset, le);
+      return Number.isFinite(value) ? value : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function fitTime(seconds: number): Date {
+  return new Date(FIT_EPOCH_MS + seconds * 1000);
+}
+
+/**
+ * Decode the record and session messages of a FIT activity file. Developer
+ * fields are skipped and the CRC is not checked.
+ */
+export function parseFit(data: Uint8Array): ParsedActivity {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  if (data.byteLength < 12) {
+    throw new Error('FIT file is too short');
+  }
+
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+  const signature = String.fromCharCode(...data.subarray(8, 12));
+
+  if (signature !== '.FIT' || headerSize < 12) {
+    throw new Error('Not a FIT file');
+  }
+
+  const end = headerSize + dataSize;
+  if (end > data.byteLength) {
+    throw new Error('FIT file is truncated');
+  }
+
+  const definitions = new Map<number, MessageDefinition>();
+  const points: TrackPoint[] = [];
+  const sessions: Fields[] = [];
+  let lastTimestamp: number | null = null;
+  let offset = headerSize;
+
+  while (offset < end) {
+    const header = view.getUint8(offset++);
+    let localType: number;
+    let compressedTimestamp: number | null = null;
+
+    if (header & 0x80) {
+      // Compressed timestamp header: a data message with a 5-bit time offset
+      localType = (header >> 5) & 0x03;
+      const timeOffset = header & 0x1f;
+      if (lastTimestamp !== null) {
+        let timestamp = (lastTimestamp & ~0x1f) + timeOffset;
+        if (timeOffset < (lastTimestamp & 0x1f)) timestamp += 0x20;
+        compressedTimestamp = timestamp;
+      }
+    } else if (header & 0x40) {
+      // Definition message
+      localType = header & 0x0f;
+      const hasDeveloperFields = (header & 0x20) !== 0;
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const globalNum = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = view.getUint8(offset + 4);
+      offset += 5;
+
+      const fields: FieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({
+          num: view.getUint8(offset),
+          size: view.getUint8(offset + 1),
+          baseType: view.getUint8(offset + 2),
+        });
+        offset += 3;
+      }
+
+      let developerSize = 0;
+      if (hasDeveloperFields) {
+        const developerCount = view.getUint8(offset++);
+        for (let i = 0; i < developerCount; i++) {
+          developerSize += view.getUint8(offset + 1);
+          offset += 3;
+        }
+      }
+
+      definitions.set(localType, { globalNum, littleEndian, fields, developerSize });
+      continue;
+    } else {
+      localType = header & 0x0f;
+    }
+
+    const definition = definitions.get(localType);
+    if (!definition) {
+      throw new Error(`FIT data message uses undefined local type ${localType}`);
+    }
+
+    const fields: Fields = new Map();
+    for (const field of definition.fields) {
+      const value = readField(view, offset, field, definition.littleEndian);
+      if (value !== undefined) fields.set(field.num, value);
+      offset += field.size;
+    }
+    offset += definition.developerSize;
+
+    if (compressedTimestamp !== null) fields.set(FIELD_TIMESTAMP, compressedTimestamp);
+    const timestamp = fields.get(FIELD_TIMESTAMP);
+    if (timestamp !== undefined) lastTimestamp = timestamp;
+
+    if (definition.globalNum === MESG_RECORD) {
+      const point: TrackPoint = { time: timestamp !== undefined ? fitTime(timestamp) : null };
+
+      const lat = fields.get(RECORD.lat);
+      const lon = fields.get(RECORD.lon);
+      if (lat !== undefined && lon !== undefined) {
+        point.lat = lat * SEMICIRCLES_TO_DEGREES;
+        point.lon = lon * SEMICIRCLES_TO_DEGREES;
+      }
+
+      const heartRate = fields.get(RECORD.heartRate);
+      if (heartRate !== undefined) point.heartRate = heartRate;
+
+      const distance = fields.get(RECORD.distance);
+      if (distance !== undefined) point.distanceMeters = distance / 100;
+
+      points.push(point);
+    } else if (definition.globalNum === MESG_SESSION) {
+      sessions.push(fields);
+    }
+  }
+
+  const totals: ActivityTotals = {};
+  let sport: string | null = null;
+  let startTime: Date | null = null;
+
+  // Multisport files have one session per leg
+  for (const session of sessions) {
+    const seconds = session.get(SESSION.timerTime) ?? session.get(SESSION.elapsedTime);
+    if (seconds !== undefined) {
+      totals.durationSeconds = (totals.durationSeconds ?? 0) + seconds / 1000;
+    }
+
+    const distance = session.get(SESSION.distance);
+    if (distance !== undefined) {
+      totals.distanceMeters = (totals.distanceMeters ?? 0) + distance / 100;
+    }
+
+    const start = session.get(SESSION.startTime);
+    if (startTime === null && start !== undefined) startTime = fitTime(start);
+
+    const sportValue = session.get(SESSION.sport);
+    if (sport === null && sportValue !== undefined) sport = FIT_SPORTS[sportValue] ?? null;
+  }
+
+  if (sessions.length === 1) {
+    const avgHeartRate = sessions[0].get(SESSION.avgHeartRate);
+    if (avgHeartRate !== undefined) totals.avgHeartRate = avgHeartRate;
+  }
+
+  return {
+    format: 'fit',
+    sport,
+    startTime: startTime ?? points.find((point) => point.time)?.time ?? null,
+    points,
+    totals,
+  };
+}
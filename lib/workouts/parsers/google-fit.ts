@@ -0,0 +1,70 @@
+import { parseTime } from '@/lib/workouts/parsers/xml';
+import type { HealthWorkout } from '@/lib/workouts/parsers/types';
+
+/** Takeout keeps one JSON file per session in Fit/All Sessions */
+export const GOOGLE_FIT_SESSION_FILE = /(^|\/)Fit\/All sessions\/[^/]+\.json$/i;
+
+// Sessions are a few kilobytes; anything much larger is not a session
+export const MAX_GOOGLE_FIT_SESSION_BYTES = 1024 * 1024;
+
+// Activities Fit records that are not workouts
+const NOT_WORKOUTS = /^(sleep|still|in_vehicle|unknown|tilting|on_foot)(\.|$)/;
+
+interface FitAggregate {
+  metricName?: string;
+  floatValue?: number;
+  intValue?: number;
+}
+
+interface FitSession {
+  fitnessActivity?: string;
+  startTime?: string;
+  endTime?: string;
+  duration?: string;
+  aggregate?: FitAggregate[];
+}
+
+/**
+ * A readable name for a Fit activity, e.g. running.treadmill -> running treadmill
+ */
+export function googleFitSportName(activity: string): string {
+  return activity.replace(/[._]/g, ' ').trim();
+}
+
+function aggregateValue(session: FitSession, metricName: string): number | null {
+  const aggregate = session.aggregate?.find((entry) => entry.metricName === metricName);
+  const value = aggregate?.floatValue ?? aggregate?.intValue;
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * One session file, or null if it is not a workout (sleep, driving) or does
+ * not say when it happened. Throws if the file is not JSON.
+ */
+export function parseGoogleFitSession(json: string): HealthWorkout | null {
+  const session = JSON.parse(json) as FitSession;
+  const activity = session.fitnessActivity;
+  const start = parseTime(session.startTime ?? null);
+  const end = parseTime(session.endTime ?? null);
+  if (typeof activity !== 'string' || NOT_WORKOUTS.test(activity) || !start) return null;
+
+  // Durations are written as seconds, e.g. "1800.000s"
+  const seconds = Number(session.duration?.match(/^(\d+(?:\.\d+)?)s$/)?.[1] ?? NaN);
+  const durationSeconds = Number.isFinite(seconds)
+    ? seconds
+    : end
+      ? (end.getTime() - start.getTime()) / 1000
+      : null;
+  if (durationSeconds === null) return null;
+
+  return {
+    format: 'google_fit',
+    sport: googleFitSportName(activity),
+    startTime: start.toISOString(),
+    durationSeconds,
+    distanceMeters: aggregateValue(session, 'com.google.distance.delta') || null,
+    calories: aggregateValue(session, 'com.google.calories.expended') || null,
+    heartRateAvg: aggregateValue(session, 'com.google.heart_rate.summary'),
+    recordedBy: null,
+  };
+}
@@ -0,0 +1,38 @@
+import { attribute, elements, numberText, parseTime, text } from '@/lib/workouts/parsers/xml';
+import type { ParsedActivity, TrackPoint } from '@/lib/workouts/parsers/types';
+
+/**
+ * Parse a GPX 1.1 track. Heart rate is read from the Garmin TrackPointExtension
+ * (<gpxtpx:hr>) or any other extension element named hr.
+ */
+export function parseGpx(xml: string): ParsedActivity {
+  if (!/<(?:[\w-]+:)?gpx[\s>]/.test(xml)) {
+    throw new Error('Not a GPX file');
+  }
+
+  const points: TrackPoint[] = elements(xml, 'trkpt').map(({ tag, content }) => {
+    const point: TrackPoint = { time: parseTime(text(content, 'time')) };
+
+    const lat = Number(attribute(tag, 'lat'));
+    const lon = Number(attribute(tag, 'lon'));
+    if (Number.isFinite(lat) && Number.isFinite(lon)) {
+      point.lat = lat;
+      point.lon = lon;
+    }
+
+    const heartRate = numberText(content, 'hr');
+    if (heartRate !== undefined) point.heartRate = heartRate;
+
+    return point;
+  });
+
+  const [track] = elements(xml, 'trk');
+
+  return {
+    format: 'gpx',
+    sport: track ? text(track.content.split(/<(?:[\w-]+:)?trkseg/)[0], 'type') : null,
+    startTime: points.find((point) => point.time)?.time ?? null,
+    points,
+    totals: {},
+  };
+}
@@ -0,0 +1,84 @@
+import { attribute, elements, numberText, parseTime, text } from '@/lib/workouts/parsers/xml';
+import type { ActivityTotals, ParsedActivity, TrackPoint } from '@/lib/workouts/parsers/types';
+
+/**
+ * Parse the first activity of a Garmin Training Center (TCX) file. Lap
+ * totals are summed; trackpoints come from every lap.
+ */
+export function parseTcx(xml: string): ParsedActivity {
+  if (!/<(?:[\w-]+:)?TrainingCenterDatabase[\s>]/.test(xml)) {
+    throw new Error('Not a TCX file');
+  }
+
+  const [activity] = elements(xml, 'Activity');
+  if (!activity) {
+    throw new Error('TCX file has no activity');
+  }
+
+  const points: TrackPoint[] = [];
+  const totals: ActivityTotals = {};
+  let heartRateSeconds = 0;
+  let weightedHeartRate = 0;
+
+  for (const lap of elements(activity.content, 'Lap')) {
+    // Lap totals sit outside the track, which has its own DistanceMeters
+    const summary = lap.content.replace(
+      /<(?:[\w-]+:)?Track[\s>][\s\S]*?<\/(?:[\w-]+:)?Track>/g,
+      ''
+    );
+
+    const seconds = numberText(summary, 'TotalTimeSeconds');
+    const meters = numberText(summary, 'DistanceMeters');
+    const [averageHeartRate] = elements(summary, 'AverageHeartRateBpm');
+    const heartRate = averageHeartRate ? numberText(averageHeartRate.content, 'Value') : undefined;
+
+    if (seconds !== undefined) {
+      totals.durationSeconds = (totals.durationSeconds ?? 0) + seconds;
+    }
+    if (meters !== undefined) {
+      totals.distanceMeters = (totals.distanceMeters ?? 0) + meters;
+    }
+    if (heartRate !== undefined && seconds) {
+      heartRateSeconds += seconds;
+      weightedHeartRate += heartRate * seconds;
+    }
+
+    for (const { content } of elements(lap.content, 'Trackpoint')) {
+      const point: TrackPoint = { time: parseTime(text(content, 'Time')) };
+
+      const lat = numberText(content, 'LatitudeDegrees');
+      const lon = numberText(content, 'LongitudeDegrees');
+      if (lat !== undefined && lon !== undefined) {
+        point.lat = lat;
+        point.lon = lon;
+      }
+
+      const distance = numberText(content, 'DistanceMeters');
+      if (distance !== undefined) point.distanceMeters = distance;
+
+      const [heartRateBpm] = elements(content, 'HeartRateBpm');
+      const bpm = heartRateBpm ? numberText(heartRateBpm.content, 'Value') : undefined;
+      if (bpm !== undefined) point.heartRate = bpm;
+
+      points.push(point);
+    }
+  }
+
+  if (heartRateSeconds > 0) {
+    totals.avgHeartRate = weightedHeartRate / heartRateSeconds;
+  }
+
+  const [firstLap] = elements(activity.content, 'Lap');
+
+  return {
+    format: 'tcx',
+    sport: attribute(activity.tag, 'Sport'),
+    startTime:
+      parseTime(firstLap ? attribute(firstLap.tag, 'StartTime') : null) ??
+      parseTime(text(activity.content, 'Id')) ??
+      points.find((point) => point.time)?.time ??
+      null,
+    points,
+    totals,
+  };
+}
@@ -0,0 +1,53 @@
+export type WorkoutFileFormat = 'gpx' | 'tcx' | 'fit';
+
+export interface TrackPoint {
+  time: Date | null;
+  lat?: number;
+  lon?: number;
+  heartRate?: number;
+  /** Cumulative distance from the start, when the device records it */
+  distanceMeters?: number;
+}
+
+/**
+ * Totals recorded by the device (TCX laps, FIT sessions). Preferred over
+ * values derived from the track because they exclude pauses.
+ */
+export interface ActivityTotals {
+  durationSeconds?: number;
+  distanceMeters?: number;
+  avgHeartRate?: number;
+}
+
+export interface ParsedActivity {
+  format: WorkoutFileFormat;
+  /** Sport as named in the file, if any */
+  sport: string | null;
+  startTime: Date | null;
+  points: TrackPoint[];
+  totals: ActivityTotals;
+}
+
+export interface WorkoutFileError {
+  message: string;
+}
+
+export type HealthArchiveFormat = 'apple_health' | 'google_fit';
+
+/**
+ * A workout read from an Apple Health or Google Fit export, before it is
+ * validated and normalized on the server
+ */
+export interface HealthWorkout {
+  format: HealthArchiveFormat;
+  /** Activity as the export names it, made readable, e.g. "Traditional Strength Training" */
+  sport: string;
+  /** ISO start time */
+  startTime: string;
+  durationSeconds: number;
+  distanceMeters: number | null;
+  calories: number | null;
+  heartRateAvg: number | null;
+  /** App or device that recorded the workout, if the export says */
+  recordedBy: string | null;
+}
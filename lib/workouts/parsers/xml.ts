@@ -0,0 +1,129 @@
+// Minimal helpers for the flat, well-known structure of GPX, TCX and Apple Health files.
+// Element names may carry any namespace prefix (e.g. gpxtpx:hr, ns3:hr).
+
+function escapeName(name: string): string {
+  return name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Every element with this local name: its opening tag and inner content
+ */
+export function elements(xml: string, name: string): { tag: string; content: string }[] {
+  const local = escapeName(name);
+  const pattern = new RegExp(
+    `(<(?:[\\w-]+:)?${local}(?:\\s[^>]*)?>)([\\s\\S]*?)</(?:[\\w-]+:)?${local}\\s*>`,
+    'g'
+  );
+  return Array.from(xml.matchAll(pattern), (match) => ({ tag: match[1], content: match[2] }));
+}
+
+/**
+ * Trimmed text of the first element with this local name, or null
+ */
+export function text(xml: string, name: string): string | null {
+  const [first] = elements(xml, name);
+  if (!first) return null;
+  return first.content.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1').trim();
+}
+
+export function numberText(xml: string, name: string): number | undefined {
+  const value = text(xml, name);
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * An attribute from an opening tag, or null
+ */
+export function attribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${escapeName(name)}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  return match ? (match[2] ?? match[3]) : null;
+}
+
+export function parseTime(value: string | null): Date | null {
+  if (!value) return null;
+  const time = new Date(value);
+  return Number.isNaN(time.getTime()) ? null : time;
+}
+
+export interface ElementScanner {
+  /** Add the next chunk of the document; returns the elements it completed */
+  push(chunk: string): { tag: string; content: string }[];
+  /** Characters held back waiting for the rest of an element */
+  buffered(): number;
+}
+
+/**
+ * Find elements with this exact name in a document read in chunks, such as
+ * a multi-gigabyte Apple Health export. Only the current element is held in
+ * memory. Elements with this name must not nest; self-closing ones have
+ * empty content.
+ */
+export function createElementScanner(name: string): ElementScanner {
+  const start = new RegExp(`<${escapeName(name)}[\\s/>]`, 'g');
+  const end = new RegExp(`</${escapeName(name)}\\s*>`, 'g');
+  let buffer = '';
+
+  // Index just past the '>' closing the opening tag at `from`, or -1 if the
+  // tag is not complete yet. Attribute values may contain '>'.
+  const endOfTag = (from: number) => {
+    let quote: string | null = null;
+    for (let i = from; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '>') {
+        return i + 1;
+      }
+    }
+    return -1;
+  };
+
+  return {
+    push(chunk) {
+      buffer += chunk;
+      const found: { tag: string; content: string }[] = [];
+      let position = 0;
+
+      for (;;) {
+        start.lastIndex = position;
+        const match = start.exec(buffer);
+        if (!match) {
+          // Keep enough to recognise an opening tag split across chunks
+          position = Math.max(position, buffer.length - name.length - 1);
+          break;
+        }
+
+        const tagEnd = endOfTag(match.index);
+        if (tagEnd === -1) {
+          position = match.index;
+          break;
+        }
+
+        const tag = buffer.slice(match.index, tagEnd);
+        if (tag.endsWith('/>')) {
+          found.push({ tag, content: '' });
+          position = tagEnd;
+          continue;
+        }
+
+        end.lastIndex = tagEnd;
+        const closing = end.exec(buffer);
+        if (!closing) {
+          position = match.index;
+          break;
+        }
+
+        found.push({ tag, content: buffer.slice(tagEnd, closing.index) });
+        position = end.lastIndex;
+      }
+
+      buffer = buffer.slice(position);
+      return found;
+    },
+    buffered: () => buffer.length,
+  };
+}
@@ -0,0 +1,246 @@
+// A minimal ZIP reader for health export archives. It reads the central
+// directory and streams one entry at a time, so archives of several gigabytes
+// never have to fit in memory. Stored and deflated entries are supported,
+// including ZIP64 archives; encrypted and split archives are not.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const END_RECORD_BYTES = 22;
+const ZIP64_END_RECORD_BYTES = 56;
+const ZIP64_LOCATOR_BYTES = 20;
+const CENTRAL_HEADER_BYTES = 46;
+const LOCAL_HEADER_BYTES = 30;
+// The end record is followed by a comment of at most this many bytes
+const MAX_COMMENT_BYTES = 0xffff;
+
+const ZIP64_EXTRA_FIELD = 0x0001;
+const UINT16_MAX = 0xffff;
+const UINT32_MAX = 0xffffffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+export interface ZipEntry {
+  /** Path within the archive, with forward slashes */
+  name: string;
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  encrypted: boolean;
+}
+
+/**
+ * Random access to the archive's bytes: a File or Blob in the browser
+ */
+export interface ZipSource {
+  size: number;
+  read(start: number, end: number): Promise<Uint8Array>;
+  stream(start: number, end: number): ReadableStream<Uint8Array>;
+}
+
+export interface CentralDirectoryLocation {
+  offset: number;
+  size: number;
+  entryCount: number;
+}
+
+export function blobZipSource(blob: Blob): ZipSource {
+  return {
+    size: blob.size,
+    read: async (start, end) => new Uint8Array(await blob.slice(start, end).arrayBuffer()),
+    stream: (start, end) => blob.slice(start, end).stream(),
+  };
+}
+
+function view(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function uint64(data: DataView, offset: number): number {
+  const value = data.getBigUint64(offset, true);
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new Error('The archive is too large to read');
+  }
+  return Number(value);
+}
+
+/**
+ * Find the end-of-central-directory record in the last bytes of an archive.
+ * Returns the record's offset within `tail`, or -1.
+ */
+export function findEndRecord(tail: Uint8Array): number {
+  const data = view(tail);
+  for (let offset = tail.byteLength - END_RECORD_BYTES; offset >= 0; offset--) {
+    if (data.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      // A real record's comment runs exactly to the end of the archive
+      const commentLength = data.getUint16(offset + 20, true);
+      if (offset + END_RECORD_BYTES + commentLength === tail.byteLength) return offset;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Where the central directory is, from the end record. ZIP64 archives keep the
+ * real values in a second record, which is read from the source.
+ */
+export async function locateCentralDirectory(source: ZipSource): Promise<CentralDirectoryLocation> {
+  const tailStart = Math.max(0, source.size - END_RECORD_BYTES - MAX_COMMENT_BYTES);
+  const tail = await source.read(tailStart, source.size);
+  const endRecord = findEndRecord(tail);
+  if (endRecord === -1) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const data = view(tail);
+  if (data.getUint16(endRecord + 4, true) !== 0) {
+    throw new Error('Split ZIP archives are not supported');
+  }
+
+  const location: CentralDirectoryLocation = {
+    entryCount: data.getUint16(endRecord + 10, true),
+    size: data.getUint32(endRecord + 12, true),
+    offset: data.getUint32(endRecord + 16, true),
+  };
+
+  const isZip64 =
+    location.entryCount === UINT16_MAX ||
+    location.size === UINT32_MAX ||
+    location.offset === UINT32_MAX;
+  if (!isZip64) return location;
+
+  const locatorStart = tailStart + endRecord - ZIP64_LOCATOR_BYTES;
+  const locator =
+    locatorStart >= 0
+      ? view(await source.read(locatorStart, locatorStart + ZIP64_LOCATOR_BYTES))
+      : null;
+  if (!locator || locator.getUint32(0, true) !== ZIP64_LOCATOR) {
+    throw new Error('The archive is damaged: its ZIP64 locator is missing');
+  }
+
+  const recordStart = uint64(locator, 8);
+  const record = view(await source.read(recordStart, recordStart + ZIP64_END_RECORD_BYTES));
+  if (record.getUint32(0, true) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+    throw new Error('The archive is damaged: its ZIP64 end record is missing');
+  }
+
+  return {
+    entryCount: uint64(record, 32),
+    size: uint64(record, 40),
+    offset: uint64(record, 48),
+  };
+}
+
+/**
+ * The entries listed in a central directory
+ */
+export function parseCentralDirectory(directory: Uint8Array, entryCount: number): ZipEntry[] {
+  const data = view(directory);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (
+      offset + CENTRAL_HEADER_BYTES > directory.byteLength ||
+      data.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER
+    ) {
+      throw new Error('The archive is damaged: its central directory is incomplete');
+    }
+
+    const nameLength = data.getUint16(offset + 28, true);
+    const extraLength = data.getUint16(offset + 30, true);
+    const commentLength = data.getUint16(offset + 32, true);
+    const nameStart = offset + CENTRAL_HEADER_BYTES;
+    const extraStart = nameStart + nameLength;
+
+    const entry: ZipEntry = {
+      name: decoder.decode(directory.subarray(nameStart, extraStart)).replace(/\\/g, '/'),
+      compressionMethod: data.getUint16(offset + 10, true),
+      compressedSize: data.getUint32(offset + 20, true),
+      uncompressedSize: data.getUint32(offset + 24, true),
+      localHeaderOffset: data.getUint32(offset + 42, true),
+      encrypted: (data.getUint16(offset + 8, true) & 1) === 1,
+    };
+
+    // Sizes and offsets too large for 32 bits are in the ZIP64 extra field,
+    // in this order, only for the values that overflowed
+    for (let field = extraStart; field + 4 <= extraStart + extraLength; ) {
+      const id = data.getUint16(field, true);
+      const fieldLength = data.getUint16(field + 2, true);
+      if (id === ZIP64_EXTRA_FIELD) {
+        let value = field + 4;
+        if (entry.uncompressedSize === UINT32_MAX) {
+          entry.uncompressedSize = uint64(data, value);
+          value += 8;
+        }
+        if (entry.compressedSize === UINT32_MAX) {
+          entry.compressedSize = uint64(data, value);
+          value += 8;
+        }
+        if (entry.localHeaderOffset === UINT32_MAX) {
+          entry.localHeaderOffset = uint64(data, value);
+        }
+      }
+      field += 4 + fieldLength;
+    }
+
+    entries.push(entry);
+    offset = extraStart + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Every entry in an archive. Only the central directory is read.
+ */
+export async function readZipEntries(source: ZipSource): Promise<ZipEntry[]> {
+  const location = await locateCentralDirectory(source);
+  const directory = await source.read(location.offset, location.offset + location.size);
+  return parseCentralDirectory(directory, location.entryCount);
+}
+
+/**
+ * An entry's uncompressed contents, as a stream
+ */
+export async function openZipEntry(
+  source: ZipSource,
+  entry: ZipEntry
+): Promise<ReadableStream<Uint8Array>> {
+  if (entry.encrypted) {
+    throw new Error(`${entry.name} is encrypted`);
+  }
+  if (entry.compressionMethod !== STORED && entry.compressionMethod !== DEFLATED) {
+    throw new Error(`${entry.name} uses an unsupported compression method`);
+  }
+
+  const header = view(
+    await source.read(entry.localHeaderOffset, entry.localHeaderOffset + LOCAL_HEADER_BYTES)
+  );
+  if (header.byteLength < LOCAL_HEADER_BYTES || header.getUint32(0, true) !== LOCAL_FILE_HEADER) {
+    throw new Error(`The archive is damaged: ${entry.name} cannot be found`);
+  }
+
+  // The local header repeats the name but may have a different extra field
+  const dataStart =
+    entry.localHeaderOffset +
+    LOCAL_HEADER_BYTES +
+    header.getUint16(26, true) +
+    header.getUint16(28, true);
+  const compressed = source.stream(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.compressionMethod === STORED) return compressed;
+
+  // DOM typings declare the writable side as taking any BufferSource
+  const inflate = new DecompressionStream('deflate-raw') as unknown as ReadableWritablePair<
+    Uint8Array,
+    Uint8Array
+  >;
+  return compressed.pipeThrough(inflate);
+}
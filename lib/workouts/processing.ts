@@ -0,0 +1,268 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PersonalRecord, UserBaseline, Workout } from '@/types/database';
+import {
+  calculateWorkoutPoints,
+  VARIETY_WINDOW_DAYS,
+  type VarietyWorkout,
+  type WorkoutPointsBreakdown,
+} from '@/lib/gamification/points';
+import { awardStreakMilestones } from '@/lib/gamification/streaks';
+import { recordPersonalRecords } from '@/lib/gamification/records';
+import { recalculateBaseline } from '@/lib/gamification/baseline';
+import { shiftDate } from '@/lib/utils/dates';
+import { mergeDuplicateWorkout } from '@/lib/workouts/merge';
+import {
+  COUNTED_WORKOUTS_FILTER,
+  validateWorkout,
+  type ValidatableWorkout,
+  type WorkoutFlag,
+} from '@/lib/workouts/validation';
+
+export interface ProcessingError {
+  message: string;
+}
+
+export interface ProcessWorkoutResult {
+  points: number;
+  breakdown: WorkoutPointsBreakdown | null;
+  /** Streak milestones (in days) newly rewarded by this workout */
+  streakMilestones: number[];
+  /** Personal records this workout set by beating an earlier workout */
+  personalRecords: PersonalRecord[];
+  /** Why the workout was held for review; empty if it was scored normally */
+  flags: WorkoutFlag[];
+  /** The canonical workout this one duplicates, if it was merged instead of scored */
+  mergedInto: string | null;
+}
+
+/**
+ * Score a newly stored workout and credit the user. Every ingestion path
+ * (manual entry, file imports, Strava, Fitbit) calls this after inserting the row.
+ *
+ * A workout another source already recorded (the same run from Strava and
+ * Fitbit) is merged into that workout with zero points instead. Otherwise
+ * it is validated first. Anything implausible is held for review with zero
+ * points instead of being scored; approved workouts skip validation. A
+ * scored workout is checked against the user's personal records.
+ *
+ * Must be given the service-role client. Safe to call more than once for the
+ * same workout: crediting is idempotent per workout. Editing a scored workout
+ * clears scored_at, and scoring it again credits or reverses the difference.
+ */
+export async function processWorkout(
+  supabase: SupabaseClient,
+  workout: Workout
+): Promise<{ result: ProcessWorkoutResult | null; error: ProcessingError | null }> {
+  try {
+    if (workout.scored_at) {
+      return {
+        result: {
+          points: workout.points_earned,
+          breakdown: null,
+          streakMilestones: [],
+          personalRecords: [],
+          flags: [],
+          mergedInto: workout.merged_into,
+        },
+        error: null,
+      };
+    }
+
+    const { mergedInto, error: mergeError } = await mergeDuplicateWorkout(supabase, workout);
+
+    if (mergeError) {
+      return { result: null, error: mergeError };
+    }
+
+    if (mergedInto) {
+      return {
+        result: {
+          points: 0,
+          breakdown: null,
+          streakMilestones: [],
+          personalRecords: [],
+          flags: [],
+          mergedInto,
+        },
+        error: null,
+      };
+    }
+
+    const { flags, error: validationError } = await checkWorkout(supabase, workout);
+
+    if (validationError) {
+      return { result: null, error: validationError };
+    }
+
+    const held = workout.review_status === 'pending' || workout.review_status === 'rejected';
+
+    if (held || flags.length > 0) {
+      const { error: holdError } = await supabase.rpc('hold_workout_for_review', {
+        p_workout_id: workout.id,
+        p_flags: flags,
+      });
+
+      if (holdError) {
+        return { result: null, error: { message: holdError.message } };
+      }
+
+      return {
+        result: {
+          points: 0,
+          breakdown: null,
+          streakMilestones: [],
+          personalRecords: [],
+          flags,
+          mergedInto: null,
+        },
+        error: null,
+      };
+    }
+
+    const { data: existingBaseline, error: baselineError } = await supabase
+      .from('user_baselines')
+      .select('*')
+      .eq('user_id', workout.user_id)
+      .maybeSingle();
+
+    if (baselineError) {
+      return { result: null, error: { message: baselineError.message } };
+    }
+
+    // First workout: start from a baseline calculated from history or a cold-start default
+    let baseline = existingBaseline as UserBaseline | null;
+    if (!baseline) {
+      const { baseline: calculated, error: calculateError } = await recalculateBaseline(
+        supabase,
+        workout.user_id
+      );
+      if (calculateError) {
+        return { result: null, error: calculateError };
+      }
+      baseline = calculated;
+    }
+
+    const { data: recentWorkouts, error: recentError } = await supabase
+      .from('workouts')
+      .select('workout_date, workout_type, activity_type')
+      .eq('user_id', workout.user_id)
+      .neq('id', workout.id)
+      .or(COUNTED_WORKOUTS_FILTER)
+      .is('merged_into', null)
+      .gte('workout_date', shiftDate(workout.workout_date, -(VARIETY_WINDOW_DAYS - 1)))
+      .lte('workout_date', workout.workout_date);
+
+    if (recentError) {
+      return { result: null, error: { message: recentError.message } };
+    }
+
+    const breakdown = calculateWorkoutPoints(workout, baseline, recentWorkouts as VarietyWorkout[]);
+
+    const { data: credited, error: creditError } = await supabase.rpc('credit_workout_points', {
+      p_workout_id: workout.id,
+      p_points: breakdown.total,
+    });
+
+    if (creditError) {
+      return { result: null, error: { message: creditError.message } };
+    }
+
+    const { awarded, error: streakError } = await awardStreakMilestones(supabase, workout.user_id);
+
+    if (streakError) {
+      return { result: null, error: streakError };
+    }
+
+    const { records, error: recordsError } = await recordPersonalRecords(supabase, workout);
+
+    if (recordsError) {
+      return { result: null, error: recordsError };
+    }
+
+    return {
+      result: {
+        points: credited as number,
+        breakdown,
+        streakMilestones: awarded,
+        personalRecords: records,
+        flags: [],
+        mergedInto: null,
+      },
+      error: null,
+    };
+  } catch (err) {
+    return {
+      result: null,
+      error: { message: err instanceof Error ? err.message : 'An unknown error occurred' },
+    };
+  }
+}
+
+/**
+ * Flags for a workout about to be scored. A workout held or rejected earlier
+ * keeps its existing flags; an approved one has none.
+ */
+async function checkWorkout(
+  supabase: SupabaseClient,
+  workout: Workout
+): Promise<{ flags: WorkoutFlag[]; error: ProcessingError | null }> {
+  if (workout.review_status === 'approved') {
+    return { flags: [], error: null };
+  }
+
+  if (workout.review_status === 'pending' || workout.review_status === 'rejected') {
+    return { flags: (workout.review_flags as unknown as WorkoutFlag[] | null) ?? [], error: null };
+  }
+
+  const { data: sameDay, error } = await supabase
+    .from('workouts')
+    .select(
+      'id, workout_type, activity_type, duration_minutes, distance_km, heart_rate_avg, source, unmerged_from'
+    )
+    .eq('user_id', workout.user_id)
+    .eq('workout_date', workout.workout_date)
+    .neq('id', workout.id)
+    .is('merged_into', null)
+    .or('review_status.is.null,review_status.neq.rejected');
+
+  if (error) {
+    return { flags: [], error: { message: error.message } };
+  }
+
+  return { flags: validateWorkout(workout, sameDay as ValidatableWorkout[]), error: null };
+}
+
+/**
+ * Score workouts that were stored without going through processWorkout
+ * (for example manual workouts a client inserted directly; RLS lets users
+ * insert nothing else). Returns how many were scored.
+ */
+export async function scoreUnscoredWorkouts(
+  supabase: SupabaseClient,
+  limit: number = 100
+): Promise<{ scored: number; errors: ProcessingError[] }> {
+  const { data, error } = await supabase
+    .from('workouts')
+    .select('*')
+    .is('scored_at', null)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    return { scored: 0, errors: [{ message: error.message }] };
+  }
+
+  let scored = 0;
+  const errors: ProcessingError[] = [];
+
+  for (const workout of data as Workout[]) {
+    const { error: processError } = await processWorkout(supabase, workout);
+    if (processError) {
+      errors.push({ message: `Workout ${workout.id}: ${processError.message}` });
+    } else {
+      scored++;
+    }
+  }
+
+  return { scored, errors };
+}
@@ -0,0 +1,58 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Workout } from '@/types/database';
+import { processWorkout, type ProcessingError } from '@/lib/workouts/processing';
+
+/**
+ * Workouts held for review, oldest first. Requires the service-role client.
+ */
+export async function getReviewQueue(
+  supabase: SupabaseClient,
+  limit: number = 50
+): Promise<{ workouts: Workout[]; error: ProcessingError | null }> {
+  const { data, error } = await supabase
+    .from('workouts')
+    .select('*')
+    .eq('review_status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    return { workouts: [], error: { message: error.message } };
+  }
+
+  return { workouts: data as Workout[], error: null };
+}
+
+/**
+ * Approve or reject a held workout. An approved workout is scored straight
+ * away; a rejected one keeps zero points. Requires the service-role client.
+ */
+export async function resolveWorkoutReview(
+  supabase: SupabaseClient,
+  workoutId: string,
+  approved: boolean,
+  note?: string
+): Promise<{ workout: Workout | null; error: ProcessingError | null }> {
+  const { data, error } = await supabase.rpc('resolve_workout_review', {
+    p_workout_id: workoutId,
+    p_approved: approved,
+    p_note: note ?? null,
+  });
+
+  if (error) {
+    return { workout: null, error: { message: error.message } };
+  }
+
+  const workout = data as Workout;
+  if (!approved) {
+    return { workout, error: null };
+  }
+
+  const { result, error: processError } = await processWorkout(supabase, workout);
+
+  if (processError) {
+    return { workout, error: processError };
+  }
+
+  return { workout: { ...workout, points_earned: result!.points }, error: null };
+}
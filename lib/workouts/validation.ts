@@ -0,0 +1,190 @@
+import type { Workout } from '@/types/database';
+import { activityKey, normalizeActivityType, type ActivityType } from '@/lib/fitness/normalizer';
+
+export type WorkoutFlagCode =
+  | 'implausible_speed'
+  | 'daily_duration_exceeded'
+  | 'possible_duplicate'
+  | 'implausible_heart_rate';
+
+export interface WorkoutFlag {
+  code: WorkoutFlagCode;
+  message: string;
+}
+
+export type ValidatableWorkout = Pick<
+  Workout,
+  'id' | 'workout_type' | 'duration_minutes' | 'distance_km' | 'heart_rate_avg' | 'source'
+> &
+  Partial<Pick<Workout, 'activity_type' | 'unmerged_from'>>;
+
+/**
+ * PostgREST filter for workouts that count towards streaks, baselines and
+ * bonuses: never flagged, or approved after review. Merged duplicates do not
+ * count either, so queries also filter on merged_into being null.
+ */
+export const COUNTED_WORKOUTS_FILTER = 'review_status.is.null,review_status.eq.approved';
+
+interface ActivityLimit {
+  activity: ActivityType;
+  /** Fastest plausible average speed over a whole workout, in km/h */
+  maxSpeedKmh: number;
+}
+
+// Well above elite averages, so only entries that are clearly wrong are held
+export const ACTIVITY_LIMITS: ActivityLimit[] = [
+  { activity: 'walking', maxSpeedKmh: 12 },
+  { activity: 'hiking', maxSpeedKmh: 12 },
+  { activity: 'running', maxSpeedKmh: 25 },
+  { activity: 'cycling', maxSpeedKmh: 70 },
+  { activity: 'swimming', maxSpeedKmh: 8 },
+  { activity: 'rowing', maxSpeedKmh: 25 },
+  { activity: 'paddling', maxSpeedKmh: 25 },
+];
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+// Average heart rate during exercise is rarely this low
+export const MIN_EXERCISE_HEART_RATE = 40;
+
+// Highest plausible average heart rate, by workout length
+export const HEART_RATE_LIMITS: { maxMinutes: number; maxAverage: number }[] = [
+  { maxMinutes: 60, maxAverage: 200 },
+  { maxMinutes: 180, maxAverage: 185 },
+  { maxMinutes: Infinity, maxAverage: 175 },
+];
+
+// How close two workouts from different sources must be to count as the same session
+export const DUPLICATE_DURATION_TOLERANCE = 0.1;
+export const DUPLICATE_MIN_DURATION_MINUTES = 5;
+export const DUPLICATE_DISTANCE_TOLERANCE = 0.1;
+
+/**
+ * The speed limit for a workout's activity, or null if it has none. Stored
+ * workouts pass their activity_type; otherwise the type name is classified.
+ */
+export function activityFor(
+  workoutType: string,
+  activityType: ActivityType = normalizeActivityType(workoutType)
+): ActivityLimit | null {
+  return ACTIVITY_LIMITS.find((limit) => limit.activity === activityType) ?? null;
+}
+
+function checkSpeed(workout: ValidatableWorkout): WorkoutFlag | null {
+  const limit = activityFor(workout.workout_type, workout.activity_type);
+  const distance = Number(workout.distance_km ?? 0);
+  if (!limit || !workout.duration_minutes || distance <= 0) return null;
+
+  const speed = distance / (workout.duration_minutes / 60);
+  if (speed <= limit.maxSpeedKmh) return null;
+
+  return {
+    code: 'implausible_speed',
+    message: `Average speed of ${speed.toFixed(1)} km/h is not plausible for ${limit.activity} (max ${limit.maxSpeedKmh} km/h)`,
+  };
+}
+
+function checkDailyDuration(
+  workout: ValidatableWorkout,
+  sameDay: ValidatableWorkout[]
+): WorkoutFlag | null {
+  const total = [workout, ...sameDay].reduce((sum, w) => sum + (w.duration_minutes ?? 0), 0);
+  if (total <= MINUTES_PER_DAY) return null;
+
+  return {
+    code: 'daily_duration_exceeded',
+    message: `${total} minutes of activity logged in one day`,
+  };
+}
+
+function withinTolerance(a: number, b: number, tolerance: number, minimum: number = 0): boolean {
+  return Math.abs(a - b) <= Math.max(Math.max(a, b) * tolerance, minimum);
+}
+
+/**
+ * Whether two workouts from different sources look like the same session:
+ * the same activity with similar duration and distance. A pair the user has
+ * un-merged never matches.
+ */
+export function isNearDuplicate(workout: ValidatableWorkout, other: ValidatableWorkout): boolean {
+  if (other.source === workout.source) return false;
+
+  if (workout.unmerged_from === other.id || other.unmerged_from === workout.id) return false;
+
+  if (activityKey(workout) !== activityKey(other)) return false;
+
+  if (workout.duration_minutes && other.duration_minutes) {
+    if (
+      !withinTolerance(
+        workout.duration_minutes,
+        other.duration_minutes,
+        DUPLICATE_DURATION_TOLERANCE,
+        DUPLICATE_MIN_DURATION_MINUTES
+      )
+    ) {
+      return false;
+    }
+  }
+
+  const distance = Number(workout.distance_km ?? 0);
+  const otherDistance = Number(other.distance_km ?? 0);
+  if (distance > 0 && otherDistance > 0) {
+    return withinTolerance(distance, otherDistance, DUPLICATE_DISTANCE_TOLERANCE);
+  }
+
+  return true;
+}
+
+function checkDuplicates(
+  workout: ValidatableWorkout,
+  sameDay: ValidatableWorkout[]
+): WorkoutFlag | null {
+  const duplicate = sameDay.find((other) => isNearDuplicate(workout, other));
+  if (!duplicate) return null;
+
+  return {
+    code: 'possible_duplicate',
+    message: `Looks like the same session as a ${duplicate.source} workout on the same day`,
+  };
+}
+
+function checkHeartRate(workout: ValidatableWorkout): WorkoutFlag | null {
+  const heartRate = workout.heart_rate_avg;
+  if (heartRate === null || heartRate === undefined) return null;
+
+  if (heartRate < MIN_EXERCISE_HEART_RATE) {
+    return {
+      code: 'implausible_heart_rate',
+      message: `Average heart rate of ${heartRate} bpm is too low for exercise`,
+    };
+  }
+
+  if (!workout.duration_minutes) return null;
+
+  const limit = HEART_RATE_LIMITS.find((l) => workout.duration_minutes! <= l.maxMinutes)!;
+  if (heartRate <= limit.maxAverage) return null;
+
+  return {
+    code: 'implausible_heart_rate',
+    message: `Average heart rate of ${heartRate} bpm cannot be sustained for ${workout.duration_minutes} minutes`,
+  };
+}
+
+/**
+ * Check a workout for implausible values before it is scored. sameDay holds
+ * the user's other workouts on the same date (excluding rejected ones).
+ * Returns every problem found; an empty list means the workout can be scored.
+ */
+export function validateWorkout(
+  workout: ValidatableWorkout,
+  sameDay: ValidatableWorkout[]
+): WorkoutFlag[] {
+  const others = sameDay.filter((other) => other.id !== workout.id);
+
+  return [
+    checkSpeed(workout),
+    checkDailyDuration(workout, others),
+    checkDuplicates(workout, others),
+    checkHeartRate(workout),
+  ].filter((flag): flag is WorkoutFlag => flag !== null);
+}
@@ -0,0 +1,77 @@
+import { createClient } from '@supabase/supabase-js';
+import { rotateTokenBatch, ROTATION_BATCH_SIZE } from '@/lib/fitness/token-rotation';
+import { loadKeyring } from '@/lib/security/token-crypto';
+
+/*
+ * Re-encrypt stored Strava and Fitbit tokens under the current key, the first
+ * one in ENCRYPTION_KEYS. Keep the old keys listed after it until this
+ * reports no failures, then remove them.
+ *
+ *   npx tsx --env-file=.env.local scripts/rotate-token-keys.ts [--after <id>] [--batch-size <n>]
+ *
+ * Safe to stop and run again: tokens already under the current key are
+ * skipped. Pass --after with the last printed cursor to skip checked rows.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('❌ Missing Supabase credentials in .env.local');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+function argument(name: string): string | null {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? null : (process.argv[index + 1] ?? null);
+}
+
+async function rotateTokenKeys() {
+  const keyring = loadKeyring();
+  const batchSize = Number(argument('--batch-size') ?? ROTATION_BATCH_SIZE);
+  let cursor = argument('--after');
+  let scanned = 0;
+  let rotated = 0;
+  let failed = 0;
+
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    console.error('❌ --batch-size must be a positive whole number');
+    process.exit(1);
+  }
+
+  console.log(`🔑 Re-encrypting tokens under key ${keyring.currentKeyId}...\n`);
+
+  do {
+    const { result, error } = await rotateTokenBatch(supabase, cursor, batchSize, keyring);
+
+    if (error) {
+      console.error(`❌ ${error.message}`);
+      console.log(cursor ? `\n⚠️  Resume with --after ${cursor}` : '\n⚠️  Run again to retry');
+      process.exit(1);
+    }
+
+    for (const failure of result!.failed) {
+      console.error(`❌ Connection ${failure.connectionId}: ${failure.message}`);
+    }
+
+    scanned += result!.scanned;
+    rotated += result!.rotated;
+    failed += result!.failed.length;
+    cursor = result!.cursor;
+
+    if (cursor) {
+      console.log(`📄 ${scanned} connections checked, ${rotated} re-encrypted (cursor ${cursor})`);
+    }
+  } while (cursor);
+
+  console.log(`\n✅ ${scanned} connections checked, ${rotated} re-encrypted, ${failed} failed`);
+
+  if (failed > 0) {
+    console.log('⚠️  Keep the old keys until the failed connections are reconnected or removed');
+    process.exit(1);
+  }
+}
+
+rotateTokenKeys();
@@ -0,0 +1,316 @@
+-- Create point_transactions ledger table
+-- Replaces the user_points.points_history JSONB array with an append-only ledger
+
+CREATE TABLE IF NOT EXISTS public.point_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  transaction_type TEXT NOT NULL CHECK (transaction_type IN ('earned', 'spent')),
+  amount INTEGER NOT NULL CHECK (amount <> 0),
+  source TEXT NOT NULL,
+  description TEXT DEFAULT '' NOT NULL,
+  idempotency_key TEXT,
+  balance_after INTEGER NOT NULL CHECK (balance_after >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT point_transaction_sign CHECK (
+    (transaction_type = 'earned' AND amount > 0) OR
+    (transaction_type = 'spent' AND amount < 0)
+  ),
+  CONSTRAINT unique_point_idempotency_key UNIQUE(user_id, idempotency_key)
+);
+
+-- Create indexes for common queries
+CREATE INDEX idx_point_transactions_user_created ON public.point_transactions(user_id, created_at DESC);
+CREATE INDEX idx_point_transactions_user_source ON public.point_transactions(user_id, source);
+
+-- Enable Row Level Security
+ALTER TABLE public.point_transactions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for point_transactions
+
+-- Users can view their own transactions
+CREATE POLICY "Users can view own point transactions"
+  ON public.point_transactions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- No INSERT/UPDATE/DELETE policies: the ledger is append-only and only
+-- written by award_points/spend_points (SECURITY DEFINER)
+
+-- Backfill the ledger from the existing JSONB history
+INSERT INTO public.point_transactions (
+  user_id, transaction_type, amount, source, description, balance_after, created_at
+)
+SELECT
+  h.user_id,
+  h.transaction_type,
+  h.amount,
+  h.source,
+  h.description,
+  GREATEST(
+    SUM(h.amount) OVER (PARTITION BY h.user_id ORDER BY h.created_at, h.ordinality),
+    0
+  ),
+  h.created_at
+FROM (
+  SELECT
+    up.user_id,
+    entry.ordinality,
+    CASE WHEN entry.value->>'type' = 'spent' THEN 'spent' ELSE 'earned' END AS transaction_type,
+    CASE
+      WHEN entry.value->>'type' = 'spent' THEN -ABS((entry.value->>'amount')::INTEGER)
+      ELSE ABS((entry.value->>'amount')::INTEGER)
+    END AS amount,
+    COALESCE(entry.value->>'source', entry.value->>'purpose', 'legacy') AS source,
+    COALESCE(entry.value->>'description', '') AS description,
+    COALESCE((entry.value->>'timestamp')::TIMESTAMPTZ, up.updated_at) AS created_at
+  FROM public.user_points up
+  CROSS JOIN LATERAL jsonb_array_elements(up.points_history) WITH ORDINALITY AS entry(value, ordinality)
+  WHERE COALESCE((entry.value->>'amount')::INTEGER, 0) <> 0
+) h;
+
+-- The ledger is now the source of truth
+ALTER TABLE public.user_points DROP COLUMN IF EXISTS points_history;
+
+-- Replace award_points with a ledger-backed, idempotent version
+DROP FUNCTION IF EXISTS public.award_points(UUID, INTEGER, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.award_points(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_source TEXT DEFAULT 'manual',
+  p_description TEXT DEFAULT '',
+  p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  new_balance INTEGER,
+  new_total_earned INTEGER,
+  transaction_id UUID,
+  already_applied BOOLEAN
+) AS $$
+DECLARE
+  v_new_balance INTEGER;
+  v_new_total_earned INTEGER;
+  v_existing_id UUID;
+  v_transaction_id UUID;
+BEGIN
+  -- Validate amount is positive
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Points amount must be positive';
+  END IF;
+
+  -- Lock the user's points row so concurrent calls are serialized
+  SELECT current_balance, total_earned INTO v_new_balance, v_new_total_earned
+  FROM public.user_points
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No points account for user %', p_user_id;
+  END IF;
+
+  -- A retried call with the same key returns the original result
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO v_existing_id
+    FROM public.point_transactions
+    WHERE user_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN QUERY SELECT v_new_balance, v_new_total_earned, v_existing_id, true;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Update points and get new values
+  UPDATE public.user_points
+  SET
+    current_balance = current_balance + p_amount,
+    total_earned = total_earned + p_amount,
+    updated_at = NOW()
+  WHERE user_id = p_user_id
+  RETURNING current_balance, total_earned
+  INTO v_new_balance, v_new_total_earned;
+
+  -- Append to the ledger in the same transaction
+  INSERT INTO public.point_transactions (
+    user_id, transaction_type, amount, source, description, idempotency_key, balance_after
+  )
+  VALUES (
+    p_user_id, 'earned', p_amount, p_source, COALESCE(p_description, ''), p_idempotency_key,
+    v_new_balance
+  )
+  RETURNING id INTO v_transaction_id;
+
+  RETURN QUERY SELECT v_new_balance, v_new_total_earned, v_transaction_id, false;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replace spend_points with a ledger-backed, idempotent version
+DROP FUNCTION IF EXISTS public.spend_points(UUID, INTEGER, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.spend_points(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_purpose TEXT DEFAULT 'story_contribution',
+  p_description TEXT DEFAULT '',
+  p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  new_balance INTEGER,
+  success BOOLEAN,
+  transaction_id UUID,
+  already_applied BOOLEAN
+) AS $$
+DECLARE
+  v_current_balance INTEGER;
+  v_new_balance INTEGER;
+  v_existing_id UUID;
+  v_transaction_id UUID;
+BEGIN
+  -- Validate amount is positive
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Points amount must be positive';
+  END IF;
+
+  -- Get current balance, locking the row until the transaction ends
+  SELECT current_balance INTO v_current_balance
+  FROM public.user_points
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No points account for user %', p_user_id;
+  END IF;
+
+  -- A retried call with the same key returns the original result
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO v_existing_id
+    FROM public.point_transactions
+    WHERE user_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN QUERY SELECT v_current_balance, true, v_existing_id, true;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Check if user has enough points
+  IF v_current_balance < p_amount THEN
+    RETURN QUERY SELECT v_current_balance, false, NULL::UUID, false;
+    RETURN;
+  END IF;
+
+  -- Deduct points
+  UPDATE public.user_points
+  SET
+    current_balance = current_balance - p_amount,
+    total_spent = total_spent + p_amount,
+    updated_at = NOW()
+  WHERE user_id = p_user_id
+  RETURNING current_balance
+  INTO v_new_balance;
+
+  -- Append to the ledger in the same transaction
+  INSERT INTO public.point_transactions (
+    user_id, transaction_type, amount, source, description, idempotency_key, balance_after
+  )
+  VALUES (
+    p_user_id, 'spent', -p_amount, p_purpose, COALESCE(p_description, ''), p_idempotency_key,
+    v_new_balance
+  )
+  RETURNING id INTO v_transaction_id;
+
+  RETURN QUERY SELECT v_new_balance, true, v_transaction_id, false;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to recompute balances from the ledger and report drift
+CREATE OR REPLACE FUNCTION public.reconcile_user_points(
+  p_user_id UUID DEFAULT NULL,
+  p_apply BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE(
+  user_id UUID,
+  stored_balance INTEGER,
+  ledger_balance INTEGER,
+  stored_total_earned INTEGER,
+  ledger_total_earned INTEGER,
+  stored_total_spent INTEGER,
+  ledger_total_spent INTEGER,
+  has_drift BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH ledger AS (
+    SELECT
+      up.user_id,
+      up.current_balance AS stored_balance,
+      up.total_earned AS stored_total_earned,
+      up.total_spent AS stored_total_spent,
+      COALESCE(SUM(pt.amount), 0)::INTEGER AS ledger_balance,
+      COALESCE(SUM(pt.amount) FILTER (WHERE pt.transaction_type = 'earned'), 0)::INTEGER
+        AS ledger_total_earned,
+      COALESCE(-SUM(pt.amount) FILTER (WHERE pt.transaction_type = 'spent'), 0)::INTEGER
+        AS ledger_total_spent
+    FROM public.user_points up
+    LEFT JOIN public.point_transactions pt ON pt.user_id = up.user_id
+    WHERE p_user_id IS NULL OR up.user_id = p_user_id
+    GROUP BY up.user_id, up.current_balance, up.total_earned, up.total_spent
+  )
+  SELECT
+    l.user_id,
+    l.stored_balance,
+    l.ledger_balance,
+    l.stored_total_earned,
+    l.ledger_total_earned,
+    l.stored_total_spent,
+    l.ledger_total_spent,
+    (l.stored_balance <> l.ledger_balance OR
+     l.stored_total_earned <> l.ledger_total_earned OR
+     l.stored_total_spent <> l.ledger_total_spent)
+  FROM ledger l;
+
+  -- Optionally correct drifted rows to match the ledger
+  IF p_apply THEN
+    UPDATE public.user_points up
+    SET
+      current_balance = GREATEST(l.ledger_balance, 0),
+      total_earned = l.ledger_total_earned,
+      total_spent = l.ledger_total_spent,
+      updated_at = NOW()
+    FROM (
+      SELECT
+        up2.user_id,
+        COALESCE(SUM(pt.amount), 0)::INTEGER AS ledger_balance,
+        COALESCE(SUM(pt.amount) FILTER (WHERE pt.transaction_type = 'earned'), 0)::INTEGER
+          AS ledger_total_earned,
+        COALESCE(-SUM(pt.amount) FILTER (WHERE pt.transaction_type = 'spent'), 0)::INTEGER
+          AS ledger_total_spent
+      FROM public.user_points up2
+      LEFT JOIN public.point_transactions pt ON pt.user_id = up2.user_id
+      WHERE p_user_id IS NULL OR up2.user_id = p_user_id
+      GROUP BY up2.user_id
+    ) l
+    WHERE up.user_id = l.user_id
+      AND (up.current_balance <> l.ledger_balance OR
+           up.total_earned <> l.ledger_total_earned OR
+           up.total_spent <> l.ledger_total_spent);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Point mutations are server-side only: revoke the default PUBLIC execute grant
+REVOKE EXECUTE ON FUNCTION public.award_points(UUID, INTEGER, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.spend_points(UUID, INTEGER, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reconcile_user_points(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.award_points(UUID, INTEGER, TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.spend_points(UUID, INTEGER, TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reconcile_user_points(UUID, BOOLEAN) TO service_role;
+
+-- Add helpful comments
+COMMENT ON TABLE public.point_transactions IS 'Append-only ledger of every point award and spend';
+COMMENT ON COLUMN public.point_transactions.amount IS 'Signed amount: positive when earned, negative when spent';
+COMMENT ON COLUMN public.point_transactions.idempotency_key IS 'Caller-supplied key; a repeated key for the same user is not applied twice';
+COMMENT ON COLUMN public.point_transactions.balance_after IS 'current_balance immediately after this transaction';
+COMMENT ON FUNCTION public.award_points IS 'Award points to a user and record a ledger entry (bypasses RLS)';
+COMMENT ON FUNCTION public.spend_points IS 'Spend user points with balance check and record a ledger entry (bypasses RLS)';
+COMMENT ON FUNCTION public.reconcile_user_points IS 'Recompute balances from the ledger, report drift and optionally correct it';
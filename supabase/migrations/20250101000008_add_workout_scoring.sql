@@ -0,0 +1,85 @@
+-- Add workout scoring: credit points for a workout and record them on the row
+
+ALTER TABLE public.workouts ADD COLUMN IF NOT EXISTS scored_at TIMESTAMPTZ;
+
+-- Index for finding workouts that still need scoring
+CREATE INDEX idx_workouts_unscored ON public.workouts(created_at) WHERE scored_at IS NULL;
+
+-- Users cannot set their own points: points_earned and scored_at are only
+-- written by credit_workout_points (which runs as the function owner)
+CREATE OR REPLACE FUNCTION public.protect_workout_scoring()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.points_earned := 0;
+      NEW.scored_at := NULL;
+    ELSE
+      NEW.points_earned := OLD.points_earned;
+      NEW.scored_at := OLD.scored_at;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_workout_scoring
+  BEFORE INSERT OR UPDATE ON public.workouts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_workout_scoring();
+
+-- Function to credit a scored workout (SECURITY DEFINER to bypass RLS)
+-- Awards the points and writes points_earned in the same transaction
+CREATE OR REPLACE FUNCTION public.credit_workout_points(
+  p_workout_id UUID,
+  p_points INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_workout RECORD;
+BEGIN
+  IF p_points < 0 THEN
+    RAISE EXCEPTION 'Workout points cannot be negative';
+  END IF;
+
+  -- Lock the workout so concurrent scoring runs are serialized
+  SELECT * INTO v_workout
+  FROM public.workouts
+  WHERE id = p_workout_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % not found', p_workout_id;
+  END IF;
+
+  -- Already scored: keep the original result
+  IF v_workout.scored_at IS NOT NULL THEN
+    RETURN v_workout.points_earned;
+  END IF;
+
+  IF p_points > 0 THEN
+    PERFORM public.award_points(
+      v_workout.user_id,
+      p_points,
+      'workout',
+      'Workout: ' || v_workout.workout_type,
+      'workout:' || p_workout_id
+    );
+  END IF;
+
+  UPDATE public.workouts
+  SET
+    points_earned = p_points,
+    scored_at = NOW()
+  WHERE id = p_workout_id;
+
+  RETURN p_points;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.credit_workout_points(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.credit_workout_points(UUID, INTEGER) TO service_role;
+
+-- Add helpful comments
+COMMENT ON COLUMN public.workouts.scored_at IS 'When points were credited for this workout (NULL until scored)';
+COMMENT ON FUNCTION public.credit_workout_points IS 'Award points for a workout and set points_earned atomically (idempotent per workout)';
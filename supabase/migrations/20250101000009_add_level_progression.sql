@@ -0,0 +1,179 @@
+-- Add level progression driven by user_points.total_earned
+
+-- Level curve: reaching level n requires 50 * n * (n - 1) total points earned
+-- (level 2 at 100, level 3 at 300, level 4 at 600, ...)
+-- Mirrored in lib/gamification/levels.ts
+CREATE OR REPLACE FUNCTION public.level_for_points(p_total_earned INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  v_level INTEGER;
+BEGIN
+  IF p_total_earned IS NULL OR p_total_earned <= 0 THEN
+    RETURN 1;
+  END IF;
+
+  v_level := FLOOR((1 + SQRT(1 + 0.08 * p_total_earned)) / 2)::INTEGER;
+
+  -- Guard against floating point rounding at exact thresholds
+  WHILE 50 * (v_level + 1) * v_level <= p_total_earned LOOP
+    v_level := v_level + 1;
+  END LOOP;
+  WHILE v_level > 1 AND 50 * v_level * (v_level - 1) > p_total_earned LOOP
+    v_level := v_level - 1;
+  END LOOP;
+
+  RETURN v_level;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Level-up events
+CREATE TABLE IF NOT EXISTS public.level_ups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  level INTEGER NOT NULL CHECK (level > 1),
+  total_earned INTEGER NOT NULL CHECK (total_earned >= 0),
+  reached_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT unique_user_level UNIQUE(user_id, level)
+);
+
+-- Create index
+CREATE INDEX idx_level_ups_user_reached ON public.level_ups(user_id, reached_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.level_ups ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own level-ups (written only by award_points)
+CREATE POLICY "Users can view own level ups"
+  ON public.level_ups
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Perks unlocked by level
+CREATE TABLE IF NOT EXISTS public.level_perks (
+  perk TEXT PRIMARY KEY,
+  min_level INTEGER NOT NULL CHECK (min_level >= 1),
+  description TEXT NOT NULL
+);
+
+ALTER TABLE public.level_perks ENABLE ROW LEVEL SECURITY;
+
+-- Perks are public reference data
+CREATE POLICY "Level perks are viewable by everyone"
+  ON public.level_perks
+  FOR SELECT
+  USING (true);
+
+INSERT INTO public.level_perks (perk, min_level, description) VALUES
+  ('story_sentence', 1, 'Add a sentence to a story'),
+  ('story_twist', 3, 'Introduce a plot twist'),
+  ('story_character', 5, 'Introduce a new character'),
+  ('story_ending', 7, 'Write a story ending'),
+  ('narrator_role', 10, 'Take on the narrator role')
+ON CONFLICT (perk) DO NOTHING;
+
+-- Function to check whether a user has unlocked a perk
+CREATE OR REPLACE FUNCTION public.has_unlocked_perk(p_user_id UUID, p_perk TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_points up
+    JOIN public.level_perks lp ON lp.perk = p_perk
+    WHERE up.user_id = p_user_id AND up.level >= lp.min_level
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Recalculate levels on every award
+CREATE OR REPLACE FUNCTION public.award_points(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_source TEXT DEFAULT 'manual',
+  p_description TEXT DEFAULT '',
+  p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  new_balance INTEGER,
+  new_total_earned INTEGER,
+  transaction_id UUID,
+  already_applied BOOLEAN
+) AS $$
+DECLARE
+  v_new_balance INTEGER;
+  v_new_total_earned INTEGER;
+  v_old_level INTEGER;
+  v_new_level INTEGER;
+  v_existing_id UUID;
+  v_transaction_id UUID;
+BEGIN
+  -- Validate amount is positive
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Points amount must be positive';
+  END IF;
+
+  -- Lock the user's points row so concurrent calls are serialized
+  SELECT current_balance, total_earned, level
+  INTO v_new_balance, v_new_total_earned, v_old_level
+  FROM public.user_points
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No points account for user %', p_user_id;
+  END IF;
+
+  -- A retried call with the same key returns the original result
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO v_existing_id
+    FROM public.point_transactions
+    WHERE user_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN QUERY SELECT v_new_balance, v_new_total_earned, v_existing_id, true;
+      RETURN;
+    END IF;
+  END IF;
+
+  v_new_level := GREATEST(v_old_level, public.level_for_points(v_new_total_earned + p_amount));
+
+  -- Update points and get new values
+  UPDATE public.user_points
+  SET
+    current_balance = current_balance + p_amount,
+    total_earned = total_earned + p_amount,
+    level = v_new_level,
+    updated_at = NOW()
+  WHERE user_id = p_user_id
+  RETURNING current_balance, total_earned
+  INTO v_new_balance, v_new_total_earned;
+
+  -- Append to the ledger in the same transaction
+  INSERT INTO public.point_transactions (
+    user_id, transaction_type, amount, source, description, idempotency_key, balance_after
+  )
+  VALUES (
+    p_user_id, 'earned', p_amount, p_source, COALESCE(p_description, ''), p_idempotency_key,
+    v_new_balance
+  )
+  RETURNING id INTO v_transaction_id;
+
+  -- Record one event per level gained
+  IF v_new_level > v_old_level THEN
+    INSERT INTO public.level_ups (user_id, level, total_earned)
+    SELECT p_user_id, lvl, v_new_total_earned
+    FROM generate_series(v_old_level + 1, v_new_level) AS lvl
+    ON CONFLICT (user_id, level) DO NOTHING;
+  END IF;
+
+  RETURN QUERY SELECT v_new_balance, v_new_total_earned, v_transaction_id, false;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Bring existing users up to the level their total_earned implies
+UPDATE public.user_points
+SET level = public.level_for_points(total_earned)
+WHERE level < public.level_for_points(total_earned);
+
+-- Add helpful comments
+COMMENT ON TABLE public.level_ups IS 'One row per level a user has reached, with when it happened';
+COMMENT ON TABLE public.level_perks IS 'Features unlocked once a user reaches min_level';
+COMMENT ON FUNCTION public.level_for_points IS 'Level implied by total points earned (50 * n * (n - 1) points for level n)';
+COMMENT ON FUNCTION public.has_unlocked_perk IS 'Whether the user''s level meets the perk''s min_level';
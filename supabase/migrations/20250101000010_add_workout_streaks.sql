@@ -0,0 +1,103 @@
+-- Add workout streak support: user time zones and streak freezes
+
+-- Streak days are counted in the user's local time zone
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS timezone TEXT DEFAULT 'UTC' NOT NULL;
+
+-- Streak freezes bought with points to cover a missed day
+CREATE TABLE IF NOT EXISTS public.streak_freezes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  freeze_date DATE NOT NULL,
+  transaction_id UUID REFERENCES public.point_transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT unique_user_freeze_date UNIQUE(user_id, freeze_date)
+);
+
+-- Create index
+CREATE INDEX idx_streak_freezes_user_date ON public.streak_freezes(user_id, freeze_date DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.streak_freezes ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own freezes (created only via purchase_streak_freeze)
+CREATE POLICY "Users can view own streak freezes"
+  ON public.streak_freezes
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Function for the current user to buy a freeze for a missed day
+-- Cost mirrors POINT_VALUES.STREAK_FREEZE in lib/gamification/points.ts
+CREATE OR REPLACE FUNCTION public.purchase_streak_freeze(p_freeze_date DATE)
+RETURNS TABLE(freeze_id UUID, new_balance INTEGER, success BOOLEAN, message TEXT) AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_cost CONSTANT INTEGER := 20;
+  v_max_age_days CONSTANT INTEGER := 7;
+  v_today DATE;
+  v_spend RECORD;
+  v_freeze_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT (NOW() AT TIME ZONE COALESCE(timezone, 'UTC'))::DATE INTO v_today
+  FROM public.profiles
+  WHERE id = v_user_id;
+
+  IF p_freeze_date >= v_today THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, false, 'Only past days can be frozen';
+    RETURN;
+  END IF;
+
+  IF p_freeze_date < v_today - v_max_age_days THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, false,
+      'Freezes can only cover the last ' || v_max_age_days || ' days';
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.workouts
+    WHERE user_id = v_user_id AND workout_date = p_freeze_date
+  ) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, false, 'You already worked out that day';
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.streak_freezes
+    WHERE user_id = v_user_id AND freeze_date = p_freeze_date
+  ) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, false, 'That day is already frozen';
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_spend
+  FROM public.spend_points(
+    v_user_id,
+    v_cost,
+    'streak_freeze',
+    'Streak freeze for ' || p_freeze_date,
+    'streak_freeze:' || p_freeze_date
+  );
+
+  IF NOT v_spend.success THEN
+    RETURN QUERY SELECT NULL::UUID, v_spend.new_balance, false, 'Not enough points';
+    RETURN;
+  END IF;
+
+  INSERT INTO public.streak_freezes (user_id, freeze_date, transaction_id)
+  VALUES (v_user_id, p_freeze_date, v_spend.transaction_id)
+  RETURNING id INTO v_freeze_id;
+
+  RETURN QUERY SELECT v_freeze_id, v_spend.new_balance, true, NULL::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.purchase_streak_freeze(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.purchase_streak_freeze(DATE) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON COLUMN public.profiles.timezone IS 'IANA time zone used to decide which local day a workout or streak falls on';
+COMMENT ON TABLE public.streak_freezes IS 'Days covered by a purchased streak freeze; they keep a streak alive without counting towards it';
+COMMENT ON FUNCTION public.purchase_streak_freeze IS 'Spend points to freeze a missed day in the last week for the current user';
@@ -0,0 +1,8 @@
+-- Baselines are written only by the baseline service (service role)
+-- Users could otherwise lower their own baseline to inflate intensity bonuses
+
+DROP POLICY IF EXISTS "System can insert baselines" ON public.user_baselines;
+DROP POLICY IF EXISTS "System can update baselines" ON public.user_baselines;
+
+-- Add helpful comments
+COMMENT ON COLUMN public.user_baselines.data_points IS 'Number of weeks of data used in calculation (0 for a cold-start default)';
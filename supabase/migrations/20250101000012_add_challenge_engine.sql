@@ -0,0 +1,177 @@
+-- Add the challenge engine: server-side progress tracking for user_challenges
+
+-- Challenges are issued and advanced by the system only. Users could
+-- previously insert challenges and edit current_value themselves.
+DROP POLICY IF EXISTS "System can insert challenges" ON public.user_challenges;
+DROP POLICY IF EXISTS "System can update challenges" ON public.user_challenges;
+
+-- Index for progress lookups
+CREATE INDEX idx_challenges_user_active ON public.user_challenges(user_id, metric) WHERE status = 'active';
+
+-- One challenge per metric per period, so issuing is safe to retry
+CREATE UNIQUE INDEX idx_challenges_user_period ON public.user_challenges(user_id, challenge_type, metric, starts_at);
+
+-- Complete challenges idempotently: the reward is keyed to the challenge
+CREATE OR REPLACE FUNCTION public.check_challenge_completion(p_challenge_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_challenge RECORD;
+BEGIN
+  -- Get challenge details
+  SELECT * INTO v_challenge
+  FROM public.user_challenges
+  WHERE id = p_challenge_id AND status = 'active'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Check if target reached
+  IF v_challenge.current_value >= v_challenge.target_value THEN
+    -- Mark as completed
+    UPDATE public.user_challenges
+    SET
+      status = 'completed',
+      completed_at = NOW()
+    WHERE id = p_challenge_id;
+
+    -- Award points
+    IF v_challenge.points_reward > 0 THEN
+      PERFORM public.award_points(
+        v_challenge.user_id,
+        v_challenge.points_reward,
+        'challenge_completion',
+        'Completed: ' || v_challenge.title,
+        'challenge:' || p_challenge_id
+      );
+    END IF;
+
+    RETURN TRUE;
+  END IF;
+
+  RETURN FALSE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Recompute current_value for a user's active challenges from their workouts
+-- and point ledger, then complete any that reached their target.
+-- Challenge windows are [starts_at, ends_at) in the user's time zone.
+CREATE OR REPLACE FUNCTION public.refresh_challenge_progress(
+  p_user_id UUID,
+  p_metric TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_timezone TEXT;
+  v_challenge RECORD;
+  v_value INTEGER;
+  v_completed INTEGER := 0;
+BEGIN
+  SELECT COALESCE(timezone, 'UTC') INTO v_timezone
+  FROM public.profiles
+  WHERE id = p_user_id;
+
+  FOR v_challenge IN
+    SELECT *
+    FROM public.user_challenges
+    WHERE user_id = p_user_id
+      AND status = 'active'
+      AND (p_metric IS NULL OR metric = p_metric)
+    FOR UPDATE
+  LOOP
+    IF v_challenge.metric = 'points' THEN
+      -- Challenge rewards do not count towards points challenges
+      SELECT COALESCE(SUM(amount), 0) INTO v_value
+      FROM public.point_transactions
+      WHERE user_id = p_user_id
+        AND transaction_type = 'earned'
+        AND source <> 'challenge_completion'
+        AND created_at >= v_challenge.starts_at
+        AND created_at < v_challenge.ends_at;
+    ELSE
+      SELECT
+        CASE v_challenge.metric
+          WHEN 'workouts' THEN COUNT(*)
+          WHEN 'minutes' THEN COALESCE(SUM(duration_minutes), 0)
+          WHEN 'distance' THEN FLOOR(COALESCE(SUM(distance_km), 0))
+          WHEN 'calories' THEN COALESCE(SUM(calories_burned), 0)
+        END
+      INTO v_value
+      FROM public.workouts
+      WHERE user_id = p_user_id
+        AND workout_date >= (v_challenge.starts_at AT TIME ZONE v_timezone)::DATE
+        AND workout_date < (v_challenge.ends_at AT TIME ZONE v_timezone)::DATE;
+    END IF;
+
+    v_value := GREATEST(COALESCE(v_value, 0), 0);
+
+    IF v_value <> v_challenge.current_value THEN
+      UPDATE public.user_challenges
+      SET current_value = v_value
+      WHERE id = v_challenge.id;
+    END IF;
+
+    IF public.check_challenge_completion(v_challenge.id) THEN
+      v_completed := v_completed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_completed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Advance challenges whenever a workout lands, changes or is removed
+CREATE OR REPLACE FUNCTION public.handle_workout_challenge_progress()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_challenge_progress(OLD.user_id);
+  ELSE
+    PERFORM public.refresh_challenge_progress(NEW.user_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_workout_insert_delete_refresh_challenges
+  AFTER INSERT OR DELETE ON public.workouts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_workout_challenge_progress();
+
+CREATE TRIGGER on_workout_update_refresh_challenges
+  AFTER UPDATE ON public.workouts
+  FOR EACH ROW
+  WHEN (
+    OLD.workout_date IS DISTINCT FROM NEW.workout_date OR
+    OLD.duration_minutes IS DISTINCT FROM NEW.duration_minutes OR
+    OLD.distance_km IS DISTINCT FROM NEW.distance_km OR
+    OLD.calories_burned IS DISTINCT FROM NEW.calories_burned
+  )
+  EXECUTE FUNCTION public.handle_workout_challenge_progress();
+
+-- Advance points challenges whenever points are awarded
+CREATE OR REPLACE FUNCTION public.handle_points_challenge_progress()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.refresh_challenge_progress(NEW.user_id, 'points');
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER on_points_earned_refresh_challenges
+  AFTER INSERT ON public.point_transactions
+  FOR EACH ROW
+  WHEN (NEW.transaction_type = 'earned' AND NEW.source <> 'challenge_completion')
+  EXECUTE FUNCTION public.handle_points_challenge_progress();
+
+REVOKE EXECUTE ON FUNCTION public.check_challenge_completion(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.expire_old_challenges() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_challenge_progress(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_challenge_completion(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.expire_old_challenges() TO service_role;
+GRANT EXECUTE ON FUNCTION public.refresh_challenge_progress(UUID, TEXT) TO service_role;
+
+-- Add helpful comments
+COMMENT ON COLUMN public.user_challenges.ends_at IS 'Exclusive end of the challenge window (start of the next period)';
+COMMENT ON FUNCTION public.refresh_challenge_progress IS 'Recompute active challenge progress from workouts and the point ledger, completing any that reached their target';
@@ -0,0 +1,378 @@
+-- Create group challenges shared by several users
+
+-- Shared goal; progress is the sum of every member's contribution
+CREATE TABLE IF NOT EXISTS public.group_challenges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  target_value INTEGER NOT NULL CHECK (target_value > 0),
+  current_value INTEGER DEFAULT 0 NOT NULL,
+  metric TEXT NOT NULL CHECK (metric IN ('workouts', 'minutes', 'distance', 'calories', 'points')),
+  status TEXT DEFAULT 'active' NOT NULL CHECK (status IN ('active', 'completed', 'expired')),
+  points_reward INTEGER DEFAULT 0 NOT NULL CHECK (points_reward >= 0),
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT group_challenge_window CHECK (ends_at > starts_at)
+);
+
+-- Members and what each has contributed
+CREATE TABLE IF NOT EXISTS public.group_challenge_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_challenge_id UUID REFERENCES public.group_challenges(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  contribution INTEGER DEFAULT 0 NOT NULL,
+  reward_points INTEGER,
+  joined_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT unique_group_challenge_member UNIQUE(group_challenge_id, user_id)
+);
+
+-- Create indexes
+CREATE INDEX idx_group_challenges_ends ON public.group_challenges(ends_at) WHERE status = 'active';
+CREATE INDEX idx_group_challenge_members_user ON public.group_challenge_members(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.group_challenges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_challenge_members ENABLE ROW LEVEL SECURITY;
+
+-- Membership check that bypasses RLS, so member policies don't recurse
+CREATE OR REPLACE FUNCTION public.is_group_challenge_member(p_group_challenge_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.group_challenge_members
+    WHERE group_challenge_id = p_group_challenge_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Members can view their group challenges and each other's contributions.
+-- Group challenges are created and advanced by the system only.
+CREATE POLICY "Members can view group challenges"
+  ON public.group_challenges
+  FOR SELECT
+  USING (public.is_group_challenge_member(id));
+
+CREATE POLICY "Members can view group challenge members"
+  ON public.group_challenge_members
+  FOR SELECT
+  USING (public.is_group_challenge_member(group_challenge_id));
+
+-- A user's amount of a challenge metric within [p_starts_at, p_ends_at).
+-- Workouts are matched by their date in the user's time zone; challenge
+-- rewards do not count towards points challenges.
+CREATE OR REPLACE FUNCTION public.challenge_metric_value(
+  p_user_id UUID,
+  p_metric TEXT,
+  p_starts_at TIMESTAMPTZ,
+  p_ends_at TIMESTAMPTZ
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_timezone TEXT;
+  v_value INTEGER;
+BEGIN
+  IF p_metric = 'points' THEN
+    SELECT COALESCE(SUM(amount), 0) INTO v_value
+    FROM public.point_transactions
+    WHERE user_id = p_user_id
+      AND transaction_type = 'earned'
+      AND source <> 'challenge_completion'
+      AND created_at >= p_starts_at
+      AND created_at < p_ends_at;
+  ELSE
+    SELECT COALESCE(timezone, 'UTC') INTO v_timezone
+    FROM public.profiles
+    WHERE id = p_user_id;
+
+    SELECT
+      CASE p_metric
+        WHEN 'workouts' THEN COUNT(*)
+        WHEN 'minutes' THEN COALESCE(SUM(duration_minutes), 0)
+        WHEN 'distance' THEN FLOOR(COALESCE(SUM(distance_km), 0))
+        WHEN 'calories' THEN COALESCE(SUM(calories_burned), 0)
+      END
+    INTO v_value
+    FROM public.workouts
+    WHERE user_id = p_user_id
+      AND workout_date >= (p_starts_at AT TIME ZONE COALESCE(v_timezone, 'UTC'))::DATE
+      AND workout_date < (p_ends_at AT TIME ZONE COALESCE(v_timezone, 'UTC'))::DATE;
+  END IF;
+
+  RETURN GREATEST(COALESCE(v_value, 0), 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Individual challenges now share the metric calculation
+CREATE OR REPLACE FUNCTION public.refresh_challenge_progress(
+  p_user_id UUID,
+  p_metric TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_challenge RECORD;
+  v_value INTEGER;
+  v_completed INTEGER := 0;
+BEGIN
+  FOR v_challenge IN
+    SELECT *
+    FROM public.user_challenges
+    WHERE user_id = p_user_id
+      AND status = 'active'
+      AND (p_metric IS NULL OR metric = p_metric)
+    FOR UPDATE
+  LOOP
+    v_value := public.challenge_metric_value(
+      p_user_id, v_challenge.metric, v_challenge.starts_at, v_challenge.ends_at
+    );
+
+    IF v_value <> v_challenge.current_value THEN
+      UPDATE public.user_challenges
+      SET current_value = v_value
+      WHERE id = v_challenge.id;
+    END IF;
+
+    IF public.check_challenge_completion(v_challenge.id) THEN
+      v_completed := v_completed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_completed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Complete a group challenge and split the reward by contribution. Rounding
+-- leftovers go to the top contributor; each share is awarded once.
+CREATE OR REPLACE FUNCTION public.check_group_challenge_completion(p_group_challenge_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_group RECORD;
+  v_member RECORD;
+  v_remainder INTEGER;
+  v_share INTEGER;
+BEGIN
+  SELECT * INTO v_group
+  FROM public.group_challenges
+  WHERE id = p_group_challenge_id AND status = 'active'
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_group.current_value < v_group.target_value THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.group_challenges
+  SET
+    status = 'completed',
+    completed_at = NOW()
+  WHERE id = p_group_challenge_id;
+
+  SELECT v_group.points_reward - COALESCE(SUM(
+    FLOOR(v_group.points_reward::NUMERIC * contribution / v_group.current_value)
+  ), 0)::INTEGER
+  INTO v_remainder
+  FROM public.group_challenge_members
+  WHERE group_challenge_id = p_group_challenge_id;
+
+  FOR v_member IN
+    SELECT *
+    FROM public.group_challenge_members
+    WHERE group_challenge_id = p_group_challenge_id
+    ORDER BY contribution DESC, joined_at, user_id
+  LOOP
+    v_share := FLOOR(v_group.points_reward::NUMERIC * v_member.contribution / v_group.current_value)
+      + v_remainder;
+    v_remainder := 0;
+
+    UPDATE public.group_challenge_members
+    SET reward_points = v_share
+    WHERE id = v_member.id;
+
+    IF v_share > 0 THEN
+      PERFORM public.award_points(
+        v_member.user_id,
+        v_share,
+        'challenge_completion',
+        'Group challenge completed: ' || v_group.title,
+        'group_challenge:' || p_group_challenge_id || ':' || v_member.user_id
+      );
+    END IF;
+  END LOOP;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Recompute contributions for one member (or all when p_user_id is NULL),
+-- update the group total and complete the challenge if the target is reached
+CREATE OR REPLACE FUNCTION public.refresh_group_challenge(
+  p_group_challenge_id UUID,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_group RECORD;
+BEGIN
+  SELECT * INTO v_group
+  FROM public.group_challenges
+  WHERE id = p_group_challenge_id AND status = 'active'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.group_challenge_members
+  SET contribution = public.challenge_metric_value(
+    user_id, v_group.metric, v_group.starts_at, v_group.ends_at
+  )
+  WHERE group_challenge_id = p_group_challenge_id
+    AND (p_user_id IS NULL OR user_id = p_user_id);
+
+  UPDATE public.group_challenges
+  SET current_value = (
+    SELECT COALESCE(SUM(contribution), 0)
+    FROM public.group_challenge_members
+    WHERE group_challenge_id = p_group_challenge_id
+  )
+  WHERE id = p_group_challenge_id;
+
+  RETURN public.check_group_challenge_completion(p_group_challenge_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Refresh every active group challenge a user belongs to
+CREATE OR REPLACE FUNCTION public.refresh_group_challenge_progress(
+  p_user_id UUID,
+  p_metric TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_group_challenge_id UUID;
+  v_completed INTEGER := 0;
+BEGIN
+  FOR v_group_challenge_id IN
+    SELECT g.id
+    FROM public.group_challenges g
+    JOIN public.group_challenge_members m ON m.group_challenge_id = g.id
+    WHERE m.user_id = p_user_id
+      AND g.status = 'active'
+      AND (p_metric IS NULL OR g.metric = p_metric)
+    ORDER BY g.id
+  LOOP
+    IF public.refresh_group_challenge(v_group_challenge_id, p_user_id) THEN
+      v_completed := v_completed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_completed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create a group challenge with its members in one step. Validation and
+-- reward sizing happen in lib/gamification/group-challenges.ts.
+CREATE OR REPLACE FUNCTION public.create_group_challenge(
+  p_created_by UUID,
+  p_title TEXT,
+  p_description TEXT,
+  p_metric TEXT,
+  p_target_value INTEGER,
+  p_points_reward INTEGER,
+  p_starts_at TIMESTAMPTZ,
+  p_ends_at TIMESTAMPTZ,
+  p_member_ids UUID[]
+)
+RETURNS UUID AS $$
+DECLARE
+  v_group_challenge_id UUID;
+BEGIN
+  INSERT INTO public.group_challenges (
+    created_by, title, description, metric, target_value, points_reward, starts_at, ends_at
+  )
+  VALUES (
+    p_created_by, p_title, p_description, p_metric, p_target_value, p_points_reward,
+    p_starts_at, p_ends_at
+  )
+  RETURNING id INTO v_group_challenge_id;
+
+  INSERT INTO public.group_challenge_members (group_challenge_id, user_id)
+  SELECT DISTINCT v_group_challenge_id, member_id
+  FROM unnest(array_append(p_member_ids, p_created_by)) AS member_id;
+
+  -- Count anything members already did inside the window
+  PERFORM public.refresh_group_challenge(v_group_challenge_id);
+
+  RETURN v_group_challenge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Workouts and point awards advance group challenges too
+CREATE OR REPLACE FUNCTION public.handle_workout_challenge_progress()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_challenge_progress(OLD.user_id);
+    PERFORM public.refresh_group_challenge_progress(OLD.user_id);
+  ELSE
+    PERFORM public.refresh_challenge_progress(NEW.user_id);
+    PERFORM public.refresh_group_challenge_progress(NEW.user_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.handle_points_challenge_progress()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.refresh_challenge_progress(NEW.user_id, 'points');
+  PERFORM public.refresh_group_challenge_progress(NEW.user_id, 'points');
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Expire group challenges alongside individual ones
+CREATE OR REPLACE FUNCTION public.expire_old_challenges()
+RETURNS INTEGER AS $$
+DECLARE
+  v_expired_count INTEGER;
+  v_group_expired_count INTEGER;
+BEGIN
+  UPDATE public.user_challenges
+  SET status = 'expired'
+  WHERE status = 'active'
+    AND ends_at < NOW()
+    AND current_value < target_value;
+
+  GET DIAGNOSTICS v_expired_count = ROW_COUNT;
+
+  UPDATE public.group_challenges
+  SET status = 'expired'
+  WHERE status = 'active'
+    AND ends_at < NOW()
+    AND current_value < target_value;
+
+  GET DIAGNOSTICS v_group_expired_count = ROW_COUNT;
+
+  RETURN v_expired_count + v_group_expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.challenge_metric_value(UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_group_challenge_completion(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_group_challenge(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_group_challenge_progress(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_group_challenge(UUID, TEXT, TEXT, TEXT, INTEGER, INTEGER, TIMESTAMPTZ, TIMESTAMPTZ, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.challenge_metric_value(UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION public.check_group_challenge_completion(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.refresh_group_challenge(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.refresh_group_challenge_progress(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.create_group_challenge(UUID, TEXT, TEXT, TEXT, INTEGER, INTEGER, TIMESTAMPTZ, TIMESTAMPTZ, UUID[]) TO service_role;
+
+-- Add helpful comments
+COMMENT ON TABLE public.group_challenges IS 'Challenges shared by several users; progress adds up every member''s contribution';
+COMMENT ON TABLE public.group_challenge_members IS 'Members of a group challenge with their contribution and reward share';
+COMMENT ON COLUMN public.group_challenges.metric IS 'Same vocabulary as user_challenges.metric: workouts, minutes, distance, calories, or points';
+COMMENT ON COLUMN public.group_challenges.points_reward IS 'Total reward pool, split between members by contribution';
+COMMENT ON COLUMN public.group_challenge_members.reward_points IS 'Share of the reward pool, set when the challenge completes';
+COMMENT ON FUNCTION public.challenge_metric_value IS 'A user''s amount of a challenge metric within a time window';
+COMMENT ON FUNCTION public.refresh_group_challenge IS 'Recompute member contributions and the group total, completing the challenge if the target is reached';
+COMMENT ON FUNCTION public.create_group_challenge IS 'Create a group challenge and its members atomically (service role only)';
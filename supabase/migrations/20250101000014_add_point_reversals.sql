@@ -0,0 +1,547 @@
+-- Add point reversals and refunds: compensating ledger entries for edited or
+-- deleted workouts and for refunded spends
+
+-- Reversals take back earned points; refunds give back spent points.
+-- Both point at the transaction they compensate.
+ALTER TABLE public.point_transactions
+  ADD COLUMN IF NOT EXISTS reverses_transaction_id UUID REFERENCES public.point_transactions(id) ON DELETE CASCADE;
+
+ALTER TABLE public.point_transactions DROP CONSTRAINT IF EXISTS point_transactions_transaction_type_check;
+ALTER TABLE public.point_transactions
+  ADD CONSTRAINT point_transactions_transaction_type_check
+  CHECK (transaction_type IN ('earned', 'spent', 'reversal', 'refund'));
+
+ALTER TABLE public.point_transactions DROP CONSTRAINT IF EXISTS point_transaction_sign;
+ALTER TABLE public.point_transactions
+  ADD CONSTRAINT point_transaction_sign CHECK (
+    (transaction_type = 'earned' AND amount > 0) OR
+    (transaction_type = 'spent' AND amount < 0) OR
+    (transaction_type = 'reversal' AND amount < 0 AND reverses_transaction_id IS NOT NULL) OR
+    (transaction_type = 'refund' AND amount > 0 AND reverses_transaction_id IS NOT NULL)
+  );
+
+CREATE INDEX idx_point_transactions_reverses ON public.point_transactions(reverses_transaction_id)
+  WHERE reverses_transaction_id IS NOT NULL;
+
+-- Points a reversal could not take from the balance because they were
+-- already spent. Later awards pay the debt off before the balance grows.
+ALTER TABLE public.user_points
+  ADD COLUMN IF NOT EXISTS points_debt INTEGER DEFAULT 0 NOT NULL CHECK (points_debt >= 0);
+
+-- Awards pay off outstanding debt first
+CREATE OR REPLACE FUNCTION public.award_points(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_source TEXT DEFAULT 'manual',
+  p_description TEXT DEFAULT '',
+  p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  new_balance INTEGER,
+  new_total_earned INTEGER,
+  transaction_id UUID,
+  already_applied BOOLEAN
+) AS $$
+DECLARE
+  v_new_balance INTEGER;
+  v_new_total_earned INTEGER;
+  v_old_level INTEGER;
+  v_new_level INTEGER;
+  v_debt INTEGER;
+  v_paydown INTEGER;
+  v_existing_id UUID;
+  v_transaction_id UUID;
+BEGIN
+  -- Validate amount is positive
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Points amount must be positive';
+  END IF;
+
+  -- Lock the user's points row so concurrent calls are serialized
+  SELECT current_balance, total_earned, level, points_debt
+  INTO v_new_balance, v_new_total_earned, v_old_level, v_debt
+  FROM public.user_points
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No points account for user %', p_user_id;
+  END IF;
+
+  -- A retried call with the same key returns the original result
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO v_existing_id
+    FROM public.point_transactions
+    WHERE user_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN QUERY SELECT v_new_balance, v_new_total_earned, v_existing_id, true;
+      RETURN;
+    END IF;
+  END IF;
+
+  v_new_level := GREATEST(v_old_level, public.level_for_points(v_new_total_earned + p_amount));
+  v_paydown := LEAST(v_debt, p_amount);
+
+  -- Update points and get new values
+  UPDATE public.user_points
+  SET
+    current_balance = current_balance + p_amount - v_paydown,
+    points_debt = points_debt - v_paydown,
+    total_earned = total_earned + p_amount,
+    level = v_new_level,
+    updated_at = NOW()
+  WHERE user_id = p_user_id
+  RETURNING current_balance, total_earned
+  INTO v_new_balance, v_new_total_earned;
+
+  -- Append to the ledger in the same transaction
+  INSERT INTO public.point_transactions (
+    user_id, transaction_type, amount, source, description, idempotency_key, balance_after
+  )
+  VALUES (
+    p_user_id, 'earned', p_amount, p_source, COALESCE(p_description, ''), p_idempotency_key,
+    v_new_balance
+  )
+  RETURNING id INTO v_transaction_id;
+
+  -- Record one event per level gained
+  IF v_new_level > v_old_level THEN
+    INSERT INTO public.level_ups (user_id, level, total_earned)
+    SELECT p_user_id, lvl, v_new_total_earned
+    FROM generate_series(v_old_level + 1, v_new_level) AS lvl
+    ON CONFLICT (user_id, level) DO NOTHING;
+  END IF;
+
+  RETURN QUERY SELECT v_new_balance, v_new_total_earned, v_transaction_id, false;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Compensate an earned or spent transaction, in full or in part.
+-- Reversing earned points never fails for lack of balance: whatever the
+-- balance cannot cover becomes points_debt. Levels already reached are kept.
+CREATE OR REPLACE FUNCTION public.reverse_points(
+  p_transaction_id UUID,
+  p_amount INTEGER DEFAULT NULL,
+  p_description TEXT DEFAULT '',
+  p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  new_balance INTEGER,
+  new_debt INTEGER,
+  transaction_id UUID,
+  already_applied BOOLEAN
+) AS $$
+DECLARE
+  v_original RECORD;
+  v_balance INTEGER;
+  v_debt INTEGER;
+  v_reversed INTEGER;
+  v_amount INTEGER;
+  v_from_balance INTEGER;
+  v_paydown INTEGER;
+  v_existing_id UUID;
+  v_transaction_id UUID;
+BEGIN
+  SELECT * INTO v_original
+  FROM public.point_transactions
+  WHERE id = p_transaction_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Point transaction % not found', p_transaction_id;
+  END IF;
+
+  IF v_original.transaction_type NOT IN ('earned', 'spent') THEN
+    RAISE EXCEPTION 'Only earned or spent transactions can be reversed';
+  END IF;
+
+  -- Lock the user's points row so concurrent calls are serialized
+  SELECT current_balance, points_debt INTO v_balance, v_debt
+  FROM public.user_points
+  WHERE user_id = v_original.user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No points account for user %', v_original.user_id;
+  END IF;
+
+  -- A retried call with the same key returns the original result
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO v_existing_id
+    FROM public.point_transactions
+    WHERE user_id = v_original.user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN QUERY SELECT v_balance, v_debt, v_existing_id, true;
+      RETURN;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(SUM(ABS(amount)), 0) INTO v_reversed
+  FROM public.point_transactions
+  WHERE reverses_transaction_id = p_transaction_id;
+
+  v_amount := COALESCE(p_amount, ABS(v_original.amount) - v_reversed);
+
+  IF v_amount <= 0 OR v_amount > ABS(v_original.amount) - v_reversed THEN
+    RAISE EXCEPTION 'Can only reverse up to % more points of transaction %',
+      ABS(v_original.amount) - v_reversed, p_transaction_id;
+  END IF;
+
+  IF v_original.transaction_type = 'earned' THEN
+    v_from_balance := LEAST(v_balance, v_amount);
+
+    UPDATE public.user_points
+    SET
+      current_balance = current_balance - v_from_balance,
+      points_debt = points_debt + (v_amount - v_from_balance),
+      total_earned = total_earned - v_amount,
+      updated_at = NOW()
+    WHERE user_id = v_original.user_id
+    RETURNING current_balance, points_debt INTO v_balance, v_debt;
+
+    INSERT INTO public.point_transactions (
+      user_id, transaction_type, amount, source, description, idempotency_key, balance_after,
+      reverses_transaction_id
+    )
+    VALUES (
+      v_original.user_id, 'reversal', -v_amount, v_original.source, COALESCE(p_description, ''),
+      p_idempotency_key, v_balance, p_transaction_id
+    )
+    RETURNING id INTO v_transaction_id;
+  ELSE
+    v_paydown := LEAST(v_debt, v_amount);
+
+    UPDATE public.user_points
+    SET
+      current_balance = current_balance + v_amount - v_paydown,
+      points_debt = points_debt - v_paydown,
+      total_spent = total_spent - v_amount,
+      updated_at = NOW()
+    WHERE user_id = v_original.user_id
+    RETURNING current_balance, points_debt INTO v_balance, v_debt;
+
+    INSERT INTO public.point_transactions (
+      user_id, transaction_type, amount, source, description, idempotency_key, balance_after,
+      reverses_transaction_id
+    )
+    VALUES (
+      v_original.user_id, 'refund', v_amount, v_original.source, COALESCE(p_description, ''),
+      p_idempotency_key, v_balance, p_transaction_id
+    )
+    RETURNING id INTO v_transaction_id;
+  END IF;
+
+  RETURN QUERY SELECT v_balance, v_debt, v_transaction_id, false;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Take back points credited for a workout, newest credit first. Each credit
+-- is reversed under its own key derived from p_idempotency_key.
+CREATE OR REPLACE FUNCTION public.reverse_workout_points(
+  p_workout_id UUID,
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_description TEXT,
+  p_idempotency_key TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_credit RECORD;
+  v_left INTEGER := p_amount;
+  v_part INTEGER;
+BEGIN
+  FOR v_credit IN
+    SELECT
+      pt.id,
+      pt.amount - COALESCE((
+        SELECT SUM(ABS(r.amount))
+        FROM public.point_transactions r
+        WHERE r.reverses_transaction_id = pt.id
+      ), 0) AS remaining
+    FROM public.point_transactions pt
+    WHERE pt.user_id = p_user_id
+      AND pt.transaction_type = 'earned'
+      AND (pt.idempotency_key = 'workout:' || p_workout_id OR
+           pt.idempotency_key LIKE 'workout:' || p_workout_id || ':rescore:%')
+    ORDER BY pt.created_at DESC, pt.id
+  LOOP
+    EXIT WHEN v_left <= 0;
+    CONTINUE WHEN v_credit.remaining <= 0;
+
+    v_part := LEAST(v_left, v_credit.remaining);
+    PERFORM public.reverse_points(
+      v_credit.id, v_part, p_description, p_idempotency_key || ':' || v_credit.id
+    );
+    v_left := v_left - v_part;
+  END LOOP;
+
+  RETURN p_amount - v_left;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Credit or re-credit a workout. A re-scored workout (scored_at reset by an
+-- edit) is adjusted by the difference from what it was credited before.
+CREATE OR REPLACE FUNCTION public.credit_workout_points(
+  p_workout_id UUID,
+  p_points INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_workout RECORD;
+  v_delta INTEGER;
+  v_key TEXT;
+BEGIN
+  IF p_points < 0 THEN
+    RAISE EXCEPTION 'Workout points cannot be negative';
+  END IF;
+
+  -- Lock the workout so concurrent scoring runs are serialized
+  SELECT * INTO v_workout
+  FROM public.workouts
+  WHERE id = p_workout_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % not found', p_workout_id;
+  END IF;
+
+  -- Already scored: keep the original result
+  IF v_workout.scored_at IS NOT NULL THEN
+    RETURN v_workout.points_earned;
+  END IF;
+
+  v_delta := p_points - v_workout.points_earned;
+
+  -- The first credit keeps the plain workout key; later adjustments are numbered
+  IF EXISTS (
+    SELECT 1 FROM public.point_transactions
+    WHERE user_id = v_workout.user_id AND idempotency_key = 'workout:' || p_workout_id
+  ) THEN
+    SELECT 'workout:' || p_workout_id || ':rescore:'
+      || (COALESCE(MAX(split_part(idempotency_key, ':', 4)::INTEGER), 0) + 1)
+    INTO v_key
+    FROM public.point_transactions
+    WHERE user_id = v_workout.user_id
+      AND idempotency_key LIKE 'workout:' || p_workout_id || ':rescore:%';
+  ELSE
+    v_key := 'workout:' || p_workout_id;
+  END IF;
+
+  IF v_delta > 0 THEN
+    PERFORM public.award_points(
+      v_workout.user_id,
+      v_delta,
+      'workout',
+      CASE WHEN v_workout.points_earned = 0 THEN 'Workout: ' ELSE 'Workout re-scored: ' END
+        || v_workout.workout_type,
+      v_key
+    );
+  ELSIF v_delta < 0 THEN
+    PERFORM public.reverse_workout_points(
+      p_workout_id,
+      v_workout.user_id,
+      -v_delta,
+      'Workout re-scored: ' || v_workout.workout_type,
+      v_key
+    );
+  END IF;
+
+  UPDATE public.workouts
+  SET
+    points_earned = p_points,
+    scored_at = NOW()
+  WHERE id = p_workout_id;
+
+  RETURN p_points;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Editing anything that affects scoring queues the workout for re-scoring.
+-- Runs after protect_workout_scoring (triggers fire in name order), so the
+-- reset is not undone for user edits.
+CREATE OR REPLACE FUNCTION public.reset_workout_scoring()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.scored_at IS NOT NULL AND (
+    OLD.workout_date IS DISTINCT FROM NEW.workout_date OR
+    OLD.workout_type IS DISTINCT FROM NEW.workout_type OR
+    OLD.duration_minutes IS DISTINCT FROM NEW.duration_minutes OR
+    OLD.distance_km IS DISTINCT FROM NEW.distance_km
+  ) THEN
+    NEW.scored_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER reset_workout_scoring
+  BEFORE UPDATE ON public.workouts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_workout_scoring();
+
+-- Deleting a workout reverses its points. Skipped when the whole account is
+-- being deleted (the profile or points row is already gone).
+CREATE OR REPLACE FUNCTION public.reverse_deleted_workout_points()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.points_earned > 0
+    AND EXISTS (SELECT 1 FROM public.profiles WHERE id = OLD.user_id)
+    AND EXISTS (SELECT 1 FROM public.user_points WHERE user_id = OLD.user_id)
+  THEN
+    PERFORM public.reverse_workout_points(
+      OLD.id,
+      OLD.user_id,
+      OLD.points_earned,
+      'Workout deleted: ' || OLD.workout_type,
+      'workout_deleted:' || OLD.id
+    );
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER reverse_deleted_workout_points
+  BEFORE DELETE ON public.workouts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reverse_deleted_workout_points();
+
+-- Reversed points no longer count towards points challenges
+CREATE OR REPLACE FUNCTION public.challenge_metric_value(
+  p_user_id UUID,
+  p_metric TEXT,
+  p_starts_at TIMESTAMPTZ,
+  p_ends_at TIMESTAMPTZ
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_timezone TEXT;
+  v_value INTEGER;
+BEGIN
+  IF p_metric = 'points' THEN
+    SELECT COALESCE(SUM(amount), 0) INTO v_value
+    FROM public.point_transactions
+    WHERE user_id = p_user_id
+      AND transaction_type IN ('earned', 'reversal')
+      AND source <> 'challenge_completion'
+      AND created_at >= p_starts_at
+      AND created_at < p_ends_at;
+  ELSE
+    SELECT COALESCE(timezone, 'UTC') INTO v_timezone
+    FROM public.profiles
+    WHERE id = p_user_id;
+
+    SELECT
+      CASE p_metric
+        WHEN 'workouts' THEN COUNT(*)
+        WHEN 'minutes' THEN COALESCE(SUM(duration_minutes), 0)
+        WHEN 'distance' THEN FLOOR(COALESCE(SUM(distance_km), 0))
+        WHEN 'calories' THEN COALESCE(SUM(calories_burned), 0)
+      END
+    INTO v_value
+    FROM public.workouts
+    WHERE user_id = p_user_id
+      AND workout_date >= (p_starts_at AT TIME ZONE COALESCE(v_timezone, 'UTC'))::DATE
+      AND workout_date < (p_ends_at AT TIME ZONE COALESCE(v_timezone, 'UTC'))::DATE;
+  END IF;
+
+  RETURN GREATEST(COALESCE(v_value, 0), 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_points_earned_refresh_challenges ON public.point_transactions;
+
+CREATE TRIGGER on_points_earned_refresh_challenges
+  AFTER INSERT ON public.point_transactions
+  FOR EACH ROW
+  WHEN (NEW.transaction_type IN ('earned', 'reversal') AND NEW.source <> 'challenge_completion')
+  EXECUTE FUNCTION public.handle_points_challenge_progress();
+
+-- Reconcile with reversals, refunds and debt. stored_balance is the net
+-- position (current_balance - points_debt), which the ledger sum must match.
+CREATE OR REPLACE FUNCTION public.reconcile_user_points(
+  p_user_id UUID DEFAULT NULL,
+  p_apply BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE(
+  user_id UUID,
+  stored_balance INTEGER,
+  ledger_balance INTEGER,
+  stored_total_earned INTEGER,
+  ledger_total_earned INTEGER,
+  stored_total_spent INTEGER,
+  ledger_total_spent INTEGER,
+  has_drift BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH ledger AS (
+    SELECT
+      up.user_id,
+      up.current_balance - up.points_debt AS stored_balance,
+      up.total_earned AS stored_total_earned,
+      up.total_spent AS stored_total_spent,
+      COALESCE(SUM(pt.amount), 0)::INTEGER AS ledger_balance,
+      COALESCE(SUM(pt.amount) FILTER (WHERE pt.transaction_type IN ('earned', 'reversal')), 0)::INTEGER
+        AS ledger_total_earned,
+      COALESCE(-SUM(pt.amount) FILTER (WHERE pt.transaction_type IN ('spent', 'refund')), 0)::INTEGER
+        AS ledger_total_spent
+    FROM public.user_points up
+    LEFT JOIN public.point_transactions pt ON pt.user_id = up.user_id
+    WHERE p_user_id IS NULL OR up.user_id = p_user_id
+    GROUP BY up.user_id, up.current_balance, up.points_debt, up.total_earned, up.total_spent
+  )
+  SELECT
+    l.user_id,
+    l.stored_balance,
+    l.ledger_balance,
+    l.stored_total_earned,
+    l.ledger_total_earned,
+    l.stored_total_spent,
+    l.ledger_total_spent,
+    (l.stored_balance <> l.ledger_balance OR
+     l.stored_total_earned <> l.ledger_total_earned OR
+     l.stored_total_spent <> l.ledger_total_spent)
+  FROM ledger l;
+
+  -- Optionally correct drifted rows to match the ledger
+  IF p_apply THEN
+    UPDATE public.user_points up
+    SET
+      current_balance = GREATEST(l.ledger_balance, 0),
+      points_debt = GREATEST(-l.ledger_balance, 0),
+      total_earned = l.ledger_total_earned,
+      total_spent = l.ledger_total_spent,
+      updated_at = NOW()
+    FROM (
+      SELECT
+        up2.user_id,
+        COALESCE(SUM(pt.amount), 0)::INTEGER AS ledger_balance,
+        COALESCE(SUM(pt.amount) FILTER (WHERE pt.transaction_type IN ('earned', 'reversal')), 0)::INTEGER
+          AS ledger_total_earned,
+        COALESCE(-SUM(pt.amount) FILTER (WHERE pt.transaction_type IN ('spent', 'refund')), 0)::INTEGER
+          AS ledger_total_spent
+      FROM public.user_points up2
+      LEFT JOIN public.point_transactions pt ON pt.user_id = up2.user_id
+      WHERE p_user_id IS NULL OR up2.user_id = p_user_id
+      GROUP BY up2.user_id
+    ) l
+    WHERE up.user_id = l.user_id
+      AND (up.current_balance - up.points_debt <> l.ledger_balance OR
+           up.total_earned <> l.ledger_total_earned OR
+           up.total_spent <> l.ledger_total_spent);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.reverse_points(UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reverse_workout_points(UUID, UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reverse_points(UUID, INTEGER, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reverse_workout_points(UUID, UUID, INTEGER, TEXT, TEXT) TO service_role;
+
+-- Add helpful comments
+COMMENT ON COLUMN public.point_transactions.amount IS 'Signed amount: positive when earned or refunded, negative when spent or reversed';
+COMMENT ON COLUMN public.point_transactions.reverses_transaction_id IS 'The earned or spent transaction a reversal or refund compensates';
+COMMENT ON COLUMN public.user_points.points_debt IS 'Reversed points the balance could not cover; paid off by later awards';
+COMMENT ON FUNCTION public.reverse_points IS 'Reverse earned points or refund spent points with a compensating ledger entry';
+COMMENT ON FUNCTION public.reverse_workout_points IS 'Reverse points credited for a workout, newest credit first';
@@ -0,0 +1,184 @@
+-- Add weekly goal tracking driven by user_points.weekly_goal
+
+-- When the goal last changed and what it was before, so a week is always
+-- judged against the goal that was in effect when it started
+ALTER TABLE public.user_points ADD COLUMN IF NOT EXISTS weekly_goal_changed_at TIMESTAMPTZ;
+ALTER TABLE public.user_points ADD COLUMN IF NOT EXISTS previous_weekly_goal INTEGER;
+
+-- One row per evaluated local week (Monday to Sunday)
+CREATE TABLE IF NOT EXISTS public.weekly_goal_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  week_start DATE NOT NULL,
+  goal INTEGER NOT NULL CHECK (goal > 0),
+  points_earned INTEGER NOT NULL,
+  met BOOLEAN NOT NULL,
+  transaction_id UUID REFERENCES public.point_transactions(id) ON DELETE SET NULL,
+  evaluated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT unique_user_goal_week UNIQUE(user_id, week_start)
+);
+
+-- Create index
+CREATE INDEX idx_weekly_goal_results_user_week ON public.weekly_goal_results(user_id, week_start DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.weekly_goal_results ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own results (written only by evaluate_weekly_goal)
+CREATE POLICY "Users can view own weekly goal results"
+  ON public.weekly_goal_results
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Evaluate one finished local week and award the bonus if the goal was met.
+-- Bonus mirrors POINT_VALUES.WEEKLY_GOAL_MET in lib/gamification/points.ts
+CREATE OR REPLACE FUNCTION public.evaluate_weekly_goal(p_user_id UUID, p_week_start DATE)
+RETURNS SETOF public.weekly_goal_results AS $$
+DECLARE
+  v_bonus CONSTANT INTEGER := 25;
+  v_points RECORD;
+  v_timezone TEXT;
+  v_starts_at TIMESTAMPTZ;
+  v_ends_at TIMESTAMPTZ;
+  v_goal INTEGER;
+  v_earned INTEGER;
+  v_award RECORD;
+  v_result_id UUID;
+BEGIN
+  IF EXTRACT(ISODOW FROM p_week_start) <> 1 THEN
+    RAISE EXCEPTION 'Weeks start on Monday';
+  END IF;
+
+  -- Lock the points row so a week is only evaluated once
+  SELECT * INTO v_points
+  FROM public.user_points
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No points account for user %', p_user_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.weekly_goal_results
+    WHERE user_id = p_user_id AND week_start = p_week_start
+  ) THEN
+    RETURN QUERY SELECT * FROM public.weekly_goal_results
+      WHERE user_id = p_user_id AND week_start = p_week_start;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(timezone, 'UTC') INTO v_timezone
+  FROM public.profiles
+  WHERE id = p_user_id;
+
+  v_starts_at := p_week_start::TIMESTAMP AT TIME ZONE v_timezone;
+  v_ends_at := (p_week_start + 7)::TIMESTAMP AT TIME ZONE v_timezone;
+
+  IF v_ends_at > NOW() THEN
+    RAISE EXCEPTION 'Week of % has not ended yet', p_week_start;
+  END IF;
+
+  -- A goal changed during or after the week does not apply to it
+  v_goal := CASE
+    WHEN v_points.weekly_goal_changed_at >= v_starts_at
+      THEN COALESCE(v_points.previous_weekly_goal, v_points.weekly_goal)
+    ELSE v_points.weekly_goal
+  END;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_earned
+  FROM public.point_transactions
+  WHERE user_id = p_user_id
+    AND transaction_type IN ('earned', 'reversal')
+    AND source <> 'weekly_goal'
+    AND created_at >= v_starts_at
+    AND created_at < v_ends_at;
+
+  INSERT INTO public.weekly_goal_results (user_id, week_start, goal, points_earned, met)
+  VALUES (p_user_id, p_week_start, v_goal, v_earned, v_earned >= v_goal)
+  RETURNING id INTO v_result_id;
+
+  IF v_earned >= v_goal THEN
+    SELECT * INTO v_award
+    FROM public.award_points(
+      p_user_id,
+      v_bonus,
+      'weekly_goal',
+      'Weekly goal met: ' || v_earned || '/' || v_goal || ' points',
+      'weekly_goal:' || p_week_start
+    );
+
+    UPDATE public.weekly_goal_results
+    SET transaction_id = v_award.transaction_id
+    WHERE id = v_result_id;
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.weekly_goal_results WHERE id = v_result_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function for the current user to change their weekly goal, at most once
+-- every 7 days. Limits mirror lib/gamification/weekly-goals.ts
+CREATE OR REPLACE FUNCTION public.set_weekly_goal(p_goal INTEGER)
+RETURNS TABLE(weekly_goal INTEGER, next_change_at TIMESTAMPTZ, success BOOLEAN, message TEXT) AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_min_goal CONSTANT INTEGER := 10;
+  v_max_goal CONSTANT INTEGER := 5000;
+  v_change_interval CONSTANT INTERVAL := INTERVAL '7 days';
+  v_points RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_points
+  FROM public.user_points up
+  WHERE up.user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No points account for user %', v_user_id;
+  END IF;
+
+  IF p_goal IS NULL OR p_goal < v_min_goal OR p_goal > v_max_goal THEN
+    RETURN QUERY SELECT v_points.weekly_goal, NULL::TIMESTAMPTZ, false,
+      'Weekly goal must be between ' || v_min_goal || ' and ' || v_max_goal || ' points';
+    RETURN;
+  END IF;
+
+  IF p_goal = v_points.weekly_goal THEN
+    RETURN QUERY SELECT v_points.weekly_goal, NULL::TIMESTAMPTZ, false,
+      'That is already your weekly goal';
+    RETURN;
+  END IF;
+
+  IF v_points.weekly_goal_changed_at > NOW() - v_change_interval THEN
+    RETURN QUERY SELECT v_points.weekly_goal, v_points.weekly_goal_changed_at + v_change_interval,
+      false, 'Your weekly goal can only be changed once every 7 days';
+    RETURN;
+  END IF;
+
+  UPDATE public.user_points up
+  SET
+    previous_weekly_goal = up.weekly_goal,
+    weekly_goal = p_goal,
+    weekly_goal_changed_at = NOW()
+  WHERE up.user_id = v_user_id;
+
+  RETURN QUERY SELECT p_goal, NOW() + v_change_interval, true, NULL::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_weekly_goal(UUID, DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.evaluate_weekly_goal(UUID, DATE) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.set_weekly_goal(INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_weekly_goal(INTEGER) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON TABLE public.weekly_goal_results IS 'Per-week history of whether the user hit their weekly points goal';
+COMMENT ON COLUMN public.weekly_goal_results.points_earned IS 'Points earned in the local week, net of reversals and excluding the weekly goal bonus';
+COMMENT ON COLUMN public.user_points.weekly_goal_changed_at IS 'When weekly_goal last changed; changes are limited to once every 7 days';
+COMMENT ON COLUMN public.user_points.previous_weekly_goal IS 'Goal before the last change, used for the week the change happened in';
+COMMENT ON FUNCTION public.evaluate_weekly_goal IS 'Record whether a finished week met the goal and award the bonus once';
+COMMENT ON FUNCTION public.set_weekly_goal IS 'Change the current user''s weekly goal (rate limited)';
@@ -0,0 +1,195 @@
+-- Hold implausible workouts for review instead of scoring them
+
+-- NULL means the workout passed validation. Flagged workouts are 'pending'
+-- until a reviewer approves or rejects them.
+ALTER TABLE public.workouts ADD COLUMN IF NOT EXISTS review_status TEXT
+  CHECK (review_status IN ('pending', 'approved', 'rejected'));
+ALTER TABLE public.workouts ADD COLUMN IF NOT EXISTS review_flags JSONB;
+ALTER TABLE public.workouts ADD COLUMN IF NOT EXISTS review_note TEXT;
+ALTER TABLE public.workouts ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+-- The review queue, oldest first
+CREATE INDEX idx_workouts_review_queue ON public.workouts(created_at)
+  WHERE review_status = 'pending';
+
+-- Users cannot set or clear review fields themselves
+CREATE OR REPLACE FUNCTION public.protect_workout_scoring()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.points_earned := 0;
+      NEW.scored_at := NULL;
+      NEW.review_status := NULL;
+      NEW.review_flags := NULL;
+      NEW.review_note := NULL;
+      NEW.reviewed_at := NULL;
+    ELSE
+      NEW.points_earned := OLD.points_earned;
+      NEW.scored_at := OLD.scored_at;
+      NEW.review_status := OLD.review_status;
+      NEW.review_flags := OLD.review_flags;
+      NEW.review_note := OLD.review_note;
+      NEW.reviewed_at := OLD.reviewed_at;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Editing a flagged or approved workout validates it again on re-scoring.
+-- A rejection stands.
+CREATE OR REPLACE FUNCTION public.reset_workout_scoring()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.scored_at IS NOT NULL AND (
+    OLD.workout_date IS DISTINCT FROM NEW.workout_date OR
+    OLD.workout_type IS DISTINCT FROM NEW.workout_type OR
+    OLD.duration_minutes IS DISTINCT FROM NEW.duration_minutes OR
+    OLD.distance_km IS DISTINCT FROM NEW.distance_km OR
+    OLD.heart_rate_avg IS DISTINCT FROM NEW.heart_rate_avg
+  ) THEN
+    NEW.scored_at := NULL;
+
+    IF NEW.review_status IN ('pending', 'approved') THEN
+      NEW.review_status := NULL;
+      NEW.review_flags := NULL;
+      NEW.review_note := NULL;
+      NEW.reviewed_at := NULL;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Put a workout in the review queue and score it at zero. Any points it was
+-- credited before an edit are reversed. A rejected workout stays rejected.
+CREATE OR REPLACE FUNCTION public.hold_workout_for_review(
+  p_workout_id UUID,
+  p_flags JSONB
+)
+RETURNS INTEGER AS $$
+BEGIN
+  UPDATE public.workouts
+  SET
+    review_status = 'pending',
+    review_flags = p_flags,
+    review_note = NULL,
+    reviewed_at = NULL
+  WHERE id = p_workout_id
+    AND scored_at IS NULL
+    AND review_status IS DISTINCT FROM 'rejected';
+
+  RETURN public.credit_workout_points(p_workout_id, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Approve or reject a held workout. Approval queues it for scoring again,
+-- this time without validation.
+CREATE OR REPLACE FUNCTION public.resolve_workout_review(
+  p_workout_id UUID,
+  p_approved BOOLEAN,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.workouts AS $$
+DECLARE
+  v_workout public.workouts;
+BEGIN
+  SELECT * INTO v_workout
+  FROM public.workouts
+  WHERE id = p_workout_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % not found', p_workout_id;
+  END IF;
+
+  IF v_workout.review_status IS DISTINCT FROM 'pending' THEN
+    RAISE EXCEPTION 'Workout % is not awaiting review', p_workout_id;
+  END IF;
+
+  UPDATE public.workouts
+  SET
+    review_status = CASE WHEN p_approved THEN 'approved' ELSE 'rejected' END,
+    review_note = p_note,
+    reviewed_at = NOW(),
+    scored_at = CASE WHEN p_approved THEN NULL ELSE scored_at END
+  WHERE id = p_workout_id
+  RETURNING * INTO v_workout;
+
+  RETURN v_workout;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only scored workouts that are not held count towards challenges, so a
+-- workout cannot complete a challenge before it has been validated
+CREATE OR REPLACE FUNCTION public.challenge_metric_value(
+  p_user_id UUID,
+  p_metric TEXT,
+  p_starts_at TIMESTAMPTZ,
+  p_ends_at TIMESTAMPTZ
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_timezone TEXT;
+  v_value INTEGER;
+BEGIN
+  IF p_metric = 'points' THEN
+    SELECT COALESCE(SUM(amount), 0) INTO v_value
+    FROM public.point_transactions
+    WHERE user_id = p_user_id
+      AND transaction_type IN ('earned', 'reversal')
+      AND source <> 'challenge_completion'
+      AND created_at >= p_starts_at
+      AND created_at < p_ends_at;
+  ELSE
+    SELECT COALESCE(timezone, 'UTC') INTO v_timezone
+    FROM public.profiles
+    WHERE id = p_user_id;
+
+    SELECT
+      CASE p_metric
+        WHEN 'workouts' THEN COUNT(*)
+        WHEN 'minutes' THEN COALESCE(SUM(duration_minutes), 0)
+        WHEN 'distance' THEN FLOOR(COALESCE(SUM(distance_km), 0))
+        WHEN 'calories' THEN COALESCE(SUM(calories_burned), 0)
+      END
+    INTO v_value
+    FROM public.workouts
+    WHERE user_id = p_user_id
+      AND scored_at IS NOT NULL
+      AND (review_status IS NULL OR review_status = 'approved')
+      AND workout_date >= (p_starts_at AT TIME ZONE COALESCE(v_timezone, 'UTC'))::DATE
+      AND workout_date < (p_ends_at AT TIME ZONE COALESCE(v_timezone, 'UTC'))::DATE;
+  END IF;
+
+  RETURN GREATEST(COALESCE(v_value, 0), 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Scoring and review decisions change what counts, so refresh on those too
+DROP TRIGGER IF EXISTS on_workout_update_refresh_challenges ON public.workouts;
+
+CREATE TRIGGER on_workout_update_refresh_challenges
+  AFTER UPDATE ON public.workouts
+  FOR EACH ROW
+  WHEN (
+    OLD.workout_date IS DISTINCT FROM NEW.workout_date OR
+    OLD.duration_minutes IS DISTINCT FROM NEW.duration_minutes OR
+    OLD.distance_km IS DISTINCT FROM NEW.distance_km OR
+    OLD.calories_burned IS DISTINCT FROM NEW.calories_burned OR
+    OLD.scored_at IS DISTINCT FROM NEW.scored_at OR
+    OLD.review_status IS DISTINCT FROM NEW.review_status
+  )
+  EXECUTE FUNCTION public.handle_workout_challenge_progress();
+
+REVOKE EXECUTE ON FUNCTION public.hold_workout_for_review(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.resolve_workout_review(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hold_workout_for_review(UUID, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.resolve_workout_review(UUID, BOOLEAN, TEXT) TO service_role;
+
+-- Add helpful comments
+COMMENT ON COLUMN public.workouts.review_status IS 'NULL if the workout passed validation, otherwise pending, approved or rejected';
+COMMENT ON COLUMN public.workouts.review_flags IS 'Validation flags ({code, message}) that put the workout in the review queue';
+COMMENT ON FUNCTION public.hold_workout_for_review IS 'Flag a workout for review and score it at zero points';
+COMMENT ON FUNCTION public.resolve_workout_review IS 'Approve (re-score) or reject a workout held for review';
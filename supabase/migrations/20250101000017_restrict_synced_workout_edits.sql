@@ -0,0 +1,16 @@
+-- Synced workouts mirror Strava or Fitbit, so owners can only edit or delete
+-- their manual workouts. Changes would otherwise diverge from the provider.
+
+DROP POLICY IF EXISTS "Users can update own workouts" ON public.workouts;
+DROP POLICY IF EXISTS "Users can delete own workouts" ON public.workouts;
+
+CREATE POLICY "Users can update own manual workouts"
+  ON public.workouts
+  FOR UPDATE
+  USING (auth.uid() = user_id AND source = 'manual')
+  WITH CHECK (auth.uid() = user_id AND source = 'manual');
+
+CREATE POLICY "Users can delete own manual workouts"
+  ON public.workouts
+  FOR DELETE
+  USING (auth.uid() = user_id AND source = 'manual');
@@ -0,0 +1,20 @@
+-- Allow workouts imported from GPX, TCX and FIT files. external_id holds the
+-- file's SHA-256 so unique_external_workout stops the same file being
+-- imported twice.
+
+ALTER TABLE public.workouts DROP CONSTRAINT IF EXISTS workouts_source_check;
+ALTER TABLE public.workouts ADD CONSTRAINT workouts_source_check
+  CHECK (source IN ('manual', 'strava', 'fitbit', 'file'));
+
+-- Imported files can be deleted (to re-import a corrected file) but not
+-- edited, so they always match the file
+DROP POLICY IF EXISTS "Users can delete own manual workouts" ON public.workouts;
+
+CREATE POLICY "Users can delete own manual or imported workouts"
+  ON public.workouts
+  FOR DELETE
+  USING (auth.uid() = user_id AND source IN ('manual', 'file'));
+
+-- Add helpful comments
+COMMENT ON COLUMN public.workouts.source IS 'Source of workout data: manual, strava, fitbit, or file (GPX/TCX/FIT upload)';
+COMMENT ON COLUMN public.workouts.external_id IS 'ID from external service (Strava/Fitbit), or SHA-256 of an imported file';
@@ -0,0 +1,132 @@
+-- Canonical activity types for workouts. workout_type stays free text for
+-- display; activity_type is what stats, bonuses and validation group workouts
+-- by, so "Run", "running" and "jog" count as the same activity. The app sets
+-- it on every insert through lib/fitness/normalizer.
+
+ALTER TABLE public.workouts ADD COLUMN IF NOT EXISTS activity_type TEXT NOT NULL DEFAULT 'other'
+  CHECK (activity_type IN (
+    'running', 'walking', 'hiking', 'cycling', 'swimming', 'rowing',
+    'paddling', 'strength_training', 'hiit', 'yoga', 'pilates', 'elliptical',
+    'stair_climbing', 'dance', 'martial_arts', 'climbing', 'snow_sports', 'skating',
+    'team_sports', 'racket_sports', 'other'
+  ));
+
+CREATE INDEX IF NOT EXISTS idx_workouts_user_activity
+  ON public.workouts(user_id, activity_type, workout_date DESC);
+
+-- Backfill existing workouts from their free-text type. The patterns are
+-- ACTIVITY_PATTERNS in lib/fitness/normalizer.ts; the first match wins.
+UPDATE public.workouts
+SET activity_type = CASE
+    WHEN lower(btrim(workout_type)) ~ 'hiit|interval|tabata|crossfit|circuit|boot ?camp|burpee|jump rope|skipping' THEN 'hiit'
+    WHEN lower(btrim(workout_type)) ~ 'strength|weight|lift|gym|resistance|kettlebell|calisthenics|crunch|core|plank' THEN 'strength_training'
+    WHEN lower(btrim(workout_type)) ~ 'elliptical|cross ?trainer' THEN 'elliptical'
+    WHEN lower(btrim(workout_type)) ~ 'stair|stepper' THEN 'stair_climbing'
+    WHEN lower(btrim(workout_type)) ~ '(^| )row(ing|er)?( |$)' THEN 'rowing'
+    WHEN lower(btrim(workout_type)) ~ 'kayak|canoe|paddl' THEN 'paddling'
+    WHEN lower(btrim(workout_type)) ~ 'swim|pool' THEN 'swimming'
+    WHEN lower(btrim(workout_type)) ~ 'cycl|bike|biking|(^| )ride|spin|peloton|velo' THEN 'cycling'
+    WHEN lower(btrim(workout_type)) ~ 'hik|trek|mountaineer|backpack' THEN 'hiking'
+    WHEN lower(btrim(workout_type)) ~ 'walk|stroll' THEN 'walking'
+    WHEN lower(btrim(workout_type)) ~ 'run|jog|sprint|marathon|treadmill' THEN 'running'
+    WHEN lower(btrim(workout_type)) ~ 'yoga' THEN 'yoga'
+    WHEN lower(btrim(workout_type)) ~ 'pilates|barre' THEN 'pilates'
+    WHEN lower(btrim(workout_type)) ~ 'danc|zumba|ballet' THEN 'dance'
+    WHEN lower(btrim(workout_type)) ~ 'martial|boxing|karate|judo|taekwondo|jiu|mma|kung fu|muay thai' THEN 'martial_arts'
+    WHEN lower(btrim(workout_type)) ~ 'climb|boulder' THEN 'climbing'
+    WHEN lower(btrim(workout_type)) ~ 'ski($| |ing)|snowboard|snowshoe' THEN 'snow_sports'
+    WHEN lower(btrim(workout_type)) ~ 'skat|rollerblad' THEN 'skating'
+    WHEN lower(btrim(workout_type)) ~ 'soccer|football|basketball|volleyball|hockey|rugby|baseball|softball|cricket|netball|handball|lacrosse' THEN 'team_sports'
+    WHEN lower(btrim(workout_type)) ~ 'tennis|badminton|squash|racquet|racket|pickleball|padel' THEN 'racket_sports'
+    ELSE 'other'
+  END;
+
+-- Synced workouts keep the provider's own name, which STRAVA_ACTIVITY_TYPES
+-- and FITBIT_ACTIVITY_TYPES map exactly (Fitbit names compared lowercased)
+UPDATE public.workouts w
+SET activity_type = m.activity_type
+FROM (VALUES
+  ('strava', 'Run', 'running'),
+  ('strava', 'TrailRun', 'running'),
+  ('strava', 'VirtualRun', 'running'),
+  ('strava', 'Walk', 'walking'),
+  ('strava', 'Hike', 'hiking'),
+  ('strava', 'Ride', 'cycling'),
+  ('strava', 'MountainBikeRide', 'cycling'),
+  ('strava', 'GravelRide', 'cycling'),
+  ('strava', 'EBikeRide', 'cycling'),
+  ('strava', 'EMountainBikeRide', 'cycling'),
+  ('strava', 'VirtualRide', 'cycling'),
+  ('strava', 'Velomobile', 'cycling'),
+  ('strava', 'Handcycle', 'cycling'),
+  ('strava', 'Swim', 'swimming'),
+  ('strava', 'Rowing', 'rowing'),
+  ('strava', 'VirtualRow', 'rowing'),
+  ('strava', 'Canoeing', 'paddling'),
+  ('strava', 'Kayaking', 'paddling'),
+  ('strava', 'StandUpPaddling', 'paddling'),
+  ('strava', 'WeightTraining', 'strength_training'),
+  ('strava', 'Crossfit', 'hiit'),
+  ('strava', 'HighIntensityIntervalTraining', 'hiit'),
+  ('strava', 'Yoga', 'yoga'),
+  ('strava', 'Pilates', 'pilates'),
+  ('strava', 'Elliptical', 'elliptical'),
+  ('strava', 'StairStepper', 'stair_climbing'),
+  ('strava', 'RockClimbing', 'climbing'),
+  ('strava', 'AlpineSki', 'snow_sports'),
+  ('strava', 'BackcountrySki', 'snow_sports'),
+  ('strava', 'NordicSki', 'snow_sports'),
+  ('strava', 'Snowboard', 'snow_sports'),
+  ('strava', 'Snowshoe', 'snow_sports'),
+  ('strava', 'IceSkate', 'skating'),
+  ('strava', 'InlineSkate', 'skating'),
+  ('strava', 'RollerSki', 'skating'),
+  ('strava', 'Skateboard', 'skating'),
+  ('strava', 'Soccer', 'team_sports'),
+  ('strava', 'Badminton', 'racket_sports'),
+  ('strava', 'Pickleball', 'racket_sports'),
+  ('strava', 'Racquetball', 'racket_sports'),
+  ('strava', 'Squash', 'racket_sports'),
+  ('strava', 'TableTennis', 'racket_sports'),
+  ('strava', 'Tennis', 'racket_sports'),
+  ('strava', 'Golf', 'other'),
+  ('strava', 'Sail', 'other'),
+  ('strava', 'Surfing', 'other'),
+  ('strava', 'Kitesurf', 'other'),
+  ('strava', 'Windsurf', 'other'),
+  ('strava', 'Wheelchair', 'other'),
+  ('strava', 'Workout', 'other'),
+  ('fitbit', 'walk', 'walking'),
+  ('fitbit', 'run', 'running'),
+  ('fitbit', 'treadmill', 'running'),
+  ('fitbit', 'hike', 'hiking'),
+  ('fitbit', 'bike', 'cycling'),
+  ('fitbit', 'outdoor bike', 'cycling'),
+  ('fitbit', 'spinning', 'cycling'),
+  ('fitbit', 'swim', 'swimming'),
+  ('fitbit', 'rowing', 'rowing'),
+  ('fitbit', 'weights', 'strength_training'),
+  ('fitbit', 'weight lifting', 'strength_training'),
+  ('fitbit', 'core training', 'strength_training'),
+  ('fitbit', 'interval workout', 'hiit'),
+  ('fitbit', 'circuit training', 'hiit'),
+  ('fitbit', 'bootcamp', 'hiit'),
+  ('fitbit', 'yoga', 'yoga'),
+  ('fitbit', 'pilates', 'pilates'),
+  ('fitbit', 'elliptical', 'elliptical'),
+  ('fitbit', 'stairclimber', 'stair_climbing'),
+  ('fitbit', 'dancing', 'dance'),
+  ('fitbit', 'martial arts', 'martial_arts'),
+  ('fitbit', 'kickboxing', 'martial_arts'),
+  ('fitbit', 'tennis', 'racket_sports'),
+  ('fitbit', 'golf', 'other'),
+  ('fitbit', 'sport', 'other'),
+  ('fitbit', 'workout', 'other'),
+  ('fitbit', 'aerobic workout', 'other')
+) AS m(source, name, activity_type)
+WHERE w.source = m.source
+  AND m.name = CASE WHEN w.source = 'fitbit' THEN lower(btrim(w.workout_type)) ELSE w.workout_type END;
+
+-- Add helpful comments
+COMMENT ON COLUMN public.workouts.workout_type IS 'Workout type as entered or named by the source, for display';
+COMMENT ON COLUMN public.workouts.activity_type IS 'Canonical activity type (running, cycling, ...) derived from workout_type';
@@ -0,0 +1,23 @@
+-- Fitness connections are written only by the OAuth callbacks and sync jobs
+-- (service role). Users could otherwise plant tokens or claim another
+-- athlete's webhook events by setting webhook_id.
+
+DROP POLICY IF EXISTS "Users can insert own sync records" ON public.activity_sync;
+DROP POLICY IF EXISTS "Users can update own sync records" ON public.activity_sync;
+
+-- Encrypted tokens never leave the server, even to their owner
+REVOKE SELECT ON public.activity_sync FROM anon, authenticated;
+GRANT SELECT (
+  id,
+  user_id,
+  source,
+  last_sync,
+  sync_status,
+  token_expires_at,
+  error_message,
+  created_at,
+  updated_at
+) ON public.activity_sync TO authenticated;
+
+-- Add helpful comments
+COMMENT ON COLUMN public.activity_sync.webhook_id IS 'Provider account ID that webhook events name (the Strava athlete ID)';
@@ -0,0 +1,36 @@
+-- Strava webhook events, recorded on receipt so retried deliveries are
+-- processed once
+
+CREATE TABLE IF NOT EXISTS public.strava_webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id BIGINT NOT NULL,
+  owner_id BIGINT NOT NULL,
+  object_type TEXT NOT NULL CHECK (object_type IN ('activity', 'athlete')),
+  object_id BIGINT NOT NULL,
+  aspect_type TEXT NOT NULL CHECK (aspect_type IN ('create', 'update', 'delete')),
+  updates JSONB,
+  event_time BIGINT NOT NULL,
+  received_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  processed_at TIMESTAMPTZ,
+  error_message TEXT,
+  -- Strava resends an event unchanged when delivery is not acknowledged
+  CONSTRAINT unique_strava_webhook_event UNIQUE(object_type, object_id, aspect_type, event_time)
+);
+
+-- Create indexes
+CREATE INDEX idx_strava_webhook_events_unprocessed ON public.strava_webhook_events(received_at)
+  WHERE processed_at IS NULL;
+
+-- Webhook events name the Strava athlete; find the connection by athlete ID
+CREATE INDEX idx_activity_sync_webhook ON public.activity_sync(source, webhook_id)
+  WHERE webhook_id IS NOT NULL;
+
+-- Enable Row Level Security. No policies: only the webhook route (service
+-- role) reads and writes events.
+ALTER TABLE public.strava_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Add helpful comments
+COMMENT ON TABLE public.strava_webhook_events IS 'Strava webhook events received, for idempotent processing';
+COMMENT ON COLUMN public.strava_webhook_events.owner_id IS 'Strava athlete ID, matched against activity_sync.webhook_id';
+COMMENT ON COLUMN public.strava_webhook_events.event_time IS 'Unix time in seconds at which the event happened at Strava';
+COMMENT ON COLUMN public.strava_webhook_events.processed_at IS 'When the event was applied; NULL until then or if processing failed';
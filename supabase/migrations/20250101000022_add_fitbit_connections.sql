@@ -0,0 +1,32 @@
+-- Fitbit connections: PKCE verifiers held between authorize and callback,
+-- and per-user API quota tracking
+
+-- The PKCE code verifier must not reach the browser, so it waits here, keyed
+-- by the OAuth state nonce, until the callback exchanges the code
+CREATE TABLE IF NOT EXISTS public.oauth_pkce_verifiers (
+  nonce TEXT PRIMARY KEY,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  provider TEXT NOT NULL CHECK (provider IN ('fitbit')),
+  code_verifier_encrypted TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Create index
+CREATE INDEX idx_oauth_pkce_verifiers_expires ON public.oauth_pkce_verifiers(expires_at);
+
+-- Enable Row Level Security. No policies: only the OAuth routes (service
+-- role) read and write verifiers.
+ALTER TABLE public.oauth_pkce_verifiers ENABLE ROW LEVEL SECURITY;
+
+-- Fitbit allows 150 API requests per user per hour. Its responses say how
+-- many are left and when the window resets; the sync stops before running out.
+ALTER TABLE public.activity_sync ADD COLUMN IF NOT EXISTS rate_limit_remaining INTEGER
+  CHECK (rate_limit_remaining >= 0);
+ALTER TABLE public.activity_sync ADD COLUMN IF NOT EXISTS rate_limit_resets_at TIMESTAMPTZ;
+
+-- Add helpful comments
+COMMENT ON TABLE public.oauth_pkce_verifiers IS 'PKCE code verifiers for OAuth flows in progress (AES-256-GCM encrypted)';
+COMMENT ON COLUMN public.oauth_pkce_verifiers.nonce IS 'Nonce of the signed OAuth state the verifier belongs to';
+COMMENT ON COLUMN public.activity_sync.rate_limit_remaining IS 'Provider API requests left in the current window, from the last response';
+COMMENT ON COLUMN public.activity_sync.rate_limit_resets_at IS 'When the provider API quota window resets';
@@ -0,0 +1,75 @@
+-- Background sync runner for activity_sync connections: scheduling, retry
+-- backoff and per-user leases so two runs for one user never overlap
+
+-- When the connection is next due, and how many syncs in a row have failed
+-- (drives exponential backoff; reset by a successful sync)
+ALTER TABLE public.activity_sync ADD COLUMN IF NOT EXISTS next_sync_at TIMESTAMPTZ DEFAULT NOW();
+ALTER TABLE public.activity_sync ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER DEFAULT 0 NOT NULL
+  CHECK (consecutive_failures >= 0);
+
+-- Due connections, soonest first
+CREATE INDEX idx_activity_sync_due ON public.activity_sync(next_sync_at)
+  WHERE sync_status IS DISTINCT FROM 'revoked';
+
+-- One lease per user while a sync runs. A lease that outlives its expiry
+-- (the run crashed) can be taken over.
+CREATE TABLE IF NOT EXISTS public.sync_leases (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  lease_id UUID NOT NULL,
+  acquired_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- Enable Row Level Security. No policies: only the sync runner (service
+-- role) takes leases.
+ALTER TABLE public.sync_leases ENABLE ROW LEVEL SECURITY;
+
+-- Take the user's sync lease. Returns the lease ID, or NULL while another
+-- run holds an unexpired lease.
+CREATE OR REPLACE FUNCTION public.acquire_sync_lease(p_user_id UUID, p_lease_seconds INTEGER)
+RETURNS UUID AS $$
+DECLARE
+  v_lease_id UUID := gen_random_uuid();
+  v_acquired UUID;
+BEGIN
+  IF p_lease_seconds IS NULL OR p_lease_seconds <= 0 THEN
+    RAISE EXCEPTION 'Lease length must be positive';
+  END IF;
+
+  INSERT INTO public.sync_leases (user_id, lease_id, acquired_at, expires_at)
+  VALUES (p_user_id, v_lease_id, NOW(), NOW() + make_interval(secs => p_lease_seconds))
+  ON CONFLICT (user_id) DO UPDATE
+    SET lease_id = EXCLUDED.lease_id,
+        acquired_at = EXCLUDED.acquired_at,
+        expires_at = EXCLUDED.expires_at
+    WHERE public.sync_leases.expires_at <= NOW()
+  RETURNING lease_id INTO v_acquired;
+
+  RETURN v_acquired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Give a lease back. Only the run holding it can release it.
+CREATE OR REPLACE FUNCTION public.release_sync_lease(p_user_id UUID, p_lease_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  DELETE FROM public.sync_leases
+  WHERE user_id = p_user_id AND lease_id = p_lease_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.acquire_sync_lease(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_sync_lease(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.acquire_sync_lease(UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_sync_lease(UUID, UUID) TO service_role;
+
+-- Users can see when their connections will sync next
+GRANT SELECT (next_sync_at, consecutive_failures) ON public.activity_sync TO authenticated;
+
+-- Add helpful comments
+COMMENT ON COLUMN public.activity_sync.last_sync IS 'Activities up to this time have been fetched; the next sync continues from here';
+COMMENT ON COLUMN public.activity_sync.next_sync_at IS 'When the sync runner next picks up this connection';
+COMMENT ON COLUMN public.activity_sync.consecutive_failures IS 'Failed syncs in a row, for exponential backoff';
+COMMENT ON TABLE public.sync_leases IS 'Per-user locks held while a sync runs, so runs never overlap';
@@ -0,0 +1,220 @@
+-- Merge the same session recorded by two sources (a run on a Fitbit that
+-- also uploads to Strava) into one canonical workout. The duplicate row is
+-- kept, linked to the canonical one, so later syncs still find it by
+-- external_id; it is scored at zero and does not count anywhere else.
+
+-- When the workout started, for sources that record it (Strava, Fitbit, files)
+ALTER TABLE public.workouts ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ;
+
+-- The canonical workout this one duplicates. Deleting the canonical workout
+-- unlinks its duplicates, which are then scored in their own right.
+ALTER TABLE public.workouts ADD COLUMN IF NOT EXISTS merged_into UUID
+  REFERENCES public.workouts(id) ON DELETE SET NULL;
+
+-- The workout a user said this one is not a duplicate of; the pair is never
+-- merged or flagged as duplicates again
+ALTER TABLE public.workouts ADD COLUMN IF NOT EXISTS unmerged_from UUID
+  REFERENCES public.workouts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.workouts ADD CONSTRAINT workouts_not_merged_into_self
+  CHECK (merged_into IS DISTINCT FROM id);
+
+CREATE INDEX IF NOT EXISTS idx_workouts_merged_into ON public.workouts(merged_into)
+  WHERE merged_into IS NOT NULL;
+
+-- Users cannot merge or un-merge workouts by writing the columns directly
+CREATE OR REPLACE FUNCTION public.protect_workout_scoring()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.points_earned := 0;
+      NEW.scored_at := NULL;
+      NEW.review_status := NULL;
+      NEW.review_flags := NULL;
+      NEW.review_note := NULL;
+      NEW.reviewed_at := NULL;
+      NEW.merged_into := NULL;
+      NEW.unmerged_from := NULL;
+    ELSE
+      NEW.points_earned := OLD.points_earned;
+      NEW.scored_at := OLD.scored_at;
+      NEW.review_status := OLD.review_status;
+      NEW.review_flags := OLD.review_flags;
+      NEW.review_note := OLD.review_note;
+      NEW.reviewed_at := OLD.reviewed_at;
+      NEW.merged_into := OLD.merged_into;
+      NEW.unmerged_from := OLD.unmerged_from;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A workout that stops being a duplicate (un-merged, or its canonical
+-- workout deleted) is queued to be scored in its own right
+CREATE OR REPLACE FUNCTION public.reset_workout_scoring()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.scored_at IS NOT NULL AND (
+    OLD.workout_date IS DISTINCT FROM NEW.workout_date OR
+    OLD.workout_type IS DISTINCT FROM NEW.workout_type OR
+    OLD.duration_minutes IS DISTINCT FROM NEW.duration_minutes OR
+    OLD.distance_km IS DISTINCT FROM NEW.distance_km OR
+    OLD.heart_rate_avg IS DISTINCT FROM NEW.heart_rate_avg OR
+    (OLD.merged_into IS NOT NULL AND NEW.merged_into IS NULL)
+  ) THEN
+    NEW.scored_at := NULL;
+
+    IF NEW.review_status IN ('pending', 'approved') THEN
+      NEW.review_status := NULL;
+      NEW.review_flags := NULL;
+      NEW.review_note := NULL;
+      NEW.reviewed_at := NULL;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Link a workout to the canonical workout for the same session and score it
+-- at zero, reversing anything it was credited. Returns false without merging
+-- if either workout has been merged with another in the meantime.
+CREATE OR REPLACE FUNCTION public.merge_workout(
+  p_workout_id UUID,
+  p_canonical_id UUID
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_workout public.workouts;
+  v_canonical public.workouts;
+BEGIN
+  IF p_workout_id = p_canonical_id THEN
+    RAISE EXCEPTION 'A workout cannot be merged into itself';
+  END IF;
+
+  -- Lock both rows in a fixed order so two merges of the same pair cannot
+  -- deadlock or each merge into the other
+  PERFORM 1
+  FROM public.workouts
+  WHERE id IN (p_workout_id, p_canonical_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_workout FROM public.workouts WHERE id = p_workout_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % not found', p_workout_id;
+  END IF;
+
+  SELECT * INTO v_canonical FROM public.workouts WHERE id = p_canonical_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % not found', p_canonical_id;
+  END IF;
+
+  IF v_canonical.user_id <> v_workout.user_id THEN
+    RAISE EXCEPTION 'Workouts % and % belong to different users', p_workout_id, p_canonical_id;
+  END IF;
+
+  -- Merges are one level deep: never into a duplicate, never of a canonical workout
+  IF v_canonical.merged_into IS NOT NULL OR EXISTS (
+    SELECT 1 FROM public.workouts WHERE merged_into = p_workout_id
+  ) THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.workouts
+  SET
+    merged_into = p_canonical_id,
+    scored_at = NULL,
+    review_status = NULL,
+    review_flags = NULL,
+    review_note = NULL,
+    reviewed_at = NULL
+  WHERE id = p_workout_id;
+
+  PERFORM public.credit_workout_points(p_workout_id, 0);
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Split a merged workout from its canonical workout. It is queued to be
+-- scored in its own right, and the pair is not merged again.
+CREATE OR REPLACE FUNCTION public.unmerge_workout(p_workout_id UUID)
+RETURNS public.workouts AS $$
+DECLARE
+  v_workout public.workouts;
+BEGIN
+  UPDATE public.workouts
+  SET
+    unmerged_from = merged_into,
+    merged_into = NULL
+  WHERE id = p_workout_id
+    AND merged_into IS NOT NULL
+  RETURNING * INTO v_workout;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout % is not merged', p_workout_id;
+  END IF;
+
+  RETURN v_workout;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Merged duplicates are scored at zero but must not count either
+CREATE OR REPLACE FUNCTION public.challenge_metric_value(
+  p_user_id UUID,
+  p_metric TEXT,
+  p_starts_at TIMESTAMPTZ,
+  p_ends_at TIMESTAMPTZ
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_timezone TEXT;
+  v_value INTEGER;
+BEGIN
+  IF p_metric = 'points' THEN
+    SELECT COALESCE(SUM(amount), 0) INTO v_value
+    FROM public.point_transactions
+    WHERE user_id = p_user_id
+      AND transaction_type IN ('earned', 'reversal')
+      AND source <> 'challenge_completion'
+      AND created_at >= p_starts_at
+      AND created_at < p_ends_at;
+  ELSE
+    SELECT COALESCE(timezone, 'UTC') INTO v_timezone
+    FROM public.profiles
+    WHERE id = p_user_id;
+
+    SELECT
+      CASE p_metric
+        WHEN 'workouts' THEN COUNT(*)
+        WHEN 'minutes' THEN COALESCE(SUM(duration_minutes), 0)
+        WHEN 'distance' THEN FLOOR(COALESCE(SUM(distance_km), 0))
+        WHEN 'calories' THEN COALESCE(SUM(calories_burned), 0)
+      END
+    INTO v_value
+    FROM public.workouts
+    WHERE user_id = p_user_id
+      AND scored_at IS NOT NULL
+      AND (review_status IS NULL OR review_status = 'approved')
+      AND merged_into IS NULL
+      AND workout_date >= (p_starts_at AT TIME ZONE COALESCE(v_timezone, 'UTC'))::DATE
+      AND workout_date < (p_ends_at AT TIME ZONE COALESCE(v_timezone, 'UTC'))::DATE;
+  END IF;
+
+  RETURN GREATEST(COALESCE(v_value, 0), 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.merge_workout(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.unmerge_workout(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_workout(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.unmerge_workout(UUID) TO service_role;
+
+-- Add helpful comments
+COMMENT ON COLUMN public.workouts.started_at IS 'Start time, for sources that record one; used to match the same session across sources';
+COMMENT ON COLUMN public.workouts.merged_into IS 'Canonical workout this one duplicates; merged workouts earn no points and are not counted';
+COMMENT ON COLUMN public.workouts.unmerged_from IS 'Workout the user split this one from; the pair is not merged again';
+COMMENT ON FUNCTION public.merge_workout IS 'Link a duplicate workout to its canonical workout and score it at zero points';
+COMMENT ON FUNCTION public.unmerge_workout IS 'Split a merged workout from its canonical workout and queue it for scoring';
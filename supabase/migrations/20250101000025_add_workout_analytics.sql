@@ -0,0 +1,107 @@
+-- Aggregates for the analytics page, computed here rather than by fetching
+-- every workout. Both functions run as the caller and only read their own
+-- workouts. Counted workouts are the ones that count toward stats everywhere
+-- else: not merged into another, and not held or rejected by review.
+
+-- Totals per week (starting Monday) or calendar month between two dates,
+-- inclusive, with a row for every period even when it has no workouts. The
+-- first and last periods only cover the days inside the range. The average
+-- heart rate is weighted by duration over workouts that recorded one.
+CREATE OR REPLACE FUNCTION public.workout_period_totals(
+  p_from DATE,
+  p_to DATE,
+  p_period TEXT DEFAULT 'week'
+)
+RETURNS TABLE(
+  period_start DATE,
+  workouts INTEGER,
+  minutes INTEGER,
+  distance_km NUMERIC,
+  calories INTEGER,
+  avg_heart_rate NUMERIC
+) AS $$
+BEGIN
+  IF p_period NOT IN ('week', 'month') THEN
+    RAISE EXCEPTION 'Unknown period: %', p_period;
+  END IF;
+
+  IF p_to < p_from THEN
+    RAISE EXCEPTION 'The range must end on or after its start';
+  END IF;
+
+  RETURN QUERY
+  WITH totals AS (
+    SELECT
+      date_trunc(p_period, w.workout_date::TIMESTAMP)::DATE AS period,
+      COUNT(*)::INTEGER AS workout_count,
+      COALESCE(SUM(w.duration_minutes), 0)::INTEGER AS total_minutes,
+      ROUND(COALESCE(SUM(w.distance_km), 0), 2) AS total_distance,
+      COALESCE(SUM(w.calories_burned), 0)::INTEGER AS total_calories,
+      ROUND(
+        SUM(w.heart_rate_avg * w.duration_minutes)::NUMERIC
+          / NULLIF(SUM(w.duration_minutes) FILTER (WHERE w.heart_rate_avg IS NOT NULL), 0),
+        1
+      ) AS heart_rate
+    FROM public.workouts w
+    WHERE w.user_id = auth.uid()
+      AND w.workout_date BETWEEN p_from AND p_to
+      AND w.merged_into IS NULL
+      AND (w.review_status IS NULL OR w.review_status = 'approved')
+    GROUP BY 1
+  )
+  SELECT
+    s.period::DATE,
+    COALESCE(t.workout_count, 0),
+    COALESCE(t.total_minutes, 0),
+    COALESCE(t.total_distance, 0),
+    COALESCE(t.total_calories, 0),
+    t.heart_rate
+  FROM generate_series(
+    date_trunc(p_period, p_from::TIMESTAMP),
+    p_to::TIMESTAMP,
+    ('1 ' || p_period)::INTERVAL
+  ) AS s(period)
+  LEFT JOIN totals t ON t.period = s.period::DATE
+  ORDER BY 1;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Totals per activity type between two dates, inclusive, most minutes first
+CREATE OR REPLACE FUNCTION public.workout_type_totals(p_from DATE, p_to DATE)
+RETURNS TABLE(
+  activity_type TEXT,
+  workouts INTEGER,
+  minutes INTEGER,
+  distance_km NUMERIC,
+  calories INTEGER
+) AS $$
+BEGIN
+  IF p_to < p_from THEN
+    RAISE EXCEPTION 'The range must end on or after its start';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    w.activity_type,
+    COUNT(*)::INTEGER,
+    COALESCE(SUM(w.duration_minutes), 0)::INTEGER,
+    ROUND(COALESCE(SUM(w.distance_km), 0), 2),
+    COALESCE(SUM(w.calories_burned), 0)::INTEGER
+  FROM public.workouts w
+  WHERE w.user_id = auth.uid()
+    AND w.workout_date BETWEEN p_from AND p_to
+    AND w.merged_into IS NULL
+    AND (w.review_status IS NULL OR w.review_status = 'approved')
+  GROUP BY w.activity_type
+  ORDER BY 3 DESC, 2 DESC, 1;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+REVOKE EXECUTE ON FUNCTION public.workout_period_totals(DATE, DATE, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.workout_type_totals(DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.workout_period_totals(DATE, DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.workout_type_totals(DATE, DATE) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON FUNCTION public.workout_period_totals IS 'Weekly or monthly workout totals and average heart rate for the current user';
+COMMENT ON FUNCTION public.workout_type_totals IS 'Workout totals per activity type for the current user';
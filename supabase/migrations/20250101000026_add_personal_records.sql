@@ -0,0 +1,408 @@
+-- Personal records per activity type: longest distance, longest duration and
+-- fastest times over standard distances, with the history of who held them.
+--
+-- What each workout achieved is kept in workout_efforts, maintained by a
+-- trigger on workouts. Records are recomputed from the efforts of counted
+-- workouts, so deleting, merging or rejecting the workout that set a record
+-- falls back to the next best remaining one.
+
+-- Best efforts of a workout, one row per record type it has a value for
+CREATE TABLE IF NOT EXISTS public.workout_efforts (
+  workout_id UUID REFERENCES public.workouts(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  record_type TEXT NOT NULL CHECK (record_type IN (
+    'longest_distance', 'longest_duration', 'fastest_1k', 'fastest_5k', 'fastest_10k',
+    'fastest_half_marathon', 'fastest_marathon'
+  )),
+  -- Kilometres, minutes or seconds, depending on the record type
+  value NUMERIC NOT NULL CHECK (value > 0),
+  PRIMARY KEY (workout_id, record_type)
+);
+
+CREATE INDEX idx_workout_efforts_user_record ON public.workout_efforts(user_id, record_type);
+
+-- Record history: a row each time a record changed hands. The current record
+-- for an activity and record type is the one not superseded.
+CREATE TABLE IF NOT EXISTS public.personal_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  activity_type TEXT NOT NULL,
+  record_type TEXT NOT NULL CHECK (record_type IN (
+    'longest_distance', 'longest_duration', 'fastest_1k', 'fastest_5k', 'fastest_10k',
+    'fastest_half_marathon', 'fastest_marathon'
+  )),
+  value NUMERIC NOT NULL,
+  workout_id UUID REFERENCES public.workouts(id) ON DELETE CASCADE NOT NULL,
+  workout_date DATE NOT NULL,
+  -- The best of the user's other workouts when this record was set
+  previous_value NUMERIC,
+  bonus_points INTEGER DEFAULT 0 NOT NULL,
+  transaction_id UUID REFERENCES public.point_transactions(id) ON DELETE SET NULL,
+  set_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  superseded_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX unique_current_personal_record
+  ON public.personal_records(user_id, activity_type, record_type)
+  WHERE superseded_at IS NULL;
+CREATE INDEX idx_personal_records_user_set ON public.personal_records(user_id, set_at DESC);
+CREATE INDEX idx_personal_records_workout ON public.personal_records(workout_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.workout_efforts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.personal_records ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own efforts and records (written only by the functions below)
+CREATE POLICY "Users can view own workout efforts"
+  ON public.workout_efforts
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own personal records"
+  ON public.personal_records
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Fastest time in seconds over p_distance metres of consecutive splits, each
+-- an object with distance (metres) and moving_time or elapsed_time (seconds),
+-- as in Strava's splits_metric. The time within the split that completes the
+-- distance is interpolated. NULL if the splits are malformed or too short.
+CREATE OR REPLACE FUNCTION public.best_split_effort(p_splits JSONB, p_distance NUMERIC)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_distances NUMERIC[];
+  v_times NUMERIC[];
+  v_count INTEGER;
+  v_end INTEGER := 1;
+  v_window_distance NUMERIC := 0;
+  v_window_time NUMERIC := 0;
+  v_best NUMERIC;
+BEGIN
+  IF jsonb_typeof(p_splits) IS DISTINCT FROM 'array' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT
+    array_agg((s->>'distance')::NUMERIC ORDER BY ord),
+    array_agg(COALESCE(s->>'moving_time', s->>'elapsed_time')::NUMERIC ORDER BY ord)
+  INTO v_distances, v_times
+  FROM jsonb_array_elements(p_splits) WITH ORDINALITY AS t(s, ord)
+  WHERE jsonb_typeof(s->'distance') = 'number'
+    AND jsonb_typeof(COALESCE(s->'moving_time', s->'elapsed_time')) = 'number'
+    AND (s->>'distance')::NUMERIC >= 0
+    AND COALESCE(s->>'moving_time', s->>'elapsed_time')::NUMERIC >= 0;
+
+  -- A skipped split would join two splits that were not consecutive
+  v_count := COALESCE(array_length(v_distances, 1), 0);
+  IF v_count = 0 OR v_count <> jsonb_array_length(p_splits) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Slide a window over the splits: for each start, extend it until the next
+  -- split would complete the distance
+  FOR v_start IN 1..v_count LOOP
+    WHILE v_end <= v_count AND v_window_distance + v_distances[v_end] < p_distance LOOP
+      v_window_distance := v_window_distance + v_distances[v_end];
+      v_window_time := v_window_time + v_times[v_end];
+      v_end := v_end + 1;
+    END LOOP;
+
+    EXIT WHEN v_end > v_count;
+
+    v_best := LEAST(
+      v_best,
+      v_window_time + v_times[v_end] * (p_distance - v_window_distance) / v_distances[v_end]
+    );
+
+    IF v_end > v_start THEN
+      v_window_distance := v_window_distance - v_distances[v_start];
+      v_window_time := v_window_time - v_times[v_start];
+    ELSE
+      v_end := v_start + 1;
+    END IF;
+  END LOOP;
+
+  RETURN ROUND(v_best);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Keep a workout's efforts in step with its distance, duration and splits.
+-- Standard distances mirror PERSONAL_RECORD_DISTANCES in lib/gamification/records.ts
+CREATE OR REPLACE FUNCTION public.set_workout_efforts()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.workout_efforts WHERE workout_id = NEW.id;
+
+  INSERT INTO public.workout_efforts (workout_id, user_id, record_type, value)
+  SELECT NEW.id, NEW.user_id, effort.record_type, effort.value
+  FROM (
+    SELECT 'longest_distance' AS record_type, NEW.distance_km AS value
+    UNION ALL
+    SELECT 'longest_duration', NEW.duration_minutes::NUMERIC
+    UNION ALL
+    SELECT distances.record_type, public.best_split_effort(NEW.raw_data->'splits_metric', distances.meters)
+    FROM (VALUES
+      ('fastest_1k', 1000),
+      ('fastest_5k', 5000),
+      ('fastest_10k', 10000),
+      ('fastest_half_marathon', 21097.5),
+      ('fastest_marathon', 42195)
+    ) AS distances(record_type, meters)
+    WHERE NEW.raw_data ? 'splits_metric'
+  ) AS effort
+  WHERE effort.value > 0;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER set_workout_efforts
+  AFTER INSERT OR UPDATE OF distance_km, duration_minutes, raw_data ON public.workouts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_workout_efforts();
+
+-- Bring a user's current records in line with the efforts of their counted
+-- workouts, for one activity type or all of them. A record changing hands
+-- supersedes the current one; a record only superseded by a workout since
+-- deleted or edited is reinstated rather than recorded again.
+--
+-- When p_workout_id is the workout being scored and it beats the best of the
+-- user's other workouts, p_bonus points are awarded for each record it set,
+-- once per workout and record type. The first workout of a type sets its
+-- records without a bonus. Returns the records p_workout_id holds that beat
+-- an earlier workout.
+CREATE OR REPLACE FUNCTION public.refresh_personal_records(
+  p_user_id UUID,
+  p_activity_type TEXT DEFAULT NULL,
+  p_workout_id UUID DEFAULT NULL,
+  p_bonus INTEGER DEFAULT 0
+)
+RETURNS SETOF public.personal_records AS $$
+DECLARE
+  v_key RECORD;
+  v_fastest BOOLEAN;
+  v_best RECORD;
+  v_runner_up RECORD;
+  v_current public.personal_records;
+  v_record public.personal_records;
+  v_award RECORD;
+BEGIN
+  -- Serialize refreshes for the user so two cannot both set a current record
+  PERFORM 1 FROM public.user_points WHERE user_id = p_user_id FOR UPDATE;
+
+  FOR v_key IN
+    SELECT w.activity_type, e.record_type
+    FROM public.workout_efforts e
+    JOIN public.workouts w ON w.id = e.workout_id
+    WHERE e.user_id = p_user_id
+      AND (p_activity_type IS NULL OR w.activity_type = p_activity_type)
+    UNION
+    SELECT pr.activity_type, pr.record_type
+    FROM public.personal_records pr
+    WHERE pr.user_id = p_user_id
+      AND pr.superseded_at IS NULL
+      AND (p_activity_type IS NULL OR pr.activity_type = p_activity_type)
+  LOOP
+    v_fastest := v_key.record_type LIKE 'fastest_%';
+
+    -- Ties go to the workout that got there first
+    SELECT e.workout_id, e.value, w.workout_date INTO v_best
+    FROM public.workout_efforts e
+    JOIN public.workouts w ON w.id = e.workout_id
+    WHERE e.user_id = p_user_id
+      AND e.record_type = v_key.record_type
+      AND w.activity_type = v_key.activity_type
+      AND w.merged_into IS NULL
+      AND (w.review_status IS NULL OR w.review_status = 'approved')
+    ORDER BY CASE WHEN v_fastest THEN e.value ELSE -e.value END, w.workout_date, w.created_at, w.id
+    LIMIT 1;
+
+    SELECT * INTO v_current
+    FROM public.personal_records
+    WHERE user_id = p_user_id
+      AND activity_type = v_key.activity_type
+      AND record_type = v_key.record_type
+      AND superseded_at IS NULL;
+
+    IF v_best.workout_id IS NULL THEN
+      -- No counted workout has this effort any more
+      UPDATE public.personal_records SET superseded_at = NOW() WHERE id = v_current.id;
+      CONTINUE;
+    END IF;
+
+    SELECT e.value INTO v_runner_up
+    FROM public.workout_efforts e
+    JOIN public.workouts w ON w.id = e.workout_id
+    WHERE e.user_id = p_user_id
+      AND e.record_type = v_key.record_type
+      AND w.activity_type = v_key.activity_type
+      AND w.merged_into IS NULL
+      AND (w.review_status IS NULL OR w.review_status = 'approved')
+      AND e.workout_id <> v_best.workout_id
+    ORDER BY CASE WHEN v_fastest THEN e.value ELSE -e.value END
+    LIMIT 1;
+
+    IF v_current.id IS NOT NULL
+      AND v_current.workout_id = v_best.workout_id
+      AND v_current.value = v_best.value
+    THEN
+      v_record := v_current;
+    ELSE
+      UPDATE public.personal_records SET superseded_at = NOW() WHERE id = v_current.id;
+
+      UPDATE public.personal_records
+      SET superseded_at = NULL
+      WHERE id = (
+        SELECT id
+        FROM public.personal_records
+        WHERE user_id = p_user_id
+          AND activity_type = v_key.activity_type
+          AND record_type = v_key.record_type
+          AND workout_id = v_best.workout_id
+          AND value = v_best.value
+        ORDER BY set_at DESC
+        LIMIT 1
+      )
+      RETURNING * INTO v_record;
+
+      IF NOT FOUND THEN
+        INSERT INTO public.personal_records (
+          user_id, activity_type, record_type, value, workout_id, workout_date, previous_value
+        )
+        VALUES (
+          p_user_id, v_key.activity_type, v_key.record_type, v_best.value, v_best.workout_id,
+          v_best.workout_date, v_runner_up.value
+        )
+        RETURNING * INTO v_record;
+      END IF;
+    END IF;
+
+    CONTINUE WHEN p_workout_id IS NULL
+      OR v_best.workout_id <> p_workout_id
+      OR v_runner_up.value IS NULL
+      OR v_best.value = v_runner_up.value;
+
+    IF p_bonus > 0 THEN
+      SELECT * INTO v_award
+      FROM public.award_points(
+        p_user_id,
+        p_bonus,
+        'personal_record',
+        'Personal record: ' || replace(v_key.record_type, '_', ' ') || ' ('
+          || replace(v_key.activity_type, '_', ' ') || ')',
+        'personal_record:' || p_workout_id || ':' || v_key.record_type
+      );
+
+      IF NOT v_award.already_applied THEN
+        UPDATE public.personal_records
+        SET bonus_points = p_bonus, transaction_id = v_award.transaction_id
+        WHERE id = v_record.id
+        RETURNING * INTO v_record;
+      END IF;
+    END IF;
+
+    RETURN NEXT v_record;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Deleting a workout removes the records it set, takes back their bonuses
+-- and recomputes the records from the remaining workouts. Skipped when the
+-- whole account is being deleted (the profile or points row is already gone).
+CREATE OR REPLACE FUNCTION public.remove_deleted_workout_records()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_record RECORD;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = OLD.user_id)
+    OR NOT EXISTS (SELECT 1 FROM public.user_points WHERE user_id = OLD.user_id)
+  THEN
+    RETURN OLD;
+  END IF;
+
+  FOR v_record IN
+    SELECT
+      pr.id,
+      pr.transaction_id,
+      pt.amount - COALESCE((
+        SELECT SUM(ABS(r.amount))
+        FROM public.point_transactions r
+        WHERE r.reverses_transaction_id = pt.id
+      ), 0)::INTEGER AS remaining
+    FROM public.personal_records pr
+    JOIN public.point_transactions pt ON pt.id = pr.transaction_id
+    WHERE pr.workout_id = OLD.id
+  LOOP
+    CONTINUE WHEN v_record.remaining <= 0;
+
+    PERFORM public.reverse_points(
+      v_record.transaction_id,
+      v_record.remaining,
+      'Workout deleted: personal record removed',
+      'personal_record_deleted:' || v_record.id
+    );
+  END LOOP;
+
+  DELETE FROM public.personal_records WHERE workout_id = OLD.id;
+  DELETE FROM public.workout_efforts WHERE workout_id = OLD.id;
+
+  PERFORM public.refresh_personal_records(OLD.user_id, OLD.activity_type);
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER remove_deleted_workout_records
+  BEFORE DELETE ON public.workouts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.remove_deleted_workout_records();
+
+-- Merging, review decisions and a change of activity type change which
+-- workouts a record can come from. Runs after set_workout_efforts (triggers
+-- fire in name order), so edits are compared on their new efforts.
+CREATE OR REPLACE FUNCTION public.update_personal_records()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.refresh_personal_records(NEW.user_id, OLD.activity_type);
+
+  IF NEW.activity_type <> OLD.activity_type THEN
+    PERFORM public.refresh_personal_records(NEW.user_id, NEW.activity_type);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER update_personal_records
+  AFTER UPDATE ON public.workouts
+  FOR EACH ROW
+  WHEN (
+    OLD.merged_into IS DISTINCT FROM NEW.merged_into OR
+    OLD.review_status IS DISTINCT FROM NEW.review_status OR
+    OLD.activity_type IS DISTINCT FROM NEW.activity_type
+  )
+  EXECUTE FUNCTION public.update_personal_records();
+
+-- Record efforts for workouts stored before this migration
+INSERT INTO public.workout_efforts (workout_id, user_id, record_type, value)
+SELECT w.id, w.user_id, 'longest_distance', w.distance_km
+FROM public.workouts w
+WHERE w.distance_km > 0
+UNION ALL
+SELECT w.id, w.user_id, 'longest_duration', w.duration_minutes
+FROM public.workouts w
+WHERE w.duration_minutes > 0
+ON CONFLICT DO NOTHING;
+
+SELECT public.refresh_personal_records(p.id) FROM public.profiles p
+WHERE EXISTS (SELECT 1 FROM public.workout_efforts e WHERE e.user_id = p.id);
+
+REVOKE EXECUTE ON FUNCTION public.refresh_personal_records(UUID, TEXT, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_personal_records(UUID, TEXT, UUID, INTEGER) TO service_role;
+
+-- Add helpful comments
+COMMENT ON TABLE public.workout_efforts IS 'Distance, duration and best split times of each workout, kept in step by a trigger';
+COMMENT ON TABLE public.personal_records IS 'Personal record history per activity type; the current record is the one not superseded';
+COMMENT ON COLUMN public.personal_records.value IS 'Kilometres for longest_distance, minutes for longest_duration, seconds for fastest_*';
+COMMENT ON FUNCTION public.best_split_effort IS 'Fastest time over a distance from consecutive splits (Strava splits_metric)';
+COMMENT ON FUNCTION public.refresh_personal_records IS 'Recompute current personal records from counted workouts and award bonuses for new ones';
@@ -0,0 +1,334 @@
+-- Create collaborative stories, their contributions and contribution votes
+
+-- A shared story; content is the opening followed by every contribution
+CREATE TABLE IF NOT EXISTS public.stories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL CHECK (LENGTH(title) BETWEEN 1 AND 100),
+  author_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  genre TEXT NOT NULL CHECK (genre IN ('fantasy', 'sci-fi', 'horror', 'comedy', 'mystery', 'adventure')),
+  tone TEXT CHECK (tone IN ('serious', 'comedic', 'dark', 'lighthearted', 'chaotic')),
+  status TEXT DEFAULT 'active' NOT NULL CHECK (status IN ('draft', 'active', 'complete', 'archived')),
+  max_contributions INTEGER DEFAULT 100 NOT NULL CHECK (max_contributions > 0),
+  content TEXT,
+  metadata JSONB DEFAULT '{}' NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  completed_at TIMESTAMPTZ
+);
+
+-- Users taking part in a story; only they can read or add to it
+CREATE TABLE IF NOT EXISTS public.story_participants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id UUID REFERENCES public.stories(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  joined_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT unique_story_participant UNIQUE(story_id, user_id)
+);
+
+-- Paid-for additions to a story, in order
+CREATE TABLE IF NOT EXISTS public.story_contributions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id UUID REFERENCES public.stories(id) ON DELETE CASCADE NOT NULL,
+  contributor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  content TEXT NOT NULL CHECK (LENGTH(content) BETWEEN 10 AND 280),
+  position INTEGER NOT NULL CHECK (position > 0),
+  points_spent INTEGER NOT NULL CHECK (points_spent >= 0),
+  contribution_type TEXT DEFAULT 'sentence' NOT NULL
+    CHECK (contribution_type IN ('sentence', 'twist', 'character', 'ending')),
+  votes_received INTEGER DEFAULT 0 NOT NULL,
+  parent_contribution_id UUID REFERENCES public.story_contributions(id) ON DELETE SET NULL,
+  transaction_id UUID REFERENCES public.point_transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT unique_story_position UNIQUE(story_id, position)
+);
+
+-- One vote per participant per contribution
+CREATE TABLE IF NOT EXISTS public.contribution_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contribution_id UUID REFERENCES public.story_contributions(id) ON DELETE CASCADE NOT NULL,
+  voter_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  vote_weight DECIMAL(3,2) DEFAULT 1.0 NOT NULL CHECK (vote_weight > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT unique_vote UNIQUE(contribution_id, voter_id)
+);
+
+-- Create indexes
+CREATE INDEX idx_stories_author ON public.stories(author_id);
+CREATE INDEX idx_story_participants_user ON public.story_participants(user_id);
+CREATE INDEX idx_contributions_story ON public.story_contributions(story_id, created_at);
+CREATE INDEX idx_contributions_contributor ON public.story_contributions(contributor_id);
+CREATE INDEX idx_contribution_votes_voter ON public.contribution_votes(voter_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.stories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.story_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.story_contributions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.contribution_votes ENABLE ROW LEVEL SECURITY;
+
+-- Participation check that bypasses RLS, so participant policies don't recurse
+CREATE OR REPLACE FUNCTION public.is_story_participant(p_story_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.story_participants
+    WHERE story_id = p_story_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Whether the current user may vote on a contribution: they take part in its
+-- story and did not write it
+CREATE OR REPLACE FUNCTION public.can_vote_on_contribution(p_contribution_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.story_contributions c
+    JOIN public.story_participants p ON p.story_id = c.story_id
+    WHERE c.id = p_contribution_id
+      AND p.user_id = auth.uid()
+      AND c.contributor_id IS DISTINCT FROM auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Participants can read their stories, each other and the contributions.
+-- Stories are created by the system and contributions are only added
+-- through add_story_contribution, which charges for them.
+CREATE POLICY "Participants can view stories"
+  ON public.stories
+  FOR SELECT
+  USING (public.is_story_participant(id));
+
+CREATE POLICY "Participants can view story participants"
+  ON public.story_participants
+  FOR SELECT
+  USING (public.is_story_participant(story_id));
+
+CREATE POLICY "Participants can view story contributions"
+  ON public.story_contributions
+  FOR SELECT
+  USING (public.is_story_participant(story_id));
+
+-- Participants can see votes on their stories and cast or withdraw their
+-- own, at the default weight, on other people's contributions
+CREATE POLICY "Participants can view contribution votes"
+  ON public.contribution_votes
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.story_contributions c
+      WHERE c.id = contribution_id AND public.is_story_participant(c.story_id)
+    )
+  );
+
+CREATE POLICY "Participants can vote on others' contributions"
+  ON public.contribution_votes
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = voter_id
+    AND vote_weight = 1.0
+    AND public.can_vote_on_contribution(contribution_id)
+  );
+
+CREATE POLICY "Users can withdraw own votes"
+  ON public.contribution_votes
+  FOR DELETE
+  USING (auth.uid() = voter_id);
+
+-- Keep story_contributions.votes_received in step with the votes
+CREATE OR REPLACE FUNCTION public.update_contribution_votes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.story_contributions
+    SET votes_received = votes_received + 1
+    WHERE id = NEW.contribution_id;
+  ELSE
+    UPDATE public.story_contributions
+    SET votes_received = GREATEST(votes_received - 1, 0)
+    WHERE id = OLD.contribution_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER update_contribution_votes
+  AFTER INSERT OR DELETE ON public.contribution_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_contribution_votes();
+
+-- Create a story with its participants in one step. Validation happens in
+-- lib/stories/stories.ts.
+CREATE OR REPLACE FUNCTION public.create_story(
+  p_author_id UUID,
+  p_title TEXT,
+  p_genre TEXT,
+  p_tone TEXT,
+  p_max_contributions INTEGER,
+  p_opening TEXT,
+  p_metadata JSONB,
+  p_participant_ids UUID[]
+)
+RETURNS UUID AS $$
+DECLARE
+  v_story_id UUID;
+BEGIN
+  INSERT INTO public.stories (author_id, title, genre, tone, max_contributions, content, metadata)
+  VALUES (
+    p_author_id, p_title, p_genre, p_tone, p_max_contributions, p_opening,
+    COALESCE(p_metadata, '{}')
+  )
+  RETURNING id INTO v_story_id;
+
+  INSERT INTO public.story_participants (story_id, user_id)
+  SELECT DISTINCT v_story_id, participant_id
+  FROM unnest(array_append(p_participant_ids, p_author_id)) AS participant_id;
+
+  RETURN v_story_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function for the current user to add to a story they take part in, paying
+-- for it with points. Costs mirror the STORY_* POINT_VALUES in
+-- lib/gamification/points.ts. An ending, or the last contribution the story
+-- allows, completes the story.
+CREATE OR REPLACE FUNCTION public.add_story_contribution(
+  p_story_id UUID,
+  p_content TEXT,
+  p_contribution_type TEXT DEFAULT 'sentence',
+  p_parent_contribution_id UUID DEFAULT NULL
+)
+RETURNS TABLE(
+  contribution_id UUID,
+  story_position INTEGER,
+  new_balance INTEGER,
+  success BOOLEAN,
+  message TEXT
+) AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_content TEXT := BTRIM(p_content);
+  v_story RECORD;
+  v_cost INTEGER;
+  v_position INTEGER;
+  v_contribution_id UUID := gen_random_uuid();
+  v_spend RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_cost := CASE p_contribution_type
+    WHEN 'sentence' THEN 10
+    WHEN 'twist' THEN 25
+    WHEN 'character' THEN 30
+    WHEN 'ending' THEN 50
+  END;
+
+  IF v_cost IS NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, NULL::INTEGER, false,
+      'Unknown contribution type';
+    RETURN;
+  END IF;
+
+  IF v_content IS NULL OR LENGTH(v_content) NOT BETWEEN 10 AND 280 THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, NULL::INTEGER, false,
+      'Contributions must be between 10 and 280 characters';
+    RETURN;
+  END IF;
+
+  -- Lock the story so concurrent contributions take consecutive positions
+  SELECT * INTO v_story
+  FROM public.stories
+  WHERE id = p_story_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.story_participants
+    WHERE story_id = p_story_id AND user_id = v_user_id
+  ) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, NULL::INTEGER, false,
+      'You are not taking part in this story';
+    RETURN;
+  END IF;
+
+  IF v_story.status <> 'active' THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, NULL::INTEGER, false,
+      'This story is not open for contributions';
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(MAX(c.position), 0) + 1 INTO v_position
+  FROM public.story_contributions c
+  WHERE c.story_id = p_story_id;
+
+  IF v_position > v_story.max_contributions THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, NULL::INTEGER, false,
+      'This story is full';
+    RETURN;
+  END IF;
+
+  IF p_parent_contribution_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.story_contributions c
+    WHERE c.id = p_parent_contribution_id AND c.story_id = p_story_id
+  ) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, NULL::INTEGER, false,
+      'The contribution you are replying to is not part of this story';
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_spend
+  FROM public.spend_points(
+    v_user_id,
+    v_cost,
+    'story_contribution',
+    'Story ' || p_contribution_type || ' in "' || v_story.title || '"',
+    'story_contribution:' || v_contribution_id
+  );
+
+  IF NOT v_spend.success THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, v_spend.new_balance, false,
+      'Not enough points';
+    RETURN;
+  END IF;
+
+  INSERT INTO public.story_contributions (
+    id, story_id, contributor_id, content, position, points_spent, contribution_type,
+    parent_contribution_id, transaction_id
+  )
+  VALUES (
+    v_contribution_id, p_story_id, v_user_id, v_content, v_position, v_cost,
+    p_contribution_type, p_parent_contribution_id, v_spend.transaction_id
+  );
+
+  UPDATE public.stories
+  SET
+    content = CONCAT_WS(' ', NULLIF(content, ''), v_content),
+    status = CASE
+      WHEN p_contribution_type = 'ending' OR v_position = max_contributions THEN 'complete'
+      ELSE status
+    END,
+    completed_at = CASE
+      WHEN p_contribution_type = 'ending' OR v_position = max_contributions THEN NOW()
+      ELSE completed_at
+    END
+  WHERE id = p_story_id;
+
+  RETURN QUERY SELECT v_contribution_id, v_position, v_spend.new_balance, true, NULL::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.create_story(UUID, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_story(UUID, TEXT, TEXT, TEXT, INTEGER, TEXT, JSONB, UUID[]) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.add_story_contribution(UUID, TEXT, TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.add_story_contribution(UUID, TEXT, TEXT, UUID) TO authenticated;
+
+-- Add helpful comments
+COMMENT ON TABLE public.stories IS 'Collaborative stories, readable by their participants';
+COMMENT ON TABLE public.story_participants IS 'Users taking part in a story; the author always participates';
+COMMENT ON TABLE public.story_contributions IS 'Paid-for additions to a story, added only via add_story_contribution';
+COMMENT ON TABLE public.contribution_votes IS 'Participants'' votes on each other''s contributions';
+COMMENT ON COLUMN public.stories.content IS 'Rendered story: the opening followed by every contribution in order';
+COMMENT ON COLUMN public.stories.metadata IS 'Story settings such as the opening prompt and contribution rules';
+COMMENT ON COLUMN public.story_contributions.position IS 'Order within the story, starting at 1; unique per story';
+COMMENT ON COLUMN public.story_contributions.votes_received IS 'Number of votes, kept up to date by update_contribution_votes';
+COMMENT ON FUNCTION public.is_story_participant IS 'Whether the current user takes part in a story (used by RLS policies)';
+COMMENT ON FUNCTION public.create_story IS 'Create a story and its participants atomically (service role only)';
+COMMENT ON FUNCTION public.add_story_contribution IS 'Spend points to add a sentence, twist, character or ending to a story the current user takes part in';
@@ -0,0 +1,53 @@
+-- Record which streak runs have been rewarded for each milestone
+
+-- A streak run rewarded for a milestone. Backdating a workout moves a run's
+-- first day, so awards are matched by overlap with [run_start, reached_on]
+-- rather than by run_start alone.
+CREATE TABLE IF NOT EXISTS public.streak_milestones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  milestone_days INTEGER NOT NULL CHECK (milestone_days > 0),
+  run_start DATE NOT NULL,
+  reached_on DATE NOT NULL,
+  transaction_id UUID REFERENCES public.point_transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT unique_streak_milestone UNIQUE(user_id, milestone_days, run_start),
+  CONSTRAINT streak_milestone_run CHECK (reached_on >= run_start)
+);
+
+-- Create index
+CREATE INDEX idx_streak_milestones_user ON public.streak_milestones(user_id, milestone_days);
+
+-- Enable Row Level Security
+ALTER TABLE public.streak_milestones ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own milestones (written only by the service role)
+CREATE POLICY "Users can view own streak milestones"
+  ON public.streak_milestones
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Backfill from the ledger, whose keys are streak_<days>:<run start>
+INSERT INTO public.streak_milestones (
+  user_id, milestone_days, run_start, reached_on, transaction_id, created_at
+)
+SELECT
+  t.user_id,
+  SPLIT_PART(SUBSTRING(t.idempotency_key FROM 8), ':', 1)::INTEGER,
+  SPLIT_PART(t.idempotency_key, ':', 2)::DATE,
+  GREATEST(
+    SPLIT_PART(t.idempotency_key, ':', 2)::DATE,
+    (t.created_at AT TIME ZONE COALESCE(p.timezone, 'UTC'))::DATE
+  ),
+  t.id,
+  t.created_at
+FROM public.point_transactions t
+JOIN public.profiles p ON p.id = t.user_id
+WHERE t.source = 'streak'
+  AND t.transaction_type = 'earned'
+  AND t.idempotency_key ~ '^streak_[0-9]+:[0-9]{4}-[0-9]{2}-[0-9]{2}$'
+ON CONFLICT (user_id, milestone_days, run_start) DO NOTHING;
+
+-- Add helpful comments
+COMMENT ON TABLE public.streak_milestones IS 'Streak runs already rewarded for a milestone; a run overlapping one of these is not rewarded again';
+COMMENT ON COLUMN public.streak_milestones.reached_on IS 'Last day of the run when the milestone was awarded';
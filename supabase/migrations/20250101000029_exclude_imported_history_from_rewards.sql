@@ -0,0 +1,127 @@
+-- Keep imported history outside the points policy out of every reward.
+-- Such workouts are stored already scored with zero points; without a mark
+-- they still counted towards challenges and streak milestones.
+
+ALTER TABLE public.workouts ADD COLUMN IF NOT EXISTS rewards_excluded BOOLEAN DEFAULT FALSE NOT NULL;
+
+-- Mark history imported before this migration: file workouts from CSV or
+-- health exports scored at zero without ever being credited
+UPDATE public.workouts w
+SET rewards_excluded = TRUE
+WHERE w.source = 'file'
+  AND w.raw_data->>'format' IN ('csv', 'apple_health', 'google_fit')
+  AND w.scored_at IS NOT NULL
+  AND w.points_earned = 0
+  AND w.review_status IS NULL
+  AND w.merged_into IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.point_transactions t
+    WHERE t.user_id = w.user_id AND t.idempotency_key LIKE 'workout:' || w.id || '%'
+  );
+
+-- Users cannot exclude or include workouts by writing the column directly
+CREATE OR REPLACE FUNCTION public.protect_workout_scoring()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.points_earned := 0;
+      NEW.scored_at := NULL;
+      NEW.review_status := NULL;
+      NEW.review_flags := NULL;
+      NEW.review_note := NULL;
+      NEW.reviewed_at := NULL;
+      NEW.merged_into := NULL;
+      NEW.unmerged_from := NULL;
+      NEW.rewards_excluded := FALSE;
+    ELSE
+      NEW.points_earned := OLD.points_earned;
+      NEW.scored_at := OLD.scored_at;
+      NEW.review_status := OLD.review_status;
+      NEW.review_flags := OLD.review_flags;
+      NEW.review_note := OLD.review_note;
+      NEW.reviewed_at := OLD.reviewed_at;
+      NEW.merged_into := OLD.merged_into;
+      NEW.unmerged_from := OLD.unmerged_from;
+      NEW.rewards_excluded := OLD.rewards_excluded;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Editing excluded history keeps it scored at zero rather than queueing it
+-- to earn points
+CREATE OR REPLACE FUNCTION public.reset_workout_scoring()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.scored_at IS NOT NULL AND NOT NEW.rewards_excluded AND (
+    OLD.workout_date IS DISTINCT FROM NEW.workout_date OR
+    OLD.workout_type IS DISTINCT FROM NEW.workout_type OR
+    OLD.duration_minutes IS DISTINCT FROM NEW.duration_minutes OR
+    OLD.distance_km IS DISTINCT FROM NEW.distance_km OR
+    OLD.heart_rate_avg IS DISTINCT FROM NEW.heart_rate_avg OR
+    (OLD.merged_into IS NOT NULL AND NEW.merged_into IS NULL)
+  ) THEN
+    NEW.scored_at := NULL;
+
+    IF NEW.review_status IN ('pending', 'approved') THEN
+      NEW.review_status := NULL;
+      NEW.review_flags := NULL;
+      NEW.review_note := NULL;
+      NEW.reviewed_at := NULL;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Excluded history does not count towards challenges
+CREATE OR REPLACE FUNCTION public.challenge_metric_value(
+  p_user_id UUID,
+  p_metric TEXT,
+  p_starts_at TIMESTAMPTZ,
+  p_ends_at TIMESTAMPTZ
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_timezone TEXT;
+  v_value INTEGER;
+BEGIN
+  IF p_metric = 'points' THEN
+    SELECT COALESCE(SUM(amount), 0) INTO v_value
+    FROM public.point_transactions
+    WHERE user_id = p_user_id
+      AND transaction_type IN ('earned', 'reversal')
+      AND source <> 'challenge_completion'
+      AND created_at >= p_starts_at
+      AND created_at < p_ends_at;
+  ELSE
+    SELECT COALESCE(timezone, 'UTC') INTO v_timezone
+    FROM public.profiles
+    WHERE id = p_user_id;
+
+    SELECT
+      CASE p_metric
+        WHEN 'workouts' THEN COUNT(*)
+        WHEN 'minutes' THEN COALESCE(SUM(duration_minutes), 0)
+        WHEN 'distance' THEN FLOOR(COALESCE(SUM(distance_km), 0))
+        WHEN 'calories' THEN COALESCE(SUM(calories_burned), 0)
+      END
+    INTO v_value
+    FROM public.workouts
+    WHERE user_id = p_user_id
+      AND scored_at IS NOT NULL
+      AND NOT rewards_excluded
+      AND (review_status IS NULL OR review_status = 'approved')
+      AND merged_into IS NULL
+      AND workout_date >= (p_starts_at AT TIME ZONE COALESCE(v_timezone, 'UTC'))::DATE
+      AND workout_date < (p_ends_at AT TIME ZONE COALESCE(v_timezone, 'UTC'))::DATE;
+  END IF;
+
+  RETURN GREATEST(COALESCE(v_value, 0), 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Add helpful comments
+COMMENT ON COLUMN public.workouts.rewards_excluded IS 'Imported outside the points policy: scored at zero and ignored by streaks and challenges';
@@ -0,0 +1,246 @@
+-- Take back a personal record's bonus when its workout is edited down and
+-- loses the record. Records beaten by another workout keep their bonus.
+
+-- Reverse what is left of a record's bonus. Does nothing when the record
+-- earned no bonus or it was already taken back.
+CREATE OR REPLACE FUNCTION public.reverse_personal_record_bonus(
+  p_record_id UUID,
+  p_description TEXT,
+  p_idempotency_key TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  v_record RECORD;
+BEGIN
+  SELECT
+    pr.transaction_id,
+    pt.amount - COALESCE((
+      SELECT SUM(ABS(r.amount))
+      FROM public.point_transactions r
+      WHERE r.reverses_transaction_id = pt.id
+    ), 0)::INTEGER AS remaining
+  INTO v_record
+  FROM public.personal_records pr
+  JOIN public.point_transactions pt ON pt.id = pr.transaction_id
+  WHERE pr.id = p_record_id;
+
+  IF NOT FOUND OR v_record.remaining <= 0 THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.reverse_points(
+    v_record.transaction_id,
+    v_record.remaining,
+    p_description,
+    p_idempotency_key
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- As before, except for a current record with a bonus that is superseded:
+-- when the same workout still holds the record at its new value, the new
+-- record carries the bonus over; when the workout's own effort fell and it
+-- lost the record, the bonus is reversed.
+CREATE OR REPLACE FUNCTION public.refresh_personal_records(
+  p_user_id UUID,
+  p_activity_type TEXT DEFAULT NULL,
+  p_workout_id UUID DEFAULT NULL,
+  p_bonus INTEGER DEFAULT 0
+)
+RETURNS SETOF public.personal_records AS $$
+DECLARE
+  v_key RECORD;
+  v_fastest BOOLEAN;
+  v_best RECORD;
+  v_runner_up RECORD;
+  v_current public.personal_records;
+  v_record public.personal_records;
+  v_award RECORD;
+  v_own_value NUMERIC;
+BEGIN
+  -- Serialize refreshes for the user so two cannot both set a current record
+  PERFORM 1 FROM public.user_points WHERE user_id = p_user_id FOR UPDATE;
+
+  FOR v_key IN
+    SELECT w.activity_type, e.record_type
+    FROM public.workout_efforts e
+    JOIN public.workouts w ON w.id = e.workout_id
+    WHERE e.user_id = p_user_id
+      AND (p_activity_type IS NULL OR w.activity_type = p_activity_type)
+    UNION
+    SELECT pr.activity_type, pr.record_type
+    FROM public.personal_records pr
+    WHERE pr.user_id = p_user_id
+      AND pr.superseded_at IS NULL
+      AND (p_activity_type IS NULL OR pr.activity_type = p_activity_type)
+  LOOP
+    v_fastest := v_key.record_type LIKE 'fastest_%';
+
+    -- Ties go to the workout that got there first
+    SELECT e.workout_id, e.value, w.workout_date INTO v_best
+    FROM public.workout_efforts e
+    JOIN public.workouts w ON w.id = e.workout_id
+    WHERE e.user_id = p_user_id
+      AND e.record_type = v_key.record_type
+      AND w.activity_type = v_key.activity_type
+      AND w.merged_into IS NULL
+      AND (w.review_status IS NULL OR w.review_status = 'approved')
+    ORDER BY CASE WHEN v_fastest THEN e.value ELSE -e.value END, w.workout_date, w.created_at, w.id
+    LIMIT 1;
+
+    SELECT * INTO v_current
+    FROM public.personal_records
+    WHERE user_id = p_user_id
+      AND activity_type = v_key.activity_type
+      AND record_type = v_key.record_type
+      AND superseded_at IS NULL;
+
+    -- A record whose own workout now falls short of it was lost, not beaten
+    IF v_current.bonus_points > 0 AND v_current.workout_id IS DISTINCT FROM v_best.workout_id THEN
+      SELECT e.value INTO v_own_value
+      FROM public.workout_efforts e
+      WHERE e.workout_id = v_current.workout_id
+        AND e.record_type = v_key.record_type;
+
+      IF v_own_value IS NULL
+        OR (v_fastest AND v_own_value > v_current.value)
+        OR (NOT v_fastest AND v_own_value < v_current.value)
+      THEN
+        PERFORM public.reverse_personal_record_bonus(
+          v_current.id,
+          'Workout edited: personal record lost',
+          'personal_record_lost:' || v_current.id
+        );
+      END IF;
+    END IF;
+
+    IF v_best.workout_id IS NULL THEN
+      -- No counted workout has this effort any more
+      UPDATE public.personal_records SET superseded_at = NOW() WHERE id = v_current.id;
+      CONTINUE;
+    END IF;
+
+    SELECT e.value INTO v_runner_up
+    FROM public.workout_efforts e
+    JOIN public.workouts w ON w.id = e.workout_id
+    WHERE e.user_id = p_user_id
+      AND e.record_type = v_key.record_type
+      AND w.activity_type = v_key.activity_type
+      AND w.merged_into IS NULL
+      AND (w.review_status IS NULL OR w.review_status = 'approved')
+      AND e.workout_id <> v_best.workout_id
+    ORDER BY CASE WHEN v_fastest THEN e.value ELSE -e.value END
+    LIMIT 1;
+
+    IF v_current.id IS NOT NULL
+      AND v_current.workout_id = v_best.workout_id
+      AND v_current.value = v_best.value
+    THEN
+      v_record := v_current;
+    ELSE
+      UPDATE public.personal_records SET superseded_at = NOW() WHERE id = v_current.id;
+
+      UPDATE public.personal_records
+      SET superseded_at = NULL
+      WHERE id = (
+        SELECT id
+        FROM public.personal_records
+        WHERE user_id = p_user_id
+          AND activity_type = v_key.activity_type
+          AND record_type = v_key.record_type
+          AND workout_id = v_best.workout_id
+          AND value = v_best.value
+        ORDER BY set_at DESC
+        LIMIT 1
+      )
+      RETURNING * INTO v_record;
+
+      IF NOT FOUND THEN
+        INSERT INTO public.personal_records (
+          user_id, activity_type, record_type, value, workout_id, workout_date, previous_value
+        )
+        VALUES (
+          p_user_id, v_key.activity_type, v_key.record_type, v_best.value, v_best.workout_id,
+          v_best.workout_date, v_runner_up.value
+        )
+        RETURNING * INTO v_record;
+      END IF;
+
+      -- The workout still holds the record at its new value
+      IF v_current.bonus_points > 0
+        AND v_current.workout_id = v_best.workout_id
+        AND v_record.transaction_id IS NULL
+      THEN
+        UPDATE public.personal_records
+        SET bonus_points = v_current.bonus_points, transaction_id = v_current.transaction_id
+        WHERE id = v_record.id
+        RETURNING * INTO v_record;
+      END IF;
+    END IF;
+
+    CONTINUE WHEN p_workout_id IS NULL
+      OR v_best.workout_id <> p_workout_id
+      OR v_runner_up.value IS NULL
+      OR v_best.value = v_runner_up.value;
+
+    IF p_bonus > 0 THEN
+      SELECT * INTO v_award
+      FROM public.award_points(
+        p_user_id,
+        p_bonus,
+        'personal_record',
+        'Personal record: ' || replace(v_key.record_type, '_', ' ') || ' ('
+          || replace(v_key.activity_type, '_', ' ') || ')',
+        'personal_record:' || p_workout_id || ':' || v_key.record_type
+      );
+
+      IF NOT v_award.already_applied THEN
+        UPDATE public.personal_records
+        SET bonus_points = p_bonus, transaction_id = v_award.transaction_id
+        WHERE id = v_record.id
+        RETURNING * INTO v_record;
+      END IF;
+    END IF;
+
+    RETURN NEXT v_record;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Deleting a workout reverses its records' bonuses through the shared helper
+CREATE OR REPLACE FUNCTION public.remove_deleted_workout_records()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_record_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = OLD.user_id)
+    OR NOT EXISTS (SELECT 1 FROM public.user_points WHERE user_id = OLD.user_id)
+  THEN
+    RETURN OLD;
+  END IF;
+
+  FOR v_record_id IN
+    SELECT id FROM public.personal_records WHERE workout_id = OLD.id AND transaction_id IS NOT NULL
+  LOOP
+    PERFORM public.reverse_personal_record_bonus(
+      v_record_id,
+      'Workout deleted: personal record removed',
+      'personal_record_deleted:' || v_record_id
+    );
+  END LOOP;
+
+  DELETE FROM public.personal_records WHERE workout_id = OLD.id;
+  DELETE FROM public.workout_efforts WHERE workout_id = OLD.id;
+
+  PERFORM public.refresh_personal_records(OLD.user_id, OLD.activity_type);
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.reverse_personal_record_bonus(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reverse_personal_record_bonus(UUID, TEXT, TEXT) TO service_role;
+
+-- Add helpful comments
+COMMENT ON FUNCTION public.reverse_personal_record_bonus IS 'Reverse what is left of a personal record bonus';
+COMMENT ON FUNCTION public.refresh_personal_records IS 'Recompute current personal records from counted workouts, award bonuses for new ones and reverse bonuses of records their workout lost';
@@ -0,0 +1,150 @@
+-- Contribution types beyond a sentence are level perks (see level_perks):
+-- add_story_contribution refuses a type the user has not unlocked before
+-- charging for it.
+
+CREATE OR REPLACE FUNCTION public.add_story_contribution(
+  p_story_id UUID,
+  p_content TEXT,
+  p_contribution_type TEXT DEFAULT 'sentence',
+  p_parent_contribution_id UUID DEFAULT NULL
+)
+RETURNS TABLE(
+  contribution_id UUID,
+  story_position INTEGER,
+  new_balance INTEGER,
+  success BOOLEAN,
+  message TEXT
+) AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_content TEXT := BTRIM(p_content);
+  v_story RECORD;
+  v_cost INTEGER;
+  v_perk TEXT;
+  v_min_level INTEGER;
+  v_position INTEGER;
+  v_contribution_id UUID := gen_random_uuid();
+  v_spend RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_cost := CASE p_contribution_type
+    WHEN 'sentence' THEN 10
+    WHEN 'twist' THEN 25
+    WHEN 'character' THEN 30
+    WHEN 'ending' THEN 50
+  END;
+
+  IF v_cost IS NULL THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, NULL::INTEGER, false,
+      'Unknown contribution type';
+    RETURN;
+  END IF;
+
+  -- Mirrors CONTRIBUTION_PERKS in lib/stories/stories.ts
+  v_perk := CASE p_contribution_type
+    WHEN 'sentence' THEN 'story_sentence'
+    WHEN 'twist' THEN 'story_twist'
+    WHEN 'character' THEN 'story_character'
+    WHEN 'ending' THEN 'story_ending'
+  END;
+
+  IF NOT public.has_unlocked_perk(v_user_id, v_perk) THEN
+    SELECT min_level INTO v_min_level FROM public.level_perks WHERE perk = v_perk;
+
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, NULL::INTEGER, false,
+      'Reach level ' || v_min_level || ' to unlock ' || p_contribution_type || ' contributions';
+    RETURN;
+  END IF;
+
+  IF v_content IS NULL OR LENGTH(v_content) NOT BETWEEN 10 AND 280 THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, NULL::INTEGER, false,
+      'Contributions must be between 10 and 280 characters';
+    RETURN;
+  END IF;
+
+  -- Lock the story so concurrent contributions take consecutive positions
+  SELECT * INTO v_story
+  FROM public.stories
+  WHERE id = p_story_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.story_participants
+    WHERE story_id = p_story_id AND user_id = v_user_id
+  ) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, NULL::INTEGER, false,
+      'You are not taking part in this story';
+    RETURN;
+  END IF;
+
+  IF v_story.status <> 'active' THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, NULL::INTEGER, false,
+      'This story is not open for contributions';
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(MAX(c.position), 0) + 1 INTO v_position
+  FROM public.story_contributions c
+  WHERE c.story_id = p_story_id;
+
+  IF v_position > v_story.max_contributions THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, NULL::INTEGER, false,
+      'This story is full';
+    RETURN;
+  END IF;
+
+  IF p_parent_contribution_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.story_contributions c
+    WHERE c.id = p_parent_contribution_id AND c.story_id = p_story_id
+  ) THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, NULL::INTEGER, false,
+      'The contribution you are replying to is not part of this story';
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_spend
+  FROM public.spend_points(
+    v_user_id,
+    v_cost,
+    'story_contribution',
+    'Story ' || p_contribution_type || ' in "' || v_story.title || '"',
+    'story_contribution:' || v_contribution_id
+  );
+
+  IF NOT v_spend.success THEN
+    RETURN QUERY SELECT NULL::UUID, NULL::INTEGER, v_spend.new_balance, false,
+      'Not enough points';
+    RETURN;
+  END IF;
+
+  INSERT INTO public.story_contributions (
+    id, story_id, contributor_id, content, position, points_spent, contribution_type,
+    parent_contribution_id, transaction_id
+  )
+  VALUES (
+    v_contribution_id, p_story_id, v_user_id, v_content, v_position, v_cost,
+    p_contribution_type, p_parent_contribution_id, v_spend.transaction_id
+  );
+
+  UPDATE public.stories
+  SET
+    content = CONCAT_WS(' ', NULLIF(content, ''), v_content),
+    status = CASE
+      WHEN p_contribution_type = 'ending' OR v_position = max_contributions THEN 'complete'
+      ELSE status
+    END,
+    completed_at = CASE
+      WHEN p_contribution_type = 'ending' OR v_position = max_contributions THEN NOW()
+      ELSE completed_at
+    END
+  WHERE id = p_story_id;
+
+  RETURN QUERY SELECT v_contribution_id, v_position, v_spend.new_balance, true, NULL::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Add helpful comments
+COMMENT ON FUNCTION public.add_story_contribution IS 'Spend points to add a sentence, twist, character or ending to a story the current user takes part in, once their level unlocks that type';
@@ -0,0 +1,11 @@
+-- Users can only insert manual workouts themselves. Synced and imported
+-- workouts are written by the service role, which applies the import points
+-- policy; a client inserting one directly could otherwise claim any source
+-- and date and have the scoring job credit it in full.
+
+DROP POLICY IF EXISTS "Users can insert own workouts" ON public.workouts;
+
+CREATE POLICY "Users can insert own manual workouts"
+  ON public.workouts
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND source = 'manual' AND external_id IS NULL);
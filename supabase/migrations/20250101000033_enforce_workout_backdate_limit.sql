@@ -0,0 +1,48 @@
+-- Enforce the backdate limit for workouts users write themselves, so it holds
+-- for any client and not only the app's server actions. Synced and imported
+-- workouts are written by the service role and keep their own dates.
+
+-- Mirrors MAX_BACKDATE_DAYS in lib/workouts/manual.ts: a workout can be dated
+-- up to 7 days before the user's local today, and not in the future. An edit
+-- that keeps the date is allowed however old the workout is.
+CREATE OR REPLACE FUNCTION public.check_workout_date()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_max_age_days CONSTANT INTEGER := 7;
+  v_today DATE;
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.workout_date IS NOT DISTINCT FROM OLD.workout_date THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT (NOW() AT TIME ZONE COALESCE(timezone, 'UTC'))::DATE INTO v_today
+  FROM public.profiles
+  WHERE id = NEW.user_id;
+
+  v_today := COALESCE(v_today, (NOW() AT TIME ZONE 'UTC')::DATE);
+
+  IF NEW.workout_date > v_today THEN
+    RAISE EXCEPTION 'Workouts cannot be logged in the future'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.workout_date < v_today - v_max_age_days THEN
+    RAISE EXCEPTION 'Workouts can only be logged for the last % days', v_max_age_days
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_workout_date
+  BEFORE INSERT OR UPDATE OF workout_date ON public.workouts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_workout_date();
+
+-- Add helpful comments
+COMMENT ON FUNCTION public.check_workout_date IS 'Reject workouts users date in the future or more than 7 days back';
@@ -0,0 +1,75 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface FakeResponse {
+  data: unknown;
+  error: { message: string } | null;
+}
+
+export interface FakeSupabaseOptions {
+  /** Rows each table returns to any query; single() returns the first one */
+  tables?: Record<string, unknown[]>;
+  /** Result of each function, or a function of its arguments */
+  rpc?: Record<string, FakeResponse | ((args: Record<string, unknown>) => FakeResponse)>;
+}
+
+export interface FakeSupabase {
+  client: SupabaseClient;
+  rpcCalls: { fn: string; args: Record<string, unknown> }[];
+  writes: { table: string; method: string; values: unknown }[];
+}
+
+const WRITE_METHODS = ['insert', 'upsert', 'update', 'delete'];
+
+/**
+ * A stand-in for the Supabase client that serves fixed rows and records
+ * function calls and writes. Filters are ignored: every query on a table
+ * sees all of its rows.
+ */
+export function fakeSupabase(options: FakeSupabaseOptions = {}): FakeSupabase {
+  const rpcCalls: FakeSupabase['rpcCalls'] = [];
+  const writes: FakeSupabase['writes'] = [];
+
+  const query = (table: string) => {
+    const rows = options.tables?.[table] ?? [];
+    let single = false;
+
+    const chain: unknown = new Proxy(
+      {},
+      {
+        get(_, prop: string) {
+          if (prop === 'then') {
+            const result = { data: single ? (rows[0] ?? null) : rows, error: null };
+            return (resolve: (value: FakeResponse) => unknown) => resolve(result);
+          }
+          if (prop === 'single' || prop === 'maybeSingle') {
+            return () => {
+              single = true;
+              return chain;
+            };
+          }
+          if (WRITE_METHODS.includes(prop)) {
+            return (values?: unknown) => {
+              writes.push({ table, method: prop, values });
+              return chain;
+            };
+          }
+          return () => chain;
+        },
+      }
+    );
+
+    return chain;
+  };
+
+  const client = {
+    from: query,
+    rpc: async (fn: string, args: Record<string, unknown> = {}) => {
+      rpcCalls.push({ fn, args });
+      const response = options.rpc?.[fn];
+      if (typeof response === 'function') return response(args);
+      return response ?? { data: null, error: null };
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, rpcCalls, writes };
+}
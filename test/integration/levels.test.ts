@@ -0,0 +1,45 @@
+// @vitest-environment node
+import { beforeAll, describe, it, expect } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { createUser, migratedDatabase } from '@/test/helpers/database';
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await migratedDatabase();
+}, 60_000);
+
+async function unlocked(userId: string, perk: string): Promise<boolean> {
+  const { rows } = await db.query<{ unlocked: boolean }>(
+    'SELECT public.has_unlocked_perk($1, $2) AS unlocked',
+    [userId, perk]
+  );
+
+  return rows[0].unlocked;
+}
+
+async function earn(userId: string, points: number) {
+  await db.query('SELECT * FROM public.award_points($1, $2)', [userId, points]);
+}
+
+describe('level perks', () => {
+  it('refuses a perk below its level and grants it once the level is reached', async () => {
+    const userId = await createUser(db, 'climber');
+
+    // Level 2 at 100 points earned; twists unlock at level 3 (300 points)
+    await earn(userId, 100);
+    expect(await unlocked(userId, 'story_sentence')).toBe(true);
+    expect(await unlocked(userId, 'story_twist')).toBe(false);
+
+    await earn(userId, 200);
+    expect(await unlocked(userId, 'story_twist')).toBe(true);
+    expect(await unlocked(userId, 'story_character')).toBe(false);
+  });
+
+  it('does not unlock a perk that does not exist', async () => {
+    const userId = await createUser(db, 'veteran');
+    await earn(userId, 10_000);
+
+    expect(await unlocked(userId, 'time_travel')).toBe(false);
+  });
+});
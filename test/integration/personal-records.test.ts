@@ -0,0 +1,122 @@
+// @vitest-environment node
+import { beforeAll, describe, it, expect } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { POINT_VALUES } from '@/lib/gamification/points';
+import { createUser, migratedDatabase } from '@/test/helpers/database';
+
+const BONUS = POINT_VALUES.PERSONAL_RECORD;
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await migratedDatabase();
+}, 60_000);
+
+async function addRun(userId: string, date: string, distanceKm: number): Promise<string> {
+  const { rows } = await db.query<{ id: string }>(
+    `INSERT INTO public.workouts (user_id, workout_date, workout_type, activity_type, distance_km, source)
+     VALUES ($1, $2, 'Running', 'running', $3, 'manual') RETURNING id`,
+    [userId, date, distanceKm]
+  );
+
+  return rows[0].id;
+}
+
+// What processWorkout does once a workout is scored
+async function score(userId: string, workoutId: string) {
+  await db.query('SELECT * FROM public.refresh_personal_records($1, $2, $3, $4)', [
+    userId,
+    'running',
+    workoutId,
+    BONUS,
+  ]);
+}
+
+async function balance(userId: string): Promise<number> {
+  const { rows } = await db.query<{ current_balance: number }>(
+    'SELECT current_balance FROM public.user_points WHERE user_id = $1',
+    [userId]
+  );
+
+  return rows[0].current_balance;
+}
+
+async function currentDistanceRecord(userId: string) {
+  const { rows } = await db.query<{ workout_id: string; value: string; bonus_points: number }>(
+    `SELECT workout_id, value, bonus_points FROM public.personal_records
+     WHERE user_id = $1 AND record_type = 'longest_distance' AND superseded_at IS NULL`,
+    [userId]
+  );
+
+  return rows[0];
+}
+
+describe('personal record bonuses', () => {
+  it('reverses the bonus when the record workout is edited below another workout', async () => {
+    const userId = await createUser(db, 'edited_down');
+    const other = await addRun(userId, '2025-03-01', 8);
+    const record = await addRun(userId, '2025-03-02', 10);
+    await score(userId, record);
+    expect(await balance(userId)).toBe(BONUS);
+
+    await db.query('UPDATE public.workouts SET distance_km = 6 WHERE id = $1', [record]);
+    await score(userId, record);
+
+    expect(await currentDistanceRecord(userId)).toMatchObject({ workout_id: other });
+    expect(await balance(userId)).toBe(0);
+  });
+
+  it('keeps the bonus when an edited workout still holds the record', async () => {
+    const userId = await createUser(db, 'still_ahead');
+    await addRun(userId, '2025-03-01', 8);
+    const record = await addRun(userId, '2025-03-02', 10);
+    await score(userId, record);
+
+    await db.query('UPDATE public.workouts SET distance_km = 9 WHERE id = $1', [record]);
+    await score(userId, record);
+
+    expect(await currentDistanceRecord(userId)).toMatchObject({
+      workout_id: record,
+      value: '9.00',
+      bonus_points: BONUS,
+    });
+    expect(await balance(userId)).toBe(BONUS);
+
+    // Falling behind later still takes the carried bonus back
+    await db.query('UPDATE public.workouts SET distance_km = 7 WHERE id = $1', [record]);
+    await score(userId, record);
+
+    expect(await balance(userId)).toBe(0);
+  });
+
+  it('keeps the bonus of a record another workout beats', async () => {
+    const userId = await createUser(db, 'beaten');
+    await addRun(userId, '2025-03-01', 8);
+    const record = await addRun(userId, '2025-03-02', 10);
+    await score(userId, record);
+
+    const better = await addRun(userId, '2025-03-03', 12);
+    await score(userId, better);
+
+    expect(await currentDistanceRecord(userId)).toMatchObject({ workout_id: better });
+    expect(await balance(userId)).toBe(2 * BONUS);
+  });
+
+  it('does not reverse a lost bonus again when the workout is deleted', async () => {
+    const userId = await createUser(db, 'then_deleted');
+    await addRun(userId, '2025-03-01', 8);
+    const record = await addRun(userId, '2025-03-02', 10);
+    await score(userId, record);
+
+    await db.query('UPDATE public.workouts SET distance_km = 6 WHERE id = $1', [record]);
+    await score(userId, record);
+    await db.query('DELETE FROM public.workouts WHERE id = $1', [record]);
+
+    const { rows } = await db.query<{ reversed: number }>(
+      `SELECT SUM(amount)::INTEGER AS reversed FROM public.point_transactions
+       WHERE user_id = $1 AND transaction_type = 'reversal'`,
+      [userId]
+    );
+    expect(rows[0].reversed).toBe(-BONUS);
+  });
+});
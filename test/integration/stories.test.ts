@@ -0,0 +1,88 @@
+// @vitest-environment node
+import { beforeAll, describe, it, expect } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { CONTRIBUTION_COSTS } from '@/lib/stories/stories';
+import { createUser, migratedDatabase, queryAsUser } from '@/test/helpers/database';
+
+interface ContributionResult {
+  success: boolean;
+  message: string | null;
+  new_balance: number | null;
+}
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await migratedDatabase();
+}, 60_000);
+
+// A user who has earned `points`, with a story of their own to add to
+async function author(username: string, points: number) {
+  const userId = await createUser(db, username);
+  await db.query('SELECT * FROM public.award_points($1, $2)', [userId, points]);
+
+  const { rows } = await db.query<{ id: string }>(
+    `SELECT public.create_story($1, 'The Long Run', 'adventure', NULL, 100, NULL, '{}', '{}') AS id`,
+    [userId]
+  );
+
+  return { userId, storyId: rows[0].id };
+}
+
+async function contribute(userId: string, storyId: string, type: string) {
+  const [result] = await queryAsUser<ContributionResult>(
+    db,
+    userId,
+    'SELECT * FROM public.add_story_contribution($1, $2, $3)',
+    [storyId, 'The trail turned towards the hills.', type]
+  );
+
+  return result;
+}
+
+async function balance(userId: string): Promise<number> {
+  const { rows } = await db.query<{ current_balance: number }>(
+    'SELECT current_balance FROM public.user_points WHERE user_id = $1',
+    [userId]
+  );
+
+  return rows[0].current_balance;
+}
+
+describe('add_story_contribution', () => {
+  it('refuses a contribution type above the user level without charging', async () => {
+    // 100 points earned is level 2; endings unlock at level 7
+    const { userId, storyId } = await author('level_two', 100);
+
+    expect(await contribute(userId, storyId, 'ending')).toMatchObject({
+      success: false,
+      message: 'Reach level 7 to unlock ending contributions',
+    });
+    expect(await balance(userId)).toBe(100);
+
+    const { rows } = await db.query(
+      'SELECT 1 FROM public.story_contributions WHERE story_id = $1',
+      [storyId]
+    );
+    expect(rows).toEqual([]);
+  });
+
+  it('charges for a contribution type the user has unlocked', async () => {
+    const { userId, storyId } = await author('sentence_writer', 100);
+
+    expect(await contribute(userId, storyId, 'sentence')).toMatchObject({
+      success: true,
+      new_balance: 100 - CONTRIBUTION_COSTS.sentence,
+    });
+  });
+
+  it('allows the type once the user reaches its level', async () => {
+    // Level 7 needs 50 * 7 * 6 points earned
+    const { userId, storyId } = await author('level_seven', 2100);
+
+    expect(await contribute(userId, storyId, 'ending')).toMatchObject({
+      success: true,
+      new_balance: 2100 - CONTRIBUTION_COSTS.ending,
+    });
+  });
+});
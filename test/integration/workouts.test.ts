@@ -0,0 +1,117 @@
+// @vitest-environment node
+import { beforeAll, describe, it, expect } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { localDate, shiftDate } from '@/lib/utils/dates';
+import { MAX_BACKDATE_DAYS } from '@/lib/workouts/manual';
+import { createUser, migratedDatabase, queryAsUser } from '@/test/helpers/database';
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await migratedDatabase();
+}, 60_000);
+
+// Insert a workout the way PostgREST would for the user's own session
+async function insertAsUser(
+  userId: string,
+  workout: { workout_date: string; source: string; external_id?: string | null }
+) {
+  return queryAsUser<{ id: string }>(
+    db,
+    userId,
+    `INSERT INTO public.workouts (user_id, workout_date, workout_type, duration_minutes, source, external_id)
+     VALUES ($1, $2, 'Running', 60, $3, $4) RETURNING id`,
+    [userId, workout.workout_date, workout.source, workout.external_id ?? null]
+  );
+}
+
+// What scoreUnscoredWorkouts picks up
+async function awaitingScoring(userId: string) {
+  const { rows } = await db.query<{ id: string; source: string }>(
+    'SELECT id, source FROM public.workouts WHERE user_id = $1 AND scored_at IS NULL',
+    [userId]
+  );
+
+  return rows;
+}
+
+describe('inserting workouts directly', () => {
+  it('refuses synced or imported workouts, leaving nothing for the scoring job', async () => {
+    const userId = await createUser(db, 'spoofer');
+
+    await expect(
+      insertAsUser(userId, { workout_date: localDate(null), source: 'strava', external_id: '123' })
+    ).rejects.toThrow(/row-level security/);
+    await expect(
+      insertAsUser(userId, { workout_date: localDate(null), source: 'file', external_id: 'abc' })
+    ).rejects.toThrow(/row-level security/);
+    await expect(
+      insertAsUser(userId, { workout_date: localDate(null), source: 'manual', external_id: 'x' })
+    ).rejects.toThrow(/row-level security/);
+
+    expect(await awaitingScoring(userId)).toEqual([]);
+  });
+
+  it('queues a manual workout for scoring', async () => {
+    const userId = await createUser(db, 'logger');
+
+    const [workout] = await insertAsUser(userId, {
+      workout_date: localDate(null),
+      source: 'manual',
+    });
+
+    expect(await awaitingScoring(userId)).toEqual([{ id: workout.id, source: 'manual' }]);
+  });
+});
+
+describe('workout dates', () => {
+  const today = localDate(null);
+
+  it('refuses workouts dated beyond the backdate limit or in the future', async () => {
+    const userId = await createUser(db, 'backdater');
+
+    await expect(
+      insertAsUser(userId, { workout_date: '2019-06-01', source: 'manual' })
+    ).rejects.toThrow(`Workouts can only be logged for the last ${MAX_BACKDATE_DAYS} days`);
+    await expect(
+      insertAsUser(userId, { workout_date: shiftDate(today, 1), source: 'manual' })
+    ).rejects.toThrow('Workouts cannot be logged in the future');
+
+    const [workout] = await insertAsUser(userId, {
+      workout_date: shiftDate(today, -MAX_BACKDATE_DAYS),
+      source: 'manual',
+    });
+    expect(workout.id).toBeDefined();
+  });
+
+  it('refuses moving a workout beyond the limit but allows other edits to old workouts', async () => {
+    const userId = await createUser(db, 'editor');
+    const [recent] = await insertAsUser(userId, { workout_date: today, source: 'manual' });
+
+    await expect(
+      queryAsUser(db, userId, 'UPDATE public.workouts SET workout_date = $2 WHERE id = $1', [
+        recent.id,
+        '2019-06-01',
+      ])
+    ).rejects.toThrow(/last \d+ days/);
+
+    // Logged before the limit existed, or imported
+    const { rows } = await db.query<{ id: string }>(
+      `INSERT INTO public.workouts (user_id, workout_date, workout_type, duration_minutes, source)
+       VALUES ($1, '2019-06-01', 'Running', 60, 'manual') RETURNING id`,
+      [userId]
+    );
+    await queryAsUser(
+      db,
+      userId,
+      'UPDATE public.workouts SET duration_minutes = 45 WHERE id = $1',
+      [rows[0].id]
+    );
+
+    const { rows: edited } = await db.query<{ duration_minutes: number }>(
+      'SELECT duration_minutes FROM public.workouts WHERE id = $1',
+      [rows[0].id]
+    );
+    expect(edited[0].duration_minutes).toBe(45);
+  });
+});
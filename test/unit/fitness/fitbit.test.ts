@@ -0,0 +1,174 @@
+import { createHash } from 'crypto';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import {
+  buildFitbitAuthorizeUrl,
+  createPkcePair,
+  currentQuota,
+  FITBIT_HOURLY_REQUEST_LIMIT,
+  fitbitApiGet,
+  hasRequiredFitbitScope,
+  updateQuota,
+} from '@/lib/fitness/fitbit/client';
+import { toFitbitWorkoutInsert, type FitbitActivity } from '@/lib/fitness/fitbit/activities';
+import { activityListPath, nextPagePath } from '@/lib/fitness/fitbit/sync';
+
+const now = new Date('2025-03-10T12:00:00Z');
+
+describe('Fitbit OAuth', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    process.env.FITBIT_CLIENT_ID = '23ABCD';
+    process.env.NEXT_PUBLIC_APP_URL = 'http://localhost:3000';
+    delete process.env.FITBIT_BASE_URL;
+  });
+
+  afterEach(() => {
+    process.env = { ...original };
+  });
+
+  it('creates an S256 PKCE pair', () => {
+    const { verifier, challenge } = createPkcePair();
+    expect(verifier).toMatch(/^[A-Za-z0-9_-]{43,128}$/);
+    expect(challenge).toBe(createHash('sha256').update(verifier).digest('base64url'));
+    expect(createPkcePair().verifier).not.toBe(verifier);
+  });
+
+  it('builds the authorize URL with the challenge but not the verifier', () => {
+    const url = new URL(buildFitbitAuthorizeUrl('signed-state', 'the-challenge'));
+    expect(url.origin + url.pathname).toBe('https://www.fitbit.com/oauth2/authorize');
+    expect(url.searchParams.get('client_id')).toBe('23ABCD');
+    expect(url.searchParams.get('code_challenge')).toBe('the-challenge');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('redirect_uri')).toBe(
+      'http://localhost:3000/api/auth/fitbit/callback'
+    );
+    expect(url.searchParams.get('state')).toBe('signed-state');
+  });
+
+  it('sends the whole flow to FITBIT_BASE_URL when set', () => {
+    process.env.FITBIT_BASE_URL = 'http://localhost:4010';
+    expect(buildFitbitAuthorizeUrl('s', 'c')).toMatch(
+      /^http:\/\/localhost:4010\/oauth2\/authorize\?/
+    );
+  });
+
+  it('requires every requested scope', () => {
+    expect(hasRequiredFitbitScope('heartrate activity profile')).toBe(true);
+    expect(hasRequiredFitbitScope('activity')).toBe(false);
+    expect(hasRequiredFitbitScope(null)).toBe(false);
+  });
+});
+
+describe('Fitbit quota', () => {
+  it('starts a full hour once the last window has passed', () => {
+    expect(currentQuota(null, null, now)).toEqual({
+      remaining: FITBIT_HOURLY_REQUEST_LIMIT,
+      resetsAt: null,
+    });
+    expect(currentQuota(3, '2025-03-10T11:59:00Z', now).remaining).toBe(
+      FITBIT_HOURLY_REQUEST_LIMIT
+    );
+    expect(currentQuota(3, '2025-03-10T12:20:00Z', now)).toEqual({
+      remaining: 3,
+      resetsAt: new Date('2025-03-10T12:20:00Z'),
+    });
+  });
+
+  it('reads the rate limit headers', () => {
+    const quota = { remaining: 150, resetsAt: null };
+    updateQuota(
+      quota,
+      new Headers({
+        'Fitbit-Rate-Limit-Limit': '150',
+        'Fitbit-Rate-Limit-Remaining': '42',
+        'Fitbit-Rate-Limit-Reset': '600',
+      }),
+      now
+    );
+    expect(quota).toEqual({ remaining: 42, resetsAt: new Date('2025-03-10T12:10:00Z') });
+  });
+
+  it('counts requests itself when the headers are missing', () => {
+    const quota = { remaining: 10, resetsAt: null };
+    updateQuota(quota, new Headers(), now);
+    expect(quota).toEqual({ remaining: 9, resetsAt: new Date('2025-03-10T13:00:00Z') });
+  });
+
+  it('refuses to call Fitbit once the quota is used up', async () => {
+    const resetsAt = new Date('2025-03-10T12:30:00Z');
+    const { data, error } = await fitbitApiGet(
+      'token',
+      '/1/user/-/profile.json',
+      {
+        remaining: 0,
+        resetsAt,
+      },
+      now
+    );
+
+    expect(data).toBeNull();
+    expect(error).toMatchObject({ status: 429, retryAt: resetsAt });
+  });
+});
+
+describe('Fitbit activities', () => {
+  const activity: FitbitActivity = {
+    logId: 58432114102,
+    activityName: 'Outdoor Bike',
+    activityTypeId: 90001,
+    startTime: '2025-03-09T22:15:00.000-05:00',
+    duration: 3_900_000,
+    activeDuration: 3_600_000,
+    distance: 12.5,
+    distanceUnit: 'Mile',
+    calories: 540,
+    averageHeartRate: 128,
+    logType: 'tracker',
+  };
+
+  it('maps an activity log to a workout on its local date', () => {
+    const { row, error } = toFitbitWorkoutInsert('user-1', activity);
+
+    expect(error).toBeNull();
+    expect(row).toMatchObject({
+      user_id: 'user-1',
+      workout_date: '2025-03-09',
+      started_at: '2025-03-10T03:15:00.000Z',
+      workout_type: 'Cycling',
+      activity_type: 'cycling',
+      duration_minutes: 60,
+      distance_km: 20.12,
+      calories_burned: 540,
+      heart_rate_avg: 128,
+      source: 'fitbit',
+      external_id: '58432114102',
+    });
+  });
+
+  it('keeps kilometres and skips activities shorter than a minute', () => {
+    expect(
+      toFitbitWorkoutInsert('user-1', { ...activity, distanceUnit: 'Kilometer' }).row
+    ).toMatchObject({ distance_km: 12.5 });
+    expect(
+      toFitbitWorkoutInsert('user-1', { ...activity, duration: 20_000, activeDuration: 0 }).error
+    ).not.toBeNull();
+  });
+
+  it('lists activities from a day before the last sync, oldest first', () => {
+    const url = new URL(`https://api.fitbit.com${activityListPath(now)}`);
+    expect(url.pathname).toBe('/1/user/-/activities/list.json');
+    expect(url.searchParams.get('afterDate')).toBe('2025-03-09T12:00:00');
+    expect(url.searchParams.get('sort')).toBe('asc');
+    expect(url.searchParams.get('limit')).toBe('100');
+  });
+
+  it('follows next-page links on our own base URL', () => {
+    expect(
+      nextPagePath(
+        'https://api.fitbit.com/1/user/-/activities/list.json?offset=100&limit=100&sort=asc&afterDate=2025-03-09'
+      )
+    ).toBe('/1/user/-/activities/list.json?offset=100&limit=100&sort=asc&afterDate=2025-03-09');
+    expect(nextPagePath('')).toBeNull();
+  });
+});
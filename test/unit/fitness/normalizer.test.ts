@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ACTIVITY_PATTERNS,
+  ACTIVITY_TYPE_LABELS,
+  ActivityType,
+  activityKey,
+  activityTypeFor,
+  classifyIntensity,
+  normalizeActivity,
+  normalizeActivityType,
+  toWorkoutRow,
+} from '@/lib/fitness/normalizer';
+
+describe('normalizeActivityType', () => {
+  // The backfill migration gives the same results for these names
+  it.each([
+    ['Morning Run', 'running'],
+    ['jog', 'running'],
+    ['Trail running', 'running'],
+    ['Treadmill walk', 'walking'],
+    ['Hike', 'hiking'],
+    ['Mountain biking', 'cycling'],
+    ['Spin class', 'cycling'],
+    ['E-Bike ride', 'cycling'],
+    ['Pool laps', 'swimming'],
+    ['Rowing machine', 'rowing'],
+    ['Throwing', 'other'],
+    ['Kayaking', 'paddling'],
+    ['Weight training', 'strength_training'],
+    ['Crossfit', 'hiit'],
+    ['Zumba', 'dance'],
+    ['Kickboxing', 'martial_arts'],
+    ['Stair climber', 'stair_climbing'],
+    ['Rock climbing', 'climbing'],
+    ['Cross-country skiing', 'snow_sports'],
+    ['Ice skating', 'skating'],
+    ['Football', 'team_sports'],
+    ['Table tennis', 'racket_sports'],
+    ['  STRENGTH  ', 'strength_training'],
+    ['Gardening', 'other'],
+  ])('classifies %j as %s', (name, expected) => {
+    expect(normalizeActivityType(name)).toBe(expected);
+  });
+
+  it('treats missing names as other', () => {
+    expect(normalizeActivityType(null)).toBe(ActivityType.Other);
+    expect(normalizeActivityType('   ')).toBe(ActivityType.Other);
+  });
+
+  it('only uses known activity types', () => {
+    for (const [type] of ACTIVITY_PATTERNS) {
+      expect(ACTIVITY_TYPE_LABELS[type]).toBeDefined();
+    }
+  });
+});
+
+describe('activityTypeFor', () => {
+  it('maps Strava sport types exactly', () => {
+    expect(activityTypeFor('strava', 'VirtualRide')).toBe('cycling');
+    expect(activityTypeFor('strava', 'WeightTraining')).toBe('strength_training');
+    expect(activityTypeFor('strava', 'Golf')).toBe('other');
+  });
+
+  it('maps Fitbit activity names case-insensitively', () => {
+    expect(activityTypeFor('fitbit', 'Outdoor Bike')).toBe('cycling');
+    expect(activityTypeFor('fitbit', 'aerobic workout')).toBe('other');
+  });
+
+  it('falls back to free-text matching for unknown names', () => {
+    expect(activityTypeFor('strava', 'Morning jog')).toBe('running');
+    expect(activityTypeFor('fitbit', 'Brisk walk')).toBe('walking');
+  });
+});
+
+describe('activityKey', () => {
+  it('groups names of the same activity', () => {
+    expect(activityKey({ workout_type: 'Run' })).toBe(activityKey({ workout_type: 'jogging' }));
+    expect(activityKey({ workout_type: 'Anything', activity_type: 'cycling' })).toBe('cycling');
+  });
+
+  it('keeps unclassified workouts apart by name', () => {
+    expect(activityKey({ workout_type: 'Gardening' })).not.toBe(
+      activityKey({ workout_type: 'Golf' })
+    );
+    expect(activityKey({ workout_type: 'Golf ' })).toBe(activityKey({ workout_type: 'golf' }));
+  });
+});
+
+describe('classifyIntensity', () => {
+  it('uses typical METs for the activity', () => {
+    expect(classifyIntensity('yoga', 60, null)).toBe('light');
+    expect(classifyIntensity('strength_training', 45, null)).toBe('moderate');
+    expect(classifyIntensity('running', 30, 5)).toBe('vigorous');
+  });
+
+  it('uses pace for walking and cycling', () => {
+    expect(classifyIntensity('walking', 60, 3)).toBe('light');
+    expect(classifyIntensity('walking', 60, 5)).toBe('moderate');
+    expect(classifyIntensity('walking', 60, 8)).toBe('vigorous');
+    expect(classifyIntensity('cycling', 60, 12)).toBe('moderate');
+    expect(classifyIntensity('cycling', 60, 25)).toBe('vigorous');
+  });
+});
+
+describe('normalizeActivity', () => {
+  it('classifies the activity and labels it when the source gives no workout type', () => {
+    const activity = normalizeActivity({
+      source: 'strava',
+      sourceType: 'TrailRun',
+      workoutDate: '2025-03-10',
+      durationMinutes: 50,
+      distanceKm: 8.456,
+      externalId: '12345',
+    });
+
+    expect(activity).toEqual({
+      source: 'strava',
+      activityType: 'running',
+      workoutType: 'Running',
+      intensity: 'vigorous',
+      workoutDate: '2025-03-10',
+      startedAt: null,
+      durationMinutes: 50,
+      distanceKm: 8.46,
+      caloriesBurned: null,
+      heartRateAvg: null,
+      externalId: '12345',
+      rawData: null,
+    });
+    expect(toWorkoutRow('user-1', activity)).toMatchObject({
+      user_id: 'user-1',
+      workout_type: 'Running',
+      activity_type: 'running',
+      source: 'strava',
+      external_id: '12345',
+    });
+  });
+
+  it('keeps a typed workout type', () => {
+    expect(
+      normalizeActivity({
+        source: 'manual',
+        sourceType: 'Lunch jog',
+        workoutType: ' Lunch jog ',
+        workoutDate: '2025-03-10',
+        durationMinutes: 20,
+        distanceKm: null,
+      })
+    ).toMatchObject({ workoutType: 'Lunch jog', activityType: 'running' });
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import {
+  isDeauthorization,
+  parseStravaWebhookEvent,
+  verifyStravaSubscription,
+} from '@/lib/fitness/strava/webhook';
+
+const activityEvent = {
+  aspect_type: 'create',
+  event_time: 1741608000,
+  object_id: 13456789012,
+  object_type: 'activity',
+  owner_id: 134815,
+  subscription_id: 120475,
+  updates: {},
+};
+
+describe('Strava webhook', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    process.env.STRAVA_WEBHOOK_VERIFY_TOKEN = 'verify-me';
+    delete process.env.STRAVA_WEBHOOK_SUBSCRIPTION_ID;
+  });
+
+  afterEach(() => {
+    process.env = { ...original };
+  });
+
+  describe('verifyStravaSubscription', () => {
+    const params = (verifyToken: string) =>
+      new URLSearchParams({
+        'hub.mode': 'subscribe',
+        'hub.challenge': '15f7d1a91c1f40f8a748fd134752feb3',
+        'hub.verify_token': verifyToken,
+      });
+
+    it('echoes the challenge for our verify token', () => {
+      expect(verifyStravaSubscription(params('verify-me'))).toBe(
+        '15f7d1a91c1f40f8a748fd134752feb3'
+      );
+    });
+
+    it('rejects another verify token', () => {
+      expect(verifyStravaSubscription(params('guess'))).toBeNull();
+    });
+
+    it('rejects everything when no verify token is configured', () => {
+      delete process.env.STRAVA_WEBHOOK_VERIFY_TOKEN;
+      expect(verifyStravaSubscription(params(''))).toBeNull();
+    });
+  });
+
+  describe('parseStravaWebhookEvent', () => {
+    it('accepts an activity event', () => {
+      const { event, error } = parseStravaWebhookEvent(activityEvent);
+      expect(error).toBeNull();
+      expect(event).toEqual(activityEvent);
+    });
+
+    it('rejects bodies that are not events', () => {
+      expect(parseStravaWebhookEvent(null).error).not.toBeNull();
+      expect(
+        parseStravaWebhookEvent({ ...activityEvent, aspect_type: 'rename' }).error
+      ).not.toBeNull();
+      expect(parseStravaWebhookEvent({ ...activityEvent, object_id: '1' }).error).not.toBeNull();
+    });
+
+    it('rejects events for another subscription when one is configured', () => {
+      process.env.STRAVA_WEBHOOK_SUBSCRIPTION_ID = '999';
+      expect(parseStravaWebhookEvent(activityEvent).error?.message).toMatch('another subscription');
+
+      process.env.STRAVA_WEBHOOK_SUBSCRIPTION_ID = '120475';
+      expect(parseStravaWebhookEvent(activityEvent).error).toBeNull();
+    });
+  });
+
+  it('recognises deauthorization events', () => {
+    expect(isDeauthorization({ object_type: 'athlete', updates: { authorized: 'false' } })).toBe(
+      true
+    );
+    expect(isDeauthorization({ object_type: 'athlete', updates: {} })).toBe(false);
+    expect(isDeauthorization({ object_type: 'activity', updates: { authorized: 'false' } })).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import {
+  buildStravaAuthorizeUrl,
+  hasRequiredStravaScope,
+  stravaBaseUrl,
+} from '@/lib/fitness/strava/client';
+import { toStoredStravaTokens } from '@/lib/fitness/strava/auth';
+import { needsTokenRefresh } from '@/lib/fitness/tokens';
+import { toStravaWorkoutInsert, type StravaActivity } from '@/lib/fitness/strava/activities';
+import { decryptSecret } from '@/lib/security/token-crypto';
+
+describe('Strava client', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    process.env.STRAVA_CLIENT_ID = '12345';
+    process.env.NEXT_PUBLIC_APP_URL = 'http://localhost:3000';
+    delete process.env.STRAVA_BASE_URL;
+  });
+
+  afterEach(() => {
+    process.env = { ...original };
+  });
+
+  it('builds the authorize URL against strava.com by default', () => {
+    const url = new URL(buildStravaAuthorizeUrl('signed-state'));
+    expect(url.origin + url.pathname).toBe('https://www.strava.com/oauth/authorize');
+    expect(url.searchParams.get('client_id')).toBe('12345');
+    expect(url.searchParams.get('redirect_uri')).toBe(
+      'http://localhost:3000/api/auth/strava/callback'
+    );
+    expect(url.searchParams.get('scope')).toBe('read,activity:read_all');
+    expect(url.searchParams.get('state')).toBe('signed-state');
+  });
+
+  it('uses STRAVA_BASE_URL when set', () => {
+    process.env.STRAVA_BASE_URL = 'http://localhost:4010/';
+    expect(stravaBaseUrl()).toBe('http://localhost:4010');
+    expect(buildStravaAuthorizeUrl('s')).toMatch(/^http:\/\/localhost:4010\/oauth\/authorize\?/);
+  });
+
+  it('requires every requested scope', () => {
+    expect(hasRequiredStravaScope('read,activity:read_all')).toBe(true);
+    expect(hasRequiredStravaScope('read,activity:read_all,profile:read_all')).toBe(true);
+    expect(hasRequiredStravaScope('read')).toBe(false);
+    expect(hasRequiredStravaScope(null)).toBe(false);
+  });
+});
+
+describe('Strava tokens', () => {
+  const original = process.env.ENCRYPTION_KEY;
+  const now = new Date('2025-03-10T12:00:00Z');
+
+  beforeEach(() => {
+    process.env.ENCRYPTION_KEY = 'c'.repeat(64);
+  });
+
+  afterEach(() => {
+    process.env.ENCRYPTION_KEY = original;
+  });
+
+  it('stores tokens encrypted with their expiry', () => {
+    const stored = toStoredStravaTokens({
+      token_type: 'Bearer',
+      access_token: 'access',
+      refresh_token: 'refresh',
+      expires_at: now.getTime() / 1000 + 6 * 3600,
+      expires_in: 6 * 3600,
+    });
+
+    expect(stored.access_token_encrypted).not.toContain('access');
+    expect(decryptSecret(stored.access_token_encrypted!)).toBe('access');
+    expect(decryptSecret(stored.refresh_token_encrypted!)).toBe('refresh');
+    expect(stored.token_expires_at).toBe('2025-03-10T18:00:00.000Z');
+  });
+
+  it('refreshes tokens shortly before they expire', () => {
+    expect(needsTokenRefresh('2025-03-10T18:00:00Z', now)).toBe(false);
+    expect(needsTokenRefresh('2025-03-10T12:06:00Z', now)).toBe(false);
+    expect(needsTokenRefresh('2025-03-10T12:04:00Z', now)).toBe(true);
+    expect(needsTokenRefresh('2025-03-10T11:00:00Z', now)).toBe(true);
+    expect(needsTokenRefresh(null, now)).toBe(true);
+  });
+});
+
+describe('toStravaWorkoutInsert', () => {
+  const activity: StravaActivity = {
+    id: 13456789012,
+    name: 'Evening Ride',
+    sport_type: 'GravelRide',
+    type: 'Ride',
+    start_date: '2025-03-11T01:30:00Z',
+    start_date_local: '2025-03-10T18:30:00Z',
+    elapsed_time: 5400,
+    moving_time: 4980,
+    distance: 32456.7,
+    average_heartrate: 141.6,
+    calories: 812.4,
+  };
+
+  it('maps an activity to a workout on its local date', () => {
+    const { row, error } = toStravaWorkoutInsert('user-1', activity);
+
+    expect(error).toBeNull();
+    expect(row).toMatchObject({
+      user_id: 'user-1',
+      workout_date: '2025-03-10',
+      started_at: '2025-03-11T01:30:00Z',
+      workout_type: 'Cycling',
+      activity_type: 'cycling',
+      duration_minutes: 83,
+      distance_km: 32.46,
+      calories_burned: 812,
+      heart_rate_avg: 142,
+      source: 'strava',
+      external_id: '13456789012',
+    });
+    expect(row?.raw_data).toMatchObject({ name: 'Evening Ride', sport_type: 'GravelRide' });
+  });
+
+  it('falls back to the older activity type and elapsed time', () => {
+    const { row } = toStravaWorkoutInsert('user-1', {
+      ...activity,
+      sport_type: undefined,
+      type: 'Walk',
+      moving_time: 0,
+      distance: 0,
+      average_heartrate: undefined,
+      calories: undefined,
+    });
+
+    expect(row).toMatchObject({
+      activity_type: 'walking',
+      duration_minutes: 90,
+      distance_km: null,
+      heart_rate_avg: null,
+      calories_burned: null,
+    });
+  });
+
+  it('skips activities shorter than a minute', () => {
+    const { row, error } = toStravaWorkoutInsert('user-1', {
+      ...activity,
+      moving_time: 20,
+      elapsed_time: 25,
+    });
+    expect(row).toBeNull();
+    expect(error?.message).toMatch('shorter than a minute');
+  });
+});
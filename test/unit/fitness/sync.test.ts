@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  INITIAL_SYNC_DAYS,
+  RETRY_MAX_MINUTES,
+  retryDelayMinutes,
+  syncWindowStart,
+} from '@/lib/fitness/sync';
+import { athleteActivitiesPath } from '@/lib/fitness/strava/sync';
+
+const now = new Date('2025-03-10T12:00:00Z');
+
+describe('retryDelayMinutes', () => {
+  it('doubles the delay after each failure in a row', () => {
+    expect(retryDelayMinutes(1)).toBe(5);
+    expect(retryDelayMinutes(2)).toBe(10);
+    expect(retryDelayMinutes(3)).toBe(20);
+    expect(retryDelayMinutes(4)).toBe(40);
+  });
+
+  it('never waits longer than a day', () => {
+    expect(retryDelayMinutes(10)).toBe(RETRY_MAX_MINUTES);
+    expect(retryDelayMinutes(100)).toBe(RETRY_MAX_MINUTES);
+  });
+
+  it('treats zero failures like the first', () => {
+    expect(retryDelayMinutes(0)).toBe(5);
+  });
+});
+
+describe('syncWindowStart', () => {
+  it('starts from the last sync', () => {
+    expect(syncWindowStart('2025-03-09T08:00:00.000Z', now).toISOString()).toBe(
+      '2025-03-09T08:00:00.000Z'
+    );
+  });
+
+  it('looks back a week for a new connection', () => {
+    const start = syncWindowStart(null, now);
+    expect(now.getTime() - start.getTime()).toBe(INITIAL_SYNC_DAYS * 24 * 60 * 60 * 1000);
+  });
+});
+
+describe('athleteActivitiesPath', () => {
+  it('overlaps the previous sync to catch late uploads', () => {
+    const path = athleteActivitiesPath(now, 1);
+    const params = new URL(path, 'https://www.strava.com').searchParams;
+
+    expect(path.startsWith('/athlete/activities?')).toBe(true);
+    expect(Number(params.get('after'))).toBe(now.getTime() / 1000 - 24 * 60 * 60);
+    expect(params.get('page')).toBe('1');
+    expect(params.get('per_page')).toBe('100');
+  });
+});
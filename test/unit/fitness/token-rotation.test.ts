@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { reencryptTokens } from '@/lib/fitness/token-rotation';
+import {
+  decryptSecret,
+  encryptionKeyId,
+  encryptSecret,
+  loadKeyring,
+} from '@/lib/security/token-crypto';
+
+const OLD_KEY = 'a'.repeat(64);
+const NEW_KEY = 'd'.repeat(64);
+
+const oldKeyring = loadKeyring({ ENCRYPTION_KEY: OLD_KEY });
+const rotatedKeyring = loadKeyring({ ENCRYPTION_KEYS: `2025-06:${NEW_KEY},default:${OLD_KEY}` });
+
+describe('reencryptTokens', () => {
+  it('re-encrypts tokens under the current key', () => {
+    const update = reencryptTokens(
+      {
+        id: 'sync-1',
+        access_token_encrypted: encryptSecret('access', oldKeyring),
+        refresh_token_encrypted: encryptSecret('refresh', oldKeyring),
+      },
+      rotatedKeyring
+    );
+
+    expect(encryptionKeyId(update!.access_token_encrypted!)).toBe('2025-06');
+    expect(decryptSecret(update!.access_token_encrypted!, rotatedKeyring)).toBe('access');
+    expect(decryptSecret(update!.refresh_token_encrypted!, rotatedKeyring)).toBe('refresh');
+  });
+
+  it('leaves tokens already under the current key alone', () => {
+    const update = reencryptTokens(
+      {
+        id: 'sync-1',
+        access_token_encrypted: encryptSecret('access', rotatedKeyring),
+        refresh_token_encrypted: encryptSecret('refresh', oldKeyring),
+      },
+      rotatedKeyring
+    );
+
+    expect(Object.keys(update!)).toEqual(['refresh_token_encrypted']);
+    expect(
+      reencryptTokens(
+        { id: 'sync-2', access_token_encrypted: null, refresh_token_encrypted: null },
+        rotatedKeyring
+      )
+    ).toBeNull();
+  });
+
+  it('throws for tokens no configured key can decrypt', () => {
+    const retired = loadKeyring({ ENCRYPTION_KEYS: `2025-06:${NEW_KEY}` });
+
+    expect(() =>
+      reencryptTokens(
+        {
+          id: 'sync-1',
+          access_token_encrypted: encryptSecret('access', oldKeyring),
+          refresh_token_encrypted: null,
+        },
+        retired
+      )
+    ).toThrow('not configured');
+  });
+});
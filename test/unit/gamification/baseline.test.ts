@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyWeeklyAdjustment,
+  calculateBaseline,
+  coldStartBaseline,
+  COLD_START_BASELINES,
+} from '@/lib/gamification/baseline';
+
+// Wednesday; the window is the four complete weeks starting 2025-02-10
+const today = '2025-03-12';
+
+const workout = (workout_date: string, duration_minutes: number | null, distance_km = 0) => ({
+  workout_date,
+  duration_minutes,
+  distance_km,
+});
+
+describe('calculateBaseline', () => {
+  it('averages the complete weeks before today', () => {
+    const baseline = calculateBaseline(
+      [
+        workout('2025-02-11', 30, 5),
+        workout('2025-02-19', 50, 5),
+        workout('2025-02-26', 40, 10),
+        workout('2025-03-04', 40, 0),
+        workout('2025-03-05', null, 0),
+        // Current week is ignored
+        workout('2025-03-11', 200, 50),
+      ],
+      today
+    );
+
+    expect(baseline).toEqual({
+      avg_weekly_workouts: 1.25,
+      avg_workout_duration: 40,
+      avg_weekly_distance: 5,
+      data_points: 4,
+    });
+  });
+
+  it('only counts weeks since the first workout in the window', () => {
+    const baseline = calculateBaseline(
+      [workout('2025-02-25', 30), workout('2025-03-04', 30), workout('2025-03-06', 30)],
+      today
+    );
+
+    expect(baseline?.data_points).toBe(2);
+    expect(baseline?.avg_weekly_workouts).toBe(1.5);
+  });
+
+  it('returns null without enough weeks of data', () => {
+    expect(calculateBaseline([], today)).toBeNull();
+    expect(calculateBaseline([workout('2025-03-04', 30)], today)).toBeNull();
+  });
+});
+
+describe('coldStartBaseline', () => {
+  it('uses the fitness level, defaulting to beginner', () => {
+    expect(coldStartBaseline('advanced')).toEqual(COLD_START_BASELINES.advanced);
+    expect(coldStartBaseline(null)).toEqual(COLD_START_BASELINES.beginner);
+  });
+});
+
+describe('applyWeeklyAdjustment', () => {
+  const baseline = {
+    avg_weekly_workouts: 3,
+    avg_workout_duration: 40,
+    avg_weekly_distance: 10,
+    data_points: 4,
+  };
+
+  it('blends last week into the baseline', () => {
+    expect(
+      applyWeeklyAdjustment(baseline, { workouts: 5, avgDuration: 60, totalDistance: 20 })
+    ).toEqual({
+      avg_weekly_workouts: 3.4,
+      avg_workout_duration: 44,
+      avg_weekly_distance: 12,
+      data_points: 5,
+    });
+  });
+
+  it('keeps the duration when last week had no timed workouts', () => {
+    const adjusted = applyWeeklyAdjustment(baseline, {
+      workouts: 0,
+      avgDuration: null,
+      totalDistance: 0,
+    });
+
+    expect(adjusted.avg_workout_duration).toBe(40);
+    expect(adjusted.avg_weekly_workouts).toBe(2.4);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildChallenges,
+  challengeTarget,
+  challengeWindow,
+  CHALLENGE_REWARDS,
+} from '@/lib/gamification/challenges';
+import { startOfDayInZone } from '@/lib/utils/dates';
+
+const baseline = {
+  avg_weekly_workouts: 3,
+  avg_workout_duration: 40,
+  avg_weekly_distance: 12,
+};
+
+describe('challengeTarget', () => {
+  it('stretches the weekly baseline and rounds up to the metric step', () => {
+    expect(challengeTarget('workouts', 'weekly', baseline)).toBe(4);
+    expect(challengeTarget('minutes', 'weekly', baseline)).toBe(140);
+    expect(challengeTarget('distance', 'weekly', baseline)).toBe(14);
+    expect(challengeTarget('calories', 'weekly', baseline)).toBe(950);
+    expect(challengeTarget('points', 'weekly', baseline)).toBe(35);
+  });
+
+  it('scales monthly targets by the weeks in a month', () => {
+    expect(challengeTarget('workouts', 'monthly', baseline)).toBe(15);
+  });
+
+  it('returns zero for metrics without history', () => {
+    expect(challengeTarget('distance', 'weekly', { ...baseline, avg_weekly_distance: 0 })).toBe(0);
+  });
+});
+
+describe('challengeWindow', () => {
+  it('covers Monday to the following Monday for weekly challenges', () => {
+    expect(challengeWindow('weekly', '2025-03-12')).toEqual({
+      start: '2025-03-10',
+      end: '2025-03-17',
+    });
+  });
+
+  it('covers the calendar month for monthly challenges', () => {
+    expect(challengeWindow('monthly', '2025-12-31')).toEqual({
+      start: '2025-12-01',
+      end: '2026-01-01',
+    });
+  });
+});
+
+describe('buildChallenges', () => {
+  it('issues the configured number of challenges per period', () => {
+    const weekly = buildChallenges('weekly', '2025-03-10', baseline);
+    const monthly = buildChallenges('monthly', '2025-03-01', baseline);
+
+    expect(weekly).toHaveLength(2);
+    expect(monthly).toHaveLength(1);
+    expect(weekly[0].points_reward).toBe(CHALLENGE_REWARDS.weekly);
+    expect(weekly[0].title).toMatch(/^Weekly /);
+  });
+
+  it('rotates metrics between consecutive weeks', () => {
+    const thisWeek = buildChallenges('weekly', '2025-03-10', baseline).map((c) => c.metric);
+    const nextWeek = buildChallenges('weekly', '2025-03-17', baseline).map((c) => c.metric);
+
+    expect(thisWeek).not.toEqual(nextWeek);
+  });
+
+  it('skips metrics the user has no history for', () => {
+    const challenges = Array.from({ length: 5 }, (_, week) =>
+      buildChallenges('weekly', `2025-03-${String(3 + week * 7).padStart(2, '0')}`, {
+        ...baseline,
+        avg_weekly_distance: 0,
+      })
+    ).flat();
+
+    expect(challenges.some((c) => c.metric === 'distance')).toBe(false);
+  });
+});
+
+describe('startOfDayInZone', () => {
+  it('returns the instant local midnight begins', () => {
+    expect(startOfDayInZone('2025-03-10', 'America/New_York').toISOString()).toBe(
+      '2025-03-10T04:00:00.000Z'
+    );
+    expect(startOfDayInZone('2025-01-10', 'Asia/Tokyo').toISOString()).toBe(
+      '2025-01-09T15:00:00.000Z'
+    );
+  });
+
+  it('falls back to UTC for unknown zones', () => {
+    expect(startOfDayInZone('2025-03-10', 'Not/AZone').toISOString()).toBe(
+      '2025-03-10T00:00:00.000Z'
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  groupRewardPool,
+  minimumGroupTarget,
+  summarizeMembers,
+  validateGroupChallengeInput,
+  type GroupChallengeInput,
+} from '@/lib/gamification/group-challenges';
+
+const input: GroupChallengeInput = {
+  title: 'Run 200 km together',
+  metric: 'distance',
+  targetValue: 200,
+  startDate: '2025-03-01',
+  endDate: '2025-03-31',
+  members: ['bob', 'carol'],
+};
+
+describe('validateGroupChallengeInput', () => {
+  it('accepts a month-long challenge starting today', () => {
+    expect(validateGroupChallengeInput(input, '2025-03-01')).toBeNull();
+  });
+
+  it('rejects challenges that start in the past or run too long', () => {
+    expect(validateGroupChallengeInput(input, '2025-03-02')?.message).toMatch(/past/);
+    expect(
+      validateGroupChallengeInput({ ...input, endDate: '2025-04-01' }, '2025-03-01')?.message
+    ).toMatch(/between 1 and 31 days/);
+  });
+
+  it('rejects unknown metrics and non-integer targets', () => {
+    expect(
+      validateGroupChallengeInput({ ...input, metric: 'steps' as never }, '2025-03-01')
+    ).not.toBeNull();
+    expect(
+      validateGroupChallengeInput({ ...input, targetValue: 2.5 }, '2025-03-01')
+    ).not.toBeNull();
+  });
+
+  it('requires at least one other member', () => {
+    expect(validateGroupChallengeInput({ ...input, members: [] }, '2025-03-01')).not.toBeNull();
+  });
+});
+
+describe('minimumGroupTarget', () => {
+  it('adds up what every member usually does over the period', () => {
+    const baselines = [
+      { avg_weekly_workouts: 3, avg_workout_duration: 40, avg_weekly_distance: 14 },
+      { avg_weekly_workouts: 2, avg_workout_duration: 30, avg_weekly_distance: 7 },
+    ];
+
+    expect(minimumGroupTarget('distance', baselines, 14)).toBe(42);
+    expect(minimumGroupTarget('workouts', baselines, 7)).toBe(5);
+  });
+
+  it('never drops below one', () => {
+    expect(
+      minimumGroupTarget(
+        'distance',
+        [{ avg_weekly_workouts: 0, avg_workout_duration: null, avg_weekly_distance: 0 }],
+        7
+      )
+    ).toBe(1);
+  });
+});
+
+describe('groupRewardPool', () => {
+  it('scales with members and duration', () => {
+    expect(groupRewardPool(3, 7)).toBe(105);
+    expect(groupRewardPool(3, 14)).toBe(210);
+  });
+});
+
+describe('summarizeMembers', () => {
+  it('orders members by contribution and computes their share', () => {
+    const members = summarizeMembers(
+      [
+        {
+          user_id: 'b',
+          contribution: 30,
+          reward_points: null,
+          profiles: { username: 'bob', display_name: null },
+        },
+        {
+          user_id: 'a',
+          contribution: 50,
+          reward_points: null,
+          profiles: { username: 'alice', display_name: 'Alice' },
+        },
+        {
+          user_id: 'c',
+          contribution: 20,
+          reward_points: null,
+          profiles: { username: 'carol', display_name: null },
+        },
+      ],
+      100
+    );
+
+    expect(members.map((m) => m.username)).toEqual(['alice', 'bob', 'carol']);
+    expect(members[0].share).toBe(0.5);
+  });
+
+  it('reports zero shares before anyone has contributed', () => {
+    const [member] = summarizeMembers(
+      [{ user_id: 'a', contribution: 0, reward_points: null, profiles: null }],
+      0
+    );
+
+    expect(member.share).toBe(0);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { reversePoints } from '@/lib/gamification/ledger';
+import { fakeSupabase } from '@/test/helpers/supabase';
+
+describe('reversePoints', () => {
+  it('maps its parameters onto reverse_points', async () => {
+    const reversal = {
+      new_balance: 0,
+      new_debt: 15,
+      transaction_id: 'reversal',
+      already_applied: false,
+    };
+    const supabase = fakeSupabase({ rpc: { reverse_points: { data: [reversal], error: null } } });
+
+    const { result, error } = await reversePoints(supabase.client, {
+      transactionId: 'earned',
+      amount: 25,
+      description: 'Workout deleted',
+      idempotencyKey: 'workout:abc:delete',
+    });
+
+    expect(error).toBeNull();
+    expect(result).toEqual(reversal);
+    expect(supabase.rpcCalls).toEqual([
+      {
+        fn: 'reverse_points',
+        args: {
+          p_transaction_id: 'earned',
+          p_amount: 25,
+          p_description: 'Workout deleted',
+          p_idempotency_key: 'workout:abc:delete',
+        },
+      },
+    ]);
+  });
+
+  it('reverses whatever remains unless an amount is given', async () => {
+    const supabase = fakeSupabase({ rpc: { reverse_points: { data: [], error: null } } });
+
+    const { result } = await reversePoints(supabase.client, { transactionId: 'earned' });
+
+    expect(result).toBeNull();
+    expect(supabase.rpcCalls[0].args).toEqual({
+      p_transaction_id: 'earned',
+      p_amount: null,
+      p_description: '',
+      p_idempotency_key: null,
+    });
+  });
+
+  it('returns database errors', async () => {
+    const supabase = fakeSupabase({
+      rpc: { reverse_points: { data: null, error: { message: 'Transaction not found' } } },
+    });
+
+    const { result, error } = await reversePoints(supabase.client, { transactionId: 'missing' });
+
+    expect(result).toBeNull();
+    expect(error).toEqual({ message: 'Transaction not found' });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { calculateLevel, getLevelProgress, pointsForLevel } from '@/lib/gamification/levels';
+
+describe('level curve', () => {
+  it.each([
+    [0, 1],
+    [99, 1],
+    [100, 2],
+    [299, 2],
+    [300, 3],
+    [600, 4],
+    [4500, 10],
+  ])('puts %i points earned at level %i', (totalEarned, level) => {
+    expect(calculateLevel(totalEarned)).toBe(level);
+  });
+
+  it('is consistent with the level thresholds', () => {
+    for (let level = 1; level <= 50; level++) {
+      expect(calculateLevel(pointsForLevel(level))).toBe(level);
+      expect(calculateLevel(pointsForLevel(level + 1) - 1)).toBe(level);
+    }
+  });
+});
+
+describe('getLevelProgress', () => {
+  it('reports progress towards the next level', () => {
+    expect(getLevelProgress(200)).toEqual({
+      level: 2,
+      totalEarned: 200,
+      currentLevelPoints: 100,
+      nextLevelPoints: 300,
+      pointsIntoLevel: 100,
+      pointsToNextLevel: 100,
+      progress: 0.5,
+    });
+  });
+
+  it('never reports a level below the stored one', () => {
+    const progress = getLevelProgress(50, 3);
+    expect(progress.level).toBe(3);
+    expect(progress.pointsToNextLevel).toBe(550);
+    expect(progress.progress).toBe(0);
+  });
+});
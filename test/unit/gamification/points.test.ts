@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateWorkoutPoints,
+  getBaselineRatio,
+  POINT_VALUES,
+  type ScoringBaseline,
+} from '@/lib/gamification/points';
+
+const baseline: ScoringBaseline = {
+  avg_workout_duration: 40,
+  avg_weekly_workouts: 4,
+  avg_weekly_distance: 20,
+};
+
+const run = {
+  workout_date: '2025-03-10',
+  workout_type: 'running',
+  duration_minutes: 40,
+  distance_km: 5,
+};
+
+describe('calculateWorkoutPoints', () => {
+  it('awards the base points for a workout at baseline', () => {
+    const result = calculateWorkoutPoints(run, baseline);
+    expect(result).toEqual({
+      base: POINT_VALUES.WORKOUT_COMPLETED,
+      intensityBonus: 0,
+      varietyBonus: 0,
+      total: POINT_VALUES.WORKOUT_COMPLETED,
+      capped: false,
+    });
+  });
+
+  it('awards only the base points when the user has no baseline', () => {
+    const result = calculateWorkoutPoints({ ...run, duration_minutes: 200 }, null);
+    expect(result.total).toBe(POINT_VALUES.WORKOUT_COMPLETED);
+  });
+
+  it.each([
+    [45, POINT_VALUES.EXCEEDED_BASELINE_10],
+    [51, POINT_VALUES.EXCEEDED_BASELINE_25],
+    [61, POINT_VALUES.EXCEEDED_BASELINE_50],
+  ])('applies the intensity bonus for a %i minute workout', (duration, bonus) => {
+    const result = calculateWorkoutPoints({ ...run, duration_minutes: duration }, baseline);
+    expect(result.intensityBonus).toBe(bonus);
+  });
+
+  it('uses distance per workout when it beats duration', () => {
+    // 5 km per workout on average; 8 km is 1.6x
+    expect(getBaselineRatio({ ...run, distance_km: 8 }, baseline)).toBeCloseTo(1.6);
+    const result = calculateWorkoutPoints({ ...run, distance_km: 8 }, baseline);
+    expect(result.intensityBonus).toBe(POINT_VALUES.EXCEEDED_BASELINE_50);
+  });
+
+  it('awards the variety bonus for three distinct types within seven days', () => {
+    const recent = [
+      { workout_date: '2025-03-04', workout_type: 'cycling' },
+      { workout_date: '2025-03-08', workout_type: 'Swimming' },
+    ];
+    expect(calculateWorkoutPoints(run, baseline, recent).varietyBonus).toBe(
+      POINT_VALUES.VARIETY_BONUS
+    );
+  });
+
+  it('ignores workouts outside the variety window and repeated types', () => {
+    const recent = [
+      { workout_date: '2025-03-03', workout_type: 'cycling' },
+      { workout_date: '2025-03-09', workout_type: 'Running' },
+    ];
+    expect(calculateWorkoutPoints(run, baseline, recent).varietyBonus).toBe(0);
+  });
+
+  it('counts different names for the same activity as one type', () => {
+    const recent = [
+      { workout_date: '2025-03-08', workout_type: 'Morning jog' },
+      { workout_date: '2025-03-09', workout_type: 'Cycling', activity_type: 'cycling' as const },
+    ];
+    expect(calculateWorkoutPoints(run, baseline, recent).varietyBonus).toBe(0);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeRecord,
+  formatElapsedTime,
+  formatRecordValue,
+  recordPace,
+  summarizePersonalRecords,
+} from '@/lib/gamification/records';
+import type { PersonalRecord } from '@/types/database';
+
+function personalRecord(overrides: Partial<PersonalRecord>): PersonalRecord {
+  return {
+    id: 'record',
+    user_id: 'user',
+    activity_type: 'running',
+    record_type: 'longest_distance',
+    value: 10,
+    workout_id: 'workout',
+    workout_date: '2025-03-01',
+    previous_value: null,
+    bonus_points: 0,
+    transaction_id: null,
+    set_at: '2025-03-01T10:00:00Z',
+    superseded_at: null,
+    ...overrides,
+  };
+}
+
+describe('formatting records', () => {
+  it('formats elapsed times with and without hours', () => {
+    expect(formatElapsedTime(59)).toBe('0:59');
+    expect(formatElapsedTime(1453)).toBe('24:13');
+    expect(formatElapsedTime(3 * 3600 + 5 * 60 + 7)).toBe('3:05:07');
+  });
+
+  it('works out the pace of fastest-time records only', () => {
+    expect(recordPace('fastest_5k', 1500)).toBe(300);
+    expect(recordPace('fastest_marathon', 4 * 3600)).toBe(341);
+    expect(recordPace('longest_distance', 10)).toBeNull();
+  });
+
+  it('formats each kind of record value', () => {
+    expect(formatRecordValue('longest_distance', 12.5)).toBe('12.5 km');
+    expect(formatRecordValue('longest_duration', 45)).toBe('45 min');
+    expect(formatRecordValue('longest_duration', 65)).toBe('1h 05m');
+    expect(formatRecordValue('fastest_5k', 1453)).toBe('24:13 (4:51/km)');
+  });
+
+  it('accepts numeric columns returned as strings', () => {
+    expect(formatRecordValue('longest_distance', '10.50' as unknown as number)).toBe('10.5 km');
+  });
+
+  it('names the record and activity', () => {
+    expect(describeRecord({ activity_type: 'cycling', record_type: 'longest_distance' })).toBe(
+      'Longest distance (Cycling)'
+    );
+    expect(describeRecord({ activity_type: 'running', record_type: 'fastest_half_marathon' })).toBe(
+      'Fastest half marathon (Running)'
+    );
+  });
+});
+
+describe('summarizePersonalRecords', () => {
+  const records = [
+    personalRecord({
+      id: 'old-distance',
+      value: 5,
+      set_at: '2025-01-01T10:00:00Z',
+      superseded_at: '2025-03-01T10:00:00Z',
+    }),
+    personalRecord({ id: 'ride', activity_type: 'cycling', value: 40 }),
+    personalRecord({ id: 'five-k', record_type: 'fastest_5k', value: 1500 }),
+    personalRecord({ id: 'distance', value: 10, previous_value: 5, bonus_points: 20 }),
+  ];
+
+  it('keeps only current records, by activity then record type', () => {
+    expect(summarizePersonalRecords(records).current.map((record) => record.id)).toEqual([
+      'distance',
+      'five-k',
+      'ride',
+    ]);
+  });
+
+  it('lists the whole history newest first', () => {
+    const { history } = summarizePersonalRecords(records);
+
+    expect(history).toHaveLength(4);
+    expect(history[history.length - 1].id).toBe('old-distance');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { computeStreaks, getReachedMilestones } from '@/lib/gamification/streaks';
+
+describe('computeStreaks', () => {
+  it('returns zeroes with no workouts', () => {
+    expect(computeStreaks([], [], '2025-03-12')).toMatchObject({
+      currentDaily: 0,
+      longestDaily: 0,
+      currentDailyStart: null,
+      currentWeekly: 0,
+      longestWeekly: 0,
+    });
+  });
+
+  it('counts consecutive days and keeps a streak alive until the day is over', () => {
+    const dates = ['2025-03-09', '2025-03-10', '2025-03-11', '2025-03-11'];
+
+    expect(computeStreaks(dates, [], '2025-03-11').currentDaily).toBe(3);
+    expect(computeStreaks(dates, [], '2025-03-12').currentDaily).toBe(3);
+    expect(computeStreaks(dates, [], '2025-03-13').currentDaily).toBe(0);
+    expect(computeStreaks(dates, [], '2025-03-13').longestDaily).toBe(3);
+  });
+
+  it('bridges a frozen day without counting it', () => {
+    const summary = computeStreaks(
+      ['2025-03-08', '2025-03-09', '2025-03-11'],
+      ['2025-03-10'],
+      '2025-03-11'
+    );
+
+    expect(summary.currentDaily).toBe(3);
+    expect(summary.currentDailyStart).toBe('2025-03-08');
+  });
+
+  it('counts consecutive weeks with at least one workout', () => {
+    // Weeks starting 2025-02-17, 02-24 and 03-03, then a gap, then 03-17
+    const dates = ['2025-02-18', '2025-02-27', '2025-03-09', '2025-03-17'];
+
+    expect(computeStreaks(dates, [], '2025-03-18')).toMatchObject({
+      currentWeekly: 1,
+      longestWeekly: 3,
+    });
+    expect(computeStreaks(dates.slice(0, 3), [], '2025-03-12').currentWeekly).toBe(3);
+  });
+});
+
+describe('getReachedMilestones', () => {
+  it('keys each milestone to the start of the streak', () => {
+    const dates = Array.from({ length: 7 }, (_, i) => `2025-03-0${i + 1}`);
+    const milestones = getReachedMilestones(computeStreaks(dates, [], '2025-03-07'));
+
+    expect(milestones.map((m) => m.idempotencyKey)).toEqual([
+      'streak_3:2025-03-01',
+      'streak_7:2025-03-01',
+    ]);
+  });
+
+  it('does not reward a run again after a day is backdated onto its start', () => {
+    const dates = ['2025-03-05', '2025-03-06', '2025-03-07'];
+    const [milestone] = getReachedMilestones(computeStreaks(dates, [], '2025-03-07'));
+    const rewarded = [
+      {
+        milestone_days: milestone.days,
+        run_start: milestone.runStart,
+        reached_on: milestone.reachedOn,
+      },
+    ];
+
+    const backdated = computeStreaks(['2025-03-04', ...dates], [], '2025-03-07');
+
+    expect(backdated.currentDailyStart).toBe('2025-03-04');
+    expect(getReachedMilestones(backdated, rewarded)).toEqual([]);
+  });
+
+  it('rewards a later run once the rewarded one has ended', () => {
+    const rewarded = [{ milestone_days: 3, run_start: '2025-03-01', reached_on: '2025-03-03' }];
+    const summary = computeStreaks(
+      ['2025-03-01', '2025-03-02', '2025-03-03', '2025-03-05', '2025-03-06', '2025-03-07'],
+      [],
+      '2025-03-07'
+    );
+
+    expect(getReachedMilestones(summary, rewarded).map((m) => m.idempotencyKey)).toEqual([
+      'streak_3:2025-03-05',
+    ]);
+  });
+});
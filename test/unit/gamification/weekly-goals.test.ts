@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  goalForWeek,
+  MAX_WEEKLY_GOAL,
+  MIN_WEEKLY_GOAL,
+  nextGoalChangeAt,
+  suggestWeeklyGoal,
+} from '@/lib/gamification/weekly-goals';
+
+describe('suggestWeeklyGoal', () => {
+  it('scales with usual workouts per week and rounds up to a multiple of 5', () => {
+    expect(suggestWeeklyGoal({ avg_weekly_workouts: 3 })).toBe(45);
+    expect(suggestWeeklyGoal({ avg_weekly_workouts: 2.5 })).toBe(40);
+  });
+
+  it('stays within the allowed range', () => {
+    expect(suggestWeeklyGoal({ avg_weekly_workouts: 0 })).toBe(MIN_WEEKLY_GOAL);
+    expect(suggestWeeklyGoal({ avg_weekly_workouts: 1000 })).toBe(MAX_WEEKLY_GOAL);
+  });
+});
+
+describe('nextGoalChangeAt', () => {
+  const now = new Date('2025-03-12T12:00:00Z');
+
+  it('allows a change when the goal was never changed', () => {
+    expect(nextGoalChangeAt(null, now)).toBeNull();
+  });
+
+  it('blocks changes for 7 days after the last one', () => {
+    expect(nextGoalChangeAt('2025-03-10T08:00:00Z', now)?.toISOString()).toBe(
+      '2025-03-17T08:00:00.000Z'
+    );
+    expect(nextGoalChangeAt('2025-03-05T08:00:00Z', now)).toBeNull();
+  });
+});
+
+describe('goalForWeek', () => {
+  const weekStartsAt = new Date('2025-03-10T00:00:00Z');
+
+  it('uses the previous goal for the week a change was made in', () => {
+    const points = {
+      weekly_goal: 200,
+      previous_weekly_goal: 100,
+      weekly_goal_changed_at: '2025-03-11T09:00:00Z',
+    };
+
+    expect(goalForWeek(points, weekStartsAt)).toBe(100);
+    expect(goalForWeek(points, new Date('2025-03-17T00:00:00Z'))).toBe(200);
+  });
+
+  it('uses the current goal when it was set before the week started', () => {
+    expect(
+      goalForWeek(
+        {
+          weekly_goal: 150,
+          previous_weekly_goal: 100,
+          weekly_goal_changed_at: '2025-03-01T00:00:00Z',
+        },
+        weekStartsAt
+      )
+    ).toBe(150);
+    expect(
+      goalForWeek(
+        { weekly_goal: 100, previous_weekly_goal: null, weekly_goal_changed_at: null },
+        weekStartsAt
+      )
+    ).toBe(100);
+  });
+});
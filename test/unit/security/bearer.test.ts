@@ -0,0 +1,41 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { isAuthorizedCronRequest } from '@/lib/cron/auth';
+import { hasBearerSecret } from '@/lib/security/bearer';
+
+const request = (authorization?: string) =>
+  new Request('https://lorefit.test/api/admin/reviews', {
+    headers: authorization ? { authorization } : {},
+  });
+
+describe('hasBearerSecret', () => {
+  it('accepts the configured secret', () => {
+    expect(hasBearerSecret(request('Bearer s3cret'), 's3cret')).toBe(true);
+  });
+
+  it('rejects a wrong, shorter or longer secret and a missing header', () => {
+    expect(hasBearerSecret(request('Bearer s3creT'), 's3cret')).toBe(false);
+    expect(hasBearerSecret(request('Bearer s3cre'), 's3cret')).toBe(false);
+    expect(hasBearerSecret(request('Bearer s3cret!'), 's3cret')).toBe(false);
+    expect(hasBearerSecret(request(), 's3cret')).toBe(false);
+  });
+
+  it('rejects everything when no secret is configured', () => {
+    expect(hasBearerSecret(request('Bearer '), undefined)).toBe(false);
+    expect(hasBearerSecret(request('Bearer '), '')).toBe(false);
+  });
+});
+
+describe('isAuthorizedCronRequest', () => {
+  const original = process.env.CRON_SECRET;
+
+  afterEach(() => {
+    process.env.CRON_SECRET = original;
+  });
+
+  it('checks the request against CRON_SECRET', () => {
+    process.env.CRON_SECRET = 'cron-secret';
+
+    expect(isAuthorizedCronRequest(request('Bearer cron-secret'))).toBe(true);
+    expect(isAuthorizedCronRequest(request('Bearer cron-secreT'))).toBe(false);
+  });
+});
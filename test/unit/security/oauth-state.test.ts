@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import {
+  createOAuthState,
+  OAUTH_STATE_TTL_SECONDS,
+  verifyOAuthState,
+} from '@/lib/security/oauth-state';
+
+const now = new Date('2025-03-10T12:00:00Z');
+
+describe('OAuth state', () => {
+  const original = process.env.OAUTH_STATE_SECRET;
+
+  beforeEach(() => {
+    process.env.OAUTH_STATE_SECRET = 'test-secret';
+  });
+
+  afterEach(() => {
+    process.env.OAUTH_STATE_SECRET = original;
+  });
+
+  it('round-trips the user and nonce', () => {
+    const { state, payload } = createOAuthState('strava', 'user-1', now);
+    expect(state).not.toContain('user-1');
+
+    const result = verifyOAuthState(state, 'strava', now);
+    expect(result.error).toBeNull();
+    expect(result.payload).toEqual(payload);
+    expect(result.payload?.userId).toBe('user-1');
+  });
+
+  it('rejects a state with a modified payload', () => {
+    const { state } = createOAuthState('strava', 'user-1', now);
+    const [, signature] = state.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ provider: 'strava', userId: 'user-2', nonce: 'x', expiresAt: 9999999999 })
+    ).toString('base64url');
+
+    expect(verifyOAuthState(`${forged}.${signature}`, 'strava', now).error?.message).toBe(
+      'Invalid state signature'
+    );
+  });
+
+  it('rejects a state signed with another secret', () => {
+    const { state } = createOAuthState('strava', 'user-1', now);
+    process.env.OAUTH_STATE_SECRET = 'other-secret';
+    expect(verifyOAuthState(state, 'strava', now).error).not.toBeNull();
+  });
+
+  it('rejects a state for another provider', () => {
+    const { state } = createOAuthState('fitbit', 'user-1', now);
+    expect(verifyOAuthState(state, 'strava', now).error?.message).toMatch('another provider');
+  });
+
+  it('rejects an expired state', () => {
+    const { state } = createOAuthState('strava', 'user-1', now);
+    const later = new Date(now.getTime() + (OAUTH_STATE_TTL_SECONDS + 1) * 1000);
+    expect(verifyOAuthState(state, 'strava', later).error?.message).toMatch('too long');
+  });
+
+  it('rejects missing or malformed states', () => {
+    expect(verifyOAuthState(null, 'strava', now).error).not.toBeNull();
+    expect(verifyOAuthState('user-1', 'strava', now).error).not.toBeNull();
+    expect(verifyOAuthState('a.b.c', 'strava', now).error).not.toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import { createCipheriv, randomBytes } from 'crypto';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import {
+  decryptSecret,
+  encryptionKeyId,
+  encryptSecret,
+  isCurrentKey,
+  loadKeyring,
+} from '@/lib/security/token-crypto';
+
+const KEY = 'a'.repeat(64);
+const NEW_KEY = 'd'.repeat(64);
+
+describe('encryptSecret / decryptSecret', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    process.env.ENCRYPTION_KEY = KEY;
+    delete process.env.ENCRYPTION_KEYS;
+  });
+
+  afterEach(() => {
+    process.env = { ...original };
+  });
+
+  it('round-trips a token', () => {
+    const encrypted = encryptSecret('strava-access-token');
+    expect(encrypted).not.toContain('strava-access-token');
+    expect(decryptSecret(encrypted)).toBe('strava-access-token');
+  });
+
+  it('uses a fresh IV for every value', () => {
+    expect(encryptSecret('token')).not.toBe(encryptSecret('token'));
+  });
+
+  it('rejects a tampered ciphertext', () => {
+    const [keyId, iv, tag, data] = encryptSecret('token').split(':');
+    const flipped = Buffer.from(data, 'base64');
+    flipped[0] ^= 1;
+    expect(() => decryptSecret([keyId, iv, tag, flipped.toString('base64')].join(':'))).toThrow();
+  });
+
+  it('rejects a value encrypted under another key', () => {
+    const encrypted = encryptSecret('token');
+    process.env.ENCRYPTION_KEY = 'b'.repeat(64);
+    expect(() => decryptSecret(encrypted)).toThrow();
+  });
+
+  it('rejects malformed values', () => {
+    expect(() => decryptSecret('not-encrypted')).toThrow('malformed');
+  });
+
+  it('requires a 256-bit hex key', () => {
+    process.env.ENCRYPTION_KEY = 'too-short';
+    expect(() => encryptSecret('token')).toThrow('ENCRYPTION_KEY');
+  });
+});
+
+describe('key rotation', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    process.env.ENCRYPTION_KEY = KEY;
+    delete process.env.ENCRYPTION_KEYS;
+  });
+
+  afterEach(() => {
+    process.env = { ...original };
+  });
+
+  it('stores the key ID with each value', () => {
+    expect(encryptionKeyId(encryptSecret('token'))).toBe('default');
+
+    process.env.ENCRYPTION_KEYS = `2025-06:${NEW_KEY},default:${KEY}`;
+    expect(encryptSecret('token').startsWith('2025-06:')).toBe(true);
+  });
+
+  it('decrypts values under any configured key', () => {
+    const old = encryptSecret('old-token');
+
+    process.env.ENCRYPTION_KEYS = `2025-06:${NEW_KEY},default:${KEY}`;
+    const current = encryptSecret('new-token');
+
+    expect(decryptSecret(old)).toBe('old-token');
+    expect(decryptSecret(current)).toBe('new-token');
+    expect(isCurrentKey(old)).toBe(false);
+    expect(isCurrentKey(current)).toBe(true);
+  });
+
+  it('reads values from before key IDs were stored as the default key', () => {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', Buffer.from(KEY, 'hex'), iv);
+    const data = Buffer.concat([cipher.update('legacy-token', 'utf8'), cipher.final()]);
+    const legacy = [iv, cipher.getAuthTag(), data].map((part) => part.toString('base64')).join(':');
+
+    process.env.ENCRYPTION_KEYS = `2025-06:${NEW_KEY},default:${KEY}`;
+    expect(encryptionKeyId(legacy)).toBe('default');
+    expect(decryptSecret(legacy)).toBe('legacy-token');
+  });
+
+  it('fails clearly once a retired key is removed', () => {
+    const old = encryptSecret('token');
+
+    process.env.ENCRYPTION_KEYS = `2025-06:${NEW_KEY}`;
+    expect(() => decryptSecret(old)).toThrow('Encryption key default is not configured');
+  });
+
+  it('validates ENCRYPTION_KEYS', () => {
+    expect(loadKeyring({ ENCRYPTION_KEYS: `b:${NEW_KEY}, a:${KEY}` }).currentKeyId).toBe('b');
+    expect(() => loadKeyring({ ENCRYPTION_KEYS: NEW_KEY })).toThrow('ENCRYPTION_KEYS');
+    expect(() => loadKeyring({ ENCRYPTION_KEYS: 'a:short' })).toThrow('ENCRYPTION_KEYS');
+    expect(() => loadKeyring({ ENCRYPTION_KEYS: `a:${KEY},a:${NEW_KEY}` })).toThrow(
+      'more than once'
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addContribution,
+  CONTRIBUTION_COSTS,
+  MAX_STORY_PARTICIPANTS,
+  summarizeParticipants,
+  validateContribution,
+  validateStoryInput,
+  type StoryInput,
+} from '@/lib/stories/stories';
+import { fakeSupabase } from '@/test/helpers/supabase';
+
+const validStory: StoryInput = {
+  title: 'The Long Run',
+  genre: 'adventure',
+  tone: 'lighthearted',
+  opening: 'The trail started at the edge of town.',
+  participants: ['sam'],
+};
+
+describe('validateStoryInput', () => {
+  it('accepts a valid story', () => {
+    expect(validateStoryInput(validStory)).toBeNull();
+    expect(validateStoryInput({ ...validStory, tone: null, participants: [] })).toBeNull();
+  });
+
+  it('rejects blank titles, unknown genres and tones', () => {
+    expect(validateStoryInput({ ...validStory, title: '  ' })?.message).toMatch(/Title/);
+    expect(
+      validateStoryInput({ ...validStory, genre: 'romance' as StoryInput['genre'] })?.message
+    ).toMatch(/Genre/);
+    expect(
+      validateStoryInput({ ...validStory, tone: 'wistful' as StoryInput['tone'] })?.message
+    ).toMatch(/Tone/);
+  });
+
+  it('limits contributions, the opening and the group size', () => {
+    expect(validateStoryInput({ ...validStory, maxContributions: 0 })).not.toBeNull();
+    expect(validateStoryInput({ ...validStory, maxContributions: 2.5 })).not.toBeNull();
+    expect(validateStoryInput({ ...validStory, opening: 'x'.repeat(281) })).not.toBeNull();
+    expect(
+      validateStoryInput({
+        ...validStory,
+        participants: Array.from({ length: MAX_STORY_PARTICIPANTS }, (_, i) => `user${i}`),
+      })
+    ).not.toBeNull();
+  });
+});
+
+describe('contributions', () => {
+  it('prices each contribution type from the story point values', () => {
+    expect(CONTRIBUTION_COSTS).toEqual({ sentence: 10, twist: 25, character: 30, ending: 50 });
+  });
+
+  it('checks the trimmed length and the type', () => {
+    expect(validateContribution('The dragon woke up hungry.')).toBeNull();
+    expect(validateContribution('   too short   ')).not.toBeNull();
+    expect(validateContribution('x'.repeat(281), 'ending')).not.toBeNull();
+    expect(
+      validateContribution('A perfectly fine sentence.', 'poem' as 'sentence')?.message
+    ).toMatch(/type/);
+  });
+
+  it('passes on the refusal of a type the user has not unlocked', async () => {
+    const refusal = {
+      contribution_id: null,
+      story_position: null,
+      new_balance: null,
+      success: false,
+      message: 'Reach level 7 to unlock ending contributions',
+    };
+    const supabase = fakeSupabase({
+      rpc: { add_story_contribution: { data: [refusal], error: null } },
+    });
+
+    const { result, error } = await addContribution(supabase.client, {
+      storyId: 'story',
+      content: 'And so the race was finally over.',
+      type: 'ending',
+    });
+
+    expect(error).toBeNull();
+    expect(result).toEqual(refusal);
+  });
+});
+
+describe('summarizeParticipants', () => {
+  it('sorts participants by username and tolerates missing profiles', () => {
+    expect(
+      summarizeParticipants([
+        { user_id: 'b', profiles: { username: 'zoe', display_name: 'Zoe' } },
+        { user_id: 'a', profiles: { username: 'alex', display_name: null } },
+        { user_id: 'c', profiles: null },
+      ])
+    ).toEqual([
+      { userId: 'a', username: 'alex', displayName: null },
+      { userId: 'c', username: 'unknown', displayName: null },
+      { userId: 'b', username: 'zoe', displayName: 'Zoe' },
+    ]);
+  });
+});
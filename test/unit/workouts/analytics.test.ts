@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyticsQueryString,
+  compareToBaseline,
+  defaultAnalyticsRange,
+  parseAnalyticsQuery,
+  presetAnalyticsRange,
+  sumPeriods,
+  toPeriodTotals,
+  toTypeTotals,
+  validateAnalyticsRange,
+} from '@/lib/workouts/analytics';
+
+describe('analytics ranges', () => {
+  it('defaults to the last 12 weeks starting on a Monday', () => {
+    // 2025-03-12 is a Wednesday
+    expect(defaultAnalyticsRange('2025-03-12')).toEqual({ from: '2024-12-23', to: '2025-03-12' });
+  });
+
+  it('starts week presets on a Monday and month presets on the first', () => {
+    expect(presetAnalyticsRange('4w', '2025-03-12')).toEqual({
+      range: { from: '2025-02-17', to: '2025-03-12' },
+      period: 'week',
+    });
+    expect(presetAnalyticsRange('6m', '2025-03-12')).toEqual({
+      range: { from: '2024-10-01', to: '2025-03-12' },
+      period: 'month',
+    });
+    expect(presetAnalyticsRange('12m', '2025-03-31')).toEqual({
+      range: { from: '2024-04-01', to: '2025-03-31' },
+      period: 'month',
+    });
+  });
+
+  it('rejects malformed, reversed and overlong ranges', () => {
+    expect(validateAnalyticsRange({ from: '2025-03-01', to: '2025-03-31' })).toBeNull();
+    expect(validateAnalyticsRange({ from: '2025-03-01', to: '2025-03-01' })).toBeNull();
+    expect(validateAnalyticsRange({ from: '03/01/2025', to: '2025-03-31' })).not.toBeNull();
+    expect(validateAnalyticsRange({ from: '2025-03-31', to: '2025-03-01' })).not.toBeNull();
+    expect(validateAnalyticsRange({ from: '2015-01-01', to: '2025-03-01' })).not.toBeNull();
+  });
+});
+
+describe('parseAnalyticsQuery', () => {
+  it('round-trips the range and period', () => {
+    const range = { from: '2025-01-01', to: '2025-03-31' };
+    const params = new URLSearchParams(analyticsQueryString(range, 'month'));
+
+    expect(parseAnalyticsQuery(params, '2025-04-02')).toEqual({
+      range,
+      period: 'month',
+      error: null,
+    });
+  });
+
+  it('falls back to the default range ending today', () => {
+    const { range, period, error } = parseAnalyticsQuery(new URLSearchParams(), '2025-03-12');
+
+    expect(range).toEqual(defaultAnalyticsRange('2025-03-12'));
+    expect(period).toBe('week');
+    expect(error).toBeNull();
+  });
+
+  it('rejects unknown periods', () => {
+    const { error } = parseAnalyticsQuery(new URLSearchParams('period=day'), '2025-03-12');
+
+    expect(error?.message).toMatch(/period/);
+  });
+});
+
+describe('analytics totals', () => {
+  const periods = [
+    toPeriodTotals({
+      period_start: '2025-03-03',
+      workouts: 3,
+      minutes: 150,
+      distance_km: 12.35,
+      calories: 1200,
+      avg_heart_rate: 143.3,
+    }),
+    toPeriodTotals({
+      period_start: '2025-03-10',
+      workouts: 0,
+      minutes: 0,
+      distance_km: 0,
+      calories: 0,
+      avg_heart_rate: null,
+    }),
+  ];
+
+  it('maps period rows to totals', () => {
+    expect(periods[0]).toEqual({
+      periodStart: '2025-03-03',
+      workouts: 3,
+      minutes: 150,
+      distanceKm: 12.35,
+      calories: 1200,
+      avgHeartRate: 143.3,
+    });
+    expect(periods[1].avgHeartRate).toBeNull();
+  });
+
+  it('labels activity types', () => {
+    const type = toTypeTotals({
+      activity_type: 'cycling',
+      workouts: 2,
+      minutes: 120,
+      distance_km: 60.5,
+      calories: 1500,
+    });
+
+    expect(type.label).toBe('Cycling');
+    expect(type.distanceKm).toBe(60.5);
+  });
+
+  it('sums periods over the range', () => {
+    expect(sumPeriods(periods)).toEqual({
+      workouts: 3,
+      minutes: 150,
+      distanceKm: 12.35,
+      calories: 1200,
+    });
+  });
+
+  it('compares weekly averages with the baseline', () => {
+    const comparison = compareToBaseline(
+      { workouts: 6, minutes: 270, distanceKm: 30, calories: 2400 },
+      { from: '2025-03-03', to: '2025-03-16' },
+      { avg_weekly_workouts: 2.5, avg_workout_duration: 40, avg_weekly_distance: 12 }
+    );
+
+    expect(comparison).toEqual({
+      avgWeeklyWorkouts: 3,
+      avgWorkoutDuration: 45,
+      avgWeeklyDistance: 15,
+      baseline: { avgWeeklyWorkouts: 2.5, avgWorkoutDuration: 40, avgWeeklyDistance: 12 },
+    });
+  });
+
+  it('counts a partial week by its days and handles a missing baseline', () => {
+    const comparison = compareToBaseline(
+      { workouts: 0, minutes: 0, distanceKm: 0, calories: 0 },
+      { from: '2025-03-03', to: '2025-03-05' },
+      null
+    );
+
+    expect(comparison.avgWeeklyWorkouts).toBe(0);
+    expect(comparison.avgWorkoutDuration).toBeNull();
+    expect(comparison.baseline).toBeNull();
+
+    const partial = compareToBaseline(
+      { workouts: 3, minutes: 90, distanceKm: 0, calories: 0 },
+      { from: '2025-03-03', to: '2025-03-05' },
+      null
+    );
+    expect(partial.avgWeeklyWorkouts).toBe(7);
+  });
+});
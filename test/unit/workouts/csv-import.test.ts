@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import { formatCsv, parseCsv } from '@/lib/workouts/csv';
+import {
+  markExistingDuplicates,
+  parseCsvDate,
+  parseCsvDuration,
+  parseCsvNumber,
+  readCsvWorkouts,
+  suggestColumnMapping,
+  toCsvWorkoutInsert,
+  validateColumnMapping,
+  type CsvImportOptions,
+} from '@/lib/workouts/csv-import';
+
+const today = '2025-03-15';
+
+const options: CsvImportOptions = { dateFormat: 'YYYY-MM-DD', pointsPolicy: 'recent' };
+
+describe('parseCsv', () => {
+  it('handles quoted fields, CRLF line endings, a BOM and blank lines', () => {
+    const text =
+      '\uFEFFDate,Notes\r\n2025-03-01,"Hills, then ""sprints""\nfelt good"\r\n\r\n2025-03-02,\r\n';
+
+    expect(parseCsv(text)).toEqual([
+      ['Date', 'Notes'],
+      ['2025-03-01', 'Hills, then "sprints"\nfelt good'],
+      ['2025-03-02', ''],
+    ]);
+  });
+
+  it('round-trips through formatCsv', () => {
+    const rows = [
+      ['type', 'notes'],
+      ['Running', 'a, "quoted" note'],
+    ];
+
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+});
+
+describe('column mapping', () => {
+  it('suggests a column for each field it recognises', () => {
+    expect(
+      suggestColumnMapping(['Activity Date', 'Activity Type', 'Elapsed Time', 'Distance', 'Avg HR'])
+    ).toEqual({
+      workoutDate: 'Activity Date',
+      workoutType: 'Activity Type',
+      durationMinutes: 'Elapsed Time',
+      distanceKm: 'Distance',
+      heartRateAvg: 'Avg HR',
+    });
+  });
+
+  it('requires date, type and duration columns that exist in the file', () => {
+    expect(validateColumnMapping({ workoutDate: 'Date' }, ['Date'])?.message).toMatch(
+      /workoutType, durationMinutes/
+    );
+    expect(
+      validateColumnMapping(
+        { workoutDate: 'Date', workoutType: 'Type', durationMinutes: 'Minutes' },
+        ['Date', 'Type']
+      )?.message
+    ).toMatch(/Minutes/);
+  });
+});
+
+describe('cell parsing', () => {
+  it('reads dates in the chosen format', () => {
+    expect(parseCsvDate('2025-3-7', 'YYYY-MM-DD')).toBe('2025-03-07');
+    expect(parseCsvDate('2025-03-07T06:30:00Z', 'YYYY-MM-DD')).toBe('2025-03-07');
+    expect(parseCsvDate('03/07/2025', 'MM/DD/YYYY')).toBe('2025-03-07');
+    expect(parseCsvDate('07.03.2025', 'DD/MM/YYYY')).toBe('2025-03-07');
+    expect(parseCsvDate('yesterday', 'YYYY-MM-DD')).toBe('yesterday');
+  });
+
+  it('reads durations as minutes or clock times', () => {
+    expect(parseCsvDuration('45')).toBe(45);
+    expect(parseCsvDuration('29.6')).toBe(30);
+    expect(parseCsvDuration('1:05:30')).toBe(66);
+    expect(parseCsvDuration('42:10')).toBe(42);
+    expect(parseCsvDuration('')).toBeNull();
+    expect(parseCsvDuration('an hour')).toBeNaN();
+  });
+
+  it('reads numbers with thousands separators', () => {
+    expect(parseCsvNumber('1,250')).toBe(1250);
+    expect(parseCsvNumber(' 5.5 ')).toBe(5.5);
+    expect(parseCsvNumber('')).toBeNull();
+    expect(parseCsvNumber('5km')).toBeNaN();
+  });
+});
+
+describe('readCsvWorkouts', () => {
+  const csv = [
+    'Date,Type,Minutes,Distance,Calories',
+    '2025-03-14,Running,30,5,300.4',
+    '2025-03-14,running,30,5.00,300',
+    '2025-03-20,Cycling,60,,',
+    '2025-01-10,Swimming,0,,',
+    '2025-01-11,Yoga,45,,',
+  ].join('\n');
+
+  it('reports each row with its status and constraint errors', () => {
+    const { preview, error } = readCsvWorkouts(csv, options, today);
+
+    expect(error).toBeNull();
+    expect(preview!.counts).toEqual({ valid: 2, invalid: 2, duplicate: 1 });
+
+    const [first, repeat, future, zero, yoga] = preview!.rows;
+    expect(first).toMatchObject({ row: 2, status: 'valid', earnsPoints: true });
+    expect(first.workout).toMatchObject({
+      durationMinutes: 30,
+      distanceKm: 5,
+      caloriesBurned: 300,
+    });
+    expect(repeat).toMatchObject({
+      status: 'duplicate',
+      errors: [{ message: 'Same workout as row 2' }],
+    });
+    expect(future.errors).toEqual([
+      { message: 'Workouts cannot be logged in the future', field: 'workoutDate' },
+    ]);
+    expect(zero.errors[0].field).toBe('durationMinutes');
+    expect(yoga).toMatchObject({ status: 'valid', earnsPoints: false });
+  });
+
+  it('awards no points under the none policy', () => {
+    const { preview } = readCsvWorkouts(csv, { ...options, pointsPolicy: 'none' }, today);
+
+    expect(preview!.rows.some((row) => row.earnsPoints)).toBe(false);
+  });
+
+  it('rejects empty files and incomplete mappings', () => {
+    expect(readCsvWorkouts('', options, today).error?.message).toBe('The file is empty');
+    expect(readCsvWorkouts('Foo,Bar\n1,2', options, today).error?.message).toMatch(
+      /Choose a column/
+    );
+  });
+
+  it('marks rows the user has already logged', () => {
+    const { preview } = readCsvWorkouts(csv, options, today);
+    const marked = markExistingDuplicates(preview!, [
+      { workout_date: '2025-01-11', workout_type: 'YOGA', duration_minutes: 45, distance_km: null },
+    ]);
+
+    expect(marked.rows[4]).toMatchObject({
+      status: 'duplicate',
+      errors: [{ message: 'You have already logged this workout' }],
+    });
+    expect(marked.counts).toEqual({ valid: 1, invalid: 2, duplicate: 2 });
+  });
+});
+
+describe('toCsvWorkoutInsert', () => {
+  const { preview } = readCsvWorkouts(
+    'date,type,duration\n2025-03-14,Running,30\n2025-01-11,Yoga,45',
+    options,
+    today
+  );
+  const [recent, old] = preview!.rows;
+
+  it('stores rows as imported workouts keyed by their content', () => {
+    const row = toCsvWorkoutInsert('user-1', recent, 'history.csv', '2025-03-15T10:00:00Z');
+
+    expect(row).toMatchObject({
+      user_id: 'user-1',
+      workout_date: '2025-03-14',
+      workout_type: 'Running',
+      duration_minutes: 30,
+      source: 'file',
+      raw_data: { format: 'csv', fileName: 'history.csv', row: 2 },
+    });
+    expect(row.external_id).toMatch(/^csv:[0-9a-f]{64}$/);
+    expect(row.scored_at).toBeUndefined();
+    expect(toCsvWorkoutInsert('user-2', recent, 'other.csv', '').external_id).toBe(row.external_id);
+  });
+
+  it('stores workouts outside the points policy as scored with no points and no rewards', () => {
+    expect(toCsvWorkoutInsert('user-1', old, 'history.csv', '2025-03-15T10:00:00Z')).toMatchObject({
+      points_earned: 0,
+      scored_at: '2025-03-15T10:00:00Z',
+      rewards_excluded: true,
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { readCsvWorkouts } from '@/lib/workouts/csv-import';
+import {
+  exportFileName,
+  formatWorkoutExport,
+  parseExportQuery,
+  type ExportedWorkout,
+} from '@/lib/workouts/export';
+
+const workouts: ExportedWorkout[] = [
+  {
+    id: '3f2504e0-4f89-11d3-9a0c-0305e82c3301',
+    workout_date: '2025-03-10',
+    workout_type: 'Strength, upper body',
+    duration_minutes: 40,
+    distance_km: null,
+    calories_burned: 250,
+    heart_rate_avg: 120,
+    source: 'manual',
+    points_earned: 55,
+    created_at: '2025-03-10T18:00:00Z',
+  },
+];
+
+describe('parseExportQuery', () => {
+  it('defaults to CSV of all workouts', () => {
+    expect(parseExportQuery(new URLSearchParams()).query).toEqual({ format: 'csv' });
+  });
+
+  it('reads the format and date range', () => {
+    expect(
+      parseExportQuery(new URLSearchParams('format=json&from=2025-01-01&to=2025-03-31')).query
+    ).toEqual({ format: 'json', from: '2025-01-01', to: '2025-03-31' });
+  });
+
+  it('rejects unknown formats and bad ranges', () => {
+    expect(parseExportQuery(new URLSearchParams('format=xml')).error).not.toBeNull();
+    expect(parseExportQuery(new URLSearchParams('from=March')).error).not.toBeNull();
+    expect(
+      parseExportQuery(new URLSearchParams('from=2025-04-01&to=2025-03-01')).error?.message
+    ).toBe('from must not be after to');
+  });
+});
+
+describe('formatWorkoutExport', () => {
+  it('writes JSON as an array of workouts', () => {
+    expect(JSON.parse(formatWorkoutExport(workouts, 'json'))).toEqual(workouts);
+  });
+
+  it('writes CSV that the importer reads back', () => {
+    const csv = formatWorkoutExport(workouts, 'csv');
+    expect(csv.split('\r\n')[0]).toBe(
+      'id,workout_date,workout_type,duration_minutes,distance_km,calories_burned,heart_rate_avg,source,points_earned,created_at'
+    );
+
+    const { preview } = readCsvWorkouts(
+      csv,
+      { dateFormat: 'YYYY-MM-DD', pointsPolicy: 'none' },
+      '2025-03-15'
+    );
+    expect(preview!.rows[0].workout).toEqual({
+      workoutDate: '2025-03-10',
+      workoutType: 'Strength, upper body',
+      durationMinutes: 40,
+      distanceKm: null,
+      caloriesBurned: 250,
+      heartRateAvg: 120,
+    });
+  });
+});
+
+describe('exportFileName', () => {
+  it('names the file after the range', () => {
+    expect(exportFileName({ format: 'csv' })).toBe('workouts.csv');
+    expect(exportFileName({ format: 'json', from: '2025-01-01' })).toBe(
+      'workouts-2025-01-01-to-today.json'
+    );
+  });
+});
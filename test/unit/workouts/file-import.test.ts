@@ -0,0 +1,278 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectWorkoutFileFormat,
+  hashWorkoutFile,
+  parseWorkoutFile,
+  summarizeActivity,
+  toFileWorkoutInsert,
+  type WorkoutFileSummary,
+} from '@/lib/workouts/file-import';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const gpx = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">
+  <trk>
+    <name>Morning Run</name>
+    <type>running</type>
+    <trkseg>
+      <trkpt lat="51.5000" lon="-0.1000"><time>2025-03-10T07:00:00Z</time>
+        <extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>140</gpxtpx:hr></gpxtpx:TrackPointExtension></extensions>
+      </trkpt>
+      <trkpt lat="51.5090" lon="-0.1000"><time>2025-03-10T07:05:00Z</time>
+        <extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>150</gpxtpx:hr></gpxtpx:TrackPointExtension></extensions>
+      </trkpt>
+    </trkseg>
+  </trk>
+</gpx>`;
+
+const tcx = `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+  <Activities>
+    <Activity Sport="Biking">
+      <Id>2025-03-11T18:00:00Z</Id>
+      <Lap StartTime="2025-03-11T18:00:00Z">
+        <TotalTimeSeconds>1800</TotalTimeSeconds>
+        <DistanceMeters>12000</DistanceMeters>
+        <AverageHeartRateBpm><Value>130</Value></AverageHeartRateBpm>
+        <Track>
+          <Trackpoint><Time>2025-03-11T18:00:00Z</Time><DistanceMeters>0</DistanceMeters></Trackpoint>
+          <Trackpoint><Time>2025-03-11T18:30:00Z</Time><DistanceMeters>12000</DistanceMeters></Trackpoint>
+        </Track>
+      </Lap>
+      <Lap StartTime="2025-03-11T18:30:00Z">
+        <TotalTimeSeconds>600</TotalTimeSeconds>
+        <DistanceMeters>3000</DistanceMeters>
+        <AverageHeartRateBpm><Value>150</Value></AverageHeartRateBpm>
+      </Lap>
+    </Activity>
+  </Activities>
+</TrainingCenterDatabase>`;
+
+// Seconds since the FIT epoch (1989-12-31T00:00:00Z)
+const fitSeconds = (iso: string) => (Date.parse(iso) - Date.UTC(1989, 11, 31)) / 1000;
+
+/**
+ * A little-endian FIT file with one record definition, two records and a
+ * session. Fields are [number, size, base type, value].
+ */
+function buildFit(): Uint8Array {
+  const bytes: number[] = [];
+  const push = (value: number, size: number) => {
+    for (let i = 0; i < size; i++) bytes.push((value >>> (8 * i)) & 0xff);
+  };
+
+  const message = (localType: number, globalNum: number, fields: number[][]) => {
+    push(0x40 | localType, 1);
+    push(0, 1);
+    push(0, 1);
+    push(globalNum, 2);
+    push(fields.length, 1);
+    for (const [num, size, baseType] of fields) {
+      push(num, 1);
+      push(size, 1);
+      push(baseType, 1);
+    }
+  };
+  const data = (localType: number, fields: number[][]) => {
+    push(localType, 1);
+    for (const [, size, , value] of fields) push(value, size);
+  };
+
+  const start = fitSeconds('2025-03-12T06:00:00Z');
+  const record = (offset: number, heartRate: number, centimeters: number) => [
+    [253, 4, 0x86, start + offset],
+    [3, 1, 0x02, heartRate],
+    [5, 4, 0x86, centimeters],
+  ];
+  const session = [
+    [2, 4, 0x86, start],
+    [5, 1, 0x00, 1],
+    [7, 4, 0x86, 2_700_000],
+    [8, 4, 0x86, 2_400_000],
+    [9, 4, 0x86, 800_000],
+    [16, 1, 0x02, 155],
+  ];
+
+  message(0, 20, record(0, 0, 0));
+  data(0, record(0, 140, 0));
+  data(0, record(2400, 160, 800_000));
+  message(1, 18, session);
+  data(1, session);
+
+  const header = [12, 0x10, 0, 0, 0, 0, 0, 0, ...encode('.FIT')];
+  const file = Uint8Array.from([...header, ...bytes, 0, 0]);
+  new DataView(file.buffer).setUint32(4, bytes.length, true);
+  return file;
+}
+
+describe('detectWorkoutFileFormat', () => {
+  it('recognises files by content before their extension', () => {
+    expect(detectWorkoutFileFormat('run.txt', encode(gpx))).toBe('gpx');
+    expect(detectWorkoutFileFormat('ride.xml', encode(tcx))).toBe('tcx');
+    expect(detectWorkoutFileFormat('activity.bin', buildFit())).toBe('fit');
+  });
+
+  it('falls back to the extension and rejects anything else', () => {
+    expect(detectWorkoutFileFormat('RUN.GPX', encode('garbage'))).toBe('gpx');
+    expect(detectWorkoutFileFormat('notes.txt', encode('garbage'))).toBeNull();
+  });
+});
+
+describe('parseWorkoutFile', () => {
+  it('derives distance, duration and heart rate from a GPX track', () => {
+    const { activity, error } = parseWorkoutFile('run.gpx', encode(gpx));
+
+    expect(error).toBeNull();
+    const summary = summarizeActivity(activity!, 'run.gpx');
+    expect(summary).toMatchObject({
+      format: 'gpx',
+      sport: 'running',
+      startTime: '2025-03-10T07:00:00.000Z',
+      durationSeconds: 300,
+      heartRateAvg: 145,
+      pointCount: 2,
+    });
+    // 0.009 degrees of latitude is about a kilometre
+    expect(summary.distanceKm).toBeCloseTo(1, 1);
+  });
+
+  it('prefers TCX lap totals and weights heart rate by lap time', () => {
+    const { activity, error } = parseWorkoutFile('ride.tcx', encode(tcx));
+
+    expect(error).toBeNull();
+    expect(summarizeActivity(activity!, 'ride.tcx')).toMatchObject({
+      format: 'tcx',
+      sport: 'Biking',
+      startTime: '2025-03-11T18:00:00.000Z',
+      durationSeconds: 2400,
+      distanceKm: 15,
+      heartRateAvg: 135,
+    });
+  });
+
+  it('decodes FIT records and sessions', () => {
+    const { activity, error } = parseWorkoutFile('run.fit', buildFit());
+
+    expect(error).toBeNull();
+    expect(activity!.points).toHaveLength(2);
+    expect(activity!.points[1].heartRate).toBe(160);
+    expect(summarizeActivity(activity!, 'run.fit')).toMatchObject({
+      format: 'fit',
+      sport: 'running',
+      startTime: '2025-03-12T06:00:00.000Z',
+      durationSeconds: 2400,
+      distanceKm: 8,
+      heartRateAvg: 155,
+    });
+  });
+
+  it('summarizes tracks too long to spread into Math.max', () => {
+    const start = Date.parse('2025-03-12T06:00:00Z');
+    const points = Array.from({ length: 200_000 }, (_, i) => ({
+      time: new Date(start + i * 1000),
+      distanceMeters: i * 2,
+    }));
+
+    const summary = summarizeActivity(
+      { format: 'fit', sport: 'running', startTime: new Date(start), points, totals: {} },
+      'crashed.fit'
+    );
+
+    expect(summary.durationSeconds).toBe(199_999);
+    expect(summary.distanceKm).toBe(400);
+    expect(summary.pointCount).toBe(200_000);
+  });
+
+  it('reports unreadable files instead of throwing', () => {
+    expect(parseWorkoutFile('notes.txt', encode('hello')).error?.message).toMatch(/Unsupported/);
+    expect(parseWorkoutFile('run.fit', encode('not a fit file')).error?.message).toMatch(
+      /Could not read FIT file/
+    );
+    expect(parseWorkoutFile('empty.gpx', encode('<gpx></gpx>')).error?.message).toMatch(
+      /track data/
+    );
+  });
+});
+
+describe('toFileWorkoutInsert', () => {
+  const options = {
+    pointsPolicy: 'recent' as const,
+    today: '2025-03-12',
+    scoredAt: '2025-03-12T10:00:00Z',
+  };
+  const summary: WorkoutFileSummary = {
+    format: 'gpx',
+    fileName: 'run.gpx',
+    sport: 'running',
+    startTime: '2025-03-10T23:30:00.000Z',
+    durationSeconds: 1830,
+    distanceKm: 5.02,
+    heartRateAvg: 150,
+    pointCount: 120,
+  };
+
+  it('builds a file-sourced row dated in the user timezone', () => {
+    const { row, error } = toFileWorkoutInsert('user-1', summary, 'abc', 'Asia/Tokyo', options);
+
+    expect(error).toBeNull();
+    expect(row).toMatchObject({
+      user_id: 'user-1',
+      workout_date: '2025-03-11',
+      workout_type: 'Running',
+      activity_type: 'running',
+      duration_minutes: 31,
+      distance_km: 5.02,
+      heart_rate_avg: 150,
+      source: 'file',
+      external_id: 'abc',
+    });
+    expect(row).not.toHaveProperty('scored_at');
+  });
+
+  it('stores an old file as history outside the points policy', () => {
+    const { row } = toFileWorkoutInsert('user-1', summary, 'abc', null, {
+      ...options,
+      today: '2025-06-01',
+    });
+
+    expect(row).toMatchObject({
+      points_earned: 0,
+      scored_at: options.scoredAt,
+      rewards_excluded: true,
+    });
+  });
+
+  it('names the workout after the activity the file sport maps to', () => {
+    const typeOf = (sport: string | null) =>
+      toFileWorkoutInsert('user-1', { ...summary, sport }, 'abc', null, options).row;
+
+    expect(typeOf('Biking')).toMatchObject({ workout_type: 'Cycling', activity_type: 'cycling' });
+    expect(typeOf('cross_country_skiing')).toMatchObject({ activity_type: 'snow_sports' });
+    expect(typeOf('Other')).toMatchObject({ workout_type: 'Other', activity_type: 'other' });
+    expect(typeOf(null)).toMatchObject({ workout_type: 'Other', activity_type: 'other' });
+  });
+
+  it('rejects files without a start time or a usable duration', () => {
+    expect(
+      toFileWorkoutInsert('user-1', { ...summary, startTime: null }, 'abc', null, options).error
+    ).not.toBeNull();
+    expect(
+      toFileWorkoutInsert('user-1', { ...summary, durationSeconds: 20 }, 'abc', null, options).error
+    ).not.toBeNull();
+    expect(
+      toFileWorkoutInsert(
+        'user-1',
+        { ...summary, durationSeconds: 2 * 86400 },
+        'abc',
+        null,
+        options
+      ).error
+    ).not.toBeNull();
+  });
+
+  it('hashes identical files identically', () => {
+    expect(hashWorkoutFile(encode(gpx))).toBe(hashWorkoutFile(encode(gpx)));
+    expect(hashWorkoutFile(encode(gpx))).not.toBe(hashWorkoutFile(encode(tcx)));
+  });
+});
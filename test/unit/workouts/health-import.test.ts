@@ -0,0 +1,341 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import {
+  healthWorkoutExternalId,
+  readHealthWorkout,
+  toHealthWorkoutInsert,
+  type HealthWorkout,
+} from '@/lib/workouts/health-import';
+import {
+  appleSportName,
+  parseAppleDate,
+  parseAppleWorkout,
+} from '@/lib/workouts/parsers/apple-health';
+import { GOOGLE_FIT_SESSION_FILE, parseGoogleFitSession } from '@/lib/workouts/parsers/google-fit';
+import { createElementScanner } from '@/lib/workouts/parsers/xml';
+import { openZipEntry, readZipEntries, type ZipSource } from '@/lib/workouts/parsers/zip';
+
+// A ZIP archive with the given entries, deflated or stored. CRCs are left at
+// zero: the reader does not check them.
+function createZip(files: { name: string; text: string; deflate?: boolean }[]): Uint8Array {
+  const parts: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name);
+    const raw = Buffer.from(file.text);
+    const data = file.deflate ? deflateRawSync(raw) : raw;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(file.deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(file.deflate ? 8 : 0, 10);
+    header.writeUInt32LE(data.length, 20);
+    header.writeUInt32LE(raw.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(offset, 42);
+
+    parts.push(local, name, data);
+    central.push(header, name);
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...parts, directory, end]));
+}
+
+function bytesSource(bytes: Uint8Array): ZipSource {
+  return {
+    size: bytes.byteLength,
+    read: async (start, end) => bytes.slice(start, end),
+    stream: (start, end) =>
+      new ReadableStream({
+        start(controller) {
+          controller.enqueue(bytes.slice(start, end));
+          controller.close();
+        },
+      }),
+  };
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+const appleWorkout = `<Workout workoutActivityType="HKWorkoutActivityTypeRunning" duration="30.5" durationUnit="min" sourceName="Sam's Apple Watch" startDate="2025-03-10 07:00:00 +0100" endDate="2025-03-10 07:32:00 +0100">
+  <MetadataEntry key="HKIndoorWorkout" value="0"/>
+  <WorkoutEvent type="HKWorkoutEventTypeSegment" date="2025-03-10 07:10:00 +0100"/>
+  <WorkoutStatistics type="HKQuantityTypeIdentifierDistanceWalkingRunning" startDate="2025-03-10 07:00:00 +0100" endDate="2025-03-10 07:32:00 +0100" sum="5.2" unit="km"/>
+  <WorkoutStatistics type="HKQuantityTypeIdentifierActiveEnergyBurned" startDate="2025-03-10 07:00:00 +0100" endDate="2025-03-10 07:32:00 +0100" sum="310" unit="Cal"/>
+  <WorkoutStatistics type="HKQuantityTypeIdentifierHeartRate" startDate="2025-03-10 07:00:00 +0100" endDate="2025-03-10 07:32:00 +0100" average="152.4" minimum="98" maximum="171" unit="count/min"/>
+  <WorkoutRoute sourceName="Sam's Apple Watch">
+    <FileReference path="/workout-routes/route_2025-03-10_7.32am.gpx"/>
+  </WorkoutRoute>
+</Workout>`;
+
+const appleExport = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE HealthData [
+<!ELEMENT Workout ((MetadataEntry|WorkoutEvent|WorkoutRoute|WorkoutStatistics)*)>
+]>
+<HealthData locale="en_GB">
+ <Record type="HKQuantityTypeIdentifierStepCount" sourceName="iPhone" unit="count" value="120" startDate="2025-03-10 06:00:00 +0100" endDate="2025-03-10 06:05:00 +0100"/>
+ ${appleWorkout}
+ <Workout workoutActivityType="HKWorkoutActivityTypeTraditionalStrengthTraining" duration="45" durationUnit="min" totalEnergyBurned="200" totalEnergyBurnedUnit="kcal" sourceName="Strong" startDate="2025-03-11 18:00:00 +0000" endDate="2025-03-11 18:45:00 +0000"/>
+ <ActivitySummary dateComponents="2025-03-10" activeEnergyBurned="500"/>
+</HealthData>`;
+
+const fitSession = JSON.stringify({
+  fitnessActivity: 'running.treadmill',
+  startTime: '2025-03-12T06:00:00.000Z',
+  endTime: '2025-03-12T06:40:00.000Z',
+  duration: '2400.000s',
+  aggregate: [
+    { metricName: 'com.google.calories.expended', floatValue: 410.5 },
+    { metricName: 'com.google.distance.delta', floatValue: 7200 },
+    { metricName: 'com.google.step_count.delta', intValue: 6100 },
+  ],
+});
+
+const healthWorkout: HealthWorkout = {
+  format: 'apple_health',
+  sport: 'Running',
+  startTime: '2025-03-10T06:00:00.000Z',
+  durationSeconds: 1830,
+  distanceMeters: 5200,
+  calories: 310,
+  heartRateAvg: 152.4,
+  recordedBy: "Sam's Apple Watch",
+};
+
+describe('ZIP reading', () => {
+  it('lists entries and inflates deflated and stored entries', async () => {
+    const source = bytesSource(
+      createZip([
+        { name: 'apple_health_export/export.xml', text: appleExport, deflate: true },
+        { name: 'apple_health_export/export_cda.xml', text: '<ClinicalDocument/>' },
+      ])
+    );
+
+    const entries = await readZipEntries(source);
+
+    expect(entries.map((entry) => entry.name)).toEqual([
+      'apple_health_export/export.xml',
+      'apple_health_export/export_cda.xml',
+    ]);
+    expect(entries[0].uncompressedSize).toBe(new TextEncoder().encode(appleExport).byteLength);
+    expect(await readAll(await openZipEntry(source, entries[0]))).toBe(appleExport);
+    expect(await readAll(await openZipEntry(source, entries[1]))).toBe('<ClinicalDocument/>');
+  });
+
+  it('rejects files that are not ZIP archives', async () => {
+    await expect(readZipEntries(bytesSource(new TextEncoder().encode('<xml/>')))).rejects.toThrow(
+      'Not a ZIP archive'
+    );
+  });
+});
+
+describe('createElementScanner', () => {
+  it('finds elements split across chunks of any size', () => {
+    for (const size of [1, 7, 64, appleExport.length]) {
+      const scanner = createElementScanner('Workout');
+      const found: { tag: string; content: string }[] = [];
+      for (let i = 0; i < appleExport.length; i += size) {
+        found.push(...scanner.push(appleExport.slice(i, i + size)));
+      }
+
+      expect(found).toHaveLength(2);
+      expect(found[0].tag).toContain('HKWorkoutActivityTypeRunning');
+      expect(found[0].content).toContain('<WorkoutRoute');
+      expect(found[1].content).toBe('');
+      expect(scanner.buffered()).toBeLessThan(10);
+    }
+  });
+
+  it('skips elements whose name only starts with the same letters', () => {
+    const scanner = createElementScanner('Workout');
+    expect(scanner.push('<WorkoutEvent type="a"/><Workouts></Workouts>')).toEqual([]);
+  });
+
+  it('allows > inside attribute values', () => {
+    const scanner = createElementScanner('Workout');
+    const [element] = scanner.push('<Workout sourceName="A > B" duration="1"></Workout>');
+    expect(element.tag).toBe('<Workout sourceName="A > B" duration="1">');
+  });
+});
+
+describe('Apple Health workouts', () => {
+  it('reads export dates with their UTC offset', () => {
+    expect(parseAppleDate('2025-03-10 07:00:00 +0100')?.toISOString()).toBe(
+      '2025-03-10T06:00:00.000Z'
+    );
+    expect(parseAppleDate('not a date')).toBeNull();
+  });
+
+  it('names activity types readably', () => {
+    expect(appleSportName('HKWorkoutActivityTypeHighIntensityIntervalTraining')).toBe(
+      'High Intensity Interval Training'
+    );
+  });
+
+  it('reads totals from WorkoutStatistics', () => {
+    const [element] = createElementScanner('Workout').push(appleWorkout);
+    expect(parseAppleWorkout(element)).toEqual(healthWorkout);
+  });
+
+  it('reads totals from attributes in older exports', () => {
+    const [, element] = createElementScanner('Workout').push(appleExport);
+    expect(parseAppleWorkout(element)).toMatchObject({
+      sport: 'Traditional Strength Training',
+      durationSeconds: 2700,
+      distanceMeters: null,
+      calories: 200,
+      heartRateAvg: null,
+    });
+  });
+
+  it('skips workouts without a start date', () => {
+    expect(
+      parseAppleWorkout({
+        tag: '<Workout workoutActivityType="HKWorkoutActivityTypeWalking" duration="10" durationUnit="min">',
+        content: '',
+      })
+    ).toBeNull();
+  });
+});
+
+describe('Google Fit sessions', () => {
+  it('matches session files in a Takeout archive', () => {
+    expect(
+      GOOGLE_FIT_SESSION_FILE.test('Takeout/Fit/All Sessions/2025-03-12T06_00_00.000Z_RUNNING.json')
+    ).toBe(true);
+    expect(GOOGLE_FIT_SESSION_FILE.test('Takeout/Fit/Daily activity metrics/2025-03-12.csv')).toBe(
+      false
+    );
+  });
+
+  it('reads a session', () => {
+    expect(parseGoogleFitSession(fitSession)).toEqual({
+      format: 'google_fit',
+      sport: 'running treadmill',
+      startTime: '2025-03-12T06:00:00.000Z',
+      durationSeconds: 2400,
+      distanceMeters: 7200,
+      calories: 410.5,
+      heartRateAvg: null,
+      recordedBy: null,
+    });
+  });
+
+  it('skips sessions that are not workouts', () => {
+    const sleep = JSON.parse(fitSession);
+    sleep.fitnessActivity = 'sleep.deep';
+    expect(parseGoogleFitSession(JSON.stringify(sleep))).toBeNull();
+  });
+});
+
+describe('readHealthWorkout', () => {
+  it('accepts a well-formed workout', () => {
+    expect(readHealthWorkout({ ...healthWorkout })).toEqual(healthWorkout);
+  });
+
+  it('rejects malformed workouts', () => {
+    expect(readHealthWorkout({ ...healthWorkout, format: 'garmin' })).toBeNull();
+    expect(readHealthWorkout({ ...healthWorkout, startTime: 'yesterday' })).toBeNull();
+    expect(readHealthWorkout({ ...healthWorkout, durationSeconds: '1830' })).toBeNull();
+    expect(readHealthWorkout(null)).toBeNull();
+  });
+});
+
+describe('toHealthWorkoutInsert', () => {
+  const options = {
+    pointsPolicy: 'recent' as const,
+    today: '2025-03-12',
+    scoredAt: '2025-03-12T12:00:00.000Z',
+  };
+
+  it('maps a workout to the label of its activity type', () => {
+    const { row, error } = toHealthWorkoutInsert('user-1', healthWorkout, 'Europe/London', options);
+
+    expect(error).toBeNull();
+    expect(row).toMatchObject({
+      user_id: 'user-1',
+      workout_date: '2025-03-10',
+      started_at: '2025-03-10T06:00:00.000Z',
+      workout_type: 'Running',
+      activity_type: 'running',
+      duration_minutes: 31,
+      distance_km: 5.2,
+      calories_burned: 310,
+      heart_rate_avg: 152,
+      source: 'file',
+      external_id: healthWorkoutExternalId(healthWorkout),
+    });
+    expect(row).not.toHaveProperty('scored_at');
+  });
+
+  it('gives the same workout_type to the same activity from either export', () => {
+    const apple = toHealthWorkoutInsert(
+      'user-1',
+      { ...healthWorkout, sport: 'Traditional Strength Training' },
+      null,
+      options
+    );
+    const fit = toHealthWorkoutInsert(
+      'user-1',
+      { ...healthWorkout, format: 'google_fit', sport: 'strength training' },
+      null,
+      options
+    );
+
+    expect(apple.row?.workout_type).toBe('Strength Training');
+    expect(fit.row?.workout_type).toBe('Strength Training');
+  });
+
+  it('stores older workouts as already scored and excluded from rewards', () => {
+    const { row } = toHealthWorkoutInsert(
+      'user-1',
+      { ...healthWorkout, startTime: '2024-01-01T08:00:00.000Z' },
+      null,
+      options
+    );
+    expect(row).toMatchObject({
+      points_earned: 0,
+      scored_at: options.scoredAt,
+      rewards_excluded: true,
+    });
+  });
+
+  it('rejects workouts shorter than a minute', () => {
+    const { row, error } = toHealthWorkoutInsert(
+      'user-1',
+      { ...healthWorkout, durationSeconds: 20 },
+      null,
+      options
+    );
+    expect(row).toBeNull();
+    expect(error?.message).toMatch(/Duration/);
+  });
+
+  it('derives the same external_id on every import', () => {
+    expect(healthWorkoutExternalId({ ...healthWorkout })).toBe(
+      healthWorkoutExternalId(healthWorkout)
+    );
+    expect(healthWorkoutExternalId({ ...healthWorkout, sport: 'Walking' })).not.toBe(
+      healthWorkoutExternalId(healthWorkout)
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodeCursor,
+  encodeCursor,
+  isEditableWorkout,
+  parseWorkoutQuery,
+  workoutQueryString,
+} from '@/lib/workouts/history';
+
+const id = '3f2504e0-4f89-11d3-9a0c-0305e82c3301';
+
+describe('workout cursors', () => {
+  it('round-trips the date and id of the last workout', () => {
+    const cursor = encodeCursor({ workout_date: '2025-03-12', id });
+
+    expect(decodeCursor(cursor)).toEqual({ workoutDate: '2025-03-12', id });
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(decodeCursor('garbage')).toBeNull();
+    expect(decodeCursor(`2025-03-12_${id},id.gt.0`)).toBeNull();
+  });
+});
+
+describe('parseWorkoutQuery', () => {
+  it('reads filters and the cursor', () => {
+    const params = new URLSearchParams(
+      workoutQueryString(
+        { workoutType: 'Running', source: 'strava', from: '2025-03-01', to: '2025-03-31' },
+        `2025-03-12_${id}`
+      )
+    );
+
+    expect(parseWorkoutQuery(params)).toEqual({
+      filters: { workoutType: 'Running', source: 'strava', from: '2025-03-01', to: '2025-03-31' },
+      cursor: { workoutDate: '2025-03-12', id },
+      error: null,
+    });
+  });
+
+  it('ignores empty filters', () => {
+    expect(parseWorkoutQuery(new URLSearchParams('type=%20&source='))).toEqual({
+      filters: {},
+      cursor: null,
+      error: null,
+    });
+  });
+
+  it('rejects unknown sources, bad dates and bad cursors', () => {
+    expect(parseWorkoutQuery(new URLSearchParams('source=garmin')).error).not.toBeNull();
+    expect(parseWorkoutQuery(new URLSearchParams('from=March')).error).not.toBeNull();
+    expect(parseWorkoutQuery(new URLSearchParams('cursor=abc')).error).not.toBeNull();
+  });
+});
+
+describe('isEditableWorkout', () => {
+  it('only allows editing manual workouts', () => {
+    expect(isEditableWorkout({ source: 'manual' })).toBe(true);
+    expect(isEditableWorkout({ source: 'strava' })).toBe(false);
+    expect(isEditableWorkout({ source: 'fitbit' })).toBe(false);
+  });
+});
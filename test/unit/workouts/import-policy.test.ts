@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  earnsImportPoints,
+  importPolicyFields,
+  refreshImportedRecords,
+} from '@/lib/workouts/import-policy';
+import type { Workout } from '@/types/database';
+import { fakeSupabase } from '@/test/helpers/supabase';
+
+const today = '2025-03-15';
+
+describe('points policy', () => {
+  it('scores only the last seven days under the recent policy', () => {
+    expect(earnsImportPoints('2025-03-09', 'recent', today)).toBe(true);
+    expect(earnsImportPoints('2025-03-08', 'recent', today)).toBe(false);
+    expect(earnsImportPoints(today, 'none', today)).toBe(false);
+  });
+
+  it('leaves scoring to the scoring job for workouts that earn points', () => {
+    expect(importPolicyFields(true, '2025-03-15T10:00:00Z')).toEqual({});
+  });
+
+  it('stores other workouts as scored with no points and no rewards', () => {
+    expect(importPolicyFields(false, '2025-03-15T10:00:00Z')).toEqual({
+      points_earned: 0,
+      scored_at: '2025-03-15T10:00:00Z',
+      rewards_excluded: true,
+    });
+  });
+});
+
+describe('refreshImportedRecords', () => {
+  const history = { id: 'history', scored_at: '2025-03-15T10:00:00Z' } as Workout;
+  const recent = { id: 'recent', scored_at: null } as Workout;
+
+  it('refreshes records when history was stored', async () => {
+    const supabase = fakeSupabase();
+
+    const { error } = await refreshImportedRecords(supabase.client, 'user-1', [history, recent]);
+
+    expect(error).toBeNull();
+    expect(supabase.rpcCalls).toEqual([
+      { fn: 'refresh_personal_records', args: { p_user_id: 'user-1' } },
+    ]);
+  });
+
+  it('leaves records to the scoring job when every workout earns points', async () => {
+    const supabase = fakeSupabase();
+
+    await refreshImportedRecords(supabase.client, 'user-1', [recent]);
+
+    expect(supabase.rpcCalls).toEqual([]);
+  });
+
+  it('reports how many workouts were stored before the refresh failed', async () => {
+    const supabase = fakeSupabase({
+      rpc: { refresh_personal_records: { data: null, error: { message: 'timeout' } } },
+    });
+
+    const { error } = await refreshImportedRecords(supabase.client, 'user-1', [history, recent]);
+
+    expect(error).toEqual({ message: 'Imported 2 workouts, then failed: timeout' });
+  });
+});
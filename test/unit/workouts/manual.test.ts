@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toWorkoutInsert,
+  validateManualWorkout,
+  type ManualWorkoutInput,
+} from '@/lib/workouts/manual';
+
+const today = '2025-03-12';
+
+function input(overrides: Partial<ManualWorkoutInput> = {}): ManualWorkoutInput {
+  return {
+    workoutDate: '2025-03-12',
+    workoutType: 'Running',
+    durationMinutes: 30,
+    distanceKm: 5,
+    caloriesBurned: 300,
+    heartRateAvg: 150,
+    ...overrides,
+  };
+}
+
+function fields(subject: ManualWorkoutInput) {
+  return validateManualWorkout(subject, today).map((error) => error.field);
+}
+
+describe('validateManualWorkout', () => {
+  it('accepts a valid workout with optional fields left out', () => {
+    expect(validateManualWorkout(input(), today)).toEqual([]);
+    expect(
+      validateManualWorkout(
+        input({ distanceKm: null, caloriesBurned: null, heartRateAvg: null }),
+        today
+      )
+    ).toEqual([]);
+  });
+
+  it('rejects missing, invalid and future dates', () => {
+    expect(fields(input({ workoutDate: '' }))).toEqual(['workoutDate']);
+    expect(fields(input({ workoutDate: '2025-02-30' }))).toEqual(['workoutDate']);
+    expect(fields(input({ workoutDate: '2025-03-13' }))).toEqual(['workoutDate']);
+  });
+
+  it('limits how far back a workout can be logged unless the limit is lifted', () => {
+    expect(fields(input({ workoutDate: '2025-03-05' }))).toEqual([]);
+    expect(fields(input({ workoutDate: '2025-03-04' }))).toEqual(['workoutDate']);
+    expect(validateManualWorkout(input({ workoutDate: '2024-01-01' }), today, null)).toEqual([]);
+  });
+
+  it('requires a workout type', () => {
+    expect(fields(input({ workoutType: '   ' }))).toEqual(['workoutType']);
+    expect(fields(input({ workoutType: 'x'.repeat(51) }))).toEqual(['workoutType']);
+  });
+
+  it('enforces the table constraints on numbers', () => {
+    expect(fields(input({ durationMinutes: null }))).toEqual(['durationMinutes']);
+    expect(fields(input({ durationMinutes: 0 }))).toEqual(['durationMinutes']);
+    expect(fields(input({ durationMinutes: 12.5 }))).toEqual(['durationMinutes']);
+    expect(fields(input({ distanceKm: -1 }))).toEqual(['distanceKm']);
+    expect(fields(input({ caloriesBurned: Number.NaN }))).toEqual(['caloriesBurned']);
+    expect(fields(input({ heartRateAvg: 251 }))).toEqual(['heartRateAvg']);
+    expect(fields(input({ heartRateAvg: 0 }))).toEqual([]);
+  });
+
+  it('reports every invalid field', () => {
+    expect(fields(input({ workoutType: '', durationMinutes: -5, heartRateAvg: 300 }))).toEqual([
+      'workoutType',
+      'durationMinutes',
+      'heartRateAvg',
+    ]);
+  });
+});
+
+describe('toWorkoutInsert', () => {
+  it('builds a manual workouts row', () => {
+    expect(
+      toWorkoutInsert('user-1', input({ workoutType: ' Running ', distanceKm: 5.129 }))
+    ).toEqual({
+      user_id: 'user-1',
+      workout_date: '2025-03-12',
+      started_at: null,
+      workout_type: 'Running',
+      activity_type: 'running',
+      duration_minutes: 30,
+      distance_km: 5.13,
+      calories_burned: 300,
+      heart_rate_avg: 150,
+      source: 'manual',
+      external_id: null,
+      raw_data: null,
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findCanonicalWorkout,
+  isSameSession,
+  workoutInterval,
+  type MergeableWorkout,
+} from '@/lib/workouts/merge';
+
+function workout(overrides: Partial<MergeableWorkout> = {}): MergeableWorkout {
+  return {
+    id: 'fitbit-run',
+    workout_type: 'Run',
+    activity_type: 'running',
+    duration_minutes: 31,
+    distance_km: 5.2,
+    heart_rate_avg: null,
+    source: 'fitbit',
+    started_at: '2025-03-10T07:01:00.000Z',
+    merged_into: null,
+    unmerged_from: null,
+    ...overrides,
+  };
+}
+
+const stravaRun = workout({
+  id: 'strava-run',
+  source: 'strava',
+  duration_minutes: 30,
+  distance_km: 5.1,
+  started_at: '2025-03-10T07:00:00.000Z',
+});
+
+describe('workoutInterval', () => {
+  it('runs from the start time for the duration', () => {
+    expect(workoutInterval(stravaRun)).toEqual({
+      start: Date.parse('2025-03-10T07:00:00.000Z'),
+      end: Date.parse('2025-03-10T07:30:00.000Z'),
+    });
+  });
+
+  it('is unknown without a start time or duration', () => {
+    expect(workoutInterval(workout({ started_at: null }))).toBeNull();
+    expect(workoutInterval(workout({ duration_minutes: null }))).toBeNull();
+  });
+});
+
+describe('isSameSession', () => {
+  it('matches overlapping workouts with similar duration and distance', () => {
+    expect(isSameSession(workout(), stravaRun)).toBe(true);
+  });
+
+  it('allows for clocks a few minutes apart', () => {
+    expect(isSameSession(workout({ started_at: '2025-03-10T07:33:00.000Z' }), stravaRun)).toBe(
+      true
+    );
+    expect(isSameSession(workout({ started_at: '2025-03-10T08:00:00.000Z' }), stravaRun)).toBe(
+      false
+    );
+  });
+
+  it('does not match different distances or activities', () => {
+    expect(isSameSession(workout({ distance_km: 8 }), stravaRun)).toBe(false);
+    expect(
+      isSameSession(workout({ workout_type: 'Bike', activity_type: 'cycling' }), stravaRun)
+    ).toBe(false);
+  });
+
+  it('does not match workouts from the same source', () => {
+    expect(isSameSession(workout({ source: 'strava' }), stravaRun)).toBe(false);
+  });
+
+  it('does not match without start times', () => {
+    expect(isSameSession(workout({ started_at: null }), stravaRun)).toBe(false);
+  });
+
+  it('does not match a pair the user un-merged', () => {
+    expect(isSameSession(workout({ unmerged_from: 'strava-run' }), stravaRun)).toBe(false);
+  });
+});
+
+describe('findCanonicalWorkout', () => {
+  it('finds the workout already stored for the session', () => {
+    const otherRun = { ...stravaRun, id: 'evening-run', started_at: '2025-03-10T18:00:00.000Z' };
+
+    expect(findCanonicalWorkout(workout(), [otherRun, stravaRun])?.id).toBe('strava-run');
+    expect(findCanonicalWorkout(workout(), [otherRun])).toBeNull();
+  });
+
+  it('never picks a workout that is itself merged', () => {
+    expect(findCanonicalWorkout(workout(), [{ ...stravaRun, merged_into: 'file-run' }])).toBeNull();
+  });
+});
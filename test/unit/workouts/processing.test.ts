@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { processWorkout } from '@/lib/workouts/processing';
+import type { UserBaseline, Workout } from '@/types/database';
+import { fakeSupabase, type FakeSupabaseOptions } from '@/test/helpers/supabase';
+
+function workout(overrides: Partial<Workout> = {}): Workout {
+  return {
+    id: 'workout',
+    user_id: 'user',
+    workout_date: '2025-03-12',
+    workout_type: 'Running',
+    activity_type: 'running',
+    duration_minutes: 30,
+    distance_km: 5,
+    calories_burned: 300,
+    heart_rate_avg: 150,
+    source: 'manual',
+    external_id: null,
+    raw_data: null,
+    started_at: null,
+    merged_into: null,
+    unmerged_from: null,
+    points_earned: 0,
+    scored_at: null,
+    rewards_excluded: false,
+    review_status: null,
+    review_flags: null,
+    review_note: null,
+    reviewed_at: null,
+    created_at: '2025-03-12T10:00:00Z',
+    ...overrides,
+  };
+}
+
+const baseline: UserBaseline = {
+  user_id: 'user',
+  avg_weekly_workouts: 3,
+  avg_workout_duration: 30,
+  avg_weekly_distance: 15,
+  avg_daily_steps: null,
+  baseline_calculated_at: '2025-03-01T00:00:00Z',
+  data_points: 4,
+  updated_at: '2025-03-01T00:00:00Z',
+};
+
+function client(rpc: FakeSupabaseOptions['rpc'] = {}) {
+  return fakeSupabase({
+    tables: {
+      user_baselines: [baseline],
+      profiles: [{ timezone: 'UTC' }],
+    },
+    rpc: { refresh_personal_records: { data: [], error: null }, ...rpc },
+  });
+}
+
+describe('processWorkout re-scoring', () => {
+  it('credits an edited workout with its new total and returns what was kept', async () => {
+    // Edited down from 40 points: credit_workout_points reverses the difference
+    const supabase = client({
+      credit_workout_points: ({ p_points }) => ({ data: p_points, error: null }),
+    });
+
+    const { result, error } = await processWorkout(
+      supabase.client,
+      workout({ points_earned: 40, scored_at: null })
+    );
+
+    const credit = supabase.rpcCalls.find((call) => call.fn === 'credit_workout_points');
+
+    expect(error).toBeNull();
+    expect(credit?.args).toEqual({ p_workout_id: 'workout', p_points: result?.breakdown?.total });
+    expect(result?.points).toBe(result?.breakdown?.total);
+    expect(result?.points).toBeLessThan(40);
+  });
+
+  it('leaves a scored workout alone', async () => {
+    const supabase = client();
+
+    const { result } = await processWorkout(
+      supabase.client,
+      workout({ points_earned: 40, scored_at: '2025-03-12T10:00:00Z' })
+    );
+
+    expect(result?.points).toBe(40);
+    expect(supabase.rpcCalls).toEqual([]);
+  });
+
+  it('returns the error when crediting fails', async () => {
+    const supabase = client({
+      credit_workout_points: { data: null, error: { message: 'Points debt exceeded' } },
+    });
+
+    const { result, error } = await processWorkout(supabase.client, workout({ points_earned: 40 }));
+
+    expect(result).toBeNull();
+    expect(error).toEqual({ message: 'Points debt exceeded' });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { resolveWorkoutReview } from '@/lib/workouts/review';
+import type { UserBaseline, Workout } from '@/types/database';
+import { fakeSupabase } from '@/test/helpers/supabase';
+
+const held: Workout = {
+  id: 'workout',
+  user_id: 'user',
+  workout_date: '2025-03-12',
+  workout_type: 'Running',
+  activity_type: 'running',
+  duration_minutes: 45,
+  distance_km: 8,
+  calories_burned: 500,
+  heart_rate_avg: 150,
+  source: 'manual',
+  external_id: null,
+  raw_data: null,
+  started_at: null,
+  merged_into: null,
+  unmerged_from: null,
+  points_earned: 0,
+  scored_at: '2025-03-12T10:00:00Z',
+  rewards_excluded: false,
+  review_status: 'pending',
+  review_flags: [{ code: 'same_day_duplicate', message: 'Possible duplicate' }],
+  review_note: null,
+  reviewed_at: null,
+  created_at: '2025-03-12T10:00:00Z',
+};
+
+const baseline: UserBaseline = {
+  user_id: 'user',
+  avg_weekly_workouts: 3,
+  avg_workout_duration: 30,
+  avg_weekly_distance: 15,
+  avg_daily_steps: null,
+  baseline_calculated_at: '2025-03-01T00:00:00Z',
+  data_points: 4,
+  updated_at: '2025-03-01T00:00:00Z',
+};
+
+function client(approved: boolean) {
+  const resolved: Workout = {
+    ...held,
+    review_status: approved ? 'approved' : 'rejected',
+    scored_at: approved ? null : held.scored_at,
+    reviewed_at: '2025-03-13T09:00:00Z',
+  };
+
+  return fakeSupabase({
+    tables: { user_baselines: [baseline], profiles: [{ timezone: 'UTC' }] },
+    rpc: {
+      resolve_workout_review: { data: resolved, error: null },
+      credit_workout_points: ({ p_points }) => ({ data: p_points, error: null }),
+      refresh_personal_records: { data: [], error: null },
+    },
+  });
+}
+
+describe('resolveWorkoutReview', () => {
+  it('scores an approved workout', async () => {
+    const supabase = client(true);
+
+    const { workout, error } = await resolveWorkoutReview(supabase.client, 'workout', true);
+    const credit = supabase.rpcCalls.find((call) => call.fn === 'credit_workout_points');
+
+    expect(error).toBeNull();
+    expect(supabase.rpcCalls[0]).toEqual({
+      fn: 'resolve_workout_review',
+      args: { p_workout_id: 'workout', p_approved: true, p_note: null },
+    });
+    expect(credit?.args.p_points).toBeGreaterThan(0);
+    expect(workout?.review_status).toBe('approved');
+    expect(workout?.points_earned).toBe(credit?.args.p_points);
+  });
+
+  it('keeps a rejected workout at zero points', async () => {
+    const supabase = client(false);
+
+    const { workout, error } = await resolveWorkoutReview(
+      supabase.client,
+      'workout',
+      false,
+      'Logged twice'
+    );
+
+    expect(error).toBeNull();
+    expect(supabase.rpcCalls.map((call) => call.fn)).toEqual(['resolve_workout_review']);
+    expect(supabase.rpcCalls[0].args.p_note).toBe('Logged twice');
+    expect(workout?.review_status).toBe('rejected');
+    expect(workout?.points_earned).toBe(0);
+  });
+
+  it('returns the error when the workout is not awaiting review', async () => {
+    const supabase = fakeSupabase({
+      rpc: {
+        resolve_workout_review: {
+          data: null,
+          error: { message: 'Workout workout is not awaiting review' },
+        },
+      },
+    });
+
+    const { workout, error } = await resolveWorkoutReview(supabase.client, 'workout', true);
+
+    expect(workout).toBeNull();
+    expect(error?.message).toMatch(/not awaiting review/);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { activityFor, validateWorkout, type ValidatableWorkout } from '@/lib/workouts/validation';
+
+function workout(overrides: Partial<ValidatableWorkout> = {}): ValidatableWorkout {
+  return {
+    id: 'w1',
+    workout_type: 'Running',
+    duration_minutes: 30,
+    distance_km: 5,
+    heart_rate_avg: null,
+    source: 'manual',
+    ...overrides,
+  };
+}
+
+function codes(subject: ValidatableWorkout, sameDay: ValidatableWorkout[] = []) {
+  return validateWorkout(subject, sameDay).map((flag) => flag.code);
+}
+
+describe('activityFor', () => {
+  it('matches workout types by keyword', () => {
+    expect(activityFor('Morning Run')?.activity).toBe('running');
+    expect(activityFor('mountain biking')?.activity).toBe('cycling');
+    expect(activityFor('Yoga')).toBeNull();
+  });
+});
+
+describe('validateWorkout', () => {
+  it('passes an ordinary workout', () => {
+    expect(validateWorkout(workout(), [])).toEqual([]);
+  });
+
+  it('flags speeds impossible for the activity', () => {
+    expect(codes(workout({ distance_km: 20, duration_minutes: 30 }))).toEqual([
+      'implausible_speed',
+    ]);
+    expect(
+      codes(workout({ workout_type: 'Cycling', distance_km: 20, duration_minutes: 30 }))
+    ).toEqual([]);
+    expect(codes(workout({ workout_type: 'Yoga', distance_km: 20, duration_minutes: 30 }))).toEqual(
+      []
+    );
+  });
+
+  it('flags more than 24 hours of activity in a day', () => {
+    const earlier = workout({
+      id: 'w0',
+      workout_type: 'Yoga',
+      duration_minutes: 1420,
+      distance_km: null,
+    });
+
+    expect(codes(workout({ workout_type: 'Yoga', distance_km: null }), [earlier])).toEqual([
+      'daily_duration_exceeded',
+    ]);
+  });
+
+  it('flags near-duplicates from another source', () => {
+    const synced = workout({
+      id: 'w0',
+      workout_type: 'Run',
+      duration_minutes: 32,
+      distance_km: 5.1,
+      source: 'strava',
+    });
+
+    expect(codes(workout(), [synced])).toEqual(['possible_duplicate']);
+    expect(codes(workout({ source: 'strava' }), [synced])).toEqual([]);
+    expect(codes(workout({ duration_minutes: 60, distance_km: 9 }), [synced])).toEqual([]);
+  });
+
+  it('does not flag a pair the user un-merged', () => {
+    const synced = workout({ id: 'w0', source: 'strava' });
+
+    expect(codes(workout({ unmerged_from: 'w0' }), [synced])).toEqual([]);
+    expect(codes(workout(), [{ ...synced, unmerged_from: 'w1' }])).toEqual([]);
+  });
+
+  it('flags heart rates inconsistent with the duration', () => {
+    expect(codes(workout({ heart_rate_avg: 150 }))).toEqual([]);
+    expect(codes(workout({ heart_rate_avg: 30 }))).toEqual(['implausible_heart_rate']);
+    expect(codes(workout({ heart_rate_avg: 195, duration_minutes: 30 }))).toEqual([]);
+    expect(codes(workout({ heart_rate_avg: 195, duration_minutes: 120, distance_km: 20 }))).toEqual(
+      ['implausible_heart_rate']
+    );
+  });
+
+  it('ignores the workout itself in the same-day list', () => {
+    const subject = workout({ duration_minutes: 1000, distance_km: null });
+
+    expect(codes(subject, [subject])).toEqual([]);
+  });
+});
@@ -1,13 +1,46 @@
 // Database types for LoreFit
 // These match the Supabase schema
 
-export type Json =
-  | string
-  | number
-  | boolean
-  | null
-  | { [key: string]: Json | undefined }
-  | Json[];
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+// Canonical activity types (workouts.activity_type); see lib/fitness/normalizer
+export type WorkoutActivityType =
+  | 'running'
+  | 'walking'
+  | 'hiking'
+  | 'cycling'
+  | 'swimming'
+  | 'rowing'
+  | 'paddling'
+  | 'strength_training'
+  | 'hiit'
+  | 'yoga'
+  | 'pilates'
+  | 'elliptical'
+  | 'stair_climbing'
+  | 'dance'
+  | 'martial_arts'
+  | 'climbing'
+  | 'snow_sports'
+  | 'skating'
+  | 'team_sports'
+  | 'racket_sports'
+  | 'other';
+
+// personal_records.record_type; see lib/gamification/records
+export type PersonalRecordType =
+  | 'longest_distance'
+  | 'longest_duration'
+  | 'fastest_1k'
+  | 'fastest_5k'
+  | 'fastest_10k'
+  | 'fastest_half_marathon'
+  | 'fastest_marathon';
+
+// stories.genre / stories.tone / story_contributions.contribution_type; see lib/stories
+export type StoryGenre = 'fantasy' | 'sci-fi' | 'horror' | 'comedy' | 'mystery' | 'adventure';
+export type StoryTone = 'serious' | 'comedic' | 'dark' | 'lighthearted' | 'chaotic';
+export type StoryContributionType = 'sentence' | 'twist' | 'character' | 'ending';
 
 export interface Database {
   public: {
@@ -22,6 +55,7 @@ export interface Database {
           fitness_level: 'beginner' | 'intermediate' | 'advanced' | null;
           height_cm: number | null;
           weight_kg: number | null;
+          timezone: string;
           created_at: string;
           updated_at: string;
         };
@@ -34,6 +68,7 @@ export interface Database {
           fitness_level?: 'beginner' | 'intermediate' | 'advanced' | null;
           height_cm?: number | null;
           weight_kg?: number | null;
+          timezone?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -46,6 +81,7 @@ export interface Database {
           fitness_level?: 'beginner' | 'intermediate' | 'advanced' | null;
           height_cm?: number | null;
           weight_kg?: number | null;
+          timezone?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -57,8 +93,10 @@ export interface Database {
           total_earned: number;
           total_spent: number;
           level: number;
-          points_history: Json;
           weekly_goal: number;
+          weekly_goal_changed_at: string | null;
+          previous_weekly_goal: number | null;
+          points_debt: number;
           updated_at: string;
         };
         Insert: {
@@ -67,8 +105,10 @@ export interface Database {
           total_earned?: number;
           total_spent?: number;
           level?: number;
-          points_history?: Json;
           weekly_goal?: number;
+          weekly_goal_changed_at?: string | null;
+          previous_weekly_goal?: number | null;
+          points_debt?: number;
           updated_at?: string;
         };
         Update: {
@@ -77,25 +117,199 @@ export interface Database {
           total_earned?: number;
           total_spent?: number;
           level?: number;
-          points_history?: Json;
           weekly_goal?: number;
+          weekly_goal_changed_at?: string | null;
+          previous_weekly_goal?: number | null;
+          points_debt?: number;
           updated_at?: string;
         };
       };
+      point_transactions: {
+        Row: {
+          id: string;
+          user_id: string;
+          transaction_type: 'earned' | 'spent' | 'reversal' | 'refund';
+          amount: number;
+          source: string;
+          description: string;
+          idempotency_key: string | null;
+          balance_after: number;
+          reverses_transaction_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          transaction_type: 'earned' | 'spent' | 'reversal' | 'refund';
+          amount: number;
+          source: string;
+          description?: string;
+          idempotency_key?: string | null;
+          balance_after: number;
+          reverses_transaction_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          transaction_type?: 'earned' | 'spent' | 'reversal' | 'refund';
+          amount?: number;
+          source?: string;
+          description?: string;
+          idempotency_key?: string | null;
+          balance_after?: number;
+          reverses_transaction_id?: string | null;
+          created_at?: string;
+        };
+      };
+      level_ups: {
+        Row: {
+          id: string;
+          user_id: string;
+          level: number;
+          total_earned: number;
+          reached_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          level: number;
+          total_earned: number;
+          reached_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          level?: number;
+          total_earned?: number;
+          reached_at?: string;
+        };
+      };
+      level_perks: {
+        Row: {
+          perk: string;
+          min_level: number;
+          description: string;
+        };
+        Insert: {
+          perk: string;
+          min_level: number;
+          description: string;
+        };
+        Update: {
+          perk?: string;
+          min_level?: number;
+          description?: string;
+        };
+      };
+      weekly_goal_results: {
+        Row: {
+          id: string;
+          user_id: string;
+          week_start: string;
+          goal: number;
+          points_earned: number;
+          met: boolean;
+          transaction_id: string | null;
+          evaluated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          week_start: string;
+          goal: number;
+          points_earned: number;
+          met: boolean;
+          transaction_id?: string | null;
+          evaluated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          week_start?: string;
+          goal?: number;
+          points_earned?: number;
+          met?: boolean;
+          transaction_id?: string | null;
+          evaluated_at?: string;
+        };
+      };
+      streak_freezes: {
+        Row: {
+          id: string;
+          user_id: string;
+          freeze_date: string;
+          transaction_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          freeze_date: string;
+          transaction_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          freeze_date?: string;
+          transaction_id?: string | null;
+          created_at?: string;
+        };
+      };
+      streak_milestones: {
+        Row: {
+          id: string;
+          user_id: string;
+          milestone_days: number;
+          run_start: string;
+          reached_on: string;
+          transaction_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          milestone_days: number;
+          run_start: string;
+          reached_on: string;
+          transaction_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          milestone_days?: number;
+          run_start?: string;
+          reached_on?: string;
+          transaction_id?: string | null;
+          created_at?: string;
+        };
+      };
       workouts: {
         Row: {
           id: string;
           user_id: string;
           workout_date: string;
           workout_type: string;
+          activity_type: WorkoutActivityType;
           duration_minutes: number | null;
           distance_km: number | null;
           calories_burned: number | null;
           heart_rate_avg: number | null;
-          source: 'manual' | 'strava' | 'fitbit';
+          source: 'manual' | 'strava' | 'fitbit' | 'file';
           external_id: string | null;
           raw_data: Json | null;
+          started_at: string | null;
+          merged_into: string | null;
+          unmerged_from: string | null;
           points_earned: number;
+          scored_at: string | null;
+          rewards_excluded: boolean;
+          review_status: 'pending' | 'approved' | 'rejected' | null;
+          review_flags: Json | null;
+          review_note: string | null;
+          reviewed_at: string | null;
           created_at: string;
         };
         Insert: {
@@ -103,14 +317,24 @@ export interface Database {
           user_id: string;
           workout_date: string;
           workout_type: string;
+          activity_type?: WorkoutActivityType;
           duration_minutes?: number | null;
           distance_km?: number | null;
           calories_burned?: number | null;
           heart_rate_avg?: number | null;
-          source: 'manual' | 'strava' | 'fitbit';
+          source: 'manual' | 'strava' | 'fitbit' | 'file';
           external_id?: string | null;
           raw_data?: Json | null;
+          started_at?: string | null;
+          merged_into?: string | null;
+          unmerged_from?: string | null;
           points_earned?: number;
+          scored_at?: string | null;
+          rewards_excluded?: boolean;
+          review_status?: 'pending' | 'approved' | 'rejected' | null;
+          review_flags?: Json | null;
+          review_note?: string | null;
+          reviewed_at?: string | null;
           created_at?: string;
         };
         Update: {
@@ -118,17 +342,91 @@ export interface Database {
           user_id?: string;
           workout_date?: string;
           workout_type?: string;
+          activity_type?: WorkoutActivityType;
           duration_minutes?: number | null;
           distance_km?: number | null;
           calories_burned?: number | null;
           heart_rate_avg?: number | null;
-          source?: 'manual' | 'strava' | 'fitbit';
+          source?: 'manual' | 'strava' | 'fitbit' | 'file';
           external_id?: string | null;
           raw_data?: Json | null;
+          started_at?: string | null;
+          merged_into?: string | null;
+          unmerged_from?: string | null;
           points_earned?: number;
+          scored_at?: string | null;
+          rewards_excluded?: boolean;
+          review_status?: 'pending' | 'approved' | 'rejected' | null;
+          review_flags?: Json | null;
+          review_note?: string | null;
+          reviewed_at?: string | null;
           created_at?: string;
         };
       };
+      workout_efforts: {
+        Row: {
+          workout_id: string;
+          user_id: string;
+          record_type: PersonalRecordType;
+          value: number;
+        };
+        Insert: {
+          workout_id: string;
+          user_id: string;
+          record_type: PersonalRecordType;
+          value: number;
+        };
+        Update: {
+          workout_id?: string;
+          user_id?: string;
+          record_type?: PersonalRecordType;
+          value?: number;
+        };
+      };
+      personal_records: {
+        Row: {
+          id: string;
+          user_id: string;
+          activity_type: WorkoutActivityType;
+          record_type: PersonalRecordType;
+          value: number;
+          workout_id: string;
+          workout_date: string;
+          previous_value: number | null;
+          bonus_points: number;
+          transaction_id: string | null;
+          set_at: string;
+          superseded_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          activity_type: WorkoutActivityType;
+          record_type: PersonalRecordType;
+          value: number;
+          workout_id: string;
+          workout_date: string;
+          previous_value?: number | null;
+          bonus_points?: number;
+          transaction_id?: string | null;
+          set_at?: string;
+          superseded_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          activity_type?: WorkoutActivityType;
+          record_type?: PersonalRecordType;
+          value?: number;
+          workout_id?: string;
+          workout_date?: string;
+          previous_value?: number | null;
+          bonus_points?: number;
+          transaction_id?: string | null;
+          set_at?: string;
+          superseded_at?: string | null;
+        };
+      };
       activity_sync: {
         Row: {
           id: string;
@@ -141,6 +439,10 @@ export interface Database {
           token_expires_at: string | null;
           webhook_id: string | null;
           error_message: string | null;
+          rate_limit_remaining: number | null;
+          rate_limit_resets_at: string | null;
+          next_sync_at: string | null;
+          consecutive_failures: number;
           created_at: string;
           updated_at: string;
         };
@@ -155,6 +457,10 @@ export interface Database {
           token_expires_at?: string | null;
           webhook_id?: string | null;
           error_message?: string | null;
+          rate_limit_remaining?: number | null;
+          rate_limit_resets_at?: string | null;
+          next_sync_at?: string | null;
+          consecutive_failures?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -169,10 +475,101 @@ export interface Database {
           token_expires_at?: string | null;
           webhook_id?: string | null;
           error_message?: string | null;
+          rate_limit_remaining?: number | null;
+          rate_limit_resets_at?: string | null;
+          next_sync_at?: string | null;
+          consecutive_failures?: number;
           created_at?: string;
           updated_at?: string;
         };
       };
+      strava_webhook_events: {
+        Row: {
+          id: string;
+          subscription_id: number;
+          owner_id: number;
+          object_type: 'activity' | 'athlete';
+          object_id: number;
+          aspect_type: 'create' | 'update' | 'delete';
+          updates: Json | null;
+          event_time: number;
+          received_at: string;
+          processed_at: string | null;
+          error_message: string | null;
+        };
+        Insert: {
+          id?: string;
+          subscription_id: number;
+          owner_id: number;
+          object_type: 'activity' | 'athlete';
+          object_id: number;
+          aspect_type: 'create' | 'update' | 'delete';
+          updates?: Json | null;
+          event_time: number;
+          received_at?: string;
+          processed_at?: string | null;
+          error_message?: string | null;
+        };
+        Update: {
+          id?: string;
+          subscription_id?: number;
+          owner_id?: number;
+          object_type?: 'activity' | 'athlete';
+          object_id?: number;
+          aspect_type?: 'create' | 'update' | 'delete';
+          updates?: Json | null;
+          event_time?: number;
+          received_at?: string;
+          processed_at?: string | null;
+          error_message?: string | null;
+        };
+      };
+      oauth_pkce_verifiers: {
+        Row: {
+          nonce: string;
+          user_id: string;
+          provider: 'fitbit';
+          code_verifier_encrypted: string;
+          expires_at: string;
+          created_at: string;
+        };
+        Insert: {
+          nonce: string;
+          user_id: string;
+          provider: 'fitbit';
+          code_verifier_encrypted: string;
+          expires_at: string;
+          created_at?: string;
+        };
+        Update: {
+          nonce?: string;
+          user_id?: string;
+          provider?: 'fitbit';
+          code_verifier_encrypted?: string;
+          expires_at?: string;
+          created_at?: string;
+        };
+      };
+      sync_leases: {
+        Row: {
+          user_id: string;
+          lease_id: string;
+          acquired_at: string;
+          expires_at: string;
+        };
+        Insert: {
+          user_id: string;
+          lease_id: string;
+          acquired_at?: string;
+          expires_at: string;
+        };
+        Update: {
+          user_id?: string;
+          lease_id?: string;
+          acquired_at?: string;
+          expires_at?: string;
+        };
+      };
       user_baselines: {
         Row: {
           user_id: string;
@@ -255,6 +652,204 @@ export interface Database {
           created_at?: string;
         };
       };
+      group_challenges: {
+        Row: {
+          id: string;
+          created_by: string | null;
+          title: string;
+          description: string | null;
+          target_value: number;
+          current_value: number;
+          metric: 'workouts' | 'minutes' | 'distance' | 'calories' | 'points';
+          status: 'active' | 'completed' | 'expired';
+          points_reward: number;
+          starts_at: string;
+          ends_at: string;
+          completed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          created_by?: string | null;
+          title: string;
+          description?: string | null;
+          target_value: number;
+          current_value?: number;
+          metric: 'workouts' | 'minutes' | 'distance' | 'calories' | 'points';
+          status?: 'active' | 'completed' | 'expired';
+          points_reward?: number;
+          starts_at: string;
+          ends_at: string;
+          completed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          created_by?: string | null;
+          title?: string;
+          description?: string | null;
+          target_value?: number;
+          current_value?: number;
+          metric?: 'workouts' | 'minutes' | 'distance' | 'calories' | 'points';
+          status?: 'active' | 'completed' | 'expired';
+          points_reward?: number;
+          starts_at?: string;
+          ends_at?: string;
+          completed_at?: string | null;
+          created_at?: string;
+        };
+      };
+      group_challenge_members: {
+        Row: {
+          id: string;
+          group_challenge_id: string;
+          user_id: string;
+          contribution: number;
+          reward_points: number | null;
+          joined_at: string;
+        };
+        Insert: {
+          id?: string;
+          group_challenge_id: string;
+          user_id: string;
+          contribution?: number;
+          reward_points?: number | null;
+          joined_at?: string;
+        };
+        Update: {
+          id?: string;
+          group_challenge_id?: string;
+          user_id?: string;
+          contribution?: number;
+          reward_points?: number | null;
+          joined_at?: string;
+        };
+      };
+      stories: {
+        Row: {
+          id: string;
+          title: string;
+          author_id: string | null;
+          genre: StoryGenre;
+          tone: StoryTone | null;
+          status: 'draft' | 'active' | 'complete' | 'archived';
+          max_contributions: number;
+          content: string | null;
+          metadata: Json;
+          created_at: string;
+          completed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          title: string;
+          author_id?: string | null;
+          genre: StoryGenre;
+          tone?: StoryTone | null;
+          status?: 'draft' | 'active' | 'complete' | 'archived';
+          max_contributions?: number;
+          content?: string | null;
+          metadata?: Json;
+          created_at?: string;
+          completed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          title?: string;
+          author_id?: string | null;
+          genre?: StoryGenre;
+          tone?: StoryTone | null;
+          status?: 'draft' | 'active' | 'complete' | 'archived';
+          max_contributions?: number;
+          content?: string | null;
+          metadata?: Json;
+          created_at?: string;
+          completed_at?: string | null;
+        };
+      };
+      story_participants: {
+        Row: {
+          id: string;
+          story_id: string;
+          user_id: string;
+          joined_at: string;
+        };
+        Insert: {
+          id?: string;
+          story_id: string;
+          user_id: string;
+          joined_at?: string;
+        };
+        Update: {
+          id?: string;
+          story_id?: string;
+          user_id?: string;
+          joined_at?: string;
+        };
+      };
+      story_contributions: {
+        Row: {
+          id: string;
+          story_id: string;
+          contributor_id: string | null;
+          content: string;
+          position: number;
+          points_spent: number;
+          contribution_type: StoryContributionType;
+          votes_received: number;
+          parent_contribution_id: string | null;
+          transaction_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          story_id: string;
+          contributor_id?: string | null;
+          content: string;
+          position: number;
+          points_spent: number;
+          contribution_type?: StoryContributionType;
+          votes_received?: number;
+          parent_contribution_id?: string | null;
+          transaction_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          story_id?: string;
+          contributor_id?: string | null;
+          content?: string;
+          position?: number;
+          points_spent?: number;
+          contribution_type?: StoryContributionType;
+          votes_received?: number;
+          parent_contribution_id?: string | null;
+          transaction_id?: string | null;
+          created_at?: string;
+        };
+      };
+      contribution_votes: {
+        Row: {
+          id: string;
+          contribution_id: string;
+          voter_id: string;
+          vote_weight: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          contribution_id: string;
+          voter_id: string;
+          vote_weight?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          contribution_id?: string;
+          voter_id?: string;
+          vote_weight?: number;
+          created_at?: string;
+        };
+      };
     };
     Functions: {
       award_points: {
@@ -263,10 +858,13 @@ export interface Database {
           p_amount: number;
           p_source?: string;
           p_description?: string;
+          p_idempotency_key?: string | null;
         };
         Returns: {
           new_balance: number;
           new_total_earned: number;
+          transaction_id: string;
+          already_applied: boolean;
         }[];
       };
       spend_points: {
@@ -275,10 +873,157 @@ export interface Database {
           p_amount: number;
           p_purpose?: string;
           p_description?: string;
+          p_idempotency_key?: string | null;
         };
         Returns: {
           new_balance: number;
           success: boolean;
+          transaction_id: string | null;
+          already_applied: boolean;
+        }[];
+      };
+      reverse_points: {
+        Args: {
+          p_transaction_id: string;
+          p_amount?: number | null;
+          p_description?: string;
+          p_idempotency_key?: string | null;
+        };
+        Returns: {
+          new_balance: number;
+          new_debt: number;
+          transaction_id: string;
+          already_applied: boolean;
+        }[];
+      };
+      reconcile_user_points: {
+        Args: {
+          p_user_id?: string | null;
+          p_apply?: boolean;
+        };
+        Returns: {
+          user_id: string;
+          stored_balance: number;
+          ledger_balance: number;
+          stored_total_earned: number;
+          ledger_total_earned: number;
+          stored_total_spent: number;
+          ledger_total_spent: number;
+          has_drift: boolean;
+        }[];
+      };
+      credit_workout_points: {
+        Args: {
+          p_workout_id: string;
+          p_points: number;
+        };
+        Returns: number;
+      };
+      hold_workout_for_review: {
+        Args: {
+          p_workout_id: string;
+          p_flags: Json;
+        };
+        Returns: number;
+      };
+      resolve_workout_review: {
+        Args: {
+          p_workout_id: string;
+          p_approved: boolean;
+          p_note?: string | null;
+        };
+        Returns: Database['public']['Tables']['workouts']['Row'];
+      };
+      merge_workout: {
+        Args: {
+          p_workout_id: string;
+          p_canonical_id: string;
+        };
+        Returns: boolean;
+      };
+      unmerge_workout: {
+        Args: {
+          p_workout_id: string;
+        };
+        Returns: Database['public']['Tables']['workouts']['Row'];
+      };
+      workout_period_totals: {
+        Args: {
+          p_from: string;
+          p_to: string;
+          p_period?: 'week' | 'month';
+        };
+        Returns: {
+          period_start: string;
+          workouts: number;
+          minutes: number;
+          distance_km: number;
+          calories: number;
+          avg_heart_rate: number | null;
+        }[];
+      };
+      workout_type_totals: {
+        Args: {
+          p_from: string;
+          p_to: string;
+        };
+        Returns: {
+          activity_type: Database['public']['Tables']['workouts']['Row']['activity_type'];
+          workouts: number;
+          minutes: number;
+          distance_km: number;
+          calories: number;
+        }[];
+      };
+      refresh_personal_records: {
+        Args: {
+          p_user_id: string;
+          p_activity_type?: WorkoutActivityType | null;
+          p_workout_id?: string | null;
+          p_bonus?: number;
+        };
+        Returns: Database['public']['Tables']['personal_records']['Row'][];
+      };
+      level_for_points: {
+        Args: {
+          p_total_earned: number;
+        };
+        Returns: number;
+      };
+      has_unlocked_perk: {
+        Args: {
+          p_user_id: string;
+          p_perk: string;
+        };
+        Returns: boolean;
+      };
+      purchase_streak_freeze: {
+        Args: {
+          p_freeze_date: string;
+        };
+        Returns: {
+          freeze_id: string | null;
+          new_balance: number | null;
+          success: boolean;
+          message: string | null;
+        }[];
+      };
+      evaluate_weekly_goal: {
+        Args: {
+          p_user_id: string;
+          p_week_start: string;
+        };
+        Returns: Database['public']['Tables']['weekly_goal_results']['Row'][];
+      };
+      set_weekly_goal: {
+        Args: {
+          p_goal: number;
+        };
+        Returns: {
+          weekly_goal: number;
+          next_change_at: string | null;
+          success: boolean;
+          message: string | null;
         }[];
       };
       check_challenge_completion: {
@@ -291,6 +1036,83 @@ export interface Database {
         Args: Record<string, never>;
         Returns: number;
       };
+      refresh_challenge_progress: {
+        Args: {
+          p_user_id: string;
+          p_metric?: string | null;
+        };
+        Returns: number;
+      };
+      create_group_challenge: {
+        Args: {
+          p_created_by: string;
+          p_title: string;
+          p_description: string | null;
+          p_metric: string;
+          p_target_value: number;
+          p_points_reward: number;
+          p_starts_at: string;
+          p_ends_at: string;
+          p_member_ids: string[];
+        };
+        Returns: string;
+      };
+      refresh_group_challenge: {
+        Args: {
+          p_group_challenge_id: string;
+          p_user_id?: string | null;
+        };
+        Returns: boolean;
+      };
+      refresh_group_challenge_progress: {
+        Args: {
+          p_user_id: string;
+          p_metric?: string | null;
+        };
+        Returns: number;
+      };
+      create_story: {
+        Args: {
+          p_author_id: string;
+          p_title: string;
+          p_genre: StoryGenre;
+          p_tone: StoryTone | null;
+          p_max_contributions: number;
+          p_opening: string | null;
+          p_metadata: Json;
+          p_participant_ids: string[];
+        };
+        Returns: string;
+      };
+      add_story_contribution: {
+        Args: {
+          p_story_id: string;
+          p_content: string;
+          p_contribution_type?: StoryContributionType;
+          p_parent_contribution_id?: string | null;
+        };
+        Returns: {
+          contribution_id: string | null;
+          story_position: number | null;
+          new_balance: number | null;
+          success: boolean;
+          message: string | null;
+        }[];
+      };
+      acquire_sync_lease: {
+        Args: {
+          p_user_id: string;
+          p_lease_seconds: number;
+        };
+        Returns: string | null;
+      };
+      release_sync_lease: {
+        Args: {
+          p_user_id: string;
+          p_lease_id: string;
+        };
+        Returns: boolean;
+      };
     };
   };
 }
@@ -306,7 +1128,22 @@ export type Updates<T extends keyof Database['public']['Tables']> =
 // Specific table types for convenience
 export type Profile = Tables<'profiles'>;
 export type UserPoints = Tables<'user_points'>;
+export type PointTransaction = Tables<'point_transactions'>;
+export type LevelUp = Tables<'level_ups'>;
+export type LevelPerk = Tables<'level_perks'>;
+export type StreakFreeze = Tables<'streak_freezes'>;
+export type StreakMilestone = Tables<'streak_milestones'>;
+export type WeeklyGoalResult = Tables<'weekly_goal_results'>;
 export type Workout = Tables<'workouts'>;
+export type WorkoutEffort = Tables<'workout_efforts'>;
+export type PersonalRecord = Tables<'personal_records'>;
 export type ActivitySync = Tables<'activity_sync'>;
+export type StravaWebhookEvent = Tables<'strava_webhook_events'>;
 export type UserBaseline = Tables<'user_baselines'>;
 export type UserChallenge = Tables<'user_challenges'>;
+export type GroupChallenge = Tables<'group_challenges'>;
+export type GroupChallengeMember = Tables<'group_challenge_members'>;
+export type Story = Tables<'stories'>;
+export type StoryParticipant = Tables<'story_participants'>;
+export type StoryContribution = Tables<'story_contributions'>;
+export type ContributionVote = Tables<'contribution_votes'>;